@@ -0,0 +1,27 @@
+/**
+ * Runtime Configuration - Edit on the deployed site to change settings without rebuilding
+ *
+ * archives: cold storage archives to search together, each a folder with a storage-index.json
+ *   and its encrypted batches. baseUrl is absolute or relative to the page; another origin must
+ *   allow CORS. An archive with its own password is unlocked from the search footer. Without
+ *   archives the build's own cold-storage/ folder is used.
+ * caseReferencesUrl: CSV of case references for imports (default: caseReferences.csv beside the app)
+ * scraperUserAgent: User-Agent sent when importing from the Planning Inspectorate site - name the
+ *   deployment and a contact so the site's operators can reach you
+ * scrapingMode: 'simulate' (generated cases), 'replay' (recorded pages and PDFs) or 'live'
+ *   (default: simulate on localhost, live elsewhere)
+ * scrapingFixturesUrl: folder of recorded pages and PDFs for replay (default: fixtures/scraping/
+ *   beside the app - copy a recorded fixture directory into public/fixtures/scraping/)
+ *
+ * AIDEV-NOTE: Loaded by index.html before the app and read through getEnvironmentConfig()
+ */
+
+window.__DECISION_PARSER_CONFIG__ = {
+  // archives: [
+  //   { id: 'north', name: 'North region', baseUrl: 'cold-storage/north/' },
+  //   { id: 'south', name: 'South region', baseUrl: 'https://static.example.internal/archives/south/' }
+  // ],
+  // caseReferencesUrl: 'https://static.example.internal/caseReferences.csv',
+  // scraperUserAgent: 'DecisionParser/1.0 (North region planning team; planning@example.org)',
+  // scrapingMode: 'replay'
+};
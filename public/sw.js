@@ -0,0 +1,190 @@
+/**
+ * Service Worker - Offline support for the GitHub Pages deployment
+ *
+ * Caches:
+ * - App shell: every file in precache-manifest.json (written by the build), the
+ *   sql-wasm assets and the self-hosted pdf worker, replaced when the build changes
+ * - Cold storage: encrypted batches as they are first fetched, and each archive's
+ *   storage-index.json (archives on another origin are left to the browser cache)
+ * - runtime-config.js is fetched network-first, so edits apply without a new build
+ *
+ * Update flow:
+ * - A new build installs a new shell cache and waits; the page offers a reload
+ *   ('skip-waiting' message), after which old shell caches are deleted
+ * - storage-index.json is fetched network-first. When its lastUpdated changes, cached
+ *   batches whose checksum changed (or that it no longer lists) are deleted and pages
+ *   are told with a 'storage-index-updated' message
+ *
+ * AIDEV-NOTE: Plain JS in public/ so it is served unbundled from the site root
+ * (scope /decision-parser/). Batches are ciphertext, so caching them exposes nothing.
+ */
+
+const SHELL_CACHE_PREFIX = 'decision-parser-shell-';
+const COLD_STORAGE_CACHE = 'decision-parser-cold-storage';
+const STORAGE_INDEX_FILE = 'storage-index.json';
+const RUNTIME_CONFIG_PATH = 'runtime-config.js';
+
+// Fetched whether or not the build lists them (public/ files are not in the bundle)
+const STATIC_SHELL_FILES = ['./', 'index.html', RUNTIME_CONFIG_PATH, 'sql-wasm/sql-wasm.wasm'];
+// The pdf worker is only present when self-hosted (see public/README-pdf-worker.md)
+const OPTIONAL_SHELL_FILES = ['pdf.worker.min.mjs'];
+
+const scopeUrl = new URL(self.registration.scope);
+
+function toScopeUrl(path) {
+  return new URL(path, scopeUrl).href;
+}
+
+async function getPrecacheManifest() {
+  const response = await fetch(toScopeUrl('precache-manifest.json'), { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to load precache manifest: ${response.status}`);
+  }
+  return response.json();
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const manifest = await getPrecacheManifest();
+    const cache = await caches.open(`${SHELL_CACHE_PREFIX}${manifest.version}`);
+
+    await cache.addAll([...STATIC_SHELL_FILES, ...manifest.files].map(toScopeUrl));
+    await Promise.all(OPTIONAL_SHELL_FILES.map(file =>
+      cache.add(toScopeUrl(file)).catch(() => {
+        console.log(`[ServiceWorker] Optional file not available: ${file}`);
+      })
+    ));
+    console.log(`[ServiceWorker] App shell ${manifest.version} cached (${manifest.files.length} files)`);
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const manifest = await getPrecacheManifest().catch(() => null);
+    const currentShell = manifest ? `${SHELL_CACHE_PREFIX}${manifest.version}` : null;
+
+    // Without the manifest (offline) nothing is deleted - the current shell cannot be told apart
+    if (currentShell) {
+      const names = await caches.keys();
+      await Promise.all(names
+        .filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== currentShell)
+        .map(name => caches.delete(name)));
+    }
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'skip-waiting') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== scopeUrl.origin || !url.href.startsWith(scopeUrl.href)) {
+    return;
+  }
+
+  const path = url.pathname.slice(scopeUrl.pathname.length);
+  if (path === STORAGE_INDEX_FILE || path.endsWith(`/${STORAGE_INDEX_FILE}`)) {
+    event.respondWith(fetchStorageIndex(request));
+  } else if (path.startsWith('cold-storage/') || path.endsWith('-encrypted.json')) {
+    event.respondWith(cacheFirst(request, COLD_STORAGE_CACHE));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, toScopeUrl('index.html')));
+  } else if (path === RUNTIME_CONFIG_PATH) {
+    event.respondWith(networkFirst(request, request));
+  } else {
+    event.respondWith(cacheFirst(request, null));
+  }
+});
+
+// Shell caches are searched when cacheName is null; only cold storage is filled on demand
+async function cacheFirst(request, cacheName) {
+  const cached = cacheName
+    ? await (await caches.open(cacheName)).match(request)
+    : await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (cacheName && response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Offline the cached fallback is used - index.html for any route, as the app is a single page
+async function networkFirst(request, fallback) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match(fallback);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+async function fetchStorageIndex(request) {
+  const cache = await caches.open(COLD_STORAGE_CACHE);
+  let response;
+  try {
+    response = await fetch(request, { cache: 'no-cache' });
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+
+  if (response.ok) {
+    const previous = await cache.match(request);
+    await cache.put(request, response.clone());
+    await applyStorageIndexUpdate(cache, request.url, previous, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Drop cached batches a new storage index replaced and tell open pages
+ */
+async function applyStorageIndexUpdate(cache, storageIndexUrl, previousResponse, currentResponse) {
+  if (!previousResponse) {
+    return;
+  }
+
+  try {
+    const previous = await previousResponse.json();
+    const current = await currentResponse.json();
+    if (previous.lastUpdated === current.lastUpdated) {
+      return;
+    }
+
+    // Batch URLs are relative to the storage index they are listed in
+    const toBatchUrl = batch => new URL(batch.url, storageIndexUrl).href;
+    const currentBatches = new Map((current.batches || []).map(batch => [toBatchUrl(batch), batch]));
+    const staleUrls = (previous.batches || [])
+      .filter(batch => {
+        const currentBatch = currentBatches.get(toBatchUrl(batch));
+        // Batches without a checksum are only known to be current by the index update time
+        return !currentBatch || !currentBatch.checksum || currentBatch.checksum !== batch.checksum;
+      })
+      .map(toBatchUrl);
+    await Promise.all(staleUrls.map(url => cache.delete(url)));
+
+    console.log(`[ServiceWorker] Storage index updated to ${current.lastUpdated} (${staleUrls.length} batches replaced)`);
+    const clients = await self.clients.matchAll({ type: 'window' });
+    for (const client of clients) {
+      client.postMessage({ type: 'storage-index-updated', storageIndexUrl, lastUpdated: current.lastUpdated });
+    }
+  } catch (error) {
+    console.warn('[ServiceWorker] Failed to compare storage index versions:', error);
+  }
+}
@@ -12,6 +12,7 @@
 import { readFileSync, existsSync, statSync, readdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { getStorageIndexProblems } from '../src/utils/storageIndexSchema.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -95,8 +96,15 @@ function validateColdStorageAssets() {
   try {
     const indexContent = JSON.parse(readFileSync(indexFile, 'utf8'));
     
-    if (!indexContent.version || !indexContent.metadata) {
-      log('❌ Invalid storage-index.json structure', 'red');
+    const problems = getStorageIndexProblems(indexContent);
+    if (problems.length > 0) {
+      log('❌ Invalid storage-index.json structure:', 'red');
+      problems.forEach(problem => log(`   - ${problem}`, 'red'));
+      return false;
+    }
+
+    if (!indexContent.manifest) {
+      log('❌ storage-index.json is not signed - run the batch scripts to add its manifest', 'red');
       return false;
     }
     
@@ -207,6 +215,41 @@ function validateIndexHTML() {
   return true;
 }
 
+function validateServiceWorker() {
+  const serviceWorkerFile = join(distDir, 'sw.js');
+  const precacheFile = join(distDir, 'precache-manifest.json');
+  
+  if (!existsSync(serviceWorkerFile)) {
+    log('❌ sw.js missing from dist/ (offline support)', 'red');
+    return false;
+  }
+  
+  if (!existsSync(precacheFile)) {
+    log('❌ precache-manifest.json missing from dist/', 'red');
+    return false;
+  }
+  
+  try {
+    const precache = JSON.parse(readFileSync(precacheFile, 'utf8'));
+    // The service worker install fails if any listed file is missing
+    const missingFiles = (precache.files || []).filter(file => !existsSync(join(distDir, file)));
+    
+    if (!precache.version || missingFiles.length > 0) {
+      log(`❌ Invalid precache manifest (${missingFiles.length} missing files)`, 'red');
+      for (const file of missingFiles) {
+        log(`  - ${file}`, 'red');
+      }
+      return false;
+    }
+    
+    log(`✅ Service worker precache valid (${precache.files.length} files, version ${precache.version})`, 'green');
+    return true;
+  } catch (error) {
+    log(`❌ Error reading precache-manifest.json: ${error.message}`, 'red');
+    return false;
+  }
+}
+
 function validateBuildManifest() {
   const manifestFile = join(distDir, '.vite', 'manifest.json');
   
@@ -240,6 +283,7 @@ function validateBuild() {
   allValid &= validateWorkerAssets();
   allValid &= validateAssetSizes();
   allValid &= validateIndexHTML();
+  allValid &= validateServiceWorker();
   allValid &= validateBuildManifest();
   
   log('=====================================', 'blue');
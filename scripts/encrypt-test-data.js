@@ -12,8 +12,10 @@
 import { readFileSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { createHash, randomBytes, pbkdf2, createCipheriv } from 'crypto';
+import { createHash, createHmac, randomBytes, pbkdf2, createCipheriv } from 'crypto';
 import { promisify } from 'util';
+import { CORPUS_STATS_VERSION, FACETS_VERSION, buildCorpusStats, buildFacets, buildSearchIndex, normaliseKeywords } from '../src/utils/searchIndex.js';
+import { MANIFEST_ALGORITHM, MANIFEST_KEY_ITERATIONS, STORAGE_INDEX_VERSION, assertValidStorageIndex, getManifestPayload } from '../src/utils/storageIndexSchema.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -46,6 +48,18 @@ class NodeEncryptionService {
     return randomBytes(length);
   }
 
+  /**
+   * AES-GCM encrypt a UTF-8 string, returning ciphertext with the auth tag appended (WebCrypto layout)
+   */
+  encryptWithKey(key, iv, plaintext) {
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    
+    let encrypted = cipher.update(plaintext, 'utf8');
+    encrypted = Buffer.concat([encrypted, cipher.final()]);
+    
+    return Buffer.concat([encrypted, cipher.getAuthTag()]);
+  }
+
   /**
    * Encrypt batch data for cold storage
    */
@@ -61,18 +75,13 @@ class NodeEncryptionService {
       // Derive encryption key
       const key = await this.deriveKey(password, salt);
       
-      // Create AES-GCM cipher
-      const cipher = createCipheriv('aes-256-gcm', key, iv);
-      
-      // Encrypt the data
-      let encrypted = cipher.update(plaintext, 'utf8');
-      encrypted = Buffer.concat([encrypted, cipher.final()]);
-      
-      // Get the authentication tag
-      const authTag = cipher.getAuthTag();
+      // Encrypt the data (auth tag appended)
+      const encryptedWithTag = this.encryptWithKey(key, iv, plaintext);
       
-      // Combine encrypted data with auth tag
-      const encryptedWithTag = Buffer.concat([encrypted, authTag]);
+      // Build and encrypt the inverted search index with the same key and its own IV
+      const indexIv = this.generateRandomBytes(this.ivLength);
+      const searchIndex = buildSearchIndex(batchData.documents || []);
+      const encryptedIndex = this.encryptWithKey(key, indexIv, JSON.stringify(searchIndex));
       
       // Calculate checksum for integrity verification
       const checksum = this.calculateChecksum(encryptedWithTag);
@@ -84,6 +93,10 @@ class NodeEncryptionService {
         salt: salt.toString('base64'),
         iv: iv.toString('base64'),
         data: encryptedWithTag.toString('base64'),
+        index: {
+          iv: indexIv.toString('base64'),
+          data: encryptedIndex.toString('base64')
+        },
         checksum: checksum,
         metadata: {
           batchId: batchData.metadata?.batchId || 'unknown',
@@ -99,6 +112,38 @@ class NodeEncryptionService {
     }
   }
 
+  /**
+   * Encrypt a standalone JSON payload (e.g. storage index corpus statistics) under its own salt
+   */
+  async encryptPayload(payload, password) {
+    const salt = this.generateRandomBytes(this.saltLength);
+    const iv = this.generateRandomBytes(this.ivLength);
+    const key = await this.deriveKey(password, salt);
+    const encryptedWithTag = this.encryptWithKey(key, iv, JSON.stringify(payload));
+
+    return {
+      algorithm: 'AES-GCM',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      data: encryptedWithTag.toString('base64')
+    };
+  }
+
+  /**
+   * Sign the storage index manifest (HMAC-SHA256 keyed from the password, as verified by the worker)
+   */
+  async signStorageIndex(storageIndex, password) {
+    const salt = this.generateRandomBytes(this.saltLength);
+    const key = await pbkdf2Async(password, salt, MANIFEST_KEY_ITERATIONS, this.keyLength, 'sha256');
+    const signature = createHmac('sha256', key).update(getManifestPayload(storageIndex), 'utf8').digest('hex');
+
+    return {
+      algorithm: MANIFEST_ALGORITHM,
+      salt: salt.toString('base64'),
+      signature
+    };
+  }
+
   /**
    * Calculate SHA-256 checksum for integrity verification
    */
@@ -118,6 +163,7 @@ async function encryptTestData() {
   try {
     const testDataPath = join(projectRoot, 'public', 'cold-storage', 'test-batch-001.json');
     const encryptedDataPath = join(projectRoot, 'public', 'cold-storage', 'test-batch-001-encrypted.json');
+    const storageIndexPath = join(projectRoot, 'public', 'cold-storage', 'storage-index.json');
     
     // Read the unencrypted test data
     console.log('📖 Reading test data from:', testDataPath);
@@ -137,11 +183,45 @@ async function encryptTestData() {
     console.log('💾 Writing encrypted data to:', encryptedDataPath);
     writeFileSync(encryptedDataPath, JSON.stringify(encryptedBatch, null, 2));
     
+    // Store encrypted corpus statistics so BM25 scores are comparable across batches,
+    // and encrypted facets so filter dropdowns need no batch decryption
+    console.log('📈 Updating corpus statistics and facets in:', storageIndexPath);
+    const searchIndex = buildSearchIndex(testData.documents || []);
+    const corpusStats = buildCorpusStats([searchIndex]);
+    const storageIndex = JSON.parse(readFileSync(storageIndexPath, 'utf8'));
+    const testBatch = (storageIndex.batches || []).find(batch => batch.url?.endsWith('test-batch-001-encrypted.json'));
+    const facets = buildFacets([searchIndex], [testBatch?.batchId]);
+    storageIndex.corpusStats = {
+      version: CORPUS_STATS_VERSION,
+      ...(await encryptionService.encryptPayload(corpusStats, testPassword))
+    };
+    storageIndex.facets = {
+      version: FACETS_VERSION,
+      ...(await encryptionService.encryptPayload(facets, testPassword))
+    };
+    // Keywords are compared by normalised form - drop spellings of the same term.
+    // The checksum tells browsers their kept copy of the batch is outdated.
+    for (const batch of storageIndex.batches || []) {
+      batch.keywords = normaliseKeywords(batch.keywords);
+      if (batch.url?.endsWith('test-batch-001-encrypted.json')) {
+        batch.checksum = encryptedBatch.checksum;
+      }
+    }
+    storageIndex.version = STORAGE_INDEX_VERSION;
+    storageIndex.lastUpdated = new Date().toISOString();
+    // Signed last - the manifest covers the final batch list and update time
+    assertValidStorageIndex(storageIndex);
+    storageIndex.manifest = await encryptionService.signStorageIndex(storageIndex, testPassword);
+    writeFileSync(storageIndexPath, JSON.stringify(storageIndex, null, 2) + '\n');
+    
     // Display results
     console.log('✅ Encryption completed successfully!');
     console.log(`📊 Original size: ${encryptedBatch.metadata.originalSize} bytes`);
     console.log(`📊 Encrypted size: ${encryptedBatch.metadata.encryptedSize} bytes`);
     console.log(`📊 Document count: ${encryptedBatch.metadata.documentCount}`);
+    console.log(`📇 Search index size: ${encryptedBatch.index.data.length} bytes (base64)`);
+    console.log(`📈 Corpus statistics: ${corpusStats.documentCount} documents, ${Object.keys(corpusStats.documentFrequencies).length} terms`);
+    console.log(`🏷️  Facets: ${Object.values(facets.fields).reduce((sum, values) => sum + Object.keys(values).length, 0)} distinct filter values`);
     console.log(`🔑 Checksum: ${encryptedBatch.checksum.substring(0, 16)}...`);
     
   } catch (error) {
@@ -56,7 +56,7 @@ async function initializeApplication() {
     ];
 
     router = createRouter({
-      history: createWebHistory('/decision-parser/'),
+      history: createWebHistory(import.meta.env.BASE_URL),
       routes
     });
 
@@ -109,7 +109,7 @@ async function initializeApplication() {
       ];
 
       const fallbackRouter = createRouter({
-        history: createWebHistory('/decision-parser/'),
+        history: createWebHistory(import.meta.env.BASE_URL),
         routes: fallbackRoutes
       });
 
@@ -10,14 +10,21 @@
 
 import { AppealImportOrchestrator } from './AppealImportOrchestrator.js';
 import { HttpClient } from './scraping/HttpClient.js';
+import { FixtureHttpClient, FileSystemFixtureStore, UrlFixtureStore } from './scraping/FixtureHttpClient.js';
 import { PDFProcessor } from './scraping/PDFProcessor.js';
 import { WebScraper } from './scraping/WebScraper.js';
 import { EnvironmentDetector } from './scraping/EnvironmentDetector.js';
 import { SimulationService } from './scraping/SimulationService.js';
 import { ProgressTracker } from './scraping/ProgressTracker.js';
+import { PublishedCaseReferenceProvider } from './scraping/CaseReferenceProviders.js';
+import { ImportJournal } from '../utils/importJournal.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { getEnvironmentConfig } from '../utils/environment.js';
 
 import type { 
   IAppealImportOrchestrator,
+  IFixtureStore,
+  IHttpClient,
   ScrapingConfig
 } from './scraping/interfaces.js';
 
@@ -28,9 +35,11 @@ export class AppealImportFactory {
    */
   static createAppealImportService(config: Partial<ScrapingConfig> = {}): IAppealImportOrchestrator {
     // Create core infrastructure services
-    const httpClient = new HttpClient(config.timeoutMs);
     const environmentDetector = new EnvironmentDetector();
+    const httpClient = AppealImportFactory.createHttpClient(config, environmentDetector);
     const progressTracker = new ProgressTracker();
+    const importJournal = new ImportJournal();
+    const caseReferenceProvider = new PublishedCaseReferenceProvider();
     
     // Create domain services
     const pdfProcessor = new PDFProcessor(httpClient);
@@ -44,6 +53,8 @@ export class AppealImportFactory {
       environmentDetector,
       simulationService,
       progressTracker,
+      importJournal,
+      caseReferenceProvider,
       config
     );
     
@@ -59,6 +70,8 @@ export class AppealImportFactory {
     environmentDetector: any,
     simulationService: any,
     progressTracker: any,
+    importJournal: any,
+    caseReferenceProvider: any,
     config: Partial<ScrapingConfig> = {}
   ): IAppealImportOrchestrator {
     return new AppealImportOrchestrator(
@@ -67,6 +80,8 @@ export class AppealImportFactory {
       environmentDetector,
       simulationService,
       progressTracker,
+      importJournal,
+      caseReferenceProvider,
       config
     );
   }
@@ -75,9 +90,11 @@ export class AppealImportFactory {
    * Create individual services for custom composition
    */
   static createServices(config: Partial<ScrapingConfig> = {}) {
-    const httpClient = new HttpClient(config.timeoutMs);
     const environmentDetector = new EnvironmentDetector();
+    const httpClient = AppealImportFactory.createHttpClient(config, environmentDetector);
     const progressTracker = new ProgressTracker();
+    const importJournal = new ImportJournal();
+    const caseReferenceProvider = new PublishedCaseReferenceProvider();
     const pdfProcessor = new PDFProcessor(httpClient);
     const webScraper = new WebScraper(httpClient, environmentDetector);
     const simulationService = new SimulationService();
@@ -86,9 +103,48 @@ export class AppealImportFactory {
       httpClient,
       environmentDetector,
       progressTracker,
+      importJournal,
+      caseReferenceProvider,
       pdfProcessor,
       webScraper,
       simulationService
     };
   }
+
+  /**
+   * HTTP client for the detected scraping mode: recorded fixtures when replaying, otherwise the
+   * live site paced by the scraping config - rateLimitMs sets the steady request rate and
+   * concurrencyLimit caps the adaptive number of requests in flight. Live responses are saved
+   * as fixtures too when SCRAPING_RECORD_FIXTURES is set.
+   */
+  static createHttpClient(
+    config: Partial<ScrapingConfig> = {},
+    environmentDetector: EnvironmentDetector = new EnvironmentDetector()
+  ): IHttpClient {
+    const mode = environmentDetector.getScrapingMode();
+    if (mode === 'replay') {
+      return new FixtureHttpClient(AppealImportFactory.createFixtureStore(environmentDetector), 'replay');
+    }
+
+    const rateLimiter = new RateLimiter({
+      requestsPerSecond: 1000 / Math.max(1, config.rateLimitMs ?? 200),
+      maxConcurrency: config.concurrencyLimit ?? 10
+    });
+    const httpClient = new HttpClient({ timeoutMs: config.timeoutMs, userAgent: config.userAgent, rateLimiter });
+
+    if (mode === 'live' && getEnvironmentConfig().recordScrapingFixtures) {
+      return new FixtureHttpClient(AppealImportFactory.createFixtureStore(environmentDetector), 'record', httpClient);
+    }
+    return httpClient;
+  }
+
+  /**
+   * Fixture directory in Node.js (SCRAPING_FIXTURES_DIR), the served fixture folder in the browser
+   */
+  static createFixtureStore(environmentDetector: EnvironmentDetector = new EnvironmentDetector()): IFixtureStore {
+    const envConfig = getEnvironmentConfig();
+    return environmentDetector.isNodeJS()
+      ? new FileSystemFixtureStore(envConfig.scrapingFixturesDir)
+      : new UrlFixtureStore(envConfig.scrapingFixturesUrl);
+  }
 }
\ No newline at end of file
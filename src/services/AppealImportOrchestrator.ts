@@ -14,11 +14,27 @@ import type {
   IEnvironmentDetector,
   ISimulationService,
   IProgressTracker,
+  IImportJournal,
+  ICaseReferenceProvider,
   AppealCaseData,
   ScrapingConfig,
   ProcessingProgress,
-  FailedCase
+  FailedCase,
+  ImportRun,
+  ImportRunOptions,
+  ImportRunSummary,
+  KnownCases
 } from './scraping/interfaces.js';
+import { createImportRun, getPendingCaseIds, recordImportBatch, summariseImportRun } from '@/utils/importJournal.js';
+import { selectCasesToImport } from '@/utils/incrementalImport.js';
+import { isRetryableRequestError } from './scraping/HttpClient.js';
+
+interface BatchOutcome {
+  results: AppealCaseData[];
+  completedCaseIds: string[];
+  // retryable: failed on a transient error (timeout, network, server) - the next resume tries again
+  failedCases: Array<FailedCase & { retryable: boolean }>;
+}
 
 export class AppealImportOrchestrator implements IAppealImportOrchestrator {
   private config: ScrapingConfig;
@@ -27,10 +43,13 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
   private environmentDetector: IEnvironmentDetector;
   private simulationService: ISimulationService;
   private progressTracker: IProgressTracker;
+  private importJournal: IImportJournal;
+  private caseReferenceProvider: ICaseReferenceProvider;
   
   private isImporting: boolean = false;
   private shouldCancel: boolean = false;
   private coldStorageCallback: ((documents: AppealCaseData[]) => Promise<void>) | null = null;
+  private knownCasesProvider: (() => Promise<KnownCases>) | null = null;
   private failedCases: FailedCase[] = [];
 
   constructor(
@@ -39,6 +58,8 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
     environmentDetector: IEnvironmentDetector,
     simulationService: ISimulationService,
     progressTracker: IProgressTracker,
+    importJournal: IImportJournal,
+    caseReferenceProvider: ICaseReferenceProvider,
     config: Partial<ScrapingConfig> = {}
   ) {
     this.webScraper = webScraper;
@@ -46,6 +67,8 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
     this.environmentDetector = environmentDetector;
     this.simulationService = simulationService;
     this.progressTracker = progressTracker;
+    this.importJournal = importJournal;
+    this.caseReferenceProvider = caseReferenceProvider;
     
     this.config = {
       concurrencyLimit: 10,
@@ -61,16 +84,34 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
     this.config = { ...this.config, ...config };
   }
 
-  enableColdStorageMode(callback: (documents: AppealCaseData[]) => Promise<void>): void {
+  /**
+   * Hand imported batches to cold storage
+   *
+   * @param getKnownCases - cases the target archive already holds, for incremental imports
+   */
+  enableColdStorageMode(
+    callback: (documents: AppealCaseData[]) => Promise<void>,
+    getKnownCases?: () => Promise<KnownCases>
+  ): void {
     this.coldStorageCallback = callback;
+    this.knownCasesProvider = getKnownCases || null;
     console.log('[AppealImportOrchestrator] Cold storage mode enabled');
   }
 
   disableColdStorageMode(): void {
     this.coldStorageCallback = null;
+    this.knownCasesProvider = null;
     console.log('[AppealImportOrchestrator] Cold storage mode disabled');
   }
 
+  /**
+   * Where the next fresh import gets its case ids (resumed runs keep their journalled list)
+   */
+  setCaseReferenceProvider(provider: ICaseReferenceProvider): void {
+    this.caseReferenceProvider = provider;
+    console.log(`[AppealImportOrchestrator] Case references from ${provider.description}`);
+  }
+
   onProgress(callback: (progress: ProcessingProgress) => void): void {
     this.progressTracker.onProgress(callback);
   }
@@ -84,7 +125,20 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
     return this.isImporting;
   }
 
-  async downloadAllCases(): Promise<void> {
+  /**
+   * Interrupted import that downloadAllCases({ resume: true }) would continue, if any
+   */
+  async getResumableImport(): Promise<ImportRunSummary | null> {
+    const run = await this.importJournal.getResumableRun();
+    return run ? summariseImportRun(run) : null;
+  }
+
+  /**
+   * Import every case reference, or with resume the pending cases of the last interrupted run
+   * AIDEV-NOTE: The journal is checkpointed after each saved batch, so a closed tab loses at most
+   * the batch in progress. An incremental run journals only the cases it chose to fetch.
+   */
+  async downloadAllCases(options: ImportRunOptions = {}): Promise<void> {
     if (this.isImporting) {
       throw new Error('Import already in progress');
     }
@@ -92,16 +146,19 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
     this.isImporting = true;
     this.shouldCancel = false;
     this.failedCases = [];
+    let run: ImportRun | null = null;
 
     try {
       console.log('🚀 Starting Appeal Import Orchestrator...');
       
-      // Log environment mode
-      const isLocal = this.environmentDetector.isLocalDevelopment();
-      console.log(`🌍 Environment: ${isLocal ? 'Local Development (Simulation Mode)' : 'Production (Web Scraping Mode)'}`);
+      // Log scraping mode
+      const scrapingMode = this.environmentDetector.getScrapingMode();
+      console.log(`🌍 Environment: ${this.environmentDetector.isLocalDevelopment() ? 'Local Development' : 'Production'} (${scrapingMode} mode)`);
       
-      if (isLocal) {
+      if (scrapingMode === 'simulate') {
         console.log('📝 Using simulated data to avoid CORS issues during development');
+      } else if (scrapingMode === 'replay') {
+        console.log('📼 Parsing recorded case pages and PDFs offline');
       } else {
         console.log('🌐 Using real web scraping for production data collection');
       }
@@ -110,9 +167,32 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
       await this.pdfProcessor.initialize();
       console.log('✅ PDF processor initialized');
 
-      // Get case references
-      const caseIds = await this.getCaseReferences();
-      console.log(`📋 Loaded ${caseIds.length} case references`);
+      // Get case references (or what the interrupted run had left)
+      let caseIds: string[];
+      if (options.resume) {
+        run = await this.importJournal.getResumableRun();
+        if (!run) {
+          throw new Error('There is no interrupted import to resume');
+        }
+        caseIds = getPendingCaseIds(run);
+        run = { ...run, status: 'running' };
+        console.log(`⏯️  Resuming import ${run.runId}: ${caseIds.length} of ${run.caseIds.length} cases pending`);
+      } else {
+        caseIds = await this.getCaseReferences();
+        console.log(`📋 Loaded ${caseIds.length} case references`);
+        if (options.incremental) {
+          caseIds = await this.selectIncrementalCases(caseIds);
+        }
+        if (options.limit !== undefined && caseIds.length > options.limit) {
+          console.log(`✂️  Sample import: first ${options.limit} of ${caseIds.length} cases`);
+          caseIds = caseIds.slice(0, options.limit);
+        }
+        run = createImportRun(caseIds, this.config.batchSize);
+      }
+      await this.importJournal.saveRun(run);
+      if (!options.resume) {
+        await this.importJournal.supersedeRuns(run.runId);
+      }
 
       // Configure progress tracker
       const totalBatches = Math.ceil(caseIds.length / this.config.batchSize);
@@ -121,26 +201,39 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
       console.log(`🎯 Processing ${caseIds.length} cases in ${totalBatches} batches of ${this.config.batchSize}`);
       console.log(`⚙️  Concurrency: ${this.config.concurrencyLimit}, Rate limit: ${this.config.rateLimitMs}ms`);
 
-      // Process cases in batches
+      // Process cases in batches (a resumed run numbers its batches after the last one saved)
+      const firstBatchNumber = run.lastSavedBatch + 1;
       for (let i = 0; i < caseIds.length; i += this.config.batchSize) {
         if (this.shouldCancel) {
           console.log('🛑 Import cancelled by user');
           break;
         }
 
-        const batchNumber = Math.floor(i / this.config.batchSize) + 1;
-        this.progressTracker.setCurrentBatch(batchNumber);
+        const batchIndex = Math.floor(i / this.config.batchSize);
+        const batchNumber = firstBatchNumber + batchIndex;
+        this.progressTracker.setCurrentBatch(batchIndex + 1);
 
         const batchCaseIds = caseIds.slice(i, i + this.config.batchSize);
-        console.log(`\n🔄 Processing batch ${batchNumber}/${totalBatches} (${batchCaseIds.length} cases)`);
+        console.log(`\n🔄 Processing batch ${batchIndex + 1}/${totalBatches} (${batchCaseIds.length} cases)`);
 
-        const batchResults = await this.processBatch(batchCaseIds);
+        const batch = await this.processBatch(batchCaseIds);
 
-        if (batchResults.length > 0) {
-          await this.saveBatch(batchResults, batchNumber);
+        if (batch.results.length > 0) {
+          await this.saveBatch(batch.results, batchNumber);
         }
+
+        run = recordImportBatch(
+          run,
+          batch.results.length > 0 ? batchNumber : null,
+          batch.completedCaseIds,
+          batch.failedCases.map(({ caseId, error, timestamp, retryable }) => ({ caseId, error, timestamp, retryable }))
+        );
+        await this.importJournal.saveRun(run);
       }
 
+      run = { ...run, status: this.shouldCancel ? 'cancelled' : 'complete', updatedAt: new Date().toISOString() };
+      await this.importJournal.saveRun(run);
+
       // Save failed cases log
       await this.saveFailedCasesLog();
 
@@ -158,97 +251,115 @@ export class AppealImportOrchestrator implements IAppealImportOrchestrator {
 
     } catch (error) {
       console.error('💥 Fatal error:', error instanceof Error ? error.message : 'Unknown error');
+      // Saved batches stay completed - the rest can be resumed
+      if (run) {
+        await this.importJournal.saveRun({ ...run, status: 'failed', updatedAt: new Date().toISOString() });
+      }
       throw error;
     } finally {
       this.isImporting = false;
     }
   }
 
-  private async getCaseReferences(): Promise<string[]> {
-    try {
-      // Fetch CSV file from public directory
-      const response = await fetch('/decision-parser/caseReferences.csv');
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch case references: ${response.status} ${response.statusText}`);
-      }
-      
-      const csvContent = await response.text();
-      
-      // Parse CSV content - each line is a case ID
-      const caseIds = csvContent
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 0)
-        .filter(line => !isNaN(Number(line))) // Ensure it's a valid number
-        .slice(0, this.config.batchSize); // Respect configured batch size
-      
-      console.log(`[AppealImportOrchestrator] Loaded ${caseIds.length} case references from CSV file`);
+  /**
+   * Drop candidates the archive already holds with a final status
+   */
+  private async selectIncrementalCases(caseIds: string[]): Promise<string[]> {
+    if (!this.knownCasesProvider) {
+      console.warn('[AppealImportOrchestrator] Incremental import needs cold storage mode - importing every case');
       return caseIds;
-    } catch (error) {
-      throw new Error(`Failed to load case references: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }
 
-  private async processBatch(caseIds: string[]): Promise<AppealCaseData[]> {
-    const results: AppealCaseData[] = [];
+    const selection = selectCasesToImport(caseIds, await this.knownCasesProvider());
+    console.log(`🔁 Incremental import: ${selection.newCaseIds.length} new, ${selection.refreshedCaseIds.length} still open, ${selection.skippedCaseIds.length} skipped as final`);
+    return selection.caseIds;
+  }
 
-    for (let i = 0; i < caseIds.length; i += this.config.concurrencyLimit) {
-      if (this.shouldCancel) break;
+  private async getCaseReferences(): Promise<string[]> {
+    let caseIds: string[];
+    try {
+      caseIds = await this.caseReferenceProvider.getCaseReferences();
+    } catch (error) {
+      throw new Error(`Failed to load case references from ${this.caseReferenceProvider.description}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-      const batch = caseIds.slice(i, i + this.config.concurrencyLimit);
+    if (caseIds.length === 0) {
+      throw new Error(`No case ids found in ${this.caseReferenceProvider.description}`);
+    }
+    return caseIds;
+  }
 
-      const batchPromises = batch.map(async (caseId) => {
+  /**
+   * Scrape a batch of cases, starting the next one as soon as any case finishes
+   *
+   * AIDEV-NOTE: concurrencyLimit cases run at once - the HTTP client's rate limiter caps its
+   * requests in flight at the same number and adapts below it, so the limiter always has a case
+   * waiting and one slow case never holds up the others. Cancelling stops new cases from starting.
+   */
+  private async processBatch(caseIds: string[]): Promise<BatchOutcome> {
+    const outcome: BatchOutcome = { results: [], completedCaseIds: [], failedCases: [] };
+    // Kept in batch order whatever order the cases finish in
+    const caseResults: Array<AppealCaseData | null> = new Array(caseIds.length).fill(null);
+    let nextCase = 0;
+
+    const runCases = async () => {
+      while (nextCase < caseIds.length && !this.shouldCancel) {
+        const position = nextCase++;
+        const caseId = caseIds[position];
         this.progressTracker.setCurrentCase(caseId);
         this.progressTracker.logProgress();
 
         try {
-          const caseData = await this.processCase(caseId);
+          caseResults[position] = await this.processCase(caseId);
           this.progressTracker.incrementProcessed();
-          return caseData;
         } catch (error) {
           this.progressTracker.incrementFailed();
 
+          const retryable = isRetryableRequestError(error);
           const failedCase: FailedCase = {
             caseId,
             url: `https://acp.planninginspectorate.gov.uk/ViewCase.aspx?CaseID=${caseId}`,
             error: error instanceof Error ? error.message : 'Unknown error',
             timestamp: new Date().toISOString(),
-            retryCount: this.config.maxRetries
+            retryCount: retryable ? this.config.maxRetries : 0
           };
 
           this.failedCases.push(failedCase);
+          outcome.failedCases.push({ ...failedCase, retryable });
           console.error(`  Failed to process case ${caseId}: ${failedCase.error}`);
-
-          return null;
         }
-      });
+      }
+    };
 
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults.filter((result): result is AppealCaseData => result !== null));
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(this.config.concurrencyLimit, caseIds.length)) }, runCases));
 
-      this.progressTracker.logProgress();
-    }
+    caseResults.forEach((caseData, position) => {
+      if (caseData) {
+        outcome.results.push(caseData);
+        outcome.completedCaseIds.push(caseIds[position]);
+      }
+    });
+    this.progressTracker.logProgress();
 
-    return results;
+    return outcome;
   }
 
   private async processCase(caseId: string, retryCount = 0): Promise<AppealCaseData> {
     const url = `https://acp.planninginspectorate.gov.uk/ViewCase.aspx?CaseID=${caseId}`;
 
     try {
-      // Add rate limiting
-      await new Promise(resolve => setTimeout(resolve, this.config.rateLimitMs));
-
-      // Environment-aware processing
-      if (this.environmentDetector.isLocalDevelopment()) {
+      // Mode-aware processing (live requests are paced by the HTTP client's rate limiter, replayed
+      // fixtures go through the same scraper and PDF processor)
+      if (this.environmentDetector.getScrapingMode() === 'simulate') {
+        await new Promise(resolve => setTimeout(resolve, this.config.rateLimitMs));
         return this.simulationService.generateSimulatedCase(caseId, url);
       } else {
         return await this.processProductionCase(caseId, url);
       }
 
     } catch (error) {
-      if (retryCount < this.config.maxRetries) {
+      // A missing case (404) fails at once - retrying cannot bring it back
+      if (retryCount < this.config.maxRetries && isRetryableRequestError(error)) {
         console.log(`  Retrying case ${caseId} (attempt ${retryCount + 1}/${this.config.maxRetries})`);
         // Exponential backoff
         await new Promise(resolve => setTimeout(resolve, this.config.rateLimitMs * Math.pow(2, retryCount)));
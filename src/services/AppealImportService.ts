@@ -1,13 +1,17 @@
 /**
  * Appeal Import Service - Integration layer for appeal decision letter imports
  * 
- * Coordinates between AppealDecisionLetterDownloader, data transformation,
+ * Coordinates between AppealImportOrchestrator, data transformation,
  * validation, and cold storage for seamless import operations.
  * 
  * AIDEV-NOTE: Direct cold storage integration service for appeal case imports
  */
 
-import { AppealDecisionLetterDownloader } from '../utils/appealDecisionLetterDownloader';
+import { AppealImportFactory } from './AppealImportFactory';
+import { createCaseReferenceProvider } from './scraping/CaseReferenceProviders';
+import type { IAppealImportOrchestrator, ProcessingProgress } from './scraping/interfaces';
+import { ImportJournal, summariseImportRun, type ImportRunSummary } from '../utils/importJournal';
+import type { CaseReferenceSource } from '../utils/caseReferences';
 import { transformAppealCaseBatch, createColdStorageBatch, type AppealCaseData, type ColdStorageDocument } from '../utils/appealDataTransformer';
 import { validateAppealCaseBatch } from '../utils/dataValidator';
 import { logger, logImport, logTransform, logColdStorage } from '../utils/logger';
@@ -31,9 +35,11 @@ interface ImportStats {
 }
 
 export class AppealImportService {
-  private downloader: AppealDecisionLetterDownloader | null = null;
+  private orchestrator: IAppealImportOrchestrator | null = null;
+  private importJournal = new ImportJournal();
   private coldStorageService: any = null;
   private isImporting: boolean = false;
+  private cancelRequested: boolean = false;
   private importStats: ImportStats = {
     totalDownloaded: 0,
     totalTransformed: 0,
@@ -274,6 +280,14 @@ export class AppealImportService {
     }, 'AppealImportService');
   }
 
+  /**
+   * Interrupted import that startImport({ resume: true }) would continue, if any
+   */
+  async getResumableImport(): Promise<ImportRunSummary | null> {
+    const run = await this.importJournal.getResumableRun();
+    return run ? summariseImportRun(run) : null;
+  }
+
   /**
    * Start appeal cases import
    */
@@ -281,6 +295,14 @@ export class AppealImportService {
     batchSize?: number;
     concurrencyLimit?: number;
     useFileSystem?: boolean;
+    // Continue the last interrupted import with its pending cases
+    resume?: boolean;
+    // Only fetch cases the archive lacks or holds with a status that may still change
+    incremental?: boolean;
+    // Where a fresh import gets its case ids (the published case list by default)
+    caseSource?: CaseReferenceSource;
+    // Import at most this many cases (sample imports)
+    limit?: number;
   } = {}): Promise<ImportStats> {
     if (this.isImporting) {
       throw new Error('Import already in progress');
@@ -289,7 +311,11 @@ export class AppealImportService {
     const {
       batchSize = 50,
       concurrencyLimit = 5,
-      useFileSystem = false // false = cold storage mode, true = legacy file system mode
+      useFileSystem = false, // false = cold storage mode, true = legacy file system mode
+      resume = false,
+      incremental = false,
+      caseSource = { type: 'published' },
+      limit
     } = options;
 
     const importTimer = logger.startTimer('appeal-cases-import');
@@ -298,10 +324,15 @@ export class AppealImportService {
       batchSize,
       concurrencyLimit,
       useFileSystem,
+      resume,
+      incremental,
+      caseSource: caseSource.type,
+      limit,
       coldStorageAvailable: this.coldStorageService ? true : false
     }, 'AppealImportService');
 
     this.isImporting = true;
+    this.cancelRequested = false;
     this.importStats = {
       totalDownloaded: 0,
       totalTransformed: 0,
@@ -313,37 +344,45 @@ export class AppealImportService {
     };
 
     try {
-      // Initialize downloader
+      // Initialize orchestrator
       this.updateProgress('Initializing', 'Setting up downloader...');
       
-      this.downloader = new AppealDecisionLetterDownloader({
+      this.orchestrator = AppealImportFactory.createAppealImportService({
         batchSize,
         concurrencyLimit,
         rateLimitMs: 200,
         maxRetries: 3
       });
+      this.orchestrator.onProgress((progress: ProcessingProgress) => {
+        this.updateProgress(
+          'Downloading',
+          progress.currentCase ? `Processing case ${progress.currentCase}...` : 'Downloading appeal cases...',
+          progress.processedCases + progress.failedCases,
+          progress.totalCases
+        );
+      });
+
+      const getKnownCases = this.coldStorageService ? () => this.coldStorageService.getKnownCases() : undefined;
+      this.orchestrator.setCaseReferenceProvider(createCaseReferenceProvider(caseSource, getKnownCases));
 
       // Configure storage mode
       if (!useFileSystem && this.coldStorageService) {
         // Cold storage mode
-        this.downloader.enableColdStorageMode(
-          this.coldStorageService,
-          this.transformAndStore.bind(this)
-        );
+        this.orchestrator.enableColdStorageMode(this.transformAndStore.bind(this), getKnownCases);
         
         logImport('Downloader configured for cold storage mode', {
           coldStorageAuthenticated: this.coldStorageService.isAuthenticated
         }, 'AppealImportService');
       } else {
         // File system mode
-        this.downloader.disableColdStorageMode();
+        this.orchestrator.disableColdStorageMode();
         
         logImport('Downloader configured for file system mode', {}, 'AppealImportService');
       }
 
-      // Start download process
-      this.updateProgress('Downloading', 'Starting appeal cases download...');
-      await this.downloader.downloadAllCases();
+      // Start download process (checkpointed in the import journal after every saved batch)
+      this.updateProgress('Downloading', resume ? 'Resuming previous import...' : 'Starting appeal cases download...');
+      await this.orchestrator.downloadAllCases({ resume, incremental, limit });
 
       // Mark completion
       this.importStats.endTime = new Date();
@@ -355,8 +394,13 @@ export class AppealImportService {
         storageMode: useFileSystem ? 'file-system' : 'cold-storage'
       }, 'AppealImportService');
 
-      this.updateProgress('Complete', `Import completed successfully`, 
-        this.importStats.totalStored, this.importStats.totalStored);
+      if (this.cancelRequested) {
+        this.updateProgress('Cancelled', 'Import cancelled - it can be resumed later',
+          this.importStats.totalStored, this.importStats.totalStored);
+      } else {
+        this.updateProgress('Complete', `Import completed successfully`, 
+          this.importStats.totalStored, this.importStats.totalStored);
+      }
 
       importTimer.end({
         totalDownloaded: this.importStats.totalDownloaded,
@@ -399,8 +443,9 @@ export class AppealImportService {
       currentStats: this.importStats
     }, 'AppealImportService');
 
-    // TODO: Implement proper cancellation mechanism
-    this.isImporting = false;
+    // The orchestrator stops before its next group of cases; saved batches stay in the journal
+    this.cancelRequested = true;
+    this.orchestrator?.cancelImport();
     this.updateProgress('Cancelled', 'Import cancelled by user');
   }
 
@@ -428,7 +473,7 @@ export class AppealImportService {
       await this.stopImport();
     }
 
-    this.downloader = null;
+    this.orchestrator = null;
     this.coldStorageService = null;
     this.progressCallback = null;
   }
@@ -9,7 +9,7 @@
 
 import { AppealImportFactory } from './AppealImportFactory.js';
 import type { IAppealImportService } from './interfaces.js';
-import type { IAppealImportOrchestrator, ScrapingConfig } from './scraping/interfaces.js';
+import type { IAppealImportOrchestrator, ICaseReferenceProvider, ImportRunOptions, ImportRunSummary, KnownCases, ScrapingConfig } from './scraping/interfaces.js';
 
 export class AppealImportServiceAdapter implements IAppealImportService {
   private orchestrator: IAppealImportOrchestrator;
@@ -40,16 +40,24 @@ export class AppealImportServiceAdapter implements IAppealImportService {
     console.log('[AppealImportServiceAdapter] Configured with:', scrapingConfig);
   }
 
-  enableColdStorageMode(callback: (documents: any[]) => Promise<void>): void {
-    this.orchestrator.enableColdStorageMode(callback);
+  enableColdStorageMode(callback: (documents: any[]) => Promise<void>, getKnownCases?: () => Promise<KnownCases>): void {
+    this.orchestrator.enableColdStorageMode(callback, getKnownCases);
   }
 
   disableColdStorageMode(): void {
     this.orchestrator.disableColdStorageMode();
   }
 
-  async downloadAllCases(): Promise<void> {
-    return this.orchestrator.downloadAllCases();
+  setCaseReferenceProvider(provider: ICaseReferenceProvider): void {
+    this.orchestrator.setCaseReferenceProvider(provider);
+  }
+
+  async downloadAllCases(options?: ImportRunOptions): Promise<void> {
+    return this.orchestrator.downloadAllCases(options);
+  }
+
+  async getResumableImport(): Promise<ImportRunSummary | null> {
+    return this.orchestrator.getResumableImport();
   }
 
   onProgress(callback: (progress: any) => void): void {
@@ -7,6 +7,9 @@
  * AIDEV-NOTE: Migrated to TypeScript for improved type safety
  */
 
+import { getPersistentBatchDatabase } from '../utils/persistentBatchStore.js';
+import { getEnvironmentConfig } from '../utils/environment.js';
+
 interface AuthChallenge {
   version: string;
   salt: number[];
@@ -163,7 +166,10 @@ export class AuthenticationService {
       console.log('[AuthenticationService] Clearing application databases...');
       // Clear application data (documents, search history, etc.)
       // This will be expanded when we integrate with storage services
-      const databases = ['PDFSearchDatabase']; // Add other DB names as needed
+      const databases = [
+        'PDFSearchDatabase',
+        ...getEnvironmentConfig().archives.map(archive => getPersistentBatchDatabase(archive.id))
+      ]; // Add other DB names as needed
       
       for (const dbName of databases) {
         try {
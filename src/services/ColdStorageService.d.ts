@@ -4,52 +4,37 @@
  * AIDEV-NOTE: Type definitions for enhanced IDE support and type checking
  */
 
-export interface StorageIndex {
-  version: string;
-  totalDocuments: number;
-  totalBatches: number;
-  lastUpdated: string;
-  batches: BatchInfo[];
-  metadata: {
-    encryptionAlgorithm: string;
-    keyDerivation: string;
-    pbkdf2Iterations: number;
-    batchSizeLimit: number;
-    documentThreshold: number;
-    created: string;
-    description: string;
-  };
-}
+import type { StorageIndex } from '../utils/storageIndexSchema.js';
+import type { ArchiveConfig } from '../utils/archiveConfig.js';
+import type { ArchiveExportSource } from '../utils/archiveExport.js';
+import type { KnownCases } from '../utils/incrementalImport.js';
+import { ColdStorageSearchResult, DateFilter, MetadataFilters, TermCorrection } from '../types';
 
-export interface BatchInfo {
-  batchId: string;
-  url: string;
-  documentCount: number;
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  keywords: string[];
-  size: string;
-}
+export type { StorageIndex, BatchInfo } from '../utils/storageIndexSchema.js';
 
 export interface SearchOptions {
   limit?: number;
-  dateFilter?: {
-    start: string;
-    end: string;
-  };
+  offset?: number;
+  sortBy?: 'relevance' | 'date';
+  sortOrder?: 'asc' | 'desc';
+  dateFilter?: DateFilter;
+  metadataFilters?: MetadataFilters;
+  threshold?: number;
   includeArchived?: boolean;
 }
 
-import { ColdStorageSearchResult } from '../types';
-
 export interface SearchResponse {
   results: ColdStorageSearchResult[];
   total: number;
   query: string;
   batchesSearched: number;
   limited: boolean;
+  corrections?: TermCorrection[];
+  resultSetId?: string | null;
+  offset?: number;
+  nextOffset?: number | null;
+  sortBy?: 'relevance' | 'date';
+  sortOrder?: 'asc' | 'desc';
   error?: string;
 }
 
@@ -92,10 +77,28 @@ export interface ServiceState {
   totalBatches: number;
   pendingMessages: number;
   activeSearches: number;
+  // Searches are sharded across this many workers
+  workerPoolSize: number;
+  workerStates: Array<{
+    workerIndex: number;
+    status: string;
+    isAuthenticated: boolean;
+    errorCount: number;
+  }>;
+  archiveId: string;
+  // Batches created on this device that the published storage index does not list yet
+  localBatchCount: number;
+}
+
+export interface ServiceOptions {
+  maxCacheSize?: number;
+  workerPoolSize?: number;
+  // Archive whose storage index the workers load
+  archive?: ArchiveConfig;
 }
 
 export class ColdStorageService {
-  constructor();
+  constructor(options?: ServiceOptions);
   
   /**
    * Initialize cold storage worker
@@ -113,12 +116,21 @@ export class ColdStorageService {
   loadStorageIndex(): Promise<StorageIndex>;
   
   /**
-   * Search cold storage with progressive results
+   * Search cold storage with progressive results (rejects with an AbortError when signal aborts)
    */
   searchDocuments(
     query: string, 
     options?: SearchOptions, 
-    progressCallback?: ProgressCallback
+    progressCallback?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SearchResponse>;
+
+  /**
+   * Get another page or sort order of a completed search
+   */
+  getSearchPage(
+    resultSetId: string,
+    options?: Pick<SearchOptions, 'offset' | 'limit' | 'sortBy' | 'sortOrder'>
   ): Promise<SearchResponse>;
   
   /**
@@ -131,6 +143,23 @@ export class ColdStorageService {
    */
   clearCache(): Promise<void>;
   
+  /**
+   * Forget the password, derived batch keys and decrypted data in every worker
+   */
+  logout(): Promise<void>;
+
+  /**
+   * Archive this service's workers load, and the absolute URL of its storage index
+   */
+  getArchive(): ArchiveConfig;
+  getStorageIndexUrl(): string;
+
+  /**
+   * Batches created on this device with the signed storage index listing them
+   */
+  exportArchive(): Promise<ArchiveExportSource>;
+  getKnownCases(): Promise<KnownCases>;
+  
   /**
    * Get cache statistics
    */
@@ -156,5 +185,3 @@ export class ColdStorageService {
    */
   getState(): ServiceState;
 }
-
-export declare const coldStorageService: ColdStorageService;
\ No newline at end of file
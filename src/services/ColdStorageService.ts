@@ -14,11 +14,29 @@
 import { memoryManager } from './MemoryManager.js';
 import { performanceMonitor } from './PerformanceMonitor.js';
 import { browserResourceManager } from '../utils/BrowserResourceManager.js';
-import type { Document, ColdStorageSearchResult } from '../types/index.js';
+import { combineFacets, extractKeywords, getDocumentFieldValue } from '../utils/searchIndex.js';
+import { DATE_FILTER_FIELD, parseDecisionDate, toFilterFacets } from '../utils/searchFilters.js';
+import {
+  getShardPageRange,
+  mergeResultPages,
+  type ResultPageOptions,
+  type ResultSortBy,
+  type ResultSortOrder
+} from '../utils/searchPaging.js';
+import { STORAGE_INDEX_VERSION, type StorageIndex as SharedStorageIndex, type StorageIndexErrorReason } from '../utils/storageIndexSchema.js';
+import { UserFriendlyErrorFactory, ErrorHelpers } from '../utils/UserFriendlyError.js';
+import { getStorageIndexUrl, type ArchiveConfig } from '../utils/archiveConfig.js';
+import { getEnvironmentConfig } from '../utils/environment.js';
+import type { ArchiveExportSource } from '../utils/archiveExport.js';
+import type { KnownCases } from '../utils/incrementalImport.js';
+import type { Document, ColdStorageSearchResult, DateFilter, MetadataFilters, SearchFacets, TermCorrection } from '../types/index.js';
 
 // AIDEV-NOTE: Enhanced TypeScript interfaces for cold storage operations
+// One per pooled worker - a failed worker is left out of searches while the others carry on
 export interface ColdStorageWorkerState {
+  workerIndex: number;
   status: 'not_initialized' | 'initializing' | 'ready' | 'failed';
+  isAuthenticated: boolean;
   lastHeartbeat: number | null;
   initializationStart: number | null;
   initializationDuration: number | null;
@@ -36,25 +54,27 @@ export interface DecryptedBatchInfo {
   lastAccessed: Date;
 }
 
-export interface StorageIndex {
-  totalDocuments: number;
-  batches: Array<{
-    batchId: string;
-    documentCount: number;
-    size: number;
-    dateRange: {
-      start: string;
-      end: string;
-    };
-  }>;
-  error?: string;
-}
+// AIDEV-NOTE: Schema shared with the worker and batch scripts; error marks the placeholder used when loading failed
+export type StorageIndex = SharedStorageIndex & { error?: string };
 
 export interface ColdStorageSearchOptions {
+  // Page size and start of the first page returned (later pages via getSearchPage)
   limit?: number;
   offset?: number;
-  sortBy?: 'relevance' | 'date';
-  sortOrder?: 'asc' | 'desc';
+  // 'date' sorts by decision date; undated decisions come last in either order
+  sortBy?: ResultSortBy;
+  sortOrder?: ResultSortOrder;
+  // AIDEV-NOTE: Applied per document in the worker; dateFilter also skips whole batches
+  dateFilter?: DateFilter;
+  metadataFilters?: MetadataFilters;
+  // Search sensitivity (0-1): minimum similarity for correcting misspelled terms, 1 disables correction
+  threshold?: number;
+}
+
+export interface ColdStorageQuerySyntaxError {
+  message: string;
+  position: number;
+  query: string;
 }
 
 export interface ColdStorageSearchResponse {
@@ -64,6 +84,15 @@ export interface ColdStorageSearchResponse {
   batchesSearched: number;
   limited?: boolean;
   error?: string;
+  syntaxError?: ColdStorageQuerySyntaxError;
+  // Misspelled query terms that were corrected and matched at least one result
+  corrections?: TermCorrection[];
+  // AIDEV-NOTE: results is one page; the worker keeps every hit under resultSetId for getSearchPage
+  resultSetId?: string | null;
+  offset?: number;
+  nextOffset?: number | null;
+  sortBy?: ResultSortBy;
+  sortOrder?: ResultSortOrder;
 }
 
 export interface ColdStorageProgressCallback {
@@ -95,7 +124,11 @@ export interface ColdStorageServiceState {
   totalBatches: number;
   pendingMessages: number;
   activeSearches: number;
-  workerState: ColdStorageWorkerState;
+  workerPoolSize: number;
+  workerStates: ColdStorageWorkerState[];
+  archiveId: string;
+  // Batches created on this device that the published storage index does not list yet
+  localBatchCount: number;
 }
 
 export interface ColdStorageWorkerMessage {
@@ -108,33 +141,102 @@ export interface PendingMessage {
   resolve: (value: any) => void;
   reject: (error: Error) => void;
   timeout: NodeJS.Timeout;
+  workerIndex: number;
+}
+
+/**
+ * Error response from the worker, keeping the full payload for structured details
+ */
+export class ColdStorageWorkerError extends Error {
+  public readonly payload: any;
+
+  constructor(message: string, payload: any) {
+    super(message);
+    this.name = 'ColdStorageWorkerError';
+    this.payload = payload;
+  }
+}
+
+// Placeholder while no index is loaded, so batch counts read as zero
+function createEmptyStorageIndex(error?: string): StorageIndex {
+  return { version: STORAGE_INDEX_VERSION, totalDocuments: 0, lastUpdated: new Date(0).toISOString(), batches: [], error };
+}
+
+// Set by the worker when it rejected the storage index (schema, manifest or rollback)
+function getStorageIndexErrorReason(error: unknown): StorageIndexErrorReason | undefined {
+  return error instanceof ColdStorageWorkerError ? error.payload?.storageIndexError : undefined;
+}
+
+function createSearchCancelledError(): DOMException {
+  return new DOMException('Cold storage search was cancelled', 'AbortError');
+}
+
+function isSearchCancelledError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
 }
 
 export interface ColdStorageServiceOptions {
+  // Decrypted batch cache shared by the worker pool (bytes)
   maxCacheSize?: number;
   messagetTimeout?: number;
   cleanupInterval?: number;
+  // Workers decrypting batches in parallel (defaults to one per spare core, at most 4)
+  workerPoolSize?: number;
+  // Archive whose storage index the pool loads (defaults to the first in EnvironmentConfig.archives)
+  archive?: ArchiveConfig;
+}
+
+// One worker's share of a search, with the worker holding its kept hits
+interface PooledResultSetShard {
+  workerIndex: number;
+  resultSetId: string;
+}
+
+const MAX_DEFAULT_WORKER_POOL_SIZE = 4;
+export const DEFAULT_MAX_CACHE_SIZE = 100 * 1024 * 1024; // 100MB
+
+/**
+ * Pool size for this device - one worker per core left after the UI thread
+ * AIDEV-NOTE: Each worker runs PBKDF2 per batch salt and AES-GCM decryption for its own share of batches
+ */
+export function getDefaultWorkerPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  return Math.max(1, Math.min(MAX_DEFAULT_WORKER_POOL_SIZE, cores - 1));
+}
+
+function createWorkerState(workerIndex: number): ColdStorageWorkerState {
+  return {
+    workerIndex,
+    status: 'not_initialized',
+    isAuthenticated: false,
+    lastHeartbeat: null,
+    initializationStart: null,
+    initializationDuration: null,
+    errorCount: 0,
+    lastError: null
+  };
 }
 
 export class ColdStorageService {
-  private worker: Worker | null = null;
+  // AIDEV-NOTE: Index 0 is the primary worker - it creates batches and serves archive facets
+  private workers: Array<Worker | null> = [];
   private isInitialized = false;
   private isAuthenticated = false;
   private messageId = 0;
   private pendingMessages = new Map<string, PendingMessage>();
   public storageIndex: StorageIndex | null = null;
+  private localBatchCount = 0;
+  // AIDEV-NOTE: One archive per service - FederatedColdStorageService mounts one service per archive
+  private readonly archive: ArchiveConfig;
   private searchCallbacks = new Map<string, ColdStorageProgressCallback>();
   private error?: string;
   
-  // AIDEV-NOTE: Worker lifecycle tracking with proper typing
-  private workerState: ColdStorageWorkerState = {
-    status: 'not_initialized',
-    lastHeartbeat: null,
-    initializationStart: null,
-    initializationDuration: null,
-    errorCount: 0,
-    lastError: null
-  };
+  // AIDEV-NOTE: Worker lifecycle tracking with proper typing, per pooled worker
+  private workerStates: ColdStorageWorkerState[] = [];
+  // Merged search results → the shards kept by each worker (for getSearchPage)
+  private pooledResultSets = new Map<string, PooledResultSetShard[]>();
+  private pooledResultSetCounter = 0;
+  private readonly MAX_POOLED_RESULT_SETS = 5;
   
   // AIDEV-NOTE: Memory management integration with proper typing
   private decryptedBatches = new Map<string, DecryptedBatchInfo>();
@@ -149,10 +251,15 @@ export class ColdStorageService {
   // Configuration options
   private readonly messageTimeout: number;
   private readonly cleanupInterval: number;
+  private readonly workerPoolSize: number;
+  private readonly maxCacheSize: number;
   
   constructor(options: ColdStorageServiceOptions = {}) {
     this.messageTimeout = options.messagetTimeout || 60000; // 60 seconds
     this.cleanupInterval = options.cleanupInterval || 5 * 60 * 1000; // 5 minutes
+    this.workerPoolSize = Math.max(1, Math.floor(options.workerPoolSize || getDefaultWorkerPoolSize()));
+    this.maxCacheSize = options.maxCacheSize || DEFAULT_MAX_CACHE_SIZE;
+    this.archive = options.archive || getEnvironmentConfig().archives[0];
     
     // Setup memory management listeners
     this.setupMemoryManagement();
@@ -276,7 +383,7 @@ export class ColdStorageService {
   }
 
   /**
-   * Initialize cold storage worker
+   * Initialize the cold storage worker pool
    * AIDEV-NOTE: Enhanced with detailed logging for debugging
    */
   public async initialize(): Promise<void> {
@@ -287,80 +394,39 @@ export class ColdStorageService {
       return;
     }
     
-    this.workerState.status = 'initializing';
-    this.workerState.initializationStart = performance.now();
-    console.log('[ColdStorageService] Worker state:', this.workerState);
+    this.workers = [];
+    this.workerStates = [];
+    console.log(`[ColdStorageService] Starting pool of ${this.workerPoolSize} cold storage worker(s)`);
 
     try {
-      console.log('[ColdStorageService] Creating cold storage worker...');
-      
-      // Try multiple worker loading strategies for both dev and production
-      const workerPaths = [
-        // AIDEV-NOTE: Use Vite's worker import for proper TypeScript handling
-        new URL('../workers/coldStorageWorker.ts', import.meta.url), // Vite worker import (best)
-        '/src/workers/coldStorageWorker.ts', // Development fallback
-        '/decision-parser/src/workers/coldStorageWorker.ts', // Production path with base
-      ];
-      
-      let workerCreated = false;
-      let lastError: Error | null = null;
-      
-      for (const workerPath of workerPaths) {
+      for (let workerIndex = 0; workerIndex < this.workerPoolSize; workerIndex++) {
+        const workerState = createWorkerState(workerIndex);
+        workerState.status = 'initializing';
+        workerState.initializationStart = performance.now();
+        this.workerStates.push(workerState);
+
         try {
-          console.log(`[ColdStorageService] Trying worker path: ${workerPath}`);
-          
-          // Try ES module first, then fallback to classic
-          try {
-            this.worker = new Worker(workerPath, { type: 'module' });
-            console.log(`[ColdStorageService] Worker created successfully with ES module at: ${workerPath}`);
-            workerCreated = true;
-            break;
-          } catch (moduleError) {
-            console.log(`[ColdStorageService] ES module failed for ${workerPath}, trying classic:`, (moduleError as Error).message);
-            this.worker = new Worker(workerPath as string);
-            console.log(`[ColdStorageService] Worker created successfully with classic mode at: ${workerPath}`);
-            workerCreated = true;
-            break;
-          }
+          this.workers.push(this.createWorker(workerIndex));
         } catch (error) {
-          console.log(`[ColdStorageService] Worker path ${workerPath} failed:`, (error as Error).message);
-          lastError = error as Error;
+          // The pool works with fewer workers, but never without the primary
+          if (workerIndex === 0) {
+            throw error;
+          }
+          console.warn(`[ColdStorageService] Worker ${workerIndex} could not be created, continuing with a smaller pool:`, error);
+          this.workers.push(null);
+          this.markWorkerFailed(workerIndex, (error as Error).message);
         }
       }
-      
-      if (!workerCreated) {
-        throw new Error(`Failed to create worker with any path. Last error: ${lastError?.message || 'Unknown error'}`);
-      }
-
-      // Set up message handling
-      this.worker!.onmessage = (event: MessageEvent<ColdStorageWorkerMessage>) => {
-        console.log('[ColdStorageService] Received worker message:', event.data.type);
-        this.handleWorkerMessage(event.data);
-      };
-
-      this.worker!.onerror = (error: ErrorEvent) => {
-        console.error('[ColdStorageService] Cold storage worker error:', {
-          error: error,
-          message: error.message || 'Unknown worker error',
-          filename: error.filename || 'Unknown file',
-          lineno: error.lineno || 'Unknown line',
-          colno: error.colno || 'Unknown column'
-        });
-        
-        // Mark worker as failed and clean up
-        this.isInitialized = false;
-        this.worker = null;
-        this.workerState.status = 'failed';
-        this.workerState.errorCount++;
-        this.workerState.lastError = {
-          message: error.message || 'Unknown worker error',
-          timestamp: new Date().toISOString()
-        };
-      };
 
       this.isInitialized = true;
       console.log('[ColdStorageService] Worker initialization completed');
 
+      // Each worker gets an equal share of the decrypted batch cache
+      const maxCacheSize = Math.floor(this.maxCacheSize / this.workerPoolSize);
+      await Promise.all(this.getLiveWorkerIndexes().map(workerIndex =>
+        this.sendMessage('configure', { workerIndex, maxCacheSize }, undefined, workerIndex)
+      ));
+
       // Load storage index
       console.log('[ColdStorageService] Loading storage index...');
       await this.loadStorageIndex();
@@ -368,10 +434,132 @@ export class ColdStorageService {
 
     } catch (error) {
       console.error('[ColdStorageService] Failed to initialize cold storage service:', error);
+      // A rejected archive index already explains itself
+      if (ErrorHelpers.isUserFriendlyError(error)) {
+        throw error;
+      }
       throw new Error('Cold storage initialization failed');
     }
   }
 
+  /**
+   * Create one pooled worker and route its messages with its index
+   */
+  private createWorker(workerIndex: number): Worker {
+    console.log(`[ColdStorageService] Creating cold storage worker ${workerIndex}...`);
+    
+    // Try multiple worker loading strategies for both dev and production
+    const workerPaths = [
+      // AIDEV-NOTE: Use Vite's worker import for proper TypeScript handling
+      new URL('../workers/coldStorageWorker.ts', import.meta.url), // Vite worker import (best)
+      '/src/workers/coldStorageWorker.ts', // Development fallback
+      `${import.meta.env.BASE_URL}src/workers/coldStorageWorker.ts`, // Path under the app's base
+    ];
+    
+    let worker: Worker | null = null;
+    let lastError: Error | null = null;
+    
+    for (const workerPath of workerPaths) {
+      try {
+        console.log(`[ColdStorageService] Trying worker path: ${workerPath}`);
+        
+        // Try ES module first, then fallback to classic
+        try {
+          worker = new Worker(workerPath, { type: 'module' });
+          console.log(`[ColdStorageService] Worker created successfully with ES module at: ${workerPath}`);
+          break;
+        } catch (moduleError) {
+          console.log(`[ColdStorageService] ES module failed for ${workerPath}, trying classic:`, (moduleError as Error).message);
+          worker = new Worker(workerPath as string);
+          console.log(`[ColdStorageService] Worker created successfully with classic mode at: ${workerPath}`);
+          break;
+        }
+      } catch (error) {
+        console.log(`[ColdStorageService] Worker path ${workerPath} failed:`, (error as Error).message);
+        lastError = error as Error;
+      }
+    }
+    
+    if (!worker) {
+      throw new Error(`Failed to create worker with any path. Last error: ${lastError?.message || 'Unknown error'}`);
+    }
+
+    // Set up message handling
+    worker.onmessage = (event: MessageEvent<ColdStorageWorkerMessage>) => {
+      console.log(`[ColdStorageService] Received worker ${workerIndex} message:`, event.data.type);
+      this.handleWorkerMessage(event.data, workerIndex);
+    };
+
+    worker.onerror = (error: ErrorEvent) => {
+      console.error(`[ColdStorageService] Cold storage worker ${workerIndex} error:`, {
+        error: error,
+        message: error.message || 'Unknown worker error',
+        filename: error.filename || 'Unknown file',
+        lineno: error.lineno || 'Unknown line',
+        colno: error.colno || 'Unknown column'
+      });
+      
+      // Mark worker as failed and clean up
+      this.markWorkerFailed(workerIndex, error.message || 'Unknown worker error');
+    };
+
+    return worker;
+  }
+
+  /**
+   * Take a worker out of the pool, failing its outstanding messages
+   * AIDEV-NOTE: The service stays usable while the primary worker is alive
+   */
+  private markWorkerFailed(workerIndex: number, message: string): void {
+    const workerState = this.workerStates[workerIndex];
+    if (workerState) {
+      workerState.status = 'failed';
+      workerState.isAuthenticated = false;
+      workerState.errorCount++;
+      workerState.lastError = { message, timestamp: new Date().toISOString() };
+    }
+
+    const worker = this.workers[workerIndex];
+    if (worker) {
+      worker.terminate();
+      this.workers[workerIndex] = null;
+    }
+
+    for (const [id, pendingMessage] of this.pendingMessages) {
+      if (pendingMessage.workerIndex === workerIndex) {
+        clearTimeout(pendingMessage.timeout);
+        this.pendingMessages.delete(id);
+        this.searchCallbacks.delete(id);
+        pendingMessage.reject(new Error(`Cold storage worker ${workerIndex} failed: ${message}`));
+      }
+    }
+
+    if (workerIndex === 0) {
+      this.isInitialized = false;
+      this.isAuthenticated = false;
+    }
+  }
+
+  private recordWorkerError(workerIndex: number, message: string): void {
+    const workerState = this.workerStates[workerIndex];
+    if (workerState) {
+      workerState.errorCount++;
+      workerState.lastError = { message, timestamp: new Date().toISOString() };
+    }
+  }
+
+  // Workers that are running (for broadcasts such as clear-cache)
+  private getLiveWorkerIndexes(): number[] {
+    return this.workers
+      .map((worker, workerIndex) => (worker && this.workerStates[workerIndex]?.status !== 'failed' ? workerIndex : -1))
+      .filter(workerIndex => workerIndex >= 0);
+  }
+
+  // Workers that can decrypt batches - each search is sharded across these
+  private getSearchWorkerIndexes(): number[] {
+    return this.getLiveWorkerIndexes().filter(workerIndex => this.workerStates[workerIndex].isAuthenticated);
+  }
+
   /**
    * Authenticate worker with encryption key
    * AIDEV-NOTE: Enhanced with detailed logging for debugging authentication flow
@@ -387,8 +575,8 @@ export class ColdStorageService {
     try {
       console.log('[ColdStorageService] Sending authentication key to worker...');
       
-      // Send auth-init and wait for specific response
-      const authResult = await this.sendMessage('auth-init', { keyMaterial });
+      // Send auth-init to every pooled worker and wait for specific response
+      const authResult = await this.authenticateWorkers({ keyMaterial });
       
       if (authResult.success) {
         this.isAuthenticated = true;
@@ -417,7 +605,7 @@ export class ColdStorageService {
       hasPassword: !!password,
       passwordLength: password ? password.length : 0,
       serviceInitialized: this.isInitialized,
-      workerExists: !!this.worker,
+      liveWorkers: this.getLiveWorkerIndexes().length,
       currentAuthState: this.isAuthenticated
     });
     
@@ -431,15 +619,15 @@ export class ColdStorageService {
     try {
       console.log('[ColdStorageService] Sending password to worker for batch-specific key derivation...');
       console.log('[ColdStorageService] Worker communication state:', {
-        hasWorker: !!this.worker,
+        liveWorkers: this.getLiveWorkerIndexes().length,
         pendingMessages: this.pendingMessages.size,
-        workerState: this.workerState
+        workerStates: this.workerStates
       });
       
       // Send auth-init with password instead of keyMaterial
       const authStartTime = performance.now();
-      console.log('[ColdStorageService] Calling sendMessage("auth-init", { password })...');
-      const authResult = await this.sendMessage('auth-init', { password });
+      console.log('[ColdStorageService] Sending auth-init with password to every pooled worker...');
+      const authResult = await this.authenticateWorkers({ password });
       const authEndTime = performance.now();
       
       console.log(`[ColdStorageService] Worker authentication response received in ${(authEndTime - authStartTime).toFixed(2)}ms:`, {
@@ -477,10 +665,59 @@ export class ColdStorageService {
       this.isAuthenticated = false;
       console.error(`[ColdStorageService] Service authentication state reset to: ${this.isAuthenticated}`);
       console.log('[ColdStorageService] ===== PASSWORD AUTHENTICATION END =====');
+      const storageIndexError = getStorageIndexErrorReason(error);
+      if (storageIndexError) {
+        throw UserFriendlyErrorFactory.storageIndex(storageIndexError, (error as Error).message, error as Error);
+      }
       throw new Error(`Password authentication failed: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Authenticate every pooled worker with the same credentials
+   * AIDEV-NOTE: Resolves with the primary worker's response (it serves batch creation and facets).
+   * A secondary worker that fails is left out of searches until the next authentication.
+   */
+  private async authenticateWorkers(credentials: { password?: string; keyMaterial?: CryptoKey }): Promise<any> {
+    const workerIndexes = this.getLiveWorkerIndexes();
+    if (workerIndexes[0] !== 0) {
+      throw new Error('Worker not initialized');
+    }
+
+    const outcomes = await Promise.allSettled(
+      workerIndexes.map(workerIndex => this.sendMessage('auth-init', credentials, undefined, workerIndex))
+    );
+
+    outcomes.forEach((outcome, position) => {
+      const workerIndex = workerIndexes[position];
+      const succeeded = outcome.status === 'fulfilled' && !!outcome.value?.success;
+      this.workerStates[workerIndex].isAuthenticated = succeeded;
+      if (!succeeded) {
+        const reason = outcome.status === 'rejected' ? (outcome.reason as Error)?.message : outcome.value?.message;
+        this.recordWorkerError(workerIndex, reason || 'Authentication rejected');
+      }
+    });
+
+    const authenticatedWorkers = workerIndexes.filter(workerIndex => this.workerStates[workerIndex].isAuthenticated);
+    console.log(`[ColdStorageService] ${authenticatedWorkers.length} of ${workerIndexes.length} worker(s) authenticated`);
+
+    const primaryOutcome = outcomes[0];
+    if (primaryOutcome.status === 'rejected') {
+      throw primaryOutcome.reason;
+    }
+    // Signing in adds the batches imported on earlier visits to the index
+    this.updateFromWorkerIndex(primaryOutcome.value);
+    return primaryOutcome.value;
+  }
+
+  // The primary worker's storage index (with local batches applied) is the service's copy
+  private updateFromWorkerIndex(payload: { storageIndex?: StorageIndex | null; localBatchCount?: number } | undefined) {
+    if (payload?.storageIndex) {
+      this.storageIndex = payload.storageIndex;
+      this.localBatchCount = payload.localBatchCount || 0;
+    }
+  }
+
   /**
    * Load storage index from server
    * AIDEV-NOTE: Enhanced with detailed logging for storage index loading
@@ -494,9 +731,25 @@ export class ColdStorageService {
     }
 
     try {
-      console.log('[ColdStorageService] Requesting storage index from worker...');
-      const result = await this.sendMessage('load-storage-index');
+      console.log('[ColdStorageService] Requesting storage index from every pooled worker...');
+      // Without the index a secondary worker cannot take a share of any search
+      const payload = {
+        archiveId: this.archive.id,
+        storageIndexUrl: this.getStorageIndexUrl()
+      };
+      // Only the primary worker writes the verified index to IndexedDB and prunes it
+      const secondaryLoads = this.getLiveWorkerIndexes()
+        .filter(workerIndex => workerIndex !== 0)
+        .map(workerIndex => this.sendMessage('load-storage-index', { ...payload, persist: false }, undefined, workerIndex).catch((error: Error) => {
+          console.warn(`[ColdStorageService] Worker ${workerIndex} could not load the storage index:`, error.message);
+          this.markWorkerFailed(workerIndex, `Storage index unavailable: ${error.message}`);
+        }));
+      const result = await this.sendMessage('load-storage-index', payload);
+      await Promise.all(secondaryLoads);
       this.storageIndex = result.storageIndex;
+      this.localBatchCount = result.localBatchCount || 0;
+      // The workers drop their kept hits when the index changes
+      this.pooledResultSets.clear();
       
       if (this.storageIndex) {
         console.log('[ColdStorageService] Storage index loaded:', {
@@ -519,12 +772,18 @@ export class ColdStorageService {
       
       // AIDEV-NOTE: Replace graceful degradation with explicit error reporting
       // Storage index loading failure is a critical issue that should be surfaced to user
-      this.storageIndex = { totalDocuments: 0, batches: [], error: 'Storage index loading failed' };
+      this.storageIndex = createEmptyStorageIndex('Storage index loading failed');
       
       // Set service error state for UI to display
       if (!this.error) {
         this.error = `Storage index unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`;
       }
+
+      // An index that loaded but was rejected is not a connectivity problem - say why
+      const storageIndexError = getStorageIndexErrorReason(error);
+      if (storageIndexError) {
+        throw UserFriendlyErrorFactory.storageIndex(storageIndexError, (error as Error).message, error as Error);
+      }
       
       console.error('[ColdStorageService] Cold storage will be unavailable due to storage index failure');
       console.error('[ColdStorageService] User will see error message instead of empty results');
@@ -537,11 +796,15 @@ export class ColdStorageService {
   /**
    * Search cold storage with progressive results
    * AIDEV-NOTE: Always require authentication for cold storage access (encrypted-only policy)
+   *
+   * @param signal - aborting stops the worker before its next chunk of batches
+   * @throws DOMException named 'AbortError' when the search is cancelled through signal
    */
   public async searchDocuments(
     query: string, 
     options: ColdStorageSearchOptions = {}, 
-    progressCallback: ColdStorageProgressCallback | null = null
+    progressCallback: ColdStorageProgressCallback | null = null,
+    signal?: AbortSignal
   ): Promise<ColdStorageSearchResponse> {
     console.log('[ColdStorageService] ===== SEARCH DOCUMENTS START =====');
     console.log(`[ColdStorageService] Search request: "${query}"`);
@@ -550,8 +813,8 @@ export class ColdStorageService {
       isInitialized: this.isInitialized,
       hasStorageIndex: !!this.storageIndex,
       batchCount: this.storageIndex?.batches?.length || 0,
-      hasWorker: !!this.worker,
-      workerState: this.workerState.status
+      searchWorkers: this.getSearchWorkerIndexes().length,
+      workerPoolSize: this.workerPoolSize
     });
     
     // AIDEV-NOTE: Always require authentication - cold storage is encrypted-only
@@ -576,6 +839,10 @@ export class ColdStorageService {
       };
     }
 
+    if (signal?.aborted) {
+      throw createSearchCancelledError();
+    }
+
     // AIDEV-NOTE: Performance monitoring integration
     const searchStartTime = performance.now();
     const operationId = `cold-search-${Date.now()}`;
@@ -588,22 +855,47 @@ export class ColdStorageService {
       estimatedDuration
     );
 
+    const searchId = `search_${++this.messageId}`;
+    // AIDEV-NOTE: One message per pooled worker, each searching its own shard of the relevant batches
+    const workerIndexes = this.getSearchWorkerIndexes();
+    const shardIds = workerIndexes.map((_, position) => `${searchId}_shard${position}`);
+    const cancelShards = () => shardIds.forEach(shardId => this.cancelSearch(shardId));
+    signal?.addEventListener('abort', cancelShards, { once: true });
+
     try {
-      const searchId = `search_${++this.messageId}`;
-      
-      // Store progress callback
+      if (workerIndexes.length === 0) {
+        throw new Error('No authenticated cold storage worker available');
+      }
+
+      // Store progress callbacks - batch counts are summed over the shards
       if (progressCallback) {
-        this.searchCallbacks.set(searchId, progressCallback);
+        const shardProgress = shardIds.map(() => ({ totalBatches: 0, completedBatches: 0 }));
+        shardIds.forEach((shardId, position) => {
+          this.searchCallbacks.set(shardId, progress => {
+            shardProgress[position] = { totalBatches: progress.totalBatches, completedBatches: progress.completedBatches };
+            progressCallback({
+              ...progress,
+              totalBatches: shardProgress.reduce((sum, shard) => sum + shard.totalBatches, 0),
+              completedBatches: shardProgress.reduce((sum, shard) => sum + shard.completedBatches, 0)
+            });
+          });
+        });
       }
 
-      // Start search
-      const result = await this.sendMessage('search-cold-storage', {
-        query,
-        options
-      }, searchId);
+      // Start search on every shard
+      const pageRange = getShardPageRange(shardIds.length, options);
+      const shardResults = await Promise.all(shardIds.map((shardId, position) =>
+        this.sendMessage('search-cold-storage', {
+          query,
+          options: { ...options, ...pageRange, shard: { index: position, count: shardIds.length } }
+        }, shardId, workerIndexes[position])
+      ));
+
+      // Clean up callbacks
+      shardIds.forEach(shardId => this.searchCallbacks.delete(shardId));
+      signal?.removeEventListener('abort', cancelShards);
 
-      // Clean up callback
-      this.searchCallbacks.delete(searchId);
+      const result = this.mergeShardResults(shardResults, workerIndexes, options);
 
       // AIDEV-NOTE: Record performance metrics
       const searchDuration = performance.now() - searchStartTime;
@@ -630,11 +922,25 @@ export class ColdStorageService {
         total: result.total || 0,
         query: result.query,
         batchesSearched: result.batchesSearched || 0,
-        limited: result.limited || false
+        limited: result.limited || false,
+        corrections: result.corrections || [],
+        ...this.toPageFields(result)
       };
 
     } catch (error) {
+      signal?.removeEventListener('abort', cancelShards);
+      shardIds.forEach(shardId => this.searchCallbacks.delete(shardId));
+
+      // A cancelled search is superseded, not failed - the caller decides what to show
+      if (isSearchCancelledError(error)) {
+        console.log(`[ColdStorageService] Search ${searchId} cancelled: "${query}"`);
+        browserResourceManager.completeHeavyOperation(operationId);
+        throw error;
+      }
+
       console.error('Cold storage search failed:', error);
+      // The other shards' results are no use without this one
+      cancelShards();
       
       // AIDEV-NOTE: Record failed operation metrics
       const searchDuration = performance.now() - searchStartTime;
@@ -658,11 +964,120 @@ export class ColdStorageService {
         total: 0,
         query,
         error: (error as Error).message,
-        batchesSearched: 0
+        batchesSearched: 0,
+        ...(error instanceof ColdStorageWorkerError && error.payload?.syntaxError
+          ? { syntaxError: error.payload.syntaxError }
+          : {})
       };
     }
   }
 
+  /**
+   * Stop waiting for a running search and tell the worker to abandon it
+   * AIDEV-NOTE: The worker checks between chunks of batches, so its late reply is ignored here
+   */
+  private cancelSearch(searchId: string): void {
+    const pendingMessage = this.pendingMessages.get(searchId);
+    if (!pendingMessage) {
+      return;
+    }
+
+    clearTimeout(pendingMessage.timeout);
+    this.pendingMessages.delete(searchId);
+    this.searchCallbacks.delete(searchId);
+    this.workers[pendingMessage.workerIndex]?.postMessage({
+      type: 'cancel-search',
+      id: `cancel_${searchId}`,
+      payload: { searchId }
+    });
+    console.log(`[ColdStorageService] Cancel sent for search ${searchId}`);
+    pendingMessage.reject(createSearchCancelledError());
+  }
+
+  /**
+   * Fetch another page or sort order of a completed search without searching again
+   *
+   * @throws ColdStorageWorkerError when the worker no longer holds the result set
+   */
+  public async getSearchPage(resultSetId: string, options: ResultPageOptions = {}): Promise<ColdStorageSearchResponse> {
+    if (!this.isAuthenticated) {
+      throw new Error('Authentication required for cold storage access');
+    }
+
+    const shards = this.pooledResultSets.get(resultSetId);
+    if (!shards) {
+      throw new ColdStorageWorkerError('These search results are no longer available - please search again', { resultSetId });
+    }
+    // Re-inserted as the most recently used set
+    this.pooledResultSets.delete(resultSetId);
+    this.pooledResultSets.set(resultSetId, shards);
+
+    const pageRange = getShardPageRange(shards.length, options);
+    const shardPages = await Promise.all(shards.map(shard =>
+      this.sendMessage('get-search-page', { ...options, ...pageRange, resultSetId: shard.resultSetId }, undefined, shard.workerIndex)
+    ));
+    const result = { ...mergeResultPages<ColdStorageSearchResult>(shardPages, options), resultSetId };
+    return {
+      results: result.results || [],
+      total: result.total || 0,
+      query: result.query || '',
+      batchesSearched: 0,
+      limited: result.nextOffset !== null,
+      ...this.toPageFields(result)
+    };
+  }
+
+  /**
+   * Combine every shard's reply into one search response, keeping the shards for getSearchPage
+   */
+  private mergeShardResults(shardResults: any[], workerIndexes: number[], options: ResultPageOptions): any {
+    const corrections = new Map<string, TermCorrection>();
+    for (const shardResult of shardResults) {
+      for (const correction of shardResult.corrections || []) {
+        corrections.set(`${correction.term}→${correction.correctedTo}`, correction);
+      }
+    }
+
+    const page = mergeResultPages<ColdStorageSearchResult>(shardResults, options);
+    return {
+      ...page,
+      resultSetId: this.storePooledResultSet(shardResults.map((shardResult, position) => ({
+        workerIndex: workerIndexes[position],
+        resultSetId: shardResult.resultSetId
+      }))),
+      batchesSearched: shardResults.reduce((sum, shardResult) => sum + (shardResult.batchesSearched || 0), 0),
+      limited: page.nextOffset !== null,
+      corrections: Array.from(corrections.values())
+    };
+  }
+
+  /**
+   * Remember which worker keeps which shard of a search (least recently used sets are dropped)
+   */
+  private storePooledResultSet(shards: Array<{ workerIndex: number; resultSetId: string | null }>): string | null {
+    const keptShards = shards.filter((shard): shard is PooledResultSetShard => !!shard.resultSetId);
+    if (keptShards.length === 0) {
+      return null;
+    }
+
+    const resultSetId = `pooled_results_${++this.pooledResultSetCounter}`;
+    this.pooledResultSets.set(resultSetId, keptShards);
+    while (this.pooledResultSets.size > this.MAX_POOLED_RESULT_SETS) {
+      this.pooledResultSets.delete(this.pooledResultSets.keys().next().value!);
+    }
+    return resultSetId;
+  }
+
+  private toPageFields(result: any): Pick<ColdStorageSearchResponse, 'resultSetId' | 'offset' | 'nextOffset' | 'sortBy' | 'sortOrder'> {
+    return {
+      resultSetId: result.resultSetId ?? null,
+      offset: result.offset ?? 0,
+      nextOffset: result.nextOffset ?? null,
+      sortBy: result.sortBy || 'relevance',
+      sortOrder: result.sortOrder || 'desc'
+    };
+  }
+
   /**
    * Get specific batch data (for admin/debugging)
    * AIDEV-NOTE: Always require authentication for batch access (encrypted-only policy)
@@ -689,11 +1104,45 @@ export class ColdStorageService {
       return;
     }
 
-    try {
-      await this.sendMessage('clear-cache');
-    } catch (error) {
-      console.warn('Failed to clear cache:', error);
-    }
+    this.pooledResultSets.clear();
+    await Promise.all(this.getLiveWorkerIndexes().map(workerIndex =>
+      this.sendMessage('clear-cache', {}, undefined, workerIndex).catch(error => {
+        console.warn(`Failed to clear cache of worker ${workerIndex}:`, error);
+      })
+    ));
+  }
+
+  /**
+   * Archive this service's workers load
+   */
+  public getArchive(): ArchiveConfig {
+    return this.archive;
+  }
+
+  /**
+   * Absolute URL of the archive's storage-index.json (matches service worker update messages)
+   */
+  public getStorageIndexUrl(): string {
+    return getStorageIndexUrl(this.archive, globalThis.location?.href ?? 'http://localhost/');
+  }
+
+  /**
+   * Forget the password in every worker along with its derived batch keys and decrypted data
+   * AIDEV-NOTE: Searches running in the workers are abandoned - authenticate again before searching
+   */
+  public async logout(): Promise<void> {
+    this.isAuthenticated = false;
+    this.workerStates.forEach(workerState => {
+      workerState.isAuthenticated = false;
+    });
+    this.pooledResultSets.clear();
+
+    await Promise.all(this.getLiveWorkerIndexes().map(workerIndex =>
+      this.sendMessage('logout', {}, undefined, workerIndex).catch(error => {
+        console.warn(`Failed to log out worker ${workerIndex}:`, error);
+      })
+    ));
+    console.log('[ColdStorageService] Logged out of cold storage');
   }
 
   /**
@@ -706,8 +1155,15 @@ export class ColdStorageService {
     }
 
     try {
-      const result = await this.sendMessage('get-cache-stats');
-      return result;
+      // Summed over the pool - each worker caches the batches of its own shards
+      const workerStats = await Promise.all(this.getLiveWorkerIndexes().map(workerIndex =>
+        this.sendMessage('get-cache-stats', {}, undefined, workerIndex)
+      ));
+      return workerStats.reduce((total, stats) => ({
+        cacheSize: total.cacheSize + (stats.cacheSize || 0),
+        cachedBatches: total.cachedBatches + (stats.cachedBatches || 0),
+        maxCacheSize: total.maxCacheSize + (stats.maxCacheSize || 0)
+      }), { cacheSize: 0, cachedBatches: 0, maxCacheSize: 0 });
     } catch (error) {
       console.warn('Failed to get cache stats:', error);
       return {
@@ -718,6 +1174,35 @@ export class ColdStorageService {
     }
   }
 
+  /**
+   * Get filter facets (distinct values with document counts) for the archive and the last search
+   * AIDEV-NOTE: Archive facets come from storage-index.json - no batch is decrypted. Result facets
+   * are counted per shard, so the pool's counts for the last search are added together.
+   */
+  public async getFacets(): Promise<SearchFacets> {
+    if (!this.isAuthenticated) {
+      throw new Error('Authentication required for cold storage access');
+    }
+
+    const workerIndexes = this.getSearchWorkerIndexes();
+    if (workerIndexes[0] !== 0) {
+      throw new Error('Worker not initialized');
+    }
+    const [result, ...shardResults] = await Promise.all(workerIndexes.map(workerIndex =>
+      this.sendMessage('get-facets', {}, undefined, workerIndex)
+    ));
+    const query = result.query || null;
+    const resultFacets = [result, ...shardResults]
+      .filter(shardResult => shardResult.results && shardResult.query === query)
+      .map(shardResult => shardResult.results);
+
+    return {
+      archive: toFilterFacets(result.archive),
+      results: resultFacets.length > 0 ? toFilterFacets(combineFacets(resultFacets)) : null,
+      query
+    };
+  }
+
   /**
    * Get storage index information
    */
@@ -728,7 +1213,7 @@ export class ColdStorageService {
     batchSizes: Array<{
       id: string;
       documentCount: number;
-      size: number;
+      size: string;
       dateRange: any;
     }>;
   } {
@@ -768,14 +1253,15 @@ export class ColdStorageService {
    * Send message to worker and wait for response
    * AIDEV-NOTE: Enhanced with detailed logging for worker communication
    */
-  private async sendMessage(type: string, payload: any = {}, customId?: string): Promise<any> {
-    if (!this.worker) {
-      console.error('[ColdStorageService] Cannot send message - worker not initialized');
+  private async sendMessage(type: string, payload: any = {}, customId?: string, workerIndex: number = 0): Promise<any> {
+    const worker = this.workers[workerIndex];
+    if (!worker) {
+      console.error(`[ColdStorageService] Cannot send message - worker ${workerIndex} not initialized`);
       throw new Error('Worker not initialized');
     }
 
     const id = customId || `msg_${++this.messageId}`;
-    console.log(`[ColdStorageService] Sending message to worker:`, { type, id, payloadSize: JSON.stringify(payload).length });
+    console.log(`[ColdStorageService] Sending message to worker ${workerIndex}:`, { type, id, payloadSize: JSON.stringify(payload).length });
 
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
@@ -785,10 +1271,10 @@ export class ColdStorageService {
         reject(new Error('Message timeout'));
       }, this.messageTimeout);
 
-      this.pendingMessages.set(id, { resolve, reject, timeout });
+      this.pendingMessages.set(id, { resolve, reject, timeout, workerIndex });
       console.log(`[ColdStorageService] Message ${id} added to pending (total pending: ${this.pendingMessages.size})`);
 
-      this.worker!.postMessage({
+      worker.postMessage({
         type,
         id,
         payload
@@ -801,9 +1287,10 @@ export class ColdStorageService {
    * Handle messages from worker
    * AIDEV-NOTE: Enhanced with detailed logging for worker message handling
    */
-  private handleWorkerMessage(message: ColdStorageWorkerMessage): void {
+  private handleWorkerMessage(message: ColdStorageWorkerMessage, workerIndex: number = 0): void {
     const { type, id, payload } = message;
-    console.log(`[ColdStorageService] Handling worker message:`, { type, id, payloadKeys: Object.keys(payload || {}) });
+    const workerState = this.workerStates[workerIndex];
+    console.log(`[ColdStorageService] Handling worker ${workerIndex} message:`, { type, id, payloadKeys: Object.keys(payload || {}) });
 
     // Handle progress messages
     if (type === 'cold-search-progress' && id && this.searchCallbacks.has(id)) {
@@ -839,7 +1326,7 @@ export class ColdStorageService {
 
         if (type.endsWith('-error')) {
           console.error(`[ColdStorageService] Worker error for ${id}:`, payload.message || 'Unknown worker error');
-          reject(new Error(payload.message || 'Unknown worker error'));
+          reject(new ColdStorageWorkerError(payload.message || 'Unknown worker error', payload));
         } else {
           console.log(`[ColdStorageService] Successful response for ${id}`);
           resolve(payload);
@@ -852,26 +1339,41 @@ export class ColdStorageService {
     console.log(`[ColdStorageService] Processing non-response message: ${type}`);
     switch (type) {
       case 'storage-index-loaded':
-        console.log('[ColdStorageService] Storage index loaded from worker:', {
+        console.log(`[ColdStorageService] Storage index loaded from worker ${workerIndex}:`, {
           totalDocuments: payload.storageIndex?.totalDocuments,
           totalBatches: payload.storageIndex?.batches?.length
         });
-        this.storageIndex = payload.storageIndex;
+        // Every worker loads the same index; the primary's copy is the service's
+        if (workerIndex === 0) {
+          this.storageIndex = payload.storageIndex;
+        }
         break;
 
       case 'storage-index-error':
-        console.warn('[ColdStorageService] Storage index loading failed:', payload.message);
-        this.storageIndex = { totalDocuments: 0, batches: [] };
+        console.warn(`[ColdStorageService] Storage index loading failed in worker ${workerIndex}:`, payload.message);
+        if (workerIndex === 0) {
+          this.storageIndex = createEmptyStorageIndex();
+        }
         break;
 
       case 'auth-complete':
-        console.log('[ColdStorageService] Authentication completed successfully');
-        this.isAuthenticated = true;
+        console.log(`[ColdStorageService] Worker ${workerIndex} authentication completed successfully`);
+        if (workerState) {
+          workerState.isAuthenticated = true;
+        }
+        if (workerIndex === 0) {
+          this.isAuthenticated = true;
+        }
         break;
 
       case 'auth-error':
-        console.error('[ColdStorageService] Cold storage authentication error:', payload);
-        this.isAuthenticated = false;
+        console.error(`[ColdStorageService] Cold storage authentication error in worker ${workerIndex}:`, payload);
+        if (workerState) {
+          workerState.isAuthenticated = false;
+        }
+        if (workerIndex === 0) {
+          this.isAuthenticated = false;
+        }
         break;
 
       case 'worker-error':
@@ -881,8 +1383,7 @@ export class ColdStorageService {
           stack: payload.stack
         });
         // Mark worker as failed
-        this.isInitialized = false;
-        this.isAuthenticated = false;
+        this.markWorkerFailed(workerIndex, payload.message || 'Worker internal error');
         break;
 
       case 'worker-fatal-error':
@@ -894,13 +1395,8 @@ export class ColdStorageService {
           lineno: payload.lineno,
           colno: payload.colno
         });
-        // Mark worker as completely failed
-        this.isInitialized = false;
-        this.isAuthenticated = false;
-        if (this.worker) {
-          this.worker.terminate();
-          this.worker = null;
-        }
+        // Mark worker as completely failed (terminates it)
+        this.markWorkerFailed(workerIndex, payload.message || 'Worker fatal error');
         break;
 
       case 'worker-ready':
@@ -910,13 +1406,16 @@ export class ColdStorageService {
         });
         
         // Update worker state
-        this.workerState.status = 'ready';
-        this.workerState.lastHeartbeat = performance.now();
-        this.workerState.initializationDuration = performance.now() - (this.workerState.initializationStart || 0);
+        if (!workerState) {
+          break;
+        }
+        workerState.status = 'ready';
+        workerState.lastHeartbeat = performance.now();
+        workerState.initializationDuration = performance.now() - (workerState.initializationStart || 0);
         
-        console.log('[ColdStorageService] Worker state updated:', {
-          status: this.workerState.status,
-          initializationDuration: `${this.workerState.initializationDuration.toFixed(2)}ms`
+        console.log(`[ColdStorageService] Worker ${workerIndex} state updated:`, {
+          status: workerState.status,
+          initializationDuration: `${workerState.initializationDuration.toFixed(2)}ms`
         });
         
         // Worker is ready, proceed with loading storage index
@@ -980,27 +1479,16 @@ export class ColdStorageService {
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const batchId = `import-batch-${timestamp}-${Math.random().toString(36).substr(2, 8)}`;
       
-      // Extract keywords from document content for batch metadata
-      const allContent = documents.map(doc => (doc as any).content || '').join(' ').toLowerCase();
-      const commonWords = ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'up', 'about', 'into', 'through', 'during', 'before', 'after', 'above', 'below', 'between', 'among', 'throughout', 'alongside', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'this', 'that', 'these', 'those'];
-      
-      const words = allContent.split(/\s+/)
-        .filter(word => word.length >= 3)
-        .filter(word => !commonWords.includes(word))
-        .filter(word => /^[a-zA-Z]+$/.test(word));
-      
-      const wordCounts: Record<string, number> = {};
-      words.forEach(word => {
-        wordCounts[word] = (wordCounts[word] || 0) + 1;
-      });
-      
-      const keywords = Object.entries(wordCounts)
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 20)
-        .map(([word]) => word);
+      // Extract keywords from document content for batch metadata (grouped by normalised form)
+      const keywords = extractKeywords(documents.map(doc => ({ content: getDocumentFieldValue(doc, 'content') })));
 
       // Calculate date range from documents
-      const dates = documents
+      // AIDEV-NOTE: Decision dates first - the worker skips batches by this range when a date filter is set
+      const decisionDates = documents
+        .map(doc => parseDecisionDate(getDocumentFieldValue(doc, DATE_FILTER_FIELD)))
+        .filter((time): time is number => time !== null)
+        .map(time => new Date(time));
+      const dates = decisionDates.length > 0 ? decisionDates : documents
         .map(doc => (doc as any).date || (doc as any).created_at || doc.uploadDate)
         .filter(date => date)
         .map(date => new Date(date))
@@ -1034,8 +1522,22 @@ export class ColdStorageService {
         console.log('[ColdStorageService] Batch created successfully:', {
           batchId: result.batchId,
           documentCount: documents.length,
-          encrypted: true
+          encrypted: true,
+          persisted: result.persisted
         });
+        this.updateFromWorkerIndex(result);
+        this.pooledResultSets.clear();
+
+        // AIDEV-NOTE: Pooled workers must list the same batches to shard searches - the others
+        // read the new batch back from IndexedDB (kept only by the primary when that failed)
+        if (result.persisted) {
+          await Promise.all(this.getSearchWorkerIndexes()
+            .filter(workerIndex => workerIndex !== 0)
+            .map(workerIndex => this.sendMessage('apply-local-batches', {}, undefined, workerIndex).catch((error: Error) => {
+              console.warn(`[ColdStorageService] Worker ${workerIndex} could not add the new batch:`, error.message);
+              this.markWorkerFailed(workerIndex, `Local batches unavailable: ${error.message}`);
+            })));
+        }
         
         return {
           batchId: result.batchId,
@@ -1052,14 +1554,47 @@ export class ColdStorageService {
     }
   }
 
+  /**
+   * Batches created on this device with the signed storage index listing them, ready to publish
+   * (see createArchiveExportFiles)
+   */
+  public async exportArchive(): Promise<ArchiveExportSource> {
+    if (!this.isInitialized) {
+      throw new Error('Service not initialized');
+    }
+
+    if (!this.isAuthenticated) {
+      throw new Error('Service not authenticated');
+    }
+
+    const result = await this.sendMessage('export-archive');
+    console.log(`[ColdStorageService] Exporting ${result.createdBatches.length} locally created batches from ${this.archive.id}`);
+    return result;
+  }
+
+  /**
+   * Case id → archived status for every case in the archive (see selectCasesToImport)
+   */
+  public async getKnownCases(): Promise<KnownCases> {
+    if (!this.isAuthenticated) {
+      throw new Error('Service not authenticated');
+    }
+
+    const result = await this.sendMessage('get-known-cases');
+    console.log(`[ColdStorageService] ${Object.keys(result.cases).length} cases known in ${this.archive.id}`);
+    return result.cases;
+  }
+
   /**
    * Cleanup resources
    */
   public async cleanup(): Promise<void> {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+    for (const worker of this.workers) {
+      worker?.terminate();
     }
+    this.workers = [];
+    this.workerStates = [];
+    this.pooledResultSets.clear();
 
     if (this.memoryCleanupTimeout) {
       clearTimeout(this.memoryCleanupTimeout);
@@ -1071,6 +1606,7 @@ export class ColdStorageService {
     this.pendingMessages.clear();
     this.searchCallbacks.clear();
     this.storageIndex = null;
+    this.localBatchCount = 0;
   }
 
   /**
@@ -1080,12 +1616,15 @@ export class ColdStorageService {
     return {
       isInitialized: this.isInitialized,
       isAuthenticated: this.isAuthenticated,
-      hasWorker: !!this.worker,
+      hasWorker: this.getLiveWorkerIndexes().length > 0,
       hasStorageIndex: !!this.storageIndex,
       totalBatches: this.storageIndex?.batches?.length || 0,
       pendingMessages: this.pendingMessages.size,
       activeSearches: this.searchCallbacks.size,
-      workerState: { ...this.workerState }
+      workerPoolSize: this.workerPoolSize,
+      workerStates: this.workerStates.map(workerState => ({ ...workerState })),
+      archiveId: this.archive.id,
+      localBatchCount: this.localBatchCount
     };
   }
   
@@ -1093,8 +1632,9 @@ export class ColdStorageService {
    * Get detailed worker status for debugging
    */
   public getWorkerStatus(): {
-    state: ColdStorageWorkerState;
+    states: ColdStorageWorkerState[];
     hasWorker: boolean;
+    liveWorkers: number;
     pendingMessages: number;
     activeSearches: number;
     memoryStats: {
@@ -1103,8 +1643,9 @@ export class ColdStorageService {
     };
   } {
     return {
-      state: { ...this.workerState },
-      hasWorker: !!this.worker,
+      states: this.workerStates.map(workerState => ({ ...workerState })),
+      hasWorker: this.getLiveWorkerIndexes().length > 0,
+      liveWorkers: this.getLiveWorkerIndexes().length,
       pendingMessages: this.pendingMessages.size,
       activeSearches: this.searchCallbacks.size,
       memoryStats: {
@@ -1114,6 +1655,3 @@ export class ColdStorageService {
     };
   }
 }
-
-// AIDEV-NOTE: Export singleton instance for consistent usage across application
-export const coldStorageService = new ColdStorageService();
\ No newline at end of file
@@ -0,0 +1,563 @@
+/**
+ * FederatedColdStorageService - One search across several encrypted cold storage archives
+ *
+ * Provides:
+ * - One mounted ColdStorageService per configured archive, each with its own worker pool,
+ *   storage index and authentication state
+ * - Unlocking with one shared password, or archive by archive with their own passwords
+ * - Searches fanned out to every unlocked archive and merged into one ranked list
+ * - Per-archive document counts and status for the search footer
+ *
+ * AIDEV-NOTE: Every result is labelled with the archive it came from. With a single archive
+ * this is a pass-through - the merged page is the archive's own page.
+ */
+
+import {
+  ColdStorageService,
+  ColdStorageWorkerError,
+  DEFAULT_MAX_CACHE_SIZE,
+  getDefaultWorkerPoolSize,
+  type BatchMetadata,
+  type ColdStorageProgressCallback,
+  type ColdStorageSearchOptions,
+  type ColdStorageSearchResponse,
+  type ColdStorageServiceOptions,
+  type ColdStorageServiceState,
+  type StorageIndex
+} from './ColdStorageService.js';
+import { combineFilterFacets } from '../utils/searchFilters.js';
+import { getShardPageRange, mergeResultPages, type ResultPageOptions } from '../utils/searchPaging.js';
+import { STORAGE_INDEX_VERSION } from '../utils/storageIndexSchema.js';
+import { ErrorHelpers } from '../utils/UserFriendlyError.js';
+import type { ArchiveConfig } from '../utils/archiveConfig.js';
+import type { ArchiveExportSource } from '../utils/archiveExport.js';
+import type { KnownCases } from '../utils/incrementalImport.js';
+import { getEnvironmentConfig } from '../utils/environment.js';
+import type { ArchiveStatus, ColdStorageSearchResult, Document, SearchFacets, TermCorrection } from '../types/index.js';
+
+export interface FederatedSearchOptions extends ColdStorageSearchOptions {
+  // Archives to search (defaults to every unlocked archive)
+  archiveIds?: string[];
+}
+
+export interface FederatedColdStorageServiceOptions extends Omit<ColdStorageServiceOptions, 'archive'> {
+  // Archives to mount (defaults to EnvironmentConfig.archives)
+  archives?: ArchiveConfig[];
+}
+
+export interface FederatedColdStorageServiceState {
+  isInitialized: boolean;
+  isAuthenticated: boolean;
+  archives: ColdStorageServiceState[];
+}
+
+interface ArchiveMount {
+  archive: ArchiveConfig;
+  service: ColdStorageService;
+  // Why the archive could not be initialized or unlocked, if it could not
+  initializationError?: string;
+  unlockError?: string;
+}
+
+// One archive's share of a federated search, kept by that archive's service
+interface FederatedResultSetPart {
+  archiveId: string;
+  resultSetId: string;
+}
+
+function labelResults(results: ColdStorageSearchResult[] | undefined, archive: ArchiveConfig): ColdStorageSearchResult[] {
+  return (results || []).map(result => ({ ...result, archiveId: archive.id, archiveName: archive.name }));
+}
+
+export class FederatedColdStorageService {
+  private readonly mounts: ArchiveMount[];
+  // Merged search results → the result set each archive keeps (for getSearchPage)
+  private resultSets = new Map<string, FederatedResultSetPart[]>();
+  private resultSetCounter = 0;
+  private readonly MAX_RESULT_SETS = 5;
+
+  constructor(options: FederatedColdStorageServiceOptions = {}) {
+    const { archives: configuredArchives, ...serviceOptions } = options;
+    const archives = configuredArchives?.length ? configuredArchives : getEnvironmentConfig().archives;
+
+    // AIDEV-NOTE: The device's worker budget and cache are shared out, so mounting archives does not multiply them
+    const workerPoolSize = serviceOptions.workerPoolSize
+      || Math.max(1, Math.floor(getDefaultWorkerPoolSize() / archives.length));
+    const maxCacheSize = Math.floor((serviceOptions.maxCacheSize || DEFAULT_MAX_CACHE_SIZE) / archives.length);
+
+    this.mounts = archives.map(archive => ({
+      archive,
+      service: new ColdStorageService({ ...serviceOptions, workerPoolSize, maxCacheSize, archive })
+    }));
+    console.log(`[FederatedColdStorageService] Mounting ${archives.length} archive(s) with ${workerPoolSize} worker(s) each`);
+  }
+
+  public get isInitialized(): boolean {
+    return this.mounts.some(mount => mount.service.getState().isInitialized);
+  }
+
+  public get isAuthenticated(): boolean {
+    return this.mounts.some(mount => mount.service.getState().isAuthenticated);
+  }
+
+  /**
+   * Every loaded archive's storage index as one (totals summed, batches listed together)
+   * AIDEV-NOTE: Read by the store for its counts - searching always goes through each archive's own index
+   */
+  public get storageIndex(): StorageIndex | null {
+    const storageIndexes = this.mounts
+      .map(mount => mount.service.storageIndex)
+      .filter((storageIndex): storageIndex is StorageIndex => !!storageIndex && !storageIndex.error);
+
+    if (storageIndexes.length === 0) {
+      return this.mounts[0].service.storageIndex;
+    }
+    if (storageIndexes.length === 1) {
+      return storageIndexes[0];
+    }
+
+    const batches = storageIndexes.flatMap(storageIndex => storageIndex.batches);
+    return {
+      version: STORAGE_INDEX_VERSION,
+      totalDocuments: storageIndexes.reduce((sum, storageIndex) => sum + (storageIndex.totalDocuments || 0), 0),
+      totalBatches: batches.length,
+      lastUpdated: storageIndexes.map(storageIndex => storageIndex.lastUpdated).sort().pop()!,
+      batches
+    };
+  }
+
+  /**
+   * Start every archive's worker pool and load its storage index
+   *
+   * @throws the first archive's error when no archive could be initialized
+   */
+  public async initialize(): Promise<void> {
+    const outcomes = await Promise.allSettled(this.mounts.map(mount => mount.service.initialize()));
+
+    outcomes.forEach((outcome, position) => {
+      const mount = this.mounts[position];
+      mount.initializationError = outcome.status === 'rejected' ? ErrorHelpers.getUserMessage(outcome.reason) : undefined;
+      if (outcome.status === 'rejected') {
+        console.warn(`[FederatedColdStorageService] Archive ${mount.archive.id} is unavailable:`, outcome.reason);
+      }
+    });
+
+    const failed = outcomes.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (failed.length === outcomes.length) {
+      throw failed[0].reason;
+    }
+  }
+
+  /**
+   * Unlock every archive that accepts the password
+   * AIDEV-NOTE: Archives with their own password stay locked until unlockArchive is called for them
+   *
+   * @throws the first archive's error when no archive accepts the password
+   */
+  public async authenticateWithPassword(password: string): Promise<void> {
+    await this.authenticateMounts(mount => mount.service.authenticateWithPassword(password));
+  }
+
+  /**
+   * Authenticate every archive with encryption key material (legacy)
+   */
+  public async authenticate(keyMaterial: CryptoKey): Promise<void> {
+    await this.authenticateMounts(mount => mount.service.authenticate(keyMaterial));
+  }
+
+  /**
+   * Unlock one archive with its own password
+   *
+   * @throws the archive's authentication error when the password is not accepted
+   */
+  public async unlockArchive(archiveId: string, password: string): Promise<void> {
+    const mount = this.getMount(archiveId);
+    try {
+      await mount.service.authenticateWithPassword(password);
+      mount.unlockError = undefined;
+      console.log(`[FederatedColdStorageService] Archive ${archiveId} unlocked`);
+    } catch (error) {
+      mount.unlockError = ErrorHelpers.getUserMessage(error);
+      throw error;
+    }
+  }
+
+  private async authenticateMounts(authenticate: (mount: ArchiveMount) => Promise<void>): Promise<void> {
+    const mounts = this.mounts.filter(mount => mount.service.getState().isInitialized);
+    if (mounts.length === 0) {
+      throw new Error('Service not initialized');
+    }
+
+    const outcomes = await Promise.allSettled(mounts.map(authenticate));
+    outcomes.forEach((outcome, position) => {
+      mounts[position].unlockError = outcome.status === 'rejected' ? ErrorHelpers.getUserMessage(outcome.reason) : undefined;
+    });
+
+    const unlocked = outcomes.filter(outcome => outcome.status === 'fulfilled').length;
+    console.log(`[FederatedColdStorageService] ${unlocked} of ${mounts.length} archive(s) unlocked`);
+    if (unlocked === 0) {
+      throw (outcomes[0] as PromiseRejectedResult).reason;
+    }
+  }
+
+  /**
+   * Reload one archive's storage index, or every archive's
+   */
+  public async loadStorageIndex(archiveId?: string): Promise<StorageIndex | null> {
+    const mounts = archiveId ? [this.getMount(archiveId)] : this.mounts;
+    await Promise.all(mounts.map(mount => mount.service.loadStorageIndex()));
+    this.resultSets.clear();
+    return this.storageIndex;
+  }
+
+  /**
+   * Search every unlocked archive in scope and merge the hits into one ranked list
+   * AIDEV-NOTE: An archive that fails is left out of the results; the search only fails when
+   * every archive does. Progress batch counts are summed over the archives.
+   *
+   * @throws DOMException named 'AbortError' when the search is cancelled through signal
+   */
+  public async searchDocuments(
+    query: string,
+    options: FederatedSearchOptions = {},
+    progressCallback: ColdStorageProgressCallback | null = null,
+    signal?: AbortSignal
+  ): Promise<ColdStorageSearchResponse> {
+    const { archiveIds, ...searchOptions } = options;
+    const mounts = this.getSearchMounts(archiveIds);
+    if (mounts.length === 0) {
+      throw new Error('Authentication required for cold storage access');
+    }
+
+    const archiveProgress = mounts.map(() => ({ totalBatches: 0, completedBatches: 0 }));
+    const pageRange = getShardPageRange(mounts.length, searchOptions);
+    const outcomes = await Promise.allSettled(mounts.map((mount, position) =>
+      mount.service.searchDocuments(query, { ...searchOptions, ...pageRange }, progressCallback && (progress => {
+        archiveProgress[position] = { totalBatches: progress.totalBatches, completedBatches: progress.completedBatches };
+        progressCallback({
+          ...progress,
+          totalBatches: archiveProgress.reduce((sum, archive) => sum + archive.totalBatches, 0),
+          completedBatches: archiveProgress.reduce((sum, archive) => sum + archive.completedBatches, 0),
+          partialResults: labelResults(progress.partialResults, mount.archive)
+        });
+      }), signal)
+    ));
+
+    const cancelled = outcomes.find(outcome => outcome.status === 'rejected' && ErrorHelpers.isAbortError(outcome.reason));
+    if (cancelled) {
+      throw (cancelled as PromiseRejectedResult).reason;
+    }
+
+    const responses: Array<{ mount: ArchiveMount; response: ColdStorageSearchResponse }> = [];
+    const errors: string[] = [];
+    outcomes.forEach((outcome, position) => {
+      const mount = mounts[position];
+      const response = outcome.status === 'fulfilled' ? outcome.value : null;
+      if (response && !response.error) {
+        responses.push({ mount, response: { ...response, results: labelResults(response.results, mount.archive) } });
+        return;
+      }
+      const error = response?.error || (outcome as PromiseRejectedResult).reason?.message || 'Search failed';
+      console.warn(`[FederatedColdStorageService] Archive ${mount.archive.id} search failed:`, error);
+      errors.push(error);
+    });
+
+    // The query is parsed the same way in every archive - a syntax error is the user's to fix
+    const syntaxError = outcomes
+      .map(outcome => (outcome.status === 'fulfilled' ? outcome.value.syntaxError : undefined))
+      .find(Boolean);
+    if (syntaxError || responses.length === 0) {
+      return { results: [], total: 0, query, batchesSearched: 0, error: errors[0], ...(syntaxError ? { syntaxError } : {}) };
+    }
+
+    const corrections = new Map<string, TermCorrection>();
+    for (const { response } of responses) {
+      for (const correction of response.corrections || []) {
+        corrections.set(`${correction.term}→${correction.correctedTo}`, correction);
+      }
+    }
+
+    const page = mergeResultPages(responses.map(({ response }) => response), searchOptions);
+    return {
+      results: page.results,
+      total: page.total,
+      query,
+      batchesSearched: responses.reduce((sum, { response }) => sum + (response.batchesSearched || 0), 0),
+      limited: page.nextOffset !== null,
+      corrections: Array.from(corrections.values()),
+      resultSetId: this.storeResultSet(responses.map(({ mount, response }) => ({
+        archiveId: mount.archive.id,
+        resultSetId: response.resultSetId ?? null
+      }))),
+      offset: page.offset,
+      nextOffset: page.nextOffset,
+      sortBy: page.sortBy,
+      sortOrder: page.sortOrder
+    };
+  }
+
+  /**
+   * Fetch another page or sort order of a federated search from the archives' kept hits
+   *
+   * @throws ColdStorageWorkerError when an archive no longer holds its result set
+   */
+  public async getSearchPage(resultSetId: string, options: ResultPageOptions = {}): Promise<ColdStorageSearchResponse> {
+    const parts = this.resultSets.get(resultSetId);
+    if (!parts) {
+      throw new ColdStorageWorkerError('These search results are no longer available - please search again', { resultSetId });
+    }
+    // Re-inserted as the most recently used set
+    this.resultSets.delete(resultSetId);
+    this.resultSets.set(resultSetId, parts);
+
+    const pageRange = getShardPageRange(parts.length, options);
+    const archivePages = await Promise.all(parts.map(async part => {
+      const mount = this.getMount(part.archiveId);
+      const archivePage = await mount.service.getSearchPage(part.resultSetId, { ...options, ...pageRange });
+      return { ...archivePage, results: labelResults(archivePage.results, mount.archive) };
+    }));
+
+    const page = mergeResultPages(archivePages, options);
+    return {
+      results: page.results,
+      total: page.total,
+      query: page.query || '',
+      batchesSearched: 0,
+      limited: page.nextOffset !== null,
+      resultSetId,
+      offset: page.offset,
+      nextOffset: page.nextOffset,
+      sortBy: page.sortBy,
+      sortOrder: page.sortOrder
+    };
+  }
+
+  /**
+   * Remember which archive keeps which part of a search (least recently used sets are dropped)
+   */
+  private storeResultSet(parts: Array<{ archiveId: string; resultSetId: string | null }>): string | null {
+    const keptParts = parts.filter((part): part is FederatedResultSetPart => !!part.resultSetId);
+    if (keptParts.length === 0) {
+      return null;
+    }
+
+    const resultSetId = `federated_results_${++this.resultSetCounter}`;
+    this.resultSets.set(resultSetId, keptParts);
+    while (this.resultSets.size > this.MAX_RESULT_SETS) {
+      this.resultSets.delete(this.resultSets.keys().next().value!);
+    }
+    return resultSetId;
+  }
+
+  /**
+   * Filter facets summed over the unlocked archives in scope
+   */
+  public async getFacets(archiveIds?: string[]): Promise<SearchFacets> {
+    const mounts = this.getSearchMounts(archiveIds);
+    if (mounts.length === 0) {
+      throw new Error('Authentication required for cold storage access');
+    }
+
+    const archiveFacets = await Promise.all(mounts.map(mount => mount.service.getFacets()));
+    const query = archiveFacets.find(facets => facets.query)?.query || null;
+    const resultFacets = archiveFacets
+      .filter(facets => facets.results && facets.query === query)
+      .map(facets => facets.results!);
+
+    return {
+      archive: combineFilterFacets(archiveFacets.map(facets => facets.archive)),
+      results: resultFacets.length > 0 ? combineFilterFacets(resultFacets) : null,
+      query
+    };
+  }
+
+  /**
+   * Configured archives, in the order they are offered
+   */
+  public getArchives(): ArchiveConfig[] {
+    return this.mounts.map(mount => mount.archive);
+  }
+
+  /**
+   * Archive whose storage-index.json is at this URL (service worker update messages name the URL)
+   */
+  public findArchiveByStorageIndexUrl(storageIndexUrl: string): ArchiveConfig | undefined {
+    return this.mounts.find(mount => mount.service.getStorageIndexUrl() === storageIndexUrl)?.archive;
+  }
+
+  /**
+   * Document counts and lock state of every mounted archive
+   */
+  public getArchiveStatuses(): ArchiveStatus[] {
+    return this.mounts.map(({ archive, service, initializationError, unlockError }) => {
+      const state = service.getState();
+      const storageIndex = service.storageIndex;
+      const error = initializationError || storageIndex?.error;
+      const status: ArchiveStatus['status'] = error
+        ? 'unavailable'
+        : !state.isInitialized ? 'loading' : state.isAuthenticated ? 'unlocked' : 'locked';
+
+      return {
+        id: archive.id,
+        name: archive.name,
+        status,
+        totalDocuments: storageIndex?.totalDocuments || 0,
+        totalBatches: storageIndex?.batches?.length || 0,
+        localBatches: state.localBatchCount,
+        ...(error || (status === 'locked' && unlockError) ? { error: error || unlockError } : {})
+      };
+    });
+  }
+
+  /**
+   * Get specific batch data from the archive listing it
+   */
+  public async getBatch(batchId: string): Promise<any> {
+    const mount = this.mounts.find(candidate =>
+      candidate.service.storageIndex?.batches?.some(batch => batch.batchId === batchId)
+    );
+    if (!mount) {
+      throw new Error(`Batch retrieval failed: ${batchId} is not in any archive`);
+    }
+    return mount.service.getBatch(batchId);
+  }
+
+  /**
+   * Add a batch of documents to an unlocked archive (the first one unless archiveId is given)
+   */
+  public async addBatch(
+    documents: Document[],
+    metadata: BatchMetadata = {},
+    archiveId?: string
+  ): Promise<{ batchId: string; documentCount: number; success: boolean }> {
+    return this.getTargetMount(archiveId).service.addBatch(documents, metadata);
+  }
+
+  /**
+   * Batches created on this device for an archive (the one imports go to unless archiveId is
+   * given), with its signed storage index
+   */
+  public async exportArchive(archiveId?: string): Promise<ArchiveExportSource> {
+    return this.getTargetMount(archiveId).service.exportArchive();
+  }
+
+  /**
+   * Cases already held by an archive (the one imports go to unless archiveId is given)
+   */
+  public async getKnownCases(archiveId?: string): Promise<KnownCases> {
+    return this.getTargetMount(archiveId).service.getKnownCases();
+  }
+
+  public async addDocument(document: Document): Promise<void> {
+    return this.mounts[0].service.addDocument(document);
+  }
+
+  /**
+   * Clear every archive's batch cache
+   */
+  public async clearCache(): Promise<void> {
+    this.resultSets.clear();
+    await Promise.all(this.mounts.map(mount => mount.service.clearCache()));
+  }
+
+  /**
+   * Lock every archive again, forgetting passwords, derived keys and decrypted data
+   */
+  public async logout(): Promise<void> {
+    this.resultSets.clear();
+    this.mounts.forEach(mount => {
+      mount.unlockError = undefined;
+    });
+    await Promise.all(this.mounts.map(mount => mount.service.logout()));
+  }
+
+  /**
+   * Cache statistics summed over the unlocked archives
+   */
+  public async getCacheStats(): Promise<{ cacheSize: number; cachedBatches: number; maxCacheSize: number }> {
+    const mounts = this.getSearchMounts();
+    if (mounts.length === 0) {
+      throw new Error('Authentication required for cache statistics');
+    }
+
+    const archiveStats = await Promise.all(mounts.map(mount => mount.service.getCacheStats()));
+    return archiveStats.reduce((total, stats) => ({
+      cacheSize: total.cacheSize + stats.cacheSize,
+      cachedBatches: total.cachedBatches + stats.cachedBatches,
+      maxCacheSize: total.maxCacheSize + stats.maxCacheSize
+    }), { cacheSize: 0, cachedBatches: 0, maxCacheSize: 0 });
+  }
+
+  /**
+   * Get storage index information over every loaded archive
+   */
+  public getStorageInfo(): ReturnType<ColdStorageService['getStorageInfo']> {
+    const storageIndex = this.storageIndex;
+    return {
+      totalDocuments: storageIndex?.totalDocuments || 0,
+      totalBatches: storageIndex?.batches?.length || 0,
+      isLoaded: !!storageIndex,
+      batchSizes: storageIndex?.batches?.map(batch => ({
+        id: batch.batchId,
+        documentCount: batch.documentCount,
+        size: batch.size,
+        dateRange: batch.dateRange
+      })) || []
+    };
+  }
+
+  /**
+   * Check if any archive can be searched
+   */
+  public isAvailable(): boolean {
+    return this.mounts.some(mount => mount.service.isAvailable());
+  }
+
+  public requiresAuthentication(): boolean {
+    return true; // Always true for encrypted-only cold storage
+  }
+
+  /**
+   * Cleanup every archive's resources
+   */
+  public async cleanup(): Promise<void> {
+    this.resultSets.clear();
+    await Promise.all(this.mounts.map(mount => mount.service.cleanup()));
+  }
+
+  /**
+   * Get current service state, per archive
+   */
+  public getState(): FederatedColdStorageServiceState {
+    return {
+      isInitialized: this.isInitialized,
+      isAuthenticated: this.isAuthenticated,
+      archives: this.mounts.map(mount => mount.service.getState())
+    };
+  }
+
+  // Archive that imports and exports default to - the first unlocked one
+  private getTargetMount(archiveId?: string): ArchiveMount {
+    return archiveId
+      ? this.getMount(archiveId)
+      : this.mounts.find(candidate => candidate.service.getState().isAuthenticated) || this.mounts[0];
+  }
+
+  private getMount(archiveId: string): ArchiveMount {
+    const mount = this.mounts.find(candidate => candidate.archive.id === archiveId);
+    if (!mount) {
+      throw new Error(`Unknown archive: ${archiveId}`);
+    }
+    return mount;
+  }
+
+  // Unlocked archives, optionally limited to the given ids
+  private getSearchMounts(archiveIds?: string[]): ArchiveMount[] {
+    return this.mounts.filter(mount =>
+      mount.service.getState().isAuthenticated && (!archiveIds || archiveIds.includes(mount.archive.id))
+    );
+  }
+}
+
+// AIDEV-NOTE: Export singleton instance for consistent usage across application
+export const coldStorageService = new FederatedColdStorageService();
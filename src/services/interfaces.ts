@@ -8,6 +8,9 @@
  */
 
 import type { SearchResult } from '@/types';
+import type { ImportRunSummary } from '@/utils/importJournal';
+import type { KnownCases } from '@/utils/incrementalImport';
+import type { ICaseReferenceProvider } from './scraping/interfaces';
 
 // Authentication Service Interface
 export interface IAuthenticationService {
@@ -72,9 +75,11 @@ export interface IPerformanceMonitor {
 export interface IAppealImportService {
   readonly importing: boolean;
   configure(config: { batchSize?: number; sampleMode?: boolean; concurrencyLimit?: number; rateLimitMs?: number }): void;
-  enableColdStorageMode(callback: (documents: any[]) => Promise<void>): void;
+  enableColdStorageMode(callback: (documents: any[]) => Promise<void>, getKnownCases?: () => Promise<KnownCases>): void;
   disableColdStorageMode(): void;
-  downloadAllCases(): Promise<void>;
+  setCaseReferenceProvider(provider: ICaseReferenceProvider): void;
+  downloadAllCases(options?: { resume?: boolean; incremental?: boolean; limit?: number }): Promise<void>;
+  getResumableImport(): Promise<ImportRunSummary | null>;
   onProgress(callback: (progress: any) => void): void;
   cancelImport(): void;
 }
@@ -0,0 +1,130 @@
+/**
+ * Case Reference Providers
+ *
+ * Sources of the case ids an import fetches: the published case list, an uploaded table, an
+ * id range, a pasted list, or the cases an archive already holds. Single responsibility for
+ * producing the list - parsing and validation live in utils/caseReferences.
+ *
+ * AIDEV-NOTE: Providers return every valid id they were given; sample imports are limited by
+ * the orchestrator (ImportRunOptions.limit), not here
+ */
+
+import type { ICaseReferenceProvider, KnownCases } from './interfaces.js';
+import { getEnvironmentConfig } from '../../utils/environment.js';
+import {
+  collectCaseIds,
+  createCaseIdRange,
+  getColumnCaseIds,
+  parseCaseIdList,
+  type CaseIdCollection,
+  type CaseReferenceColumnMapping,
+  type CaseReferenceSource
+} from '../../utils/caseReferences.js';
+
+function logCollection(description: string, collection: CaseIdCollection): string[] {
+  console.log(`[CaseReferenceProvider] ${collection.caseIds.length} case ids from ${description}` +
+    (collection.invalidCount ? `, ${collection.invalidCount} invalid values dropped` : '') +
+    (collection.duplicateCount ? `, ${collection.duplicateCount} repeats dropped` : ''));
+  return collection.caseIds;
+}
+
+/**
+ * caseReferences.csv served with the app (or from runtime-config.js), one id per line
+ */
+export class PublishedCaseReferenceProvider implements ICaseReferenceProvider {
+  readonly description = 'the published case list';
+
+  constructor(private url: string = getEnvironmentConfig().caseReferencesUrl) {}
+
+  async getCaseReferences(): Promise<string[]> {
+    const response = await fetch(this.url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch case references: ${response.status} ${response.statusText}`);
+    }
+    return logCollection(this.description, parseCaseIdList(await response.text()));
+  }
+}
+
+/**
+ * One column of an uploaded CSV or XLSX file (read with readCaseReferenceTable)
+ */
+export class TableCaseReferenceProvider implements ICaseReferenceProvider {
+  readonly description: string;
+
+  constructor(private rows: string[][], private mapping: CaseReferenceColumnMapping, fileName: string = 'uploaded file') {
+    this.description = fileName;
+  }
+
+  async getCaseReferences(): Promise<string[]> {
+    return logCollection(this.description, getColumnCaseIds(this.rows, this.mapping));
+  }
+}
+
+/**
+ * Every id from start to end inclusive
+ */
+export class RangeCaseReferenceProvider implements ICaseReferenceProvider {
+  readonly description: string;
+
+  constructor(private start: number, private end: number) {
+    this.description = `case ids ${start}-${end}`;
+  }
+
+  async getCaseReferences(): Promise<string[]> {
+    const caseIds = createCaseIdRange(this.start, this.end);
+    console.log(`[CaseReferenceProvider] ${caseIds.length} case ids from ${this.description}`);
+    return caseIds;
+  }
+}
+
+/**
+ * Ids typed or pasted into the import dialog
+ */
+export class ListCaseReferenceProvider implements ICaseReferenceProvider {
+  readonly description = 'the pasted list';
+
+  constructor(private text: string) {}
+
+  async getCaseReferences(): Promise<string[]> {
+    return logCollection(this.description, parseCaseIdList(this.text));
+  }
+}
+
+/**
+ * Ids of the cases an archive already holds, to refresh them
+ */
+export class ArchiveCaseReferenceProvider implements ICaseReferenceProvider {
+  readonly description = 'the archive';
+
+  constructor(private getKnownCases: () => Promise<KnownCases>) {}
+
+  async getCaseReferences(): Promise<string[]> {
+    return logCollection(this.description, collectCaseIds(Object.keys(await this.getKnownCases())));
+  }
+}
+
+/**
+ * Provider for a source chosen in the import dialog
+ *
+ * @param getKnownCases - cases of the import target archive (required for 'archive' sources)
+ */
+export function createCaseReferenceProvider(
+  source: CaseReferenceSource,
+  getKnownCases?: () => Promise<KnownCases>
+): ICaseReferenceProvider {
+  switch (source.type) {
+    case 'published':
+      return new PublishedCaseReferenceProvider();
+    case 'table':
+      return new TableCaseReferenceProvider(source.rows, source.mapping, source.fileName);
+    case 'range':
+      return new RangeCaseReferenceProvider(source.start, source.end);
+    case 'list':
+      return new ListCaseReferenceProvider(source.text);
+    case 'archive':
+      if (!getKnownCases) {
+        throw new Error('Importing archive case ids needs cold storage');
+      }
+      return new ArchiveCaseReferenceProvider(getKnownCases);
+  }
+}
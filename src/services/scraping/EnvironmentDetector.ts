@@ -2,12 +2,13 @@
  * Environment Detection Service
  * 
  * Determines whether the application is running in development or production
- * environment. Single responsibility for environment detection.
+ * environment, and so how imports fetch cases. Single responsibility for environment detection.
  * 
  * AIDEV-NOTE: Focused environment detection extracted from appeal downloader
  */
 
-import type { IEnvironmentDetector } from './interfaces.js';
+import { getEnvironmentConfig } from '@/utils/environment.js';
+import type { IEnvironmentDetector, ScrapingMode } from './interfaces.js';
 
 export class EnvironmentDetector implements IEnvironmentDetector {
   
@@ -42,6 +43,15 @@ export class EnvironmentDetector implements IEnvironmentDetector {
     return !this.isLocalDevelopment();
   }
 
+  /**
+   * How imports fetch cases: scrapingMode from runtime-config.js (SCRAPING_MODE in Node.js)
+   * when set, otherwise simulated locally - the live site blocks local origins (CORS) - and live
+   * everywhere else
+   */
+  getScrapingMode(): ScrapingMode {
+    return getEnvironmentConfig().scrapingMode ?? (this.isLocalDevelopment() ? 'simulate' : 'live');
+  }
+
   getEnvironmentName(): string {
     return this.isLocalDevelopment() ? 'development' : 'production';
   }
@@ -0,0 +1,201 @@
+/**
+ * Fixture HTTP Client
+ *
+ * Records ViewCase.aspx pages and decision PDFs from the live site and serves them back offline,
+ * so development and tests run the real parsing path (WebScraper, PDFProcessor) instead of
+ * SimulationService templates. Single responsibility for recorded responses.
+ *
+ * AIDEV-NOTE: Fixtures are named after the request URL (see getFixtureName) and listed in an
+ * index.json beside them. Record from Node.js with SCRAPING_MODE=live SCRAPING_RECORD_FIXTURES=1,
+ * replay with SCRAPING_MODE=replay - or copy the directory to public/fixtures/scraping/ and set
+ * scrapingMode: 'replay' in runtime-config.js for the dev server.
+ */
+
+import { HttpRequestError } from './HttpClient.js';
+import type { IFixtureStore, IHttpClient } from './interfaces.js';
+
+export type FixtureMode = 'record' | 'replay';
+
+export type FixtureKind = 'html' | 'pdf';
+
+// Names of every recorded fixture - lets a served folder tell a missing fixture from the app shell
+export const FIXTURE_INDEX_FILE = 'index.json';
+
+// Kept in a variable so the browser build leaves the Node.js-only import alone
+const NODE_FS_MODULE = 'node:fs/promises';
+
+/**
+ * File name for a recorded response: path and query flattened, e.g.
+ * ViewCase.aspx?CaseID=3300001 -> ViewCase.aspx_CaseID_3300001.html
+ */
+export function getFixtureName(url: string, kind: FixtureKind): string {
+  const { pathname, search } = new URL(url);
+  const slug = `${pathname}${search}`.replace(/[^A-Za-z0-9.-]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${slug || 'index'}.${kind}`;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function withTrailingSlash(location: string): string {
+  return location.endsWith('/') ? location : `${location}/`;
+}
+
+export class FixtureHttpClient implements IHttpClient {
+  private store: IFixtureStore;
+  private mode: FixtureMode;
+  private liveClient: IHttpClient | null;
+
+  /**
+   * @param liveClient - fetches what record mode saves (unused when replaying)
+   */
+  constructor(store: IFixtureStore, mode: FixtureMode, liveClient: IHttpClient | null = null) {
+    if (mode === 'record' && !liveClient) {
+      throw new Error('Recording fixtures needs a live HTTP client');
+    }
+    this.store = store;
+    this.mode = mode;
+    this.liveClient = liveClient;
+    console.log(`[FixtureHttpClient] ${mode === 'record' ? 'Recording to' : 'Replaying from'} ${store.location}`);
+  }
+
+  getMode(): FixtureMode {
+    return this.mode;
+  }
+
+  async get(url: string, options?: any): Promise<any> {
+    const name = getFixtureName(url, 'html');
+
+    if (this.mode === 'record') {
+      const html = await this.liveClient!.get(url, options);
+      await this.store.write(name, toArrayBuffer(new TextEncoder().encode(String(html))));
+      return html;
+    }
+
+    return new TextDecoder().decode(await this.readFixture(url, name));
+  }
+
+  async download(url: string): Promise<ArrayBuffer> {
+    const name = getFixtureName(url, 'pdf');
+
+    if (this.mode === 'record') {
+      const data = await this.liveClient!.download(url);
+      await this.store.write(name, data);
+      return data;
+    }
+
+    return this.readFixture(url, name);
+  }
+
+  setHeaders(headers: Record<string, string>): void {
+    this.liveClient?.setHeaders(headers);
+  }
+
+  private async readFixture(url: string, name: string): Promise<ArrayBuffer> {
+    const data = await this.store.read(name);
+    if (!data) {
+      // Same as the live site answering 404 - the orchestrator records it without retrying
+      throw new HttpRequestError(`No fixture recorded for ${url} (${name} in ${this.store.location})`, url, 404, false);
+    }
+    return data;
+  }
+}
+
+/**
+ * Fixture directory on disk (Node.js scripts and tests) - the only store that can record
+ */
+export class FileSystemFixtureStore implements IFixtureStore {
+  readonly location: string;
+  private names: Promise<Set<string>> | null = null;
+  // Serialises index.json updates from concurrent requests
+  private indexWrite: Promise<void> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.location = directory;
+  }
+
+  async read(name: string): Promise<ArrayBuffer | null> {
+    const fs = await this.loadFileSystem();
+    try {
+      return toArrayBuffer(await fs.readFile(this.getPath(name)));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(name: string, data: ArrayBuffer): Promise<void> {
+    const fs = await this.loadFileSystem();
+    await fs.mkdir(this.location, { recursive: true });
+    await fs.writeFile(this.getPath(name), new Uint8Array(data));
+
+    const names = await this.getNames();
+    names.add(name);
+    this.indexWrite = this.indexWrite
+      .catch(() => undefined)
+      .then(() => fs.writeFile(this.getPath(FIXTURE_INDEX_FILE), JSON.stringify([...names].sort(), null, 2)));
+    await this.indexWrite;
+  }
+
+  private getPath(name: string): string {
+    return `${withTrailingSlash(this.location)}${name}`;
+  }
+
+  private getNames(): Promise<Set<string>> {
+    if (!this.names) {
+      this.names = this.read(FIXTURE_INDEX_FILE).then(data => new Set<string>(
+        data ? JSON.parse(new TextDecoder().decode(data)) : []
+      ));
+    }
+    return this.names;
+  }
+
+  private async loadFileSystem(): Promise<typeof import('node:fs/promises')> {
+    return import(/* @vite-ignore */ NODE_FS_MODULE);
+  }
+}
+
+/**
+ * Fixture folder served over HTTP (the dev server's public/fixtures/scraping/) - replay only
+ */
+export class UrlFixtureStore implements IFixtureStore {
+  readonly location: string;
+  private names: Promise<Set<string>> | null = null;
+
+  constructor(baseUrl: string) {
+    this.location = withTrailingSlash(baseUrl);
+  }
+
+  async read(name: string): Promise<ArrayBuffer | null> {
+    // Servers with an SPA fallback answer unknown paths with the app, so only listed names are fetched
+    if (!(await this.getNames()).has(name)) {
+      return null;
+    }
+
+    const response = await fetch(this.location + name);
+    if (!response.ok) {
+      throw new Error(`Failed to load fixture ${name}: HTTP ${response.status}`);
+    }
+    return response.arrayBuffer();
+  }
+
+  async write(name: string): Promise<void> {
+    throw new Error(`Cannot record ${name}: fixtures are recorded from Node.js (SCRAPING_RECORD_FIXTURES=1)`);
+  }
+
+  private getNames(): Promise<Set<string>> {
+    if (!this.names) {
+      this.names = fetch(this.location + FIXTURE_INDEX_FILE)
+        .then(response => response.ok ? response.json() : [])
+        .then(names => new Set<string>(Array.isArray(names) ? names : []))
+        .catch(error => {
+          console.warn(`[FixtureHttpClient] No fixture index at ${this.location}:`, error);
+          return new Set<string>();
+        });
+    }
+    return this.names;
+  }
+}
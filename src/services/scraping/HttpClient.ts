@@ -1,38 +1,89 @@
 /**
  * HTTP Client Service
- * 
+ *
  * Handles all HTTP requests with security enhancements, timeout management,
- * and error handling. Follows Single Responsibility Principle.
- * 
- * AIDEV-NOTE: Focused HTTP client for appeal scraping with security
+ * rate limiting and error handling. Follows Single Responsibility Principle.
+ *
+ * AIDEV-NOTE: Focused HTTP client for appeal scraping with security. Every request goes through
+ * the shared RateLimiter; throttled responses (429/503) are retried here after the pause the
+ * server asked for, everything else is thrown as an HttpRequestError saying whether a retry
+ * can help.
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { getEnvironmentConfig } from '@/utils/environment.js';
+import { RateLimiter, parseRetryAfter } from '@/utils/rateLimiter.js';
 import type { IHttpClient } from './interfaces.js';
 
+export interface HttpClientOptions {
+  timeoutMs: number;
+  // Defaults to scraperUserAgent from runtime-config.js
+  userAgent?: string;
+  rateLimiter?: RateLimiter;
+  // Times a throttled request is retried before it fails
+  maxThrottleRetries: number;
+}
+
+// Not worth retrying - the same request will fail the same way (404: no such case)
+const PERMANENT_STATUSES = new Set([400, 401, 403, 404, 405, 410, 414, 451]);
+const THROTTLED_STATUSES = new Set([429, 503]);
+
+export class HttpRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly status: number | null,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * False only for failures a retry cannot fix (e.g. a 404 for a case that does not exist)
+ */
+export function isRetryableRequestError(error: unknown): boolean {
+  return !(error instanceof HttpRequestError) || error.retryable;
+}
+
+function getResponseStatus(error: unknown): number | null {
+  return (error as { response?: { status?: number } } | null)?.response?.status ?? null;
+}
+
+// Timeouts, dropped connections and server errors slow the rate limiter down - 404s do not, and
+// throttled responses pause it through throttle() instead
+function isOverloadError(error: unknown): boolean {
+  const status = getResponseStatus(error);
+  return status === null || (status >= 500 && !THROTTLED_STATUSES.has(status));
+}
+
 export class HttpClient implements IHttpClient {
   private axiosClient!: AxiosInstance;
   private timeoutMs: number;
+  private userAgent: string;
+  private rateLimiter: RateLimiter;
+  private maxThrottleRetries: number;
 
-  constructor(timeoutMs: number = 30000) {
-    this.timeoutMs = timeoutMs;
+  constructor(options: Partial<HttpClientOptions> = {}) {
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.userAgent = options.userAgent || getEnvironmentConfig().scraperUserAgent;
+    this.rateLimiter = options.rateLimiter || new RateLimiter();
+    this.maxThrottleRetries = options.maxThrottleRetries ?? 5;
     this.setupAxiosClient();
   }
 
   private setupAxiosClient(): void {
     const envConfig = getEnvironmentConfig();
-    
+
+    // AIDEV-NOTE: An honest User-Agent naming the importer - browsers may replace it with their
+    // own, Node.js scripts and tests send it as given
     this.axiosClient = axios.create({
       timeout: this.timeoutMs,
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+        'User-Agent': this.userAgent,
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        'DNT': '1',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1'
+        'Accept-Language': 'en-GB,en;q=0.5'
       }
     });
 
@@ -49,27 +100,13 @@ export class HttpClient implements IHttpClient {
   }
 
   async get(url: string, options: AxiosRequestConfig = {}): Promise<any> {
-    try {
-      const response = await this.axiosClient.get(url, {
-        timeout: this.timeoutMs,
-        ...options
-      });
-      return response.data;
-    } catch (error) {
-      throw new Error(`HTTP GET failed for ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    const response = await this.request(url, 'HTTP GET', options);
+    return response.data;
   }
 
   async download(url: string): Promise<ArrayBuffer> {
-    try {
-      const response = await this.axiosClient.get(url, {
-        responseType: 'arraybuffer',
-        timeout: this.timeoutMs
-      });
-      return response.data;
-    } catch (error) {
-      throw new Error(`Download failed for ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    const response = await this.request(url, 'Download', { responseType: 'arraybuffer' });
+    return response.data;
   }
 
   setHeaders(headers: Record<string, string>): void {
@@ -80,4 +117,35 @@ export class HttpClient implements IHttpClient {
     this.timeoutMs = timeoutMs;
     this.axiosClient.defaults.timeout = timeoutMs;
   }
-}
\ No newline at end of file
+
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+
+  private async request(url: string, action: string, options: AxiosRequestConfig) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.rateLimiter.schedule(() => this.axiosClient.get(url, {
+          timeout: this.timeoutMs,
+          ...options
+        }), isOverloadError);
+      } catch (error) {
+        // Axios errors carry the response when the server answered
+        const response = (error as { response?: { status?: number; headers?: Record<string, any> } } | null)?.response;
+        const status = response?.status ?? null;
+        const message = `${action} failed for ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+        if (status !== null && THROTTLED_STATUSES.has(status)) {
+          const pausedMs = this.rateLimiter.throttle(parseRetryAfter(response?.headers?.['retry-after']));
+          if (attempt < this.maxThrottleRetries) {
+            console.warn(`[HttpClient] ${status} for ${url} - retrying in ${Math.round(pausedMs / 1000)}s`);
+            continue;
+          }
+          throw new HttpRequestError(message, url, status, true);
+        }
+
+        throw new HttpRequestError(message, url, status, status === null || !PERMANENT_STATUSES.has(status));
+      }
+    }
+  }
+}
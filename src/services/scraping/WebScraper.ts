@@ -8,6 +8,7 @@
  */
 
 import * as cheerio from 'cheerio';
+import { HttpRequestError } from './HttpClient.js';
 import type { IWebScraper, IHttpClient, AppealCaseData, IEnvironmentDetector } from './interfaces.js';
 
 export class WebScraper implements IWebScraper {
@@ -31,17 +32,16 @@ export class WebScraper implements IWebScraper {
       
       const htmlData = await this.httpClient.get(url, {
         headers: {
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1'
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
         }
       });
 
       return this.parseHtmlContent(htmlData, caseId, url);
     } catch (error) {
+      // Keep the status so the orchestrator can tell a missing case from a flaky request
+      if (error instanceof HttpRequestError) {
+        throw new HttpRequestError(`Failed to scrape case ${caseId}: ${error.message}`, error.url, error.status, error.retryable);
+      }
       throw new Error(`Failed to scrape case ${caseId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -7,6 +7,14 @@
  * AIDEV-NOTE: Service interfaces for appeal scraping with SOLID design
  */
 
+import type { ImportRun, ImportRunSummary } from '../../utils/importJournal.js';
+import type { KnownCases } from '../../utils/incrementalImport.js';
+import type { ScrapingMode } from '../../utils/environment.js';
+
+export type { ImportRun, ImportRunSummary } from '../../utils/importJournal.js';
+export type { KnownCases } from '../../utils/incrementalImport.js';
+export type { ScrapingMode } from '../../utils/environment.js';
+
 // Core data types
 export interface AppealCaseData {
   doc_link_span: string;
@@ -53,6 +61,8 @@ export interface ScrapingConfig {
   maxRetries: number;
   batchSize: number;
   timeoutMs: number;
+  // User-Agent for scraping requests (defaults to scraperUserAgent from runtime-config.js)
+  userAgent?: string;
 }
 
 // Web scraping interface
@@ -75,6 +85,14 @@ export interface IHttpClient {
   setHeaders(headers: Record<string, string>): void;
 }
 
+// Recorded responses for offline scraping (a directory in Node.js, a served folder in the browser)
+export interface IFixtureStore {
+  readonly location: string;
+  // null when nothing was recorded under the name
+  read(name: string): Promise<ArrayBuffer | null>;
+  write(name: string, data: ArrayBuffer): Promise<void>;
+}
+
 // Data transformation interface
 export interface IDataTransformer {
   transformCase(rawData: Partial<AppealCaseData>, pdfContent: string): AppealCaseData;
@@ -85,6 +103,7 @@ export interface IDataTransformer {
 export interface IEnvironmentDetector {
   isLocalDevelopment(): boolean;
   isProduction(): boolean;
+  getScrapingMode(): ScrapingMode;
 }
 
 // Simulation service interface (for development)
@@ -125,8 +144,26 @@ export interface IAppealStorageAdapter {
   setColdStorageMode(enabled: boolean, callback?: (data: AppealCaseData[]) => Promise<void>): void;
 }
 
+// Import checkpoint interface (IndexedDB in the browser)
+export interface IImportJournal {
+  getResumableRun(): Promise<ImportRun | null>;
+  saveRun(run: ImportRun): Promise<void>;
+  supersedeRuns(currentRunId: string): Promise<void>;
+}
+
+export interface ImportRunOptions {
+  // Continue the most recent interrupted run with its pending cases instead of starting over
+  resume?: boolean;
+  // Skip cases the archive already holds with a final status (cold storage mode only)
+  incremental?: boolean;
+  // Import at most this many cases (sample imports); a resumed run keeps its own list
+  limit?: number;
+}
+
 // Case reference provider interface
 export interface ICaseReferenceProvider {
+  // Where the ids come from, for logs ("the published case list", "cases.xlsx")
+  readonly description: string;
   getCaseReferences(): Promise<string[]>;
 }
 
@@ -134,9 +171,14 @@ export interface ICaseReferenceProvider {
 export interface IAppealImportOrchestrator {
   readonly importing: boolean;
   configure(config: Partial<ScrapingConfig>): void;
-  enableColdStorageMode(callback: (documents: AppealCaseData[]) => Promise<void>): void;
+  enableColdStorageMode(
+    callback: (documents: AppealCaseData[]) => Promise<void>,
+    getKnownCases?: () => Promise<KnownCases>
+  ): void;
   disableColdStorageMode(): void;
-  downloadAllCases(): Promise<void>;
+  setCaseReferenceProvider(provider: ICaseReferenceProvider): void;
+  downloadAllCases(options?: ImportRunOptions): Promise<void>;
+  getResumableImport(): Promise<ImportRunSummary | null>;
   onProgress(callback: (progress: ProcessingProgress) => void): void;
   cancelImport(): void;
 }
\ No newline at end of file
@@ -19,7 +19,7 @@ import { logger } from '@/utils/logger';
 async function getColdStorageService() {
   try {
     console.log('[ServiceRegistry] Loading ColdStorageService...');
-    const { coldStorageService } = await import('@/services/ColdStorageService');
+    const { coldStorageService } = await import('@/services/FederatedColdStorageService');
     console.log('[ServiceRegistry] ColdStorageService loaded successfully');
     return coldStorageService;
   } catch (error) {
@@ -6,21 +6,62 @@
  */
 
 import { reactive, computed } from 'vue';
-import type { ColdStorageSearchResult } from '@/types';
-import { UserFriendlyErrorFactory } from '@/utils/UserFriendlyError';
+import type { ArchiveStatus, ColdStorageSearchResult, Document, SearchFacets } from '@/types';
+import { ErrorHelpers, UserFriendlyErrorFactory } from '@/utils/UserFriendlyError';
+import { getActiveSearchFilters } from '@/utils/searchFilters';
+import type { ResultPageOptions } from '@/utils/searchPaging';
+import type { BatchMetadata, ColdStorageSearchResponse } from '@/services/ColdStorageService';
+import { createArchiveExportFiles, saveArchiveExport, type ArchiveExportDestination } from '@/utils/archiveExport';
+import { ALL_ARCHIVES, type ArchiveConfig } from '@/utils/archiveConfig';
+import type { KnownCases } from '@/utils/incrementalImport';
+import { getEnvironmentConfig } from '@/utils/environment';
 
 // AIDEV-NOTE: Dynamic import helper for cold storage service
 let _coldStorageServiceInstance: any = null;
 async function getColdStorageService() {
   if (!_coldStorageServiceInstance) {
-    const { coldStorageService } = await import('@/services/ColdStorageService');
+    const { coldStorageService } = await import('@/services/FederatedColdStorageService');
     _coldStorageServiceInstance = coldStorageService;
   }
   return _coldStorageServiceInstance;
 }
 
+const SEARCH_SCOPE_KEY = 'decision_parser_search_scope';
+
+// Scope chosen on an earlier visit, if its archive is still configured
+function getSavedSearchScope(archives: ArchiveConfig[]): string {
+  try {
+    const savedScope = localStorage.getItem(SEARCH_SCOPE_KEY);
+    if (savedScope && archives.some(archive => archive.id === savedScope)) {
+      return savedScope;
+    }
+  } catch (error) {
+    console.warn('[ColdStorageStore] Failed to read the saved search scope:', error);
+  }
+  return ALL_ARCHIVES;
+}
+
+function saveSearchScope(scope: string): void {
+  try {
+    localStorage.setItem(SEARCH_SCOPE_KEY, scope);
+  } catch (error) {
+    console.warn('[ColdStorageStore] Failed to save the search scope:', error);
+  }
+}
+
+// Archive ids a search or facet request is limited to (undefined searches every unlocked archive)
+function getScopeArchiveIds(): string[] | undefined {
+  return coldStorageState.searchScope === ALL_ARCHIVES ? undefined : [coldStorageState.searchScope];
+}
+
 // AIDEV-NOTE: Cold storage state interface
 export interface ColdStorageState {
+  // Archives from EnvironmentConfig, all mounted at once
+  archives: ArchiveConfig[];
+  // ALL_ARCHIVES or the id of the one archive searched
+  searchScope: string;
+  // Document counts and lock state per archive (counts in stats cover them all)
+  archiveStatuses: ArchiveStatus[];
   storageIndex: any;
   isLoading: boolean;
   isInitialized: boolean;
@@ -42,8 +83,13 @@ export interface ColdStorageState {
   };
 }
 
+const configuredArchives = getEnvironmentConfig().archives;
+
 // AIDEV-NOTE: Reactive cold storage state
 export const coldStorageState = reactive<ColdStorageState>({
+  archives: configuredArchives,
+  searchScope: getSavedSearchScope(configuredArchives),
+  archiveStatuses: [],
   storageIndex: null,
   isLoading: false,
   isInitialized: false,
@@ -68,6 +114,7 @@ export const coldStorageState = reactive<ColdStorageState>({
 // AIDEV-NOTE: Helper function for stats synchronization (DRY principle)
 const syncStorageStats = async (coldStorageService: any): Promise<void> => {
   try {
+    coldStorageState.archiveStatuses = coldStorageService.getArchiveStatuses();
     if (coldStorageService.storageIndex) {
       coldStorageState.stats.totalDocuments = coldStorageService.storageIndex.totalDocuments || 0;
       coldStorageState.stats.totalBatches = coldStorageService.storageIndex.batches?.length || 0;
@@ -110,8 +157,8 @@ export const useColdStorageStore = () => {
       } catch (error) {
         console.error('[ColdStorageStore] Cold storage initialization failed:', error);
         
-        // AIDEV-NOTE: Use UserFriendlyError for better error handling
-        const userFriendlyError = UserFriendlyErrorFactory.storage(
+        // AIDEV-NOTE: Use UserFriendlyError for better error handling (a rejected archive index brings its own)
+        const userFriendlyError = ErrorHelpers.isUserFriendlyError(error) ? error : UserFriendlyErrorFactory.storage(
           'initialize cold storage',
           error instanceof Error ? error.message : 'Unknown initialization error',
           error as Error
@@ -119,6 +166,10 @@ export const useColdStorageStore = () => {
         
         coldStorageState.error = userFriendlyError.userMessage;
         coldStorageState.isAvailable = false;
+        // Archives that did load still report their counts
+        if (_coldStorageServiceInstance) {
+          await syncStorageStats(_coldStorageServiceInstance);
+        }
         
         console.error('[ColdStorageStore] Cold storage will be unavailable');
         
@@ -167,7 +218,7 @@ export const useColdStorageStore = () => {
       } catch (error) {
         console.error('[ColdStorageStore] Authentication failed:', error);
         
-        const userFriendlyError = UserFriendlyErrorFactory.authentication(
+        const userFriendlyError = ErrorHelpers.isUserFriendlyError(error) ? error : UserFriendlyErrorFactory.authentication(
           error instanceof Error ? error.message : 'Password authentication failed',
           error as Error
         );
@@ -178,9 +229,17 @@ export const useColdStorageStore = () => {
       }
     },
 
-    async search(query: string, options: any = {}) {
+    // Returns the first page of results with the paging details (null when cold storage cannot be searched).
+    // Aborting signal rejects with an AbortError and leaves searchProgress to the newer search.
+    // onPartialResults receives each chunk's best hits while the remaining batches are searched.
+    async search(
+      query: string,
+      options: any = {},
+      signal?: AbortSignal,
+      onPartialResults?: (results: ColdStorageSearchResult[]) => void
+    ): Promise<ColdStorageSearchResponse | null> {
       if (!coldStorageState.isAvailable) {
-        return [];
+        return null;
       }
       
       try {
@@ -194,7 +253,7 @@ export const useColdStorageStore = () => {
           
           if (hasEncryptedBatches && !coldStorageState.isAuthenticated) {
             console.log('[ColdStorageStore] Cold storage has encrypted batches but not authenticated, skipping search');
-            return [];
+            return null;
           }
         }
 
@@ -207,19 +266,45 @@ export const useColdStorageStore = () => {
             completedBatches: progress.completedBatches,
             partialResults: progress.partialResults || []
           };
+          if (onPartialResults && progress.partialResults?.length) {
+            onPartialResults(progress.partialResults);
+          }
         };
 
         coldStorageState.searchProgress.isSearching = true;
+
+        // AIDEV-NOTE: Plain copies of the active filters only - reactive proxies cannot be posted to the worker
+        const { dateFilter, metadataFilters, ...searchOptions } = options;
+        const searchFilters = getActiveSearchFilters({ dateFilter, metadataFilters });
         
-        const searchResult = await coldStorageService.searchDocuments(query, options, progressCallback);
+        const searchResult = await coldStorageService.searchDocuments(
+          query,
+          { ...searchOptions, ...searchFilters, archiveIds: getScopeArchiveIds() },
+          progressCallback,
+          signal
+        );
         
         coldStorageState.searchProgress.isSearching = false;
-        return searchResult.results || [];
+
+        // Query syntax problems are the user's to fix, not an archive failure
+        if (searchResult.syntaxError) {
+          throw UserFriendlyErrorFactory.querySyntax(query, searchResult.syntaxError.message);
+        }
+
+        return searchResult;
         
       } catch (error) {
+        if (ErrorHelpers.isAbortError(error)) {
+          throw error;
+        }
+
         console.error('[ColdStorageStore] Cold storage search failed:', error);
         
         coldStorageState.searchProgress.isSearching = false;
+
+        if (ErrorHelpers.isUserFriendlyError(error)) {
+          throw error;
+        }
         
         const userFriendlyError = UserFriendlyErrorFactory.search(
           query,
@@ -246,6 +331,35 @@ export const useColdStorageStore = () => {
       }
     },
 
+    // Another page or sort order of a completed search (served from the worker's kept hits)
+    async getSearchPage(query: string, resultSetId: string, options: ResultPageOptions = {}): Promise<ColdStorageSearchResponse> {
+      try {
+        const coldStorageService = await getColdStorageService();
+        return await coldStorageService.getSearchPage(resultSetId, options);
+      } catch (error) {
+        console.error('[ColdStorageStore] Failed to load search results page:', error);
+        throw UserFriendlyErrorFactory.searchPage(
+          query,
+          error instanceof Error ? error.message : 'Failed to load more results',
+          error as Error
+        );
+      }
+    },
+
+    async getFacets(): Promise<SearchFacets | null> {
+      if (!coldStorageState.isAvailable || !coldStorageState.isAuthenticated) {
+        return null;
+      }
+
+      try {
+        const coldStorageService = await getColdStorageService();
+        return await coldStorageService.getFacets(getScopeArchiveIds());
+      } catch (error) {
+        console.error('[ColdStorageStore] Failed to get facets:', error);
+        return null;
+      }
+    },
+
     async clearCache() {
       try {
         const coldStorageService = await getColdStorageService();
@@ -262,6 +376,117 @@ export const useColdStorageStore = () => {
       }
     },
 
+    // Load a newer storage-index.json into every worker (the service worker reports updates)
+    async reloadStorageIndex(storageIndexUrl?: string) {
+      if (!coldStorageState.isInitialized) {
+        return;
+      }
+
+      try {
+        const coldStorageService = await getColdStorageService();
+        const archive = storageIndexUrl ? coldStorageService.findArchiveByStorageIndexUrl(storageIndexUrl) : undefined;
+        if (storageIndexUrl && !archive) {
+          return;
+        }
+        await coldStorageService.loadStorageIndex(archive?.id);
+        await syncStorageStats(coldStorageService);
+        coldStorageState.isAvailable = coldStorageState.stats.totalBatches > 0;
+        console.log('[ColdStorageStore] Storage index reloaded');
+      } catch (error) {
+        console.error('[ColdStorageStore] Failed to reload storage index:', error);
+        // The new index was rejected - that archive's workers no longer hold a trusted one
+        if (ErrorHelpers.isUserFriendlyError(error)) {
+          coldStorageState.error = error.userMessage;
+          const coldStorageService = await getColdStorageService();
+          await syncStorageStats(coldStorageService);
+          coldStorageState.isAvailable = coldStorageService.isAvailable();
+        }
+      }
+    },
+
+    // Unlock an archive kept under a different password from the one signed in with
+    async unlockArchive(archiveId: string, password: string) {
+      try {
+        const coldStorageService = await getColdStorageService();
+        await coldStorageService.unlockArchive(archiveId, password);
+        coldStorageState.isAuthenticated = true;
+        coldStorageState.isAvailable = true;
+        console.log(`[ColdStorageStore] Archive ${archiveId} unlocked`);
+      } catch (error) {
+        console.error(`[ColdStorageStore] Failed to unlock archive ${archiveId}:`, error);
+        throw ErrorHelpers.isUserFriendlyError(error) ? error : UserFriendlyErrorFactory.authentication(
+          error instanceof Error ? error.message : 'Password authentication failed',
+          error as Error
+        );
+      } finally {
+        if (_coldStorageServiceInstance) {
+          await syncStorageStats(_coldStorageServiceInstance);
+        }
+      }
+    },
+
+    // Encrypt documents into a new batch of the first unlocked archive (kept on this device until exported)
+    async addBatch(documents: Document[], metadata: BatchMetadata = {}) {
+      const coldStorageService = await getColdStorageService();
+      try {
+        return await coldStorageService.addBatch(documents, metadata);
+      } finally {
+        await syncStorageStats(coldStorageService);
+        coldStorageState.isAvailable = coldStorageState.stats.totalBatches > 0;
+      }
+    },
+
+    // Cases the import target archive already holds, with their archived status
+    async getKnownCases(archiveId?: string): Promise<KnownCases> {
+      const coldStorageService = await getColdStorageService();
+      return coldStorageService.getKnownCases(archiveId);
+    },
+
+    // Write an archive's imported batches and its updated storage-index.json for publishing
+    async exportArchive(archiveId?: string): Promise<{ destination: ArchiveExportDestination; fileCount: number }> {
+      try {
+        const coldStorageService = await getColdStorageService();
+        const files = createArchiveExportFiles(await coldStorageService.exportArchive(archiveId));
+        const destination = await saveArchiveExport(files);
+        console.log(`[ColdStorageStore] Archive export ${destination}: ${files.length} files`);
+        return { destination, fileCount: files.length };
+      } catch (error) {
+        console.error('[ColdStorageStore] Failed to export archive:', error);
+        throw ErrorHelpers.isUserFriendlyError(error) ? error : UserFriendlyErrorFactory.storage(
+          'export the archive',
+          error instanceof Error ? error.message : 'Unknown export error',
+          error as Error
+        );
+      }
+    },
+
+    // Limit searches to one archive (or ALL_ARCHIVES) and remember the choice for later visits
+    setSearchScope(scope: string) {
+      if (scope !== ALL_ARCHIVES && !coldStorageState.archives.some(archive => archive.id === scope)) {
+        console.warn(`[ColdStorageStore] Ignoring unknown search scope: ${scope}`);
+        return;
+      }
+      coldStorageState.searchScope = scope;
+      saveSearchScope(scope);
+    },
+
+    // Forget the password and every derived key and decrypted batch (authenticate again to search)
+    async logout() {
+      try {
+        const coldStorageService = await getColdStorageService();
+        await coldStorageService.logout();
+      } catch (error) {
+        console.error('[ColdStorageStore] Failed to log out of cold storage:', error);
+      } finally {
+        coldStorageState.isAuthenticated = false;
+        coldStorageState.stats.cacheSize = 0;
+        coldStorageState.stats.cachedBatches = 0;
+        if (_coldStorageServiceInstance) {
+          await syncStorageStats(_coldStorageServiceInstance);
+        }
+      }
+    },
+
     // Reset search progress
     resetSearchProgress() {
       coldStorageState.searchProgress = {
@@ -6,11 +6,17 @@
  */
 
 import { computed } from 'vue';
+import { ErrorHelpers } from '@/utils/UserFriendlyError';
+import { getActiveSearchFilters } from '@/utils/searchFilters';
+import { DEFAULT_RESULT_PAGE_SIZE, type ResultSortBy, type ResultSortOrder } from '@/utils/searchPaging';
 import { useAuthenticationStore } from './authentication';
 import { useColdStorageStore } from './coldStorage';
 import { useSearchStore } from './search';
 import { usePerformanceStore } from './performance';
 
+// AIDEV-NOTE: Module level like the store states - each useStorageStore() call must see the running search
+let activeSearchController: AbortController | null = null;
+
 // AIDEV-NOTE: Main store composable that combines all focused modules
 export const useStorageStore = () => {
   // Initialize all store modules
@@ -25,6 +31,8 @@ export const useStorageStore = () => {
   const isAnyStorageLoading = computed(() => coldStorage.isLoading.value);
   
   const allSearchResults = computed(() => search.allSearchResults.value);
+
+  const totalResultCount = computed(() => search.totalResultCount.value);
   
   const isSearchComplete = computed(() => search.isSearchComplete.value);
   
@@ -45,19 +53,37 @@ export const useStorageStore = () => {
       }
     },
 
-    // Perform unified search across all storage tiers
+    // Perform unified search across all storage tiers.
+    // A newer search cancels this one, which then rejects with an AbortError and leaves the state alone.
     async performUnifiedSearch(query: string, options: any = {}) {
+      globalActions.cancelSearch();
+
       if (!query.trim()) {
         search.resetResults();
         return [];
       }
 
+      const controller = new AbortController();
+      activeSearchController = controller;
+
       try {
         // Add to search history
         search.addToHistory(query);
         search.setQuery(query);
         search.setLoading(true);
         search.resetResults();
+        // Streamed partial results are ranked in the order the final page will use
+        search.setColdPaging({
+          sortBy: options.sortBy || 'relevance',
+          sortOrder: options.sortOrder || 'desc'
+        });
+        // Copies recorded so the search summary reports the filters this search applied
+        const appliedFilters = getActiveSearchFilters(options);
+        search.setFilters({
+          ...(options.threshold !== undefined ? { threshold: options.threshold } : {}),
+          dateFilter: appliedFilters?.dateFilter || { type: 'all' },
+          metadataFilters: appliedFilters?.metadataFilters
+        });
 
         const searchStartTime = window.performance.now();
         const operationId = performance.addOperation('search', `Searching for "${query}"`);
@@ -67,17 +93,41 @@ export const useStorageStore = () => {
           try {
             const coldStartTime = window.performance.now();
             
-            const coldResults = await coldStorage.search(query, options);
+            const coldResponse = await coldStorage.search(query, options, controller.signal, partialResults => {
+              if (!controller.signal.aborted) {
+                search.addPartialColdResults(partialResults);
+              }
+            });
             const coldDuration = window.performance.now() - coldStartTime;
+            // Cancelled after the worker replied - the newer search owns the results
+            if (controller.signal.aborted) {
+              throw new DOMException('Search was superseded', 'AbortError');
+            }
             
-            search.setColdResults(coldResults, true);
+            search.setColdResults(coldResponse?.results || [], true);
+            search.setColdPaging({
+              resultSetId: coldResponse?.resultSetId ?? null,
+              total: coldResponse?.total || 0,
+              sortBy: coldResponse?.sortBy || 'relevance',
+              sortOrder: coldResponse?.sortOrder || 'desc'
+            });
             search.recordPerformance('cold', coldDuration);
             
             performance.updateOperationProgress(operationId, 100);
             
           } catch (error) {
+            if (ErrorHelpers.isAbortError(error)) {
+              performance.completeOperation(operationId, false);
+              throw error;
+            }
+
             console.error('[StorageStore] Cold storage search failed:', error);
             search.setColdResults([], true);
+
+            // AIDEV-NOTE: Syntax errors go back to the search box rather than the alert list
+            if (ErrorHelpers.isUserFriendlyError(error) && error.context.operation === 'query-syntax') {
+              throw error;
+            }
             performance.addAlert('search_error', `Cold storage search failed: ${error}`, 'warning');
           }
         } else {
@@ -96,12 +146,86 @@ export const useStorageStore = () => {
         return allSearchResults.value;
 
       } catch (error) {
+        if (ErrorHelpers.isAbortError(error)) {
+          console.log(`[StorageStore] Search cancelled: "${query}"`);
+          throw error;
+        }
+
         console.error('[StorageStore] Unified search failed:', error);
         search.resetResults();
         throw error;
       } finally {
-        search.setLoading(false);
+        if (activeSearchController === controller) {
+          activeSearchController = null;
+          search.setLoading(false);
+        }
+      }
+    },
+
+    // Cancel the running search (the worker stops before its next chunk of batches)
+    cancelSearch() {
+      if (!activeSearchController) {
+        return;
       }
+
+      activeSearchController.abort();
+      activeSearchController = null;
+      search.setLoading(false);
+      coldStorage.resetSearchProgress();
+    },
+
+    // Load cold results until at least `count` are available (pages come from the worker, no new search)
+    async loadMoreResults(count: number) {
+      const paging = search.state.results.coldPaging;
+      const resultSetId = paging.resultSetId;
+
+      while (resultSetId && search.state.results.cold.length < Math.min(count, paging.total)) {
+        const loaded = search.state.results.cold.length;
+        const page = await coldStorage.getSearchPage(search.state.query, resultSetId, {
+          offset: loaded,
+          limit: Math.max(count - loaded, DEFAULT_RESULT_PAGE_SIZE),
+          sortBy: paging.sortBy,
+          sortOrder: paging.sortOrder
+        });
+
+        // A newer search or sort replaced the results while this page was loading
+        if (search.state.results.coldPaging.resultSetId !== resultSetId ||
+            search.state.results.cold.length !== loaded ||
+            page.results.length === 0) {
+          break;
+        }
+        search.addPartialColdResults(page.results);
+      }
+
+      return allSearchResults.value;
+    },
+
+    // Re-order the current results, reloading the first `count` in the new order
+    async changeResultSort(sortBy: ResultSortBy, sortOrder: ResultSortOrder, count: number = DEFAULT_RESULT_PAGE_SIZE) {
+      const resultSetId = search.state.results.coldPaging.resultSetId;
+      if (!resultSetId) {
+        search.setColdPaging({ sortBy, sortOrder });
+        return allSearchResults.value;
+      }
+
+      const page = await coldStorage.getSearchPage(search.state.query, resultSetId, {
+        offset: 0,
+        limit: Math.max(count, DEFAULT_RESULT_PAGE_SIZE),
+        sortBy,
+        sortOrder
+      });
+      if (search.state.results.coldPaging.resultSetId === resultSetId) {
+        search.setColdResults(page.results, true);
+        search.setColdPaging({ total: page.total, sortBy, sortOrder });
+      }
+      return allSearchResults.value;
+    },
+
+    // Results and their pages belong to the archives they were searched in
+    setSearchScope(scope: string) {
+      search.resetResults();
+      coldStorage.resetSearchProgress();
+      coldStorage.setSearchScope(scope);
     },
 
     // Authenticate with password
@@ -176,6 +300,7 @@ export const useStorageStore = () => {
     totalDocuments,
     isAnyStorageLoading,
     allSearchResults,
+    totalResultCount,
     isSearchComplete,
     
     // Actions (organized by store)
@@ -189,12 +314,28 @@ export const useStorageStore = () => {
     },
     
     coldStorage: {
+      // AIDEV-NOTE: Read by AppealImportService, which is handed this facade as its cold storage service
+      get isAuthenticated() {
+        return coldStorage.state.isAuthenticated;
+      },
+      get storageIndex() {
+        return coldStorage.state.storageIndex;
+      },
       initialize: coldStorage.initialize,
       authenticate: coldStorage.authenticate,
       authenticateWithPassword: coldStorage.authenticateWithPassword,
       search: coldStorage.search,
+      getSearchPage: coldStorage.getSearchPage,
       getCacheStats: coldStorage.getCacheStats,
+      getFacets: coldStorage.getFacets,
       clearCache: coldStorage.clearCache,
+      logout: coldStorage.logout,
+      reloadStorageIndex: coldStorage.reloadStorageIndex,
+      unlockArchive: coldStorage.unlockArchive,
+      addBatch: coldStorage.addBatch,
+      exportArchive: coldStorage.exportArchive,
+      getKnownCases: coldStorage.getKnownCases,
+      setSearchScope: globalActions.setSearchScope,
       resetSearchProgress: coldStorage.resetSearchProgress,
       clearError: coldStorage.clearError,
       getStorageInfo: coldStorage.getStorageInfo
@@ -208,13 +349,16 @@ export const useStorageStore = () => {
       setColdResults: search.setColdResults,
       setLegacyResults: search.setLegacyResults,
       addPartialColdResults: search.addPartialColdResults,
+      setColdPaging: search.setColdPaging,
       setLoading: search.setLoading,
       resetResults: search.resetResults,
       recordPerformance: search.recordPerformance,
       getSearchStats: search.getSearchStats,
       filterByDate: search.filterByDate,
+      filterByMetadata: search.filterByMetadata,
       filterByRelevance: search.filterByRelevance,
       getFilteredResults: search.getFilteredResults,
+      getSearchSummary: search.getSearchSummary,
       exportSearchState: search.exportSearchState
     },
     
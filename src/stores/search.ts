@@ -6,7 +6,20 @@
  */
 
 import { reactive, computed } from 'vue';
-import type { SearchResult, ColdStorageSearchResult, DateFilter } from '@/types';
+import type { SearchResult, ColdStorageSearchResult, DateFilter, MetadataFilters, SearchSummaryData } from '@/types';
+import { getDocumentFieldValue } from '@/utils/searchIndex.js';
+import { DATE_FILTER_FIELD, createDocumentFilter, getActiveSearchFilters, parseDecisionDate } from '@/utils/searchFilters';
+import { sortSearchResults, type ResultSortBy, type ResultSortOrder } from '@/utils/searchPaging';
+
+// AIDEV-NOTE: Cold results are loaded a page at a time from the worker's kept hit list;
+// results.cold holds the pages loaded so far, in sortBy/sortOrder order
+export interface ColdResultPaging {
+  resultSetId: string | null;
+  // Every hit of the search, loaded or not
+  total: number;
+  sortBy: ResultSortBy;
+  sortOrder: ResultSortOrder;
+}
 
 // AIDEV-NOTE: Search state interface
 export interface SearchState {
@@ -17,9 +30,11 @@ export interface SearchState {
     isColdComplete: boolean;
     isLegacyComplete: boolean;
     isLoading: boolean;
+    coldPaging: ColdResultPaging;
   };
   filters: {
     dateFilter: DateFilter;
+    metadataFilters?: MetadataFilters;
     threshold: number;
   };
   history: string[];
@@ -30,6 +45,13 @@ export interface SearchState {
   };
 }
 
+const createColdPaging = (): ColdResultPaging => ({
+  resultSetId: null,
+  total: 0,
+  sortBy: 'relevance',
+  sortOrder: 'desc'
+});
+
 // AIDEV-NOTE: Reactive search state
 export const searchState = reactive<SearchState>({
   query: '',
@@ -38,7 +60,8 @@ export const searchState = reactive<SearchState>({
     legacy: [],
     isColdComplete: false,
     isLegacyComplete: false,
-    isLoading: false
+    isLoading: false,
+    coldPaging: createColdPaging()
   },
   filters: {
     dateFilter: { type: 'all' },
@@ -61,6 +84,12 @@ export const useSearchStore = () => {
   );
   
   const isSearching = computed(() => searchState.results.isLoading);
+
+  // Every hit of the current search, including cold pages not loaded yet
+  const totalResultCount = computed(() =>
+    searchState.results.legacy.length +
+    Math.max(searchState.results.coldPaging.total, searchState.results.cold.length)
+  );
   
   const allSearchResults = computed(() => {
     // AIDEV-NOTE: Convert cold storage results to SearchResult format for compatibility
@@ -75,7 +104,7 @@ export const useSearchStore = () => {
       const resultFilename = coldResult.filename || 'unknown.pdf';
       
       // Create metadata from all appeal-specific fields, excluding search-specific fields
-      const searchSpecificFields = ['id', 'filename', 'snippet', 'relevance', 'tier', 'isArchived', 'batchId'];
+      const searchSpecificFields = ['id', 'filename', 'snippet', 'relevance', 'tier', 'isArchived', 'batchId', 'correctedTerms', 'archiveId', 'archiveName'];
       const documentMetadata: any = {};
       
       // Copy all cold storage fields to metadata except the search-specific ones
@@ -101,7 +130,9 @@ export const useSearchStore = () => {
           indices: [],
           score: coldResult.relevance || 0
         }],
-        overallScore: coldResult.relevance || 0
+        overallScore: coldResult.relevance || 0,
+        ...(coldResult.correctedTerms?.length ? { corrections: coldResult.correctedTerms } : {}),
+        ...(coldResult.archiveName ? { archiveName: coldResult.archiveName } : {})
       };
     }).filter((result): result is SearchResult => result !== null);
     
@@ -151,8 +182,21 @@ export const useSearchStore = () => {
     },
 
     // Add partial cold storage results (for progressive search)
+    // AIDEV-NOTE: Until the search completes, hits stream in batch by batch and are re-ranked in the
+    // requested order; the worker's final page (setColdResults) then replaces them with the global order
     addPartialColdResults(results: ColdStorageSearchResult[]) {
-      searchState.results.cold.push(...results);
+      if (searchState.results.isColdComplete) {
+        searchState.results.cold.push(...results);
+        return;
+      }
+
+      const { sortBy, sortOrder } = searchState.results.coldPaging;
+      searchState.results.cold = sortSearchResults([...searchState.results.cold, ...results], sortBy, sortOrder);
+    },
+
+    // Record where the loaded cold results sit in the worker's result set
+    setColdPaging(paging: Partial<ColdResultPaging>) {
+      Object.assign(searchState.results.coldPaging, paging);
     },
 
     // Set search loading state
@@ -167,7 +211,8 @@ export const useSearchStore = () => {
         legacy: [],
         isColdComplete: false,
         isLegacyComplete: false,
-        isLoading: false
+        isLoading: false,
+        coldPaging: createColdPaging()
       };
       searchState.performance = {
         legacySearchTime: 0,
@@ -190,7 +235,8 @@ export const useSearchStore = () => {
     // Get search statistics
     getSearchStats() {
       return {
-        totalResults: allSearchResults.value.length,
+        totalResults: totalResultCount.value,
+        loadedResults: allSearchResults.value.length,
         coldResults: searchState.results.cold.length,
         legacyResults: searchState.results.legacy.length,
         isComplete: isSearchComplete.value,
@@ -207,6 +253,11 @@ export const useSearchStore = () => {
       // This just updates the filter state
     },
 
+    // Filter results by metadata (LPA, case type, officer, procedure, status, outcome)
+    filterByMetadata(metadataFilters: MetadataFilters) {
+      searchState.filters.metadataFilters = metadataFilters;
+    },
+
     // Filter results by relevance threshold
     filterByRelevance(threshold: number) {
       searchState.filters.threshold = threshold;
@@ -223,12 +274,64 @@ export const useSearchStore = () => {
         results = results.filter(result => result.overallScore >= searchState.filters.threshold);
       }
       
-      // Note: Date filtering would require additional logic based on document metadata
-      // This is a simplified implementation
+      // Apply date and metadata filters (cold results are already filtered in the worker)
+      const documentFilter = createDocumentFilter(searchState.filters);
+      if (documentFilter) {
+        results = results.filter(result =>
+          documentFilter(field => getDocumentFieldValue(result.document?.metadata, field))
+        );
+      }
       
       return results;
     },
 
+    // Summarise the current results, including the filters the search applied
+    getSearchSummary(totalIndexedDocuments = 0): SearchSummaryData {
+      const results = allSearchResults.value;
+      const readField = (result: SearchResult, field: string) => getDocumentFieldValue(result.document?.metadata, field);
+
+      const decisionBreakdown = { allowed: 0, dismissed: 0, unknown: 0, total: results.length };
+      for (const result of results) {
+        const outcome = readField(result, 'decision_outcome').toLowerCase();
+        if (outcome.includes('allow')) {
+          decisionBreakdown.allowed++;
+        } else if (outcome.includes('dismiss')) {
+          decisionBreakdown.dismissed++;
+        } else {
+          decisionBreakdown.unknown++;
+        }
+      }
+
+      const decisionDates = results
+        .map(result => parseDecisionDate(readField(result, DATE_FILTER_FIELD)))
+        .filter((time): time is number => time !== null);
+      const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10);
+      const uniqueValues = (field: string) =>
+        new Set(results.map(result => readField(result, field)).filter(value => value)).size;
+      const totalScore = results.reduce((sum, result) => sum + result.overallScore, 0);
+
+      return {
+        totalResults: totalResultCount.value,
+        uniqueDocuments: new Set(results.map(result => result.document?.id || result.id)).size,
+        totalIndexedDocuments,
+        searchTime: searchState.performance.totalSearchTime,
+        decisionBreakdown,
+        matchQuality: {
+          averageScore: results.length > 0 ? totalScore / results.length : 0,
+          highQualityCount: results.filter(result => result.overallScore >= searchState.filters.threshold).length
+        },
+        planningInsights: {
+          uniqueLPAs: uniqueValues('lpa_name'),
+          uniqueInspectors: uniqueValues('inspector'),
+          dateRange: {
+            start: decisionDates.length > 0 ? toDateString(Math.min(...decisionDates)) : null,
+            end: decisionDates.length > 0 ? toDateString(Math.max(...decisionDates)) : null
+          }
+        },
+        appliedFilters: getActiveSearchFilters(searchState.filters)
+      };
+    },
+
     // Export search state for debugging/analysis
     exportSearchState() {
       return {
@@ -253,6 +356,7 @@ export const useSearchStore = () => {
     
     // Computed
     allSearchResults,
+    totalResultCount,
     isSearchComplete,
     isSearching,
     
@@ -75,6 +75,17 @@ export interface SearchResult {
     score: number;
   }>;
   overallScore: number;
+  // Spelling corrections applied to the query that this result matched
+  corrections?: TermCorrection[];
+  // Cold storage archive holding the document
+  archiveName?: string;
+}
+
+// AIDEV-NOTE: A misspelled query term and the archive term it was corrected to
+export interface TermCorrection {
+  term: string;
+  correctedTo: string;
+  similarity: number;
 }
 
 // AIDEV-NOTE: Cold storage search result format
@@ -87,6 +98,23 @@ export interface ColdStorageSearchResult {
   tier: 'hot' | 'cold';
   isArchived: boolean;
   batchId?: string;
+  correctedTerms?: TermCorrection[];
+  // Archive the result was found in (set by federated search)
+  archiveId?: string;
+  archiveName?: string;
+}
+
+// AIDEV-NOTE: One mounted cold storage archive as shown in the search footer
+export interface ArchiveStatus {
+  id: string;
+  name: string;
+  // locked: loaded but not unlocked by the password given so far
+  status: 'loading' | 'locked' | 'unlocked' | 'unavailable';
+  totalDocuments: number;
+  totalBatches: number;
+  // Batches imported on this device that are not published yet (see exportArchive)
+  localBatches: number;
+  error?: string;
 }
 
 export interface ProcessingProgress {
@@ -169,6 +197,22 @@ export interface FilterOptions {
   decisionOutcomes: string[];
 }
 
+// AIDEV-NOTE: Distinct filter values with document counts, most common first
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export type FilterFacets = Record<keyof FilterOptions, FacetValue[]>;
+
+export interface SearchFacets {
+  // Whole archive (from storage-index.json, no batch decryption)
+  archive: FilterFacets;
+  // Every match of the last cold storage search, null before the first search
+  results: FilterFacets | null;
+  query: string | null;
+}
+
 export interface FilterCounts {
   total: number;
   lpaNames: number;
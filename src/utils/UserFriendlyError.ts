@@ -7,6 +7,8 @@
  * AIDEV-NOTE: Implements the CLAUDE.md requirement for enhanced error handling
  */
 
+import type { StorageIndexErrorReason } from './storageIndexSchema.js';
+
 export interface ErrorContext {
   operation?: string;
   component?: string;
@@ -202,6 +204,54 @@ export class UserFriendlyErrorFactory {
     }, originalError);
   }
 
+  /**
+   * Malformed search query (unbalanced quotes/parentheses, misplaced AND/OR/NOT)
+   */
+  static querySyntax(query: string, details: string): UserFriendlyError {
+    return new UserFriendlyError({
+      title: 'Check Your Search',
+      message: details,
+      context: {
+        operation: 'query-syntax',
+        userAction: `search for "${query}"`,
+        technicalDetails: details
+      },
+      recoveryActions: [
+        {
+          label: 'Fix Query',
+          description: 'Correct the search syntax and try again',
+          priority: 'primary'
+        }
+      ],
+      severity: 'warning',
+      showTechnicalDetails: false
+    });
+  }
+
+  /**
+   * Further pages of a search could not be loaded (e.g. its results were discarded)
+   */
+  static searchPage(query: string, details: string, originalError?: Error): UserFriendlyError {
+    return new UserFriendlyError({
+      title: 'More Results Unavailable',
+      message: `The remaining results for "${query}" could not be loaded. Run the search again to continue browsing.`,
+      context: {
+        operation: 'search-page',
+        userAction: `browse results for "${query}"`,
+        technicalDetails: details
+      },
+      recoveryActions: [
+        {
+          label: 'Search Again',
+          description: 'Run the same search again',
+          priority: 'primary'
+        }
+      ],
+      severity: 'warning',
+      showTechnicalDetails: false
+    }, originalError);
+  }
+
   /**
    * Memory/performance errors
    */
@@ -263,6 +313,53 @@ export class UserFriendlyErrorFactory {
     }, originalError);
   }
 
+  /**
+   * Archive storage index rejected by schema validation or manifest verification
+   */
+  static storageIndex(reason: StorageIndexErrorReason, details: string, originalError?: Error): UserFriendlyError {
+    const messages: Record<StorageIndexErrorReason, { title: string; message: string }> = {
+      invalid: {
+        title: 'Archive Index Invalid',
+        message: 'The document archive index is damaged or in an unsupported format, so the archive cannot be searched.'
+      },
+      unsigned: {
+        title: 'Archive Index Not Trusted',
+        message: 'The document archive index is not signed, so its contents cannot be trusted.'
+      },
+      tampered: {
+        title: 'Archive Index Not Trusted',
+        message: 'The document archive index does not match its signature. It may have been modified, so the archive has not been opened.'
+      },
+      stale: {
+        title: 'Archive Index Out of Date',
+        message: 'The document archive index is older than the one this device last used, or was published in an outdated format. Reload to fetch the current archive, or ask the archive maintainer to republish it.'
+      }
+    };
+
+    return new UserFriendlyError({
+      ...messages[reason],
+      context: {
+        operation: 'storage-index',
+        technicalDetails: details
+      },
+      recoveryActions: [
+        {
+          label: 'Reload',
+          description: 'Fetch the archive index again',
+          priority: 'primary'
+        },
+        {
+          label: 'Report Issue',
+          description: 'Let the archive maintainer know the index was rejected',
+          url: '#support',
+          priority: 'secondary'
+        }
+      ],
+      severity: reason === 'tampered' ? 'critical' : 'error',
+      showTechnicalDetails: false
+    }, originalError);
+  }
+
   /**
    * Validation errors
    */
@@ -401,6 +498,13 @@ export class ErrorHelpers {
     return error instanceof UserFriendlyError;
   }
 
+  /**
+   * Check if error is a cancellation (AbortSignal) rather than a failure
+   */
+  static isAbortError(error: any): boolean {
+    return error?.name === 'AbortError';
+  }
+
   /**
    * Extract user-safe message from any error
    */
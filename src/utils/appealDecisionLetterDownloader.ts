@@ -1,6 +1,8 @@
 import axios, { AxiosInstance } from 'axios';
 import * as cheerio from 'cheerio';
 import { getEnvironmentConfig } from './environment.js';
+import { PublishedCaseReferenceProvider } from '../services/scraping/CaseReferenceProviders.js';
+import type { ICaseReferenceProvider } from '../services/scraping/interfaces.js';
 
 // AIDEV-NOTE: Interface matching sampledata.json structure for appeal case data
 interface AppealCaseData {
@@ -58,6 +60,7 @@ class AppealDecisionLetterDownloader {
   private config: DownloaderConfig;
   private progress: ProcessingProgress;
   private failedCases: FailedCase[] = [];
+  private caseReferenceProvider: ICaseReferenceProvider = new PublishedCaseReferenceProvider();
   private pdfjsLib: any = null;
 
   // AIDEV-NOTE: Cold storage integration for direct document processing
@@ -150,27 +153,9 @@ class AppealDecisionLetterDownloader {
     }
   }
 
-  // AIDEV-NOTE: Read case references from CSV file (browser-compatible version)
-  private async getCaseReferences(): Promise<string[]> {
-    // AIDEV-NOTE: Fetch CSV file from public directory in browser (accounting for base path)
-    const response = await fetch('/decision-parser/caseReferences.csv');
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch case references: ${response.status} ${response.statusText}`);
-    }
-    
-    const csvContent = await response.text();
-    
-    // Parse CSV content - each line is a case ID
-    const caseIds = csvContent
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0)
-      .filter(line => !isNaN(Number(line))) // Ensure it's a valid number
-      .slice(0, this.config.batchSize); // Respect configured batch size
-    
-    console.log(`[DOWNLOADER] Loaded ${caseIds.length} case references from CSV file`);
-    return caseIds;
+  // AIDEV-NOTE: Case ids come from a provider shared with AppealImportOrchestrator (the published CSV by default)
+  setCaseReferenceProvider(provider: ICaseReferenceProvider) {
+    this.caseReferenceProvider = provider;
   }
 
   // AIDEV-NOTE: Extract text from PDF using PDF.js patterns from pdfProcessor.ts (browser-compatible)
@@ -772,7 +757,7 @@ Date of Decision: ${new Date().toLocaleDateString('en-GB')}`
       console.log('✅ PDF.js initialized');
 
       // Get case references  
-      const caseIds = await this.getCaseReferences();
+      const caseIds = await this.caseReferenceProvider.getCaseReferences();
       console.log(`📋 Loaded ${caseIds.length} case references`);
 
       // Initialize progress tracking
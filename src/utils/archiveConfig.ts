@@ -0,0 +1,105 @@
+/**
+ * Archive Configuration - Where cold storage archives and case references are served from
+ *
+ * Each archive is a folder holding a storage-index.json and its encrypted batches. Batch URLs
+ * in the index are resolved against the index's own URL, so an archive can be copied to any
+ * base path or static server unchanged.
+ *
+ * Defaults come from the build's base path (import.meta.env.BASE_URL). A deployment can
+ * override them without rebuilding by editing public/runtime-config.js, which sets
+ * window.__DECISION_PARSER_CONFIG__ before the app starts.
+ *
+ * AIDEV-NOTE: Read through getEnvironmentConfig() - this module only parses and resolves.
+ */
+
+export interface ArchiveConfig {
+  id: string;
+  name: string;
+  // Folder URL ending in '/', absolute or relative to the page
+  baseUrl: string;
+}
+
+export interface RuntimeConfig {
+  archives?: Array<Partial<ArchiveConfig>>;
+  caseReferencesUrl?: string;
+  scraperUserAgent?: string;
+  scrapingMode?: string;
+  scrapingFixturesUrl?: string;
+}
+
+declare global {
+  interface Window {
+    __DECISION_PARSER_CONFIG__?: RuntimeConfig;
+  }
+}
+
+export const DEFAULT_ARCHIVE_ID = 'default';
+export const STORAGE_INDEX_FILE = 'storage-index.json';
+// Search scope covering every mounted archive (never a valid archive id)
+export const ALL_ARCHIVES = '*';
+
+const ARCHIVE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Configuration set by public/runtime-config.js (empty outside the browser or when unset)
+ */
+export function getRuntimeConfig(): RuntimeConfig {
+  const config = typeof window !== 'undefined' ? window.__DECISION_PARSER_CONFIG__ : undefined;
+  return config && typeof config === 'object' ? config : {};
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+/**
+ * Archives from the runtime config, falling back to the build's own cold-storage folder
+ *
+ * Entries without a usable id or base URL are skipped with a warning, and repeated ids keep
+ * their first entry.
+ */
+export function resolveArchives(runtimeArchives: RuntimeConfig['archives'], appBaseUrl: string): ArchiveConfig[] {
+  const archives: ArchiveConfig[] = [];
+
+  for (const entry of Array.isArray(runtimeArchives) ? runtimeArchives : []) {
+    const id = typeof entry?.id === 'string' ? entry.id.trim() : '';
+    const baseUrl = typeof entry?.baseUrl === 'string' ? entry.baseUrl.trim() : '';
+    if (!ARCHIVE_ID_PATTERN.test(id) || !baseUrl) {
+      console.warn('[ArchiveConfig] Ignoring archive without a valid id and baseUrl:', entry);
+      continue;
+    }
+    if (archives.some(archive => archive.id === id)) {
+      console.warn(`[ArchiveConfig] Ignoring repeated archive id: ${id}`);
+      continue;
+    }
+
+    archives.push({
+      id,
+      name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : id,
+      baseUrl: withTrailingSlash(baseUrl)
+    });
+  }
+
+  if (archives.length === 0) {
+    archives.push({
+      id: DEFAULT_ARCHIVE_ID,
+      name: 'Appeal decisions',
+      baseUrl: `${withTrailingSlash(appBaseUrl)}cold-storage/`
+    });
+  }
+  return archives;
+}
+
+/**
+ * Absolute URL of an archive's storage-index.json
+ */
+export function getStorageIndexUrl(archive: Pick<ArchiveConfig, 'baseUrl'>, pageUrl: string): string {
+  return new URL(STORAGE_INDEX_FILE, new URL(archive.baseUrl, pageUrl)).href;
+}
+
+/**
+ * Absolute URL of a batch listed in a storage index (relative URLs are relative to the index)
+ */
+export function resolveBatchUrl(batchUrl: string, storageIndexUrl: string): string {
+  return new URL(batchUrl, storageIndexUrl).href;
+}
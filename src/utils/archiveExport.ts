@@ -0,0 +1,119 @@
+/**
+ * Archive Export - Write locally created batches out as a publishable cold storage folder
+ *
+ * Imports create encrypted batches in the browser and keep them in IndexedDB until a published
+ * storage index lists them. An export writes each of those batches as `<batchId>.json` next to
+ * the rewritten, re-signed storage-index.json - the folder can be copied over public/cold-storage
+ * (or an archive's baseUrl) and committed as-is.
+ *
+ * AIDEV-NOTE: Batches already published are not exported; their files are unchanged. Everything
+ * written is ciphertext or the signed index - nothing decrypted leaves the worker.
+ */
+
+import { STORAGE_INDEX_FILE } from './archiveConfig.js';
+import type { CreatedBatch } from './persistentBatchStore.js';
+import type { StorageIndex } from './storageIndexSchema.js';
+
+export interface ArchiveExportSource {
+  storageIndex: StorageIndex;
+  createdBatches: CreatedBatch[];
+}
+
+export interface ArchiveExportFile {
+  name: string;
+  content: string;
+}
+
+export type ArchiveExportDestination = 'folder' | 'downloads' | 'cancelled';
+
+// Minimal File System Access API surface (Chromium only, not in the DOM typings)
+interface WritableDirectory {
+  getFileHandle(name: string, options: { create: boolean }): Promise<{
+    createWritable(): Promise<{ write(data: Blob): Promise<void>; close(): Promise<void> }>;
+  }>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: 'readwrite' }) => Promise<WritableDirectory>;
+
+/**
+ * File name for a storage index batch URL (batch URLs are relative to the index, written beside it)
+ */
+export function getBatchFileName(batchUrl: string): string {
+  return batchUrl.split(/[?#]/)[0].split('/').filter(Boolean).pop() || batchUrl;
+}
+
+/**
+ * Files to publish: every exported batch, then the storage index listing them
+ *
+ * @throws Error when a created batch is missing from the storage index
+ */
+export function createArchiveExportFiles(source: ArchiveExportSource): ArchiveExportFile[] {
+  const listedBatches = new Map(source.storageIndex.batches.map(batch => [batch.batchId, batch]));
+
+  const batchFiles = source.createdBatches.map(created => {
+    const entry = listedBatches.get(created.batchId);
+    if (!entry) {
+      throw new Error(`Batch ${created.batchId} is not listed in the storage index`);
+    }
+    return { name: getBatchFileName(entry.url), content: JSON.stringify(created.encryptedBatch) };
+  });
+
+  return [
+    ...batchFiles,
+    { name: STORAGE_INDEX_FILE, content: `${JSON.stringify(source.storageIndex, null, 2)}\n` }
+  ];
+}
+
+function getDirectoryPicker(): DirectoryPicker | null {
+  const picker = typeof window !== 'undefined' ? (window as Window & { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker : undefined;
+  return typeof picker === 'function' ? picker.bind(window) : null;
+}
+
+function downloadFile(file: ArchiveExportFile) {
+  const url = URL.createObjectURL(new Blob([file.content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked later - some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Write export files into a folder the user picks, or download them one by one where the
+ * File System Access API is unavailable
+ *
+ * @returns where the files went ('cancelled' when the folder picker was dismissed)
+ */
+export async function saveArchiveExport(files: ArchiveExportFile[]): Promise<ArchiveExportDestination> {
+  const showDirectoryPicker = getDirectoryPicker();
+
+  if (showDirectoryPicker) {
+    let directory: WritableDirectory;
+    try {
+      directory = await showDirectoryPicker({ id: 'cold-storage-export', mode: 'readwrite' });
+    } catch (error) {
+      if ((error as Error)?.name === 'AbortError') {
+        return 'cancelled';
+      }
+      throw error;
+    }
+
+    for (const file of files) {
+      const handle = await directory.getFileHandle(file.name, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(new Blob([file.content], { type: 'application/json' }));
+      await writable.close();
+    }
+    console.log(`[ArchiveExport] Wrote ${files.length} files to the chosen folder`);
+    return 'folder';
+  }
+
+  for (const file of files) {
+    downloadFile(file);
+  }
+  console.log(`[ArchiveExport] Downloaded ${files.length} files`);
+  return 'downloads';
+}
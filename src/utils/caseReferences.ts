@@ -0,0 +1,216 @@
+/**
+ * Case References - Where an appeal import gets its list of case ids
+ *
+ * An import can start from the published case list (caseReferences.csv), an uploaded CSV or
+ * XLSX file with the column holding the ids, a numeric id range, a pasted list, or the cases an
+ * archive already holds. This module parses and validates those inputs; the providers wrapping
+ * them live with the import services.
+ *
+ * AIDEV-NOTE: Case ids are the numeric CaseID of the appeals casework site. Invalid and repeated
+ * values are dropped and counted, never silently capped - an import gets every id it was given.
+ */
+
+import { readXlsxRows } from './xlsxReader.js';
+
+// Largest id range one import accepts (a range is expanded to every id in it)
+export const MAX_CASE_ID_RANGE = 1_000_000;
+
+export interface CaseReferenceColumnMapping {
+  // Zero-based column holding the case ids
+  column: number;
+  // First row holds column names rather than ids
+  hasHeader: boolean;
+}
+
+export type CaseReferenceSource =
+  | { type: 'published' }
+  | { type: 'table'; fileName: string; rows: string[][]; mapping: CaseReferenceColumnMapping }
+  | { type: 'range'; start: number; end: number }
+  | { type: 'list'; text: string }
+  | { type: 'archive' };
+
+export interface CaseIdCollection {
+  // Valid ids, first occurrence order
+  caseIds: string[];
+  invalidCount: number;
+  duplicateCount: number;
+}
+
+export function isCaseId(value: string): boolean {
+  return /^\d+$/.test(value);
+}
+
+/**
+ * Valid case ids from raw values (blank values are ignored, not counted as invalid)
+ */
+export function collectCaseIds(values: Iterable<string>): CaseIdCollection {
+  const collection: CaseIdCollection = { caseIds: [], invalidCount: 0, duplicateCount: 0 };
+  const seen = new Set<string>();
+
+  for (const raw of values) {
+    const value = String(raw ?? '').trim();
+    if (!value) {
+      continue;
+    }
+    if (!isCaseId(value)) {
+      collection.invalidCount++;
+    } else if (seen.has(value)) {
+      collection.duplicateCount++;
+    } else {
+      seen.add(value);
+      collection.caseIds.push(value);
+    }
+  }
+  return collection;
+}
+
+/**
+ * Case ids separated by new lines, commas, semicolons or spaces
+ */
+export function parseCaseIdList(text: string): CaseIdCollection {
+  return collectCaseIds(text.replace(/^\uFEFF/, '').split(/[\s,;]+/));
+}
+
+/**
+ * Number of ids from start to end inclusive
+ *
+ * @throws Error when the bounds are not whole non-negative numbers, reversed, or span more
+ * than MAX_CASE_ID_RANGE ids
+ */
+export function getCaseIdRangeSize(start: number, end: number): number {
+  if (!Number.isSafeInteger(start) || !Number.isSafeInteger(end) || start < 0 || end < 0) {
+    throw new Error('Case id range bounds must be whole numbers');
+  }
+  if (end < start) {
+    throw new Error(`Case id range ends (${end}) before it starts (${start})`);
+  }
+  if (end - start + 1 > MAX_CASE_ID_RANGE) {
+    throw new Error(`Case id range covers ${end - start + 1} ids - the limit is ${MAX_CASE_ID_RANGE}`);
+  }
+  return end - start + 1;
+}
+
+/**
+ * Every case id from start to end inclusive (bounds checked as in getCaseIdRangeSize)
+ */
+export function createCaseIdRange(start: number, end: number): string[] {
+  return Array.from({ length: getCaseIdRangeSize(start, end) }, (_, offset) => String(start + offset));
+}
+
+// Delimiter used most often outside quotes in the first line
+function detectDelimiter(line: string): string {
+  const counts = [',', ';', '\t'].map(delimiter => ({
+    delimiter,
+    count: line.replace(/"[^"]*"/g, '').split(delimiter).length - 1
+  }));
+  return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+}
+
+/**
+ * Rows of a CSV (or semicolon / tab separated) file, with quoted fields unescaped
+ */
+export function parseDelimitedText(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+}
+
+/**
+ * Rows of an uploaded case reference file (.xlsx workbooks by their first sheet, anything else
+ * read as delimited text)
+ */
+export async function readCaseReferenceTable(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsxRows(await file.arrayBuffer());
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Legacy .xls workbooks are not supported - save the file as .xlsx or CSV');
+  }
+  return parseDelimitedText(await file.text());
+}
+
+/**
+ * Names for a table's columns: header cells when the first row is a header, else "Column A"...
+ */
+export function getColumnLabels(rows: string[][], hasHeader: boolean): string[] {
+  const columnCount = rows.reduce((count, row) => Math.max(count, row.length), 0);
+  return Array.from({ length: columnCount }, (_, column) => {
+    const header = hasHeader ? rows[0]?.[column] : '';
+    return header || `Column ${columnLetter(column)}`;
+  });
+}
+
+function columnLetter(column: number): string {
+  let letters = '';
+  for (let remaining = column + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    letters = String.fromCharCode(65 + (remaining - 1) % 26) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Best guess at the mapping for a table: a first row without any case id is a header, and the
+ * column holding the most case ids holds them
+ */
+export function guessColumnMapping(rows: string[][]): CaseReferenceColumnMapping {
+  const hasHeader = rows.length > 1 && !(rows[0] || []).some(cell => isCaseId(cell));
+  const body = hasHeader ? rows.slice(1) : rows;
+  const columnCount = rows.reduce((count, row) => Math.max(count, row.length), 0);
+
+  let column = 0;
+  let bestCount = -1;
+  for (let candidate = 0; candidate < columnCount; candidate++) {
+    const count = body.filter(row => isCaseId(row[candidate] || '')).length;
+    if (count > bestCount) {
+      column = candidate;
+      bestCount = count;
+    }
+  }
+  return { column, hasHeader };
+}
+
+/**
+ * Case ids from the mapped column of a table
+ */
+export function getColumnCaseIds(rows: string[][], mapping: CaseReferenceColumnMapping): CaseIdCollection {
+  const body = mapping.hasHeader ? rows.slice(1) : rows;
+  return collectCaseIds(body.map(row => row[mapping.column] || ''));
+}
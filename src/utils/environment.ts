@@ -1,6 +1,8 @@
 // AIDEV-NOTE: Environment configuration utility for secure production settings
 // Centralizes environment detection and configuration management
 
+import { getRuntimeConfig, resolveArchives, type ArchiveConfig } from './archiveConfig.js';
+
 export interface EnvironmentConfig {
   isDevelopment: boolean;
   isProduction: boolean;
@@ -9,8 +11,32 @@ export interface EnvironmentConfig {
   enableSensitiveLogging: boolean;
   pdfWorkerUrl: string;
   enforceHttps: boolean;
+  // Base path the app is served from (import.meta.env.BASE_URL, e.g. '/decision-parser/')
+  baseUrl: string;
+  // Cold storage archives - the build's cold-storage/ folder unless runtime-config.js lists others
+  archives: ArchiveConfig[];
+  caseReferencesUrl: string;
+  // Identifies the importer to the Planning Inspectorate site (browsers may send their own instead)
+  scraperUserAgent: string;
+  // How imports fetch cases when set; null lets EnvironmentDetector decide (simulate locally, live elsewhere)
+  scrapingMode: ScrapingMode | null;
+  // Where replay mode reads recorded ViewCase.aspx pages and decision PDFs in the browser
+  scrapingFixturesUrl: string;
+  // Fixture directory for Node.js scripts and tests (SCRAPING_FIXTURES_DIR)
+  scrapingFixturesDir: string;
+  // Save every live response to the fixture directory (SCRAPING_RECORD_FIXTURES, Node.js only)
+  recordScrapingFixtures: boolean;
 }
 
+/**
+ * simulate: SimulationService templates, replay: recorded pages and PDFs, live: the real site
+ */
+export type ScrapingMode = 'simulate' | 'replay' | 'live';
+
+export const SCRAPING_MODES: readonly ScrapingMode[] = ['simulate', 'replay', 'live'];
+
+export const DEFAULT_SCRAPER_USER_AGENT = 'DecisionParser/1.0 (+https://github.com/anthony-walsh/decision-parser)';
+
 /**
  * Detect current environment based on multiple indicators
  */
@@ -52,12 +78,33 @@ function detectEnvironment(): { isDev: boolean; isProd: boolean; isTest: boolean
   return { isDev: false, isProd: true, isTest: false };
 }
 
+/**
+ * Node.js environment variable (undefined in the browser)
+ */
+function getProcessEnv(name: string): string | undefined {
+  return typeof process !== 'undefined' && process.env ? process.env[name]?.trim() || undefined : undefined;
+}
+
+function parseScrapingMode(value: string | undefined): ScrapingMode | null {
+  if (!value) {
+    return null;
+  }
+  const mode = value.trim().toLowerCase() as ScrapingMode;
+  if (SCRAPING_MODES.includes(mode)) {
+    return mode;
+  }
+  console.warn(`[Environment] Ignoring unknown scraping mode: ${value}`);
+  return null;
+}
+
 /**
  * Get current environment configuration
  * AIDEV-NOTE: Security-first approach - defaults to production settings
  */
 export function getEnvironmentConfig(): EnvironmentConfig {
   const { isDev, isProd, isTest } = detectEnvironment();
+  const baseUrl = import.meta.env.BASE_URL || '/';
+  const runtimeConfig = getRuntimeConfig();
   
   return {
     isDevelopment: isDev,
@@ -71,10 +118,20 @@ export function getEnvironmentConfig(): EnvironmentConfig {
     // Asset configuration
     pdfWorkerUrl: isDev 
       ? 'https://unpkg.com/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs'
-      : '/pdf.worker.min.mjs', // Self-hosted in production
+      : `${baseUrl}pdf.worker.min.mjs`, // Self-hosted in production
     
     // Security configuration
-    enforceHttps: isProd // Enforce HTTPS in production
+    enforceHttps: isProd, // Enforce HTTPS in production
+
+    // Hosting configuration - public/runtime-config.js overrides without a rebuild
+    baseUrl,
+    archives: resolveArchives(runtimeConfig.archives, baseUrl),
+    caseReferencesUrl: runtimeConfig.caseReferencesUrl || `${baseUrl}caseReferences.csv`,
+    scraperUserAgent: runtimeConfig.scraperUserAgent?.trim() || DEFAULT_SCRAPER_USER_AGENT,
+    scrapingMode: parseScrapingMode(runtimeConfig.scrapingMode || getProcessEnv('SCRAPING_MODE')),
+    scrapingFixturesUrl: runtimeConfig.scrapingFixturesUrl || `${baseUrl}fixtures/scraping/`,
+    scrapingFixturesDir: getProcessEnv('SCRAPING_FIXTURES_DIR') || 'tests/fixtures/scraping',
+    recordScrapingFixtures: ['1', 'true'].includes(getProcessEnv('SCRAPING_RECORD_FIXTURES')?.toLowerCase() ?? '')
   };
 }
 
@@ -145,11 +202,13 @@ export function isProduction(): boolean {
 
 /**
  * Check if import functionality should be available
- * AIDEV-NOTE: Import functionality only available in production mode
- * @returns true if import should be enabled (production mode only)
+ * AIDEV-NOTE: Import functionality only available in production mode, or locally when replaying
+ * recorded fixtures (scrapingMode: 'replay')
+ * @returns true if import should be enabled
  */
 export function isImportEnabled(): boolean {
-  return isProduction();
+  const config = getEnvironmentConfig();
+  return config.isProduction || config.scrapingMode === 'replay';
 }
 
 /**
@@ -162,6 +221,9 @@ export function logEnvironmentInfo(): void {
     importEnabled: isImportEnabled(),
     debugLogging: config.enableDebugLogging,
     sensitiveLogging: config.enableSensitiveLogging,
-    enforceHttps: config.enforceHttps
+    enforceHttps: config.enforceHttps,
+    baseUrl: config.baseUrl,
+    scrapingMode: config.scrapingMode ?? 'auto',
+    archives: config.archives.map(archive => `${archive.id} (${archive.baseUrl})`)
   });
 }
\ No newline at end of file
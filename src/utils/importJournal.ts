@@ -0,0 +1,238 @@
+/**
+ * Import Journal - IndexedDB checkpoints for appeal case imports
+ *
+ * Each run records the case ids it set out to import, which of them were saved (completed) or
+ * gave up after retries (failed), and the number of the last batch saved. A run interrupted by
+ * cancelling, an error, closing the tab or losing the connection can then be resumed with only its
+ * pending cases - including those that failed in a way another attempt may fix.
+ *
+ * AIDEV-NOTE: Cases count as completed only once their batch is saved - scraped cases still in
+ * memory when the tab closes are pending again. Failures are logged and the import carries on
+ * without checkpoints (a lost journal only costs the ability to resume).
+ */
+
+export const IMPORT_JOURNAL_DATABASE = 'AppealImportJournal';
+const DATABASE_VERSION = 1;
+const RUN_STORE = 'runs';
+// Finished and superseded runs kept for reference
+const MAX_KEPT_RUNS = 10;
+
+export type ImportRunStatus = 'running' | 'cancelled' | 'failed' | 'complete' | 'superseded';
+
+export interface ImportRunFailure {
+  caseId: string;
+  error: string;
+  timestamp: string;
+  // Timeouts, network and server errors: pending again on resume (missing in older journals: settled)
+  retryable?: boolean;
+}
+
+export interface ImportRun {
+  runId: string;
+  status: ImportRunStatus;
+  startedAt: string;
+  updatedAt: string;
+  batchSize: number;
+  // Every case id the run set out to import, in import order
+  caseIds: string[];
+  completedCaseIds: string[];
+  failedCases: ImportRunFailure[];
+  // 0 until the first batch is saved; resumed runs number their batches after it
+  lastSavedBatch: number;
+}
+
+export interface ImportRunSummary {
+  runId: string;
+  status: ImportRunStatus;
+  startedAt: string;
+  updatedAt: string;
+  totalCases: number;
+  completedCases: number;
+  failedCases: number;
+  pendingCases: number;
+  lastSavedBatch: number;
+}
+
+export function createImportRun(caseIds: string[], batchSize: number, now: Date = new Date()): ImportRun {
+  const startedAt = now.toISOString();
+  return {
+    runId: `import-${startedAt.replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}`,
+    status: 'running',
+    startedAt,
+    updatedAt: startedAt,
+    batchSize,
+    caseIds: [...caseIds],
+    completedCaseIds: [],
+    failedCases: [],
+    lastSavedBatch: 0
+  };
+}
+
+// Failures another attempt cannot fix (e.g. a 404 for a case that does not exist)
+function getPermanentFailures(run: ImportRun): ImportRunFailure[] {
+  return run.failedCases.filter(failure => !failure.retryable);
+}
+
+/**
+ * Case ids neither saved nor failed for good yet, in import order
+ */
+export function getPendingCaseIds(run: ImportRun): string[] {
+  const settled = new Set([...run.completedCaseIds, ...getPermanentFailures(run).map(failure => failure.caseId)]);
+  return run.caseIds.filter(caseId => !settled.has(caseId));
+}
+
+/**
+ * Checkpoint a processed batch: saved cases complete, failed ones recorded with their error
+ *
+ * @param batchNumber - number of the saved batch, or null when nothing from it was saved
+ */
+export function recordImportBatch(
+  run: ImportRun,
+  batchNumber: number | null,
+  completedCaseIds: string[],
+  failedCases: ImportRunFailure[],
+  now: Date = new Date()
+): ImportRun {
+  const completed = new Set(completedCaseIds);
+  // A case that fails on a resumed run after being recorded keeps only its latest error
+  const failedIds = new Set(failedCases.map(failure => failure.caseId));
+
+  return {
+    ...run,
+    updatedAt: now.toISOString(),
+    completedCaseIds: [...run.completedCaseIds.filter(caseId => !completed.has(caseId)), ...completedCaseIds],
+    failedCases: [
+      ...run.failedCases.filter(failure => !failedIds.has(failure.caseId) && !completed.has(failure.caseId)),
+      ...failedCases
+    ],
+    lastSavedBatch: batchNumber !== null ? Math.max(run.lastSavedBatch, batchNumber) : run.lastSavedBatch
+  };
+}
+
+// Interrupted runs (including ones still marked running after the tab closed) with cases left, and
+// finished runs whose transient failures are worth another attempt
+export function isResumableImportRun(run: ImportRun): boolean {
+  if (run.status === 'superseded') {
+    return false;
+  }
+  if (run.status === 'complete') {
+    return run.failedCases.some(failure => failure.retryable);
+  }
+  return getPendingCaseIds(run).length > 0;
+}
+
+export function summariseImportRun(run: ImportRun): ImportRunSummary {
+  return {
+    runId: run.runId,
+    status: run.status,
+    startedAt: run.startedAt,
+    updatedAt: run.updatedAt,
+    totalCases: run.caseIds.length,
+    completedCases: run.completedCaseIds.length,
+    failedCases: getPermanentFailures(run).length,
+    pendingCases: getPendingCaseIds(run).length,
+    lastSavedBatch: run.lastSavedBatch
+  };
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class ImportJournal {
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  constructor(private databaseName: string = IMPORT_JOURNAL_DATABASE) {}
+
+  /**
+   * Most recent run that can be resumed, or null
+   */
+  async getResumableRun(): Promise<ImportRun | null> {
+    const runs = await this.getRuns();
+    return runs.find(isResumableImportRun) || null;
+  }
+
+  async saveRun(run: ImportRun): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      return;
+    }
+
+    try {
+      await requestResult(database.transaction(RUN_STORE, 'readwrite').objectStore(RUN_STORE).put(run));
+    } catch (error) {
+      console.warn(`[ImportJournal] Failed to save run ${run.runId}:`, error);
+    }
+  }
+
+  /**
+   * Mark every resumable run except the given one superseded (a fresh import was started) and
+   * drop the oldest runs beyond MAX_KEPT_RUNS
+   */
+  async supersedeRuns(currentRunId: string): Promise<void> {
+    const runs = await this.getRuns();
+    for (const run of runs) {
+      if (run.runId !== currentRunId && isResumableImportRun(run)) {
+        await this.saveRun({ ...run, status: 'superseded' });
+      }
+    }
+
+    const database = await this.open();
+    const expired = runs.slice(MAX_KEPT_RUNS);
+    if (!database || expired.length === 0) {
+      return;
+    }
+
+    try {
+      const store = database.transaction(RUN_STORE, 'readwrite').objectStore(RUN_STORE);
+      await Promise.all(expired.map(run => requestResult(store.delete(run.runId))));
+    } catch (error) {
+      console.warn('[ImportJournal] Failed to remove old runs:', error);
+    }
+  }
+
+  // Newest first
+  private async getRuns(): Promise<ImportRun[]> {
+    const database = await this.open();
+    if (!database) {
+      return [];
+    }
+
+    try {
+      const runs: ImportRun[] = await requestResult(database.transaction(RUN_STORE).objectStore(RUN_STORE).getAll());
+      return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    } catch (error) {
+      console.warn('[ImportJournal] Failed to read runs:', error);
+      return [];
+    }
+  }
+
+  // Resolves null when IndexedDB is unavailable - imports then run without checkpoints
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (!database.objectStoreNames.contains(RUN_STORE)) {
+            database.createObjectStore(RUN_STORE, { keyPath: 'runId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('[ImportJournal] IndexedDB unavailable, imports cannot be resumed:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Incremental Import - Choose which candidate cases an import still has to fetch
+ *
+ * The archive knows every case it holds with the status it was scraped with (see the `cases`
+ * map of the archive facets). Cases whose status is final will not change again and are
+ * skipped; cases still in progress are fetched again so their archived copy catches up, and
+ * unknown cases are fetched for the first time.
+ *
+ * AIDEV-NOTE: Statuses not recognised as final (including a missing status) count as changing -
+ * re-fetching a finished case costs one request, skipping a live one leaves it stale for good.
+ */
+
+// Case id → status it was archived with ('' when the page had none)
+export type KnownCases = Record<string, string>;
+
+export interface IncrementalImportSelection {
+  // Candidates to fetch, in candidate order
+  caseIds: string[];
+  // Not archived before
+  newCaseIds: string[];
+  // Archived with a status that may still change
+  refreshedCaseIds: string[];
+  // Archived with a final status
+  skippedCaseIds: string[];
+}
+
+// AIDEV-NOTE: Compared lowercased with whitespace collapsed ("Turned  Away" → "turned away")
+export const FINAL_CASE_STATUSES = [
+  'decided',
+  'closed',
+  'complete',
+  'completed',
+  'withdrawn',
+  'turned away',
+  'invalid',
+  'lapsed',
+  'dismissed',
+  'allowed'
+];
+
+const finalStatuses = new Set(FINAL_CASE_STATUSES);
+
+export function isFinalCaseStatus(status: string | null | undefined): boolean {
+  return finalStatuses.has(String(status || '').trim().replace(/\s+/g, ' ').toLowerCase());
+}
+
+/**
+ * Split candidate case ids into the ones to fetch (new or changing) and the ones to skip
+ *
+ * Repeated candidates are kept once.
+ */
+export function selectCasesToImport(candidateCaseIds: string[], knownCases: KnownCases): IncrementalImportSelection {
+  const selection: IncrementalImportSelection = { caseIds: [], newCaseIds: [], refreshedCaseIds: [], skippedCaseIds: [] };
+  const seen = new Set<string>();
+
+  for (const caseId of candidateCaseIds) {
+    if (seen.has(caseId)) {
+      continue;
+    }
+    seen.add(caseId);
+
+    if (!Object.prototype.hasOwnProperty.call(knownCases, caseId)) {
+      selection.newCaseIds.push(caseId);
+      selection.caseIds.push(caseId);
+    } else if (isFinalCaseStatus(knownCases[caseId])) {
+      selection.skippedCaseIds.push(caseId);
+    } else {
+      selection.refreshedCaseIds.push(caseId);
+      selection.caseIds.push(caseId);
+    }
+  }
+
+  return selection;
+}
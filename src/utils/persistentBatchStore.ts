@@ -0,0 +1,294 @@
+/**
+ * Persistent Batch Store - IndexedDB tier for fetched cold storage ciphertext
+ *
+ * Keeps each encrypted batch exactly as fetched, plus the last storage-index.json, so
+ * repeat visits start without downloading batches and searches keep working offline.
+ * Nothing is stored decrypted - search indexes built in the worker for batches without
+ * an index section are encrypted under the batch's own key before they are kept.
+ *
+ * Batches created on this device (imports) are kept in their own store until a published
+ * storage index lists them - they have no copy on the network to fall back to.
+ *
+ * AIDEV-NOTE: A kept batch is only used while its version matches the storage index -
+ * the batch checksum when the index lists one, otherwise the index's lastUpdated.
+ * Failures are logged and treated as cache misses; the network is always the fallback.
+ */
+
+import { DEFAULT_ARCHIVE_ID } from './archiveConfig.js';
+
+export const PERSISTENT_BATCH_DATABASE = 'ColdStorageBatchCache';
+const DATABASE_VERSION = 2;
+const BATCH_STORE = 'batches';
+const CREATED_BATCH_STORE = 'createdBatches';
+const STORAGE_INDEX_STORE = 'storageIndex';
+const STORAGE_INDEX_KEY = 'current';
+const VERIFIED_LAST_UPDATED_KEY = 'verifiedLastUpdated';
+
+export interface PersistedBatch {
+  batchId: string;
+  // getBatchVersion of the storage index entry the ciphertext was fetched for
+  version: string;
+  storedAt: number;
+  encryptedBatch: any;
+  // Worker-built search index, encrypted under the batch salt (batches without an index section)
+  builtIndex?: any;
+}
+
+export interface CreatedBatch {
+  batchId: string;
+  // Storage index entry for the batch (BatchInfo)
+  entry: any;
+  encryptedBatch: any;
+  // ISO timestamp - local batches are added to the storage index in creation order
+  createdAt: string;
+}
+
+/**
+ * IndexedDB database keeping one archive's batches (the default archive keeps the original name)
+ */
+export function getPersistentBatchDatabase(archiveId: string): string {
+  return archiveId === DEFAULT_ARCHIVE_ID ? PERSISTENT_BATCH_DATABASE : `${PERSISTENT_BATCH_DATABASE}-${archiveId}`;
+}
+
+/**
+ * Version a kept batch must match to be used for this storage index entry
+ */
+export function getBatchVersion(batch: { checksum?: string }, lastUpdated?: string): string {
+  return batch.checksum ? `checksum:${batch.checksum}` : `updated:${lastUpdated || ''}`;
+}
+
+/**
+ * Batch ids of kept entries that a newly loaded storage index no longer lists at their version
+ */
+export function getStaleBatchIds(
+  persisted: Array<Pick<PersistedBatch, 'batchId' | 'version'>>,
+  batches: Array<{ batchId: string; checksum?: string }>,
+  lastUpdated?: string
+): string[] {
+  const currentVersions = new Map(batches.map(batch => [batch.batchId, getBatchVersion(batch, lastUpdated)]));
+  return persisted
+    .filter(entry => currentVersions.get(entry.batchId) !== entry.version)
+    .map(entry => entry.batchId);
+}
+
+/**
+ * Split locally created batches into those a loaded storage index already publishes and those
+ * still to be added to it
+ *
+ * @param localBatchIds - batches the index lists only because they were added from this device
+ */
+export function splitCreatedBatches<T extends Pick<CreatedBatch, 'batchId' | 'createdAt'>>(
+  created: T[],
+  batches: Array<{ batchId: string }>,
+  localBatchIds: Set<string> = new Set()
+): { published: T[]; pending: T[] } {
+  const listedIds = new Set(batches.map(batch => batch.batchId));
+  const published = created.filter(batch => listedIds.has(batch.batchId) && !localBatchIds.has(batch.batchId));
+  const pending = created
+    .filter(batch => !listedIds.has(batch.batchId))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return { published, pending };
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class PersistentBatchStore {
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  constructor(private databaseName: string = PERSISTENT_BATCH_DATABASE) {}
+
+  /**
+   * Kept ciphertext for a batch, or null when missing or fetched for another version
+   */
+  async getBatch(batchId: string, version: string): Promise<PersistedBatch | null> {
+    const record = await this.read<PersistedBatch>(BATCH_STORE, batchId);
+    return record && record.version === version ? record : null;
+  }
+
+  async putBatch(batchId: string, version: string, encryptedBatch: any): Promise<void> {
+    const record: PersistedBatch = { batchId, version, storedAt: Date.now(), encryptedBatch };
+    await this.write(BATCH_STORE, store => store.put(record));
+  }
+
+  /**
+   * Attach an encrypted worker-built index to the kept batch it was built from
+   */
+  async putBuiltIndex(batchId: string, version: string, builtIndex: any): Promise<void> {
+    const record = await this.getBatch(batchId, version);
+    if (record) {
+      await this.write(BATCH_STORE, store => store.put({ ...record, builtIndex }));
+    }
+  }
+
+  async getStorageIndex(): Promise<any | null> {
+    return this.read(STORAGE_INDEX_STORE, STORAGE_INDEX_KEY);
+  }
+
+  async putStorageIndex(storageIndex: any): Promise<void> {
+    await this.write(STORAGE_INDEX_STORE, store => store.put(storageIndex, STORAGE_INDEX_KEY));
+  }
+
+  /**
+   * lastUpdated of the newest storage index whose manifest verified on this device
+   * AIDEV-NOTE: An older index after this one is a rollback and is refused
+   */
+  async getVerifiedLastUpdated(): Promise<string | null> {
+    return this.read(STORAGE_INDEX_STORE, VERIFIED_LAST_UPDATED_KEY);
+  }
+
+  async putVerifiedLastUpdated(lastUpdated: string): Promise<void> {
+    await this.write(STORAGE_INDEX_STORE, store => store.put(lastUpdated, VERIFIED_LAST_UPDATED_KEY));
+  }
+
+  /**
+   * Delete kept batches the storage index no longer lists at their version
+   *
+   * @returns number of deleted batches
+   */
+  async prune(batches: Array<{ batchId: string; checksum?: string }>, lastUpdated?: string): Promise<number> {
+    const database = await this.open();
+    if (!database) {
+      return 0;
+    }
+
+    try {
+      const transaction = database.transaction(BATCH_STORE, 'readwrite');
+      const store = transaction.objectStore(BATCH_STORE);
+      const persisted: PersistedBatch[] = await requestResult(store.getAll());
+      const staleIds = getStaleBatchIds(persisted, batches, lastUpdated);
+      await Promise.all(staleIds.map(batchId => requestResult(store.delete(batchId))));
+      if (staleIds.length > 0) {
+        console.log(`[PersistentBatchStore] Removed ${staleIds.length} outdated batches`);
+      }
+      return staleIds.length;
+    } catch (error) {
+      console.warn('[PersistentBatchStore] Failed to remove outdated batches:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Keep a batch created on this device until it is published
+   *
+   * @returns whether the batch was written (false when IndexedDB is unavailable or full)
+   */
+  async putCreatedBatch(record: CreatedBatch): Promise<boolean> {
+    return this.write(CREATED_BATCH_STORE, store => store.put(record));
+  }
+
+  async getCreatedBatch(batchId: string): Promise<CreatedBatch | null> {
+    return this.read<CreatedBatch>(CREATED_BATCH_STORE, batchId);
+  }
+
+  // Oldest first
+  async getCreatedBatches(): Promise<CreatedBatch[]> {
+    const database = await this.open();
+    if (!database) {
+      return [];
+    }
+
+    try {
+      const created: CreatedBatch[] = await requestResult(
+        database.transaction(CREATED_BATCH_STORE).objectStore(CREATED_BATCH_STORE).getAll()
+      );
+      return created.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      console.warn('[PersistentBatchStore] Failed to read created batches:', error);
+      return [];
+    }
+  }
+
+  async deleteCreatedBatches(batchIds: string[]): Promise<void> {
+    for (const batchId of batchIds) {
+      await this.write(CREATED_BATCH_STORE, store => store.delete(batchId));
+    }
+  }
+
+  async countBatches(): Promise<number> {
+    const database = await this.open();
+    if (!database) {
+      return 0;
+    }
+
+    try {
+      return await requestResult(database.transaction(BATCH_STORE).objectStore(BATCH_STORE).count());
+    } catch (error) {
+      console.warn('[PersistentBatchStore] Failed to count batches:', error);
+      return 0;
+    }
+  }
+
+  // Created batches are kept - they may not be published anywhere yet
+  async clear(): Promise<void> {
+    await this.write(BATCH_STORE, store => store.clear());
+    await this.write(STORAGE_INDEX_STORE, store => store.clear());
+  }
+
+  // Resolves null when IndexedDB is unavailable (private browsing, tests) - the store then keeps nothing
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (!database.objectStoreNames.contains(BATCH_STORE)) {
+            database.createObjectStore(BATCH_STORE, { keyPath: 'batchId' });
+          }
+          if (!database.objectStoreNames.contains(STORAGE_INDEX_STORE)) {
+            database.createObjectStore(STORAGE_INDEX_STORE);
+          }
+          if (!database.objectStoreNames.contains(CREATED_BATCH_STORE)) {
+            database.createObjectStore(CREATED_BATCH_STORE, { keyPath: 'batchId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('[PersistentBatchStore] IndexedDB unavailable, batches will not persist:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.database;
+  }
+
+  private async read<T>(storeName: string, key: string): Promise<T | null> {
+    const database = await this.open();
+    if (!database) {
+      return null;
+    }
+
+    try {
+      const result = await requestResult(database.transaction(storeName).objectStore(storeName).get(key));
+      return (result as T) ?? null;
+    } catch (error) {
+      console.warn(`[PersistentBatchStore] Failed to read ${storeName}/${key}:`, error);
+      return null;
+    }
+  }
+
+  private async write(storeName: string, operation: (store: IDBObjectStore) => IDBRequest): Promise<boolean> {
+    const database = await this.open();
+    if (!database) {
+      return false;
+    }
+
+    try {
+      await requestResult(operation(database.transaction(storeName, 'readwrite').objectStore(storeName)));
+      return true;
+    } catch (error) {
+      // Quota errors included - the batch is simply fetched again next time
+      console.warn(`[PersistentBatchStore] Failed to write ${storeName}:`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Rate Limiter - Polite pacing for requests to the Planning Inspectorate site
+ *
+ * A token bucket sets the steady request rate (with a small burst), and an adaptive limit caps
+ * the requests in flight: it grows by one while responses stay fast and shrinks when they slow
+ * down, fail in a way that signals overload, or the server pushes back. A 429 or 503 pauses every
+ * request until its Retry-After (or an exponential backoff when the server gives none) and halves
+ * the limit - once per pause, however many of the requests in flight were turned away.
+ *
+ * AIDEV-NOTE: One limiter is shared by every request of an import, so page and PDF downloads
+ * draw on the same budget. Clock and sleep are injectable for tests.
+ */
+
+export interface RateLimiterOptions {
+  // Steady rate the bucket refills at
+  requestsPerSecond: number;
+  // Requests allowed back to back after an idle spell
+  burst: number;
+  minConcurrency: number;
+  maxConcurrency: number;
+  initialConcurrency: number;
+  // Average response time above which the concurrency limit shrinks
+  targetLatencyMs: number;
+  // First backoff after a throttled response without Retry-After (doubles per repeat)
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+export interface RateLimiterState {
+  concurrency: number;
+  active: number;
+  queued: number;
+  // Time (per the limiter clock) requests resume after a throttled response, 0 when not paused
+  pausedUntil: number;
+  averageLatencyMs: number | null;
+}
+
+// Weight of the newest response time in the running average
+const LATENCY_SMOOTHING = 0.2;
+
+// Overload failures (timeouts, server errors) count as responses this many times the target latency
+const FAILURE_LATENCY_FACTOR = 2;
+
+const defaultOptions: RateLimiterOptions = {
+  requestsPerSecond: 5,
+  burst: 5,
+  minConcurrency: 1,
+  maxConcurrency: 10,
+  initialConcurrency: 2,
+  targetLatencyMs: 2000,
+  baseBackoffMs: 5000,
+  maxBackoffMs: 5 * 60 * 1000,
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * Milliseconds to wait from a Retry-After header (delay in seconds or an HTTP date), or null
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  const trimmed = String(value ?? '').trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private concurrency: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private averageLatencyMs: number | null = null;
+  private consecutiveThrottles = 0;
+  // Responses since the limit last changed - it moves by one per window of `concurrency` responses
+  private responsesSinceChange = 0;
+
+  constructor(options: Partial<RateLimiterOptions> = {}) {
+    this.options = { ...defaultOptions, ...options };
+    this.options.maxConcurrency = Math.max(this.options.minConcurrency, this.options.maxConcurrency);
+    this.tokens = this.options.burst;
+    this.lastRefill = this.options.now();
+    this.concurrency = this.clampConcurrency(this.options.initialConcurrency);
+  }
+
+  /**
+   * Run a request once a concurrency slot and a token are free, timing it however it ends
+   *
+   * @param isOverloadError - failures that say the server is struggling (every failure by default);
+   *   they are timed as slow responses so the limit shrinks
+   */
+  async schedule<T>(task: () => Promise<T>, isOverloadError: (error: unknown) => boolean = () => true): Promise<T> {
+    await this.acquireSlot();
+    let startedAt: number | null = null;
+    let succeeded = false;
+    let overloaded = false;
+    try {
+      await this.waitForToken();
+      startedAt = this.options.now();
+      const result = await task();
+      succeeded = true;
+      return result;
+    } catch (error) {
+      overloaded = isOverloadError(error);
+      throw error;
+    } finally {
+      if (startedAt !== null) {
+        const latencyMs = this.options.now() - startedAt;
+        const failureLatencyMs = this.options.targetLatencyMs * FAILURE_LATENCY_FACTOR;
+        this.recordLatency(overloaded ? Math.max(latencyMs, failureLatencyMs) : latencyMs, succeeded);
+      }
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Server pushed back (429/503): pause every request and halve the concurrency limit
+   *
+   * AIDEV-NOTE: The other requests in flight when the server pushes back are usually turned away
+   * too. Their responses arrive during the pause and only extend it to a longer Retry-After - the
+   * backoff and the limit move once per pause.
+   *
+   * @param retryAfterMs - delay the server asked for, or null for exponential backoff
+   * @returns how long requests are paused for
+   */
+  throttle(retryAfterMs: number | null): number {
+    const now = this.options.now();
+    if (now < this.pausedUntil) {
+      if (retryAfterMs !== null && now + retryAfterMs > this.pausedUntil) {
+        this.pausedUntil = now + retryAfterMs;
+        this.lastRefill = this.pausedUntil;
+      }
+      return this.pausedUntil - now;
+    }
+
+    const backoffMs = retryAfterMs ?? Math.min(
+      this.options.maxBackoffMs,
+      this.options.baseBackoffMs * Math.pow(2, this.consecutiveThrottles)
+    );
+    this.consecutiveThrottles++;
+    this.pausedUntil = now + backoffMs;
+    // The bucket refills from the end of the pause, so requests resume at the steady rate
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+    this.setConcurrency(Math.floor(this.concurrency / 2));
+    console.warn(`[RateLimiter] Throttled - pausing ${Math.round(backoffMs / 1000)}s, concurrency ${this.concurrency}`);
+    return backoffMs;
+  }
+
+  getState(): RateLimiterState {
+    return {
+      concurrency: this.concurrency,
+      active: this.active,
+      queued: this.waiting.length,
+      pausedUntil: this.pausedUntil > this.options.now() ? this.pausedUntil : 0,
+      averageLatencyMs: this.averageLatencyMs
+    };
+  }
+
+  private recordLatency(latencyMs: number, succeeded: boolean) {
+    if (succeeded) {
+      this.consecutiveThrottles = 0;
+    }
+    this.averageLatencyMs = this.averageLatencyMs === null
+      ? latencyMs
+      : this.averageLatencyMs + LATENCY_SMOOTHING * (latencyMs - this.averageLatencyMs);
+
+    if (++this.responsesSinceChange >= this.concurrency) {
+      this.setConcurrency(this.concurrency + (this.averageLatencyMs > this.options.targetLatencyMs ? -1 : 1));
+    }
+  }
+
+  private setConcurrency(concurrency: number) {
+    const next = this.clampConcurrency(concurrency);
+    if (next !== this.concurrency) {
+      this.concurrency = next;
+      this.responsesSinceChange = 0;
+      this.wakeWaiting();
+    }
+  }
+
+  private clampConcurrency(concurrency: number): number {
+    return Math.min(this.options.maxConcurrency, Math.max(this.options.minConcurrency, Math.round(concurrency)));
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot() {
+    this.active--;
+    this.wakeWaiting();
+  }
+
+  private wakeWaiting() {
+    while (this.waiting.length > 0 && this.active < this.concurrency) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      const now = this.options.now();
+      this.tokens = Math.min(
+        this.options.burst,
+        this.tokens + Math.max(0, now - this.lastRefill) * this.options.requestsPerSecond / 1000
+      );
+      this.lastRefill = Math.max(this.lastRefill, now);
+
+      const pauseMs = this.pausedUntil - now;
+      const refillMs = this.tokens >= 1 ? 0 : (1 - this.tokens) * 1000 / this.options.requestsPerSecond;
+      const waitMs = Math.max(pauseMs, refillMs);
+      if (waitMs <= 0) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.options.sleep(Math.ceil(waitMs));
+    }
+  }
+}
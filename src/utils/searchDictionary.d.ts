@@ -0,0 +1,20 @@
+/**
+ * TypeScript definitions for the cold storage search dictionary
+ */
+
+export interface SearchDictionary {
+  version: number;
+  // Groups of equivalent expressions, e.g. ['hmo', 'house in multiple occupation']
+  synonyms: string[][];
+}
+
+export declare const DEFAULT_SEARCH_DICTIONARY: SearchDictionary;
+
+export declare function setSearchDictionary(dictionary: SearchDictionary | null): void;
+export declare function getSearchDictionary(): SearchDictionary;
+export declare function getSearchDictionarySignature(): string;
+
+export declare function stemTerm(term: string): string;
+export declare function normaliseTerm(term: string): string;
+export declare function getSynonymExpansions(terms: string[]): string[][];
+export declare function hasSynonyms(term: string): boolean;
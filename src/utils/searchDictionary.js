@@ -0,0 +1,308 @@
+/**
+ * Search Dictionary - Stemming and planning-domain synonyms for cold storage search
+ *
+ * Query and index terms are compared by their normalised form:
+ * - English suffixes are removed with the Porter stemmer ("extensions" → "extens")
+ * - Single-word synonyms share one form ("extended" and "extension" both match)
+ * - Multi-word synonyms and abbreviations ("HMO" ↔ "house in multiple occupation")
+ *   are expanded into alternative phrases when a query is evaluated
+ *
+ * AIDEV-NOTE: Plain JS so the worker, the search index and the Node.js batch scripts
+ * normalise identically. Batch indexes record the dictionary signature - when the
+ * dictionary changes, the normalised term groups are rebuilt from the postings.
+ */
+
+import { tokenize } from './searchIndex.js';
+
+/**
+ * Equivalent expressions, one group per line. Single words are merged into one
+ * normalised term; groups with several words are expanded as alternative phrases.
+ * Plurals and other suffixes are handled by the stemmer and need no entry.
+ */
+export const DEFAULT_SEARCH_DICTIONARY = {
+  version: 1,
+  synonyms: [
+    ['nppf', 'national planning policy framework'],
+    ['ppg', 'planning practice guidance'],
+    ['lpa', 'local planning authority'],
+    ['aonb', 'area of outstanding natural beauty', 'national landscape'],
+    ['sssi', 'site of special scientific interest'],
+    ['sac', 'special area of conservation'],
+    ['cil', 'community infrastructure levy'],
+    ['pd', 'permitted development'],
+    ['pd rights', 'permitted development rights'],
+    ['gpdo', 'general permitted development order'],
+    ['hmo', 'house in multiple occupation'],
+    ['tpo', 'tree preservation order'],
+    ['eia', 'environmental impact assessment'],
+    ['s106', 'section 106'],
+    // Derived forms the stemmer keeps apart
+    ['extension', 'extend'],
+    ['conversion', 'convert'],
+    ['demolition', 'demolish'],
+    ['subdivision', 'subdivide']
+  ]
+};
+
+let activeDictionary = DEFAULT_SEARCH_DICTIONARY;
+let dictionaryState = null;
+
+/**
+ * Replace the synonym dictionary used for indexing and querying
+ *
+ * @param dictionary - null restores DEFAULT_SEARCH_DICTIONARY
+ */
+export function setSearchDictionary(dictionary) {
+  activeDictionary = dictionary || DEFAULT_SEARCH_DICTIONARY;
+  dictionaryState = null;
+}
+
+export function getSearchDictionary() {
+  return activeDictionary;
+}
+
+/**
+ * Identifies the dictionary an index was built with (stemmer changes bump SEARCH_INDEX_VERSION)
+ */
+export function getSearchDictionarySignature() {
+  return getDictionaryState().signature;
+}
+
+// --- Porter stemmer (M.F. Porter, 1980) ---
+
+function isConsonant(word, index) {
+  const char = word[index];
+  if ('aeiou'.includes(char)) {
+    return false;
+  }
+  // "y" is a vowel after a consonant ("happy"), a consonant otherwise ("yes", "toy")
+  return char !== 'y' || index === 0 || !isConsonant(word, index - 1);
+}
+
+// Number of vowel-consonant sequences ([C](VC)^m[V])
+function measure(stem) {
+  let count = 0;
+  let index = 0;
+  while (index < stem.length && isConsonant(stem, index)) {
+    index++;
+  }
+  while (index < stem.length) {
+    while (index < stem.length && !isConsonant(stem, index)) {
+      index++;
+    }
+    if (index >= stem.length) {
+      break;
+    }
+    while (index < stem.length && isConsonant(stem, index)) {
+      index++;
+    }
+    count++;
+  }
+  return count;
+}
+
+function containsVowel(stem) {
+  for (let index = 0; index < stem.length; index++) {
+    if (!isConsonant(stem, index)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word) {
+  const last = word.length - 1;
+  return last > 0 && word[last] === word[last - 1] && isConsonant(word, last);
+}
+
+// Consonant-vowel-consonant ending where the last consonant is not w, x or y ("hop", not "snow")
+function endsWithCvc(word) {
+  const last = word.length - 1;
+  return last >= 2 &&
+    isConsonant(word, last - 2) &&
+    !isConsonant(word, last - 1) &&
+    isConsonant(word, last) &&
+    !'wxy'.includes(word[last]);
+}
+
+// Longest matching suffix wins; when its condition fails the word is left unchanged
+function replaceSuffix(word, rules, condition) {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return condition(stem) ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP_2_RULES = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble']
+].sort((a, b) => b[0].length - a[0].length);
+
+const STEP_3_RULES = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+].sort((a, b) => b[0].length - a[0].length);
+
+const STEP_4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+].sort((a, b) => b.length - a.length);
+
+/**
+ * Reduce an English word to its stem ("extensions" → "extens", "refused" → "refus")
+ *
+ * Terms shorter than 3 characters or containing digits ("s106", "b1234") are kept.
+ */
+export function stemTerm(term) {
+  let word = String(term || '').toLowerCase();
+  if (word.length < 3 || /[^a-z]/.test(word)) {
+    return word;
+  }
+
+  // Step 1a: plurals
+  if (word.endsWith('sses') || word.endsWith('ies')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('s') && !word.endsWith('ss')) {
+    word = word.slice(0, -1);
+  }
+
+  // Step 1b: past tense and -ing
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) {
+      word = word.slice(0, -1);
+    }
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : null;
+    if (suffix && containsVowel(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsWithCvc(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // Step 1c: terminal y
+  if (word.endsWith('y') && containsVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i';
+  }
+
+  // Steps 2-3: derivational suffixes
+  word = replaceSuffix(word, STEP_2_RULES, stem => measure(stem) > 0);
+  word = replaceSuffix(word, STEP_3_RULES, stem => measure(stem) > 0);
+
+  // Step 4: remaining suffixes on longer stems
+  const suffix = STEP_4_SUFFIXES.find(candidate => word.endsWith(candidate));
+  if (suffix) {
+    const stem = word.slice(0, -suffix.length);
+    if (measure(stem) > 1 && (suffix !== 'ion' || stem.endsWith('s') || stem.endsWith('t'))) {
+      word = stem;
+    }
+  }
+
+  // Step 5: final e and double l
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const stemMeasure = measure(stem);
+    if (stemMeasure > 1 || (stemMeasure === 1 && !endsWithCvc(stem))) {
+      word = stem;
+    }
+  }
+  if (word.endsWith('ll') && measure(word) > 1) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
+
+// --- Synonyms ---
+
+function getDictionaryState() {
+  if (dictionaryState) {
+    return dictionaryState;
+  }
+
+  const groups = (activeDictionary.synonyms || [])
+    .map(group => group.map(expression => tokenize(expression)).filter(terms => terms.length > 0))
+    .filter(group => group.length > 0);
+
+  // Single-word members of a group share the stem of the group's first single word
+  const canonicalStems = new Map();
+  for (const group of groups) {
+    const singleWords = group.filter(terms => terms.length === 1).map(terms => stemTerm(terms[0]));
+    for (const stem of singleWords) {
+      if (!canonicalStems.has(stem)) {
+        canonicalStems.set(stem, singleWords[0]);
+      }
+    }
+  }
+
+  const state = {
+    signature: `${activeDictionary.version || 0}:${JSON.stringify(activeDictionary.synonyms || [])}`,
+    canonicalStems,
+    normalisedTerms: new Map(),
+    groups: []
+  };
+  dictionaryState = state;
+
+  // Groups are compared by normalised term sequences (needs canonicalStems in place)
+  state.groups = groups.map(group => group.map(terms => ({
+    terms,
+    key: terms.map(normaliseTerm).join(' ')
+  })));
+  return state;
+}
+
+/**
+ * Normalised form of an index or query term - equal forms match each other
+ */
+export function normaliseTerm(term) {
+  const state = getDictionaryState();
+  let normalised = state.normalisedTerms.get(term);
+  if (normalised === undefined) {
+    const stem = stemTerm(term);
+    normalised = state.canonicalStems.get(stem) || stem;
+    state.normalisedTerms.set(term, normalised);
+  }
+  return normalised;
+}
+
+/**
+ * Alternative term sequences for a query term or phrase from the synonym dictionary
+ *
+ * Alternatives with the same normalised form as the input are omitted (they already match).
+ *
+ * @param terms - tokenized query term or phrase words
+ */
+export function getSynonymExpansions(terms) {
+  const key = (terms || []).map(normaliseTerm).join(' ');
+  const expansions = [];
+  const seen = new Set([key]);
+
+  for (const group of getDictionaryState().groups) {
+    if (!group.some(member => member.key === key)) {
+      continue;
+    }
+    for (const member of group) {
+      if (!seen.has(member.key)) {
+        seen.add(member.key);
+        expansions.push(member.terms);
+      }
+    }
+  }
+  return expansions;
+}
+
+/**
+ * Whether a short query word should be kept because the dictionary expands it ("pd")
+ */
+export function hasSynonyms(term) {
+  return getSynonymExpansions([term]).length > 0;
+}
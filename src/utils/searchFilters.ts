@@ -0,0 +1,295 @@
+/**
+ * Search Filters - Metadata and decision date filters for cold storage search
+ *
+ * Shared by the cold storage worker (per-document filtering and batch skipping),
+ * the search store (applied filter summary and client-side filtering) and the
+ * filter dropdowns (facet counts).
+ *
+ * Semantics:
+ * - Within one metadata category the selected values are alternatives (OR),
+ *   across categories every active category must match (AND)
+ * - Metadata values are compared case-insensitively on the whole value
+ * - `laterThan` / `earlierThan` exclude the chosen day, `range` includes both ends
+ * - Documents without a readable decision date never match an active date filter
+ *
+ * AIDEV-NOTE: Field names must stay in INDEXED_FIELDS (searchIndex.js) so the worker
+ * can filter from the decrypted index without decrypting the batch documents
+ */
+
+import type { Facets } from './searchIndex.js';
+import type { DateFilter, FacetValue, FilterFacets, FilterOptions, MetadataFilters } from '../types/index.js';
+
+export interface SearchFilters {
+  dateFilter?: DateFilter;
+  metadataFilters?: MetadataFilters;
+}
+
+// Epoch milliseconds; null means unbounded on that side
+export interface DateFilterRange {
+  start: number | null;
+  end: number | null;
+}
+
+// Reads a document field value ('' when missing)
+export type FieldValueReader = (field: string) => string;
+
+export type DocumentFilter = (readField: FieldValueReader) => boolean;
+
+// AIDEV-NOTE: MetadataFilters key → document field (see INDEXED_FIELDS in searchIndex.js)
+export const METADATA_FILTER_FIELDS: Record<keyof MetadataFilters, string> = {
+  lpaNames: 'lpa_name',
+  caseTypes: 'case_type',
+  caseOfficers: 'case_officer',
+  procedures: 'procedure',
+  statuses: 'status',
+  decisionOutcomes: 'decision_outcome'
+};
+
+export const METADATA_FILTER_LABELS: Record<keyof MetadataFilters, string> = {
+  lpaNames: 'LPA',
+  caseTypes: 'Case type',
+  caseOfficers: 'Case officer',
+  procedures: 'Procedure',
+  statuses: 'Status',
+  decisionOutcomes: 'Outcome'
+};
+
+export const DATE_FILTER_FIELD = 'decision_date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 15/04/2021, 15-04-2021, 15.04.2021 (UK day-first order)
+const DAY_FIRST_DATE_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+// 2021-04-15, optionally followed by a time
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:$|T)/;
+
+/**
+ * Parse a decision date to UTC midnight of that day (null when unreadable)
+ *
+ * Accepts ISO dates, UK day-first numeric dates and written dates such as "15 April 2021".
+ */
+export function parseDecisionDate(value: string | null | undefined): number | null {
+  const text = (value || '').trim();
+  if (!text || text === 'NOT_FOUND') {
+    return null;
+  }
+
+  const isoMatch = text.match(ISO_DATE_PATTERN);
+  if (isoMatch) {
+    return toUtcDay(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+  }
+
+  const dayFirstMatch = text.match(DAY_FIRST_DATE_PATTERN);
+  if (dayFirstMatch) {
+    return toUtcDay(Number(dayFirstMatch[3]), Number(dayFirstMatch[2]), Number(dayFirstMatch[1]));
+  }
+
+  // Written dates ("15 April 2021", "April 15, 2021") - ordinal suffixes confuse Date.parse
+  const parsed = new Date(text.replace(/(\d+)(st|nd|rd|th)\b/gi, '$1'));
+  if (isNaN(parsed.getTime())) {
+    return null;
+  }
+  return toUtcDay(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+}
+
+function toUtcDay(year: number, month: number, day: number): number | null {
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  // Reject rolled-over dates such as 31/02/2021
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return time;
+}
+
+/**
+ * Resolve a DateFilter to an inclusive millisecond range (null when it does not constrain)
+ */
+export function getDateFilterRange(dateFilter: DateFilter | null | undefined): DateFilterRange | null {
+  if (!dateFilter || dateFilter.type === 'all') {
+    return null;
+  }
+
+  let start: number | null = null;
+  let end: number | null = null;
+
+  if (dateFilter.type === 'laterThan') {
+    const day = parseDecisionDate(dateFilter.laterThan);
+    start = day === null ? null : day + DAY_MS;
+  } else if (dateFilter.type === 'earlierThan') {
+    const day = parseDecisionDate(dateFilter.earlierThan);
+    end = day === null ? null : day - 1;
+  } else if (dateFilter.type === 'range') {
+    const from = parseDecisionDate(dateFilter.from);
+    const to = parseDecisionDate(dateFilter.to);
+    start = from;
+    end = to === null ? null : to + DAY_MS - 1;
+  }
+
+  if (start === null && end === null) {
+    return null;
+  }
+  return { start, end };
+}
+
+export function isDateInRange(time: number | null, range: DateFilterRange): boolean {
+  if (time === null) {
+    return false;
+  }
+  return (range.start === null || time >= range.start) && (range.end === null || time <= range.end);
+}
+
+/**
+ * Whether a batch's decision date range can contain documents inside the filter range
+ *
+ * AIDEV-NOTE: Batches with a missing or unreadable dateRange are always searched -
+ * skipping them could silently hide matches
+ */
+export function batchMayMatchDateRange(
+  batchDateRange: { start?: string; end?: string } | null | undefined,
+  range: DateFilterRange
+): boolean {
+  const batchStart = Date.parse(batchDateRange?.start || '');
+  const batchEnd = Date.parse(batchDateRange?.end || '');
+  if (isNaN(batchStart) || isNaN(batchEnd)) {
+    return true;
+  }
+
+  // Batch ranges carry times, filter days are UTC midnight - compare whole days
+  const batchFirstDay = Math.floor(batchStart / DAY_MS) * DAY_MS;
+  const batchLastDay = Math.floor(batchEnd / DAY_MS) * DAY_MS;
+  return (range.start === null || batchLastDay + DAY_MS - 1 >= range.start) &&
+    (range.end === null || batchFirstDay <= range.end);
+}
+
+/**
+ * Drop empty categories and unconstrained date filters (undefined when nothing is active)
+ */
+export function getActiveSearchFilters(filters: SearchFilters | null | undefined): SearchFilters | undefined {
+  const active: SearchFilters = {};
+
+  if (getDateFilterRange(filters?.dateFilter)) {
+    active.dateFilter = { ...filters!.dateFilter! };
+  }
+
+  const metadataFilters = filters?.metadataFilters;
+  if (metadataFilters && Object.keys(METADATA_FILTER_FIELDS).some(key => metadataFilters[key as keyof MetadataFilters]?.length)) {
+    active.metadataFilters = {
+      lpaNames: [...(metadataFilters.lpaNames || [])],
+      caseTypes: [...(metadataFilters.caseTypes || [])],
+      caseOfficers: [...(metadataFilters.caseOfficers || [])],
+      procedures: [...(metadataFilters.procedures || [])],
+      statuses: [...(metadataFilters.statuses || [])],
+      decisionOutcomes: [...(metadataFilters.decisionOutcomes || [])]
+    };
+  }
+
+  return active.dateFilter || active.metadataFilters ? active : undefined;
+}
+
+/**
+ * Build a per-document predicate for the active filters (null when nothing is active)
+ */
+export function createDocumentFilter(filters: SearchFilters | null | undefined): DocumentFilter | null {
+  const dateRange = getDateFilterRange(filters?.dateFilter);
+  const metadataChecks: Array<{ field: string; values: Set<string> }> = [];
+
+  for (const [key, field] of Object.entries(METADATA_FILTER_FIELDS)) {
+    const selected = filters?.metadataFilters?.[key as keyof MetadataFilters] || [];
+    if (selected.length > 0) {
+      metadataChecks.push({ field, values: new Set(selected.map(normaliseFilterValue)) });
+    }
+  }
+
+  if (!dateRange && metadataChecks.length === 0) {
+    return null;
+  }
+
+  return (readField: FieldValueReader) => {
+    for (const { field, values } of metadataChecks) {
+      if (!values.has(normaliseFilterValue(readField(field)))) {
+        return false;
+      }
+    }
+    return !dateRange || isDateInRange(parseDecisionDate(readField(DATE_FILTER_FIELD)), dateRange);
+  };
+}
+
+/**
+ * Human readable descriptions of applied filters, e.g. "LPA: Leeds, York"
+ */
+export function describeSearchFilters(filters: SearchFilters | null | undefined): string[] {
+  const descriptions: string[] = [];
+  const dateFilter = filters?.dateFilter;
+
+  if (dateFilter && getDateFilterRange(dateFilter)) {
+    if (dateFilter.type === 'laterThan') {
+      descriptions.push(`Decided after ${dateFilter.laterThan}`);
+    } else if (dateFilter.type === 'earlierThan') {
+      descriptions.push(`Decided before ${dateFilter.earlierThan}`);
+    } else if (dateFilter.from && dateFilter.to) {
+      descriptions.push(`Decided ${dateFilter.from} to ${dateFilter.to}`);
+    } else if (dateFilter.from) {
+      descriptions.push(`Decided from ${dateFilter.from}`);
+    } else {
+      descriptions.push(`Decided up to ${dateFilter.to}`);
+    }
+  }
+
+  for (const key of Object.keys(METADATA_FILTER_FIELDS) as Array<keyof MetadataFilters>) {
+    const selected = filters?.metadataFilters?.[key] || [];
+    if (selected.length > 0) {
+      descriptions.push(`${METADATA_FILTER_LABELS[key]}: ${selected.join(', ')}`);
+    }
+  }
+
+  return descriptions;
+}
+
+/**
+ * Convert worker facet counts (keyed by document field) to per-filter value lists
+ */
+export function toFilterFacets(facets: Facets | null | undefined): FilterFacets {
+  const filterFacets = {} as FilterFacets;
+  for (const [key, field] of Object.entries(METADATA_FILTER_FIELDS)) {
+    filterFacets[key as keyof FilterFacets] = Object.entries(facets?.fields?.[field] || {})
+      .map(([value, count]): FacetValue => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return filterFacets;
+}
+
+/**
+ * Sum per-filter value lists from disjoint document sets (e.g. separate archives)
+ */
+export function combineFilterFacets(filterFacetsList: FilterFacets[]): FilterFacets {
+  const combined = {} as FilterFacets;
+  for (const key of Object.keys(METADATA_FILTER_FIELDS) as Array<keyof FilterFacets>) {
+    const counts = new Map<string, number>();
+    for (const filterFacets of filterFacetsList) {
+      for (const { value, count } of filterFacets[key] || []) {
+        counts.set(value, (counts.get(value) || 0) + count);
+      }
+    }
+    combined[key] = Array.from(counts, ([value, count]): FacetValue => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return combined;
+}
+
+/**
+ * Dropdown options from facets, keeping selected values that no longer occur
+ */
+export function toFilterOptions(filterFacets: FilterFacets, selected?: MetadataFilters): FilterOptions {
+  const options = {} as FilterOptions;
+  for (const key of Object.keys(METADATA_FILTER_FIELDS) as Array<keyof FilterOptions>) {
+    const values = filterFacets[key].map(facet => facet.value);
+    const missing = (selected?.[key] || []).filter(value => !values.includes(value));
+    options[key] = [...values, ...missing];
+  }
+  return options;
+}
+
+function normaliseFilterValue(value: string): string {
+  return String(value || '').trim().toLowerCase();
+}
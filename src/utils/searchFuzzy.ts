@@ -0,0 +1,178 @@
+/**
+ * Search Fuzzy - Typo-tolerant term correction for cold storage search
+ *
+ * Query terms with no match in the index dictionary ("conservaton", "wokingam")
+ * are replaced by their closest dictionary term before the query is evaluated,
+ * so BM25 scores and snippets use the corrected term.
+ *
+ * - Similarity = 1 - edit distance / longer term length (transpositions count as one edit)
+ * - The UI sensitivity (0-1) is the minimum similarity; 1 disables correction
+ * - Ties prefer fewer edits, then more common terms, then the better fuzzysort score
+ *   (which rewards long runs of matching characters)
+ *
+ * AIDEV-NOTE: Corrections are computed once per search against the archive-wide
+ * dictionary (corpus statistics) so every batch uses the same rewritten query
+ */
+
+import fuzzysort from 'fuzzysort';
+import { getScoringClauses, rewriteQueryTerms, type ParsedQuery } from './searchQuery.js';
+import { hasSynonyms, normaliseTerm } from './searchDictionary.js';
+import type { TermCorrection } from '../types/index.js';
+
+export type { TermCorrection };
+
+// Shorter terms have too many one-edit neighbours ("harm" ↔ "farm") to correct safely
+export const FUZZY_MIN_TERM_LENGTH = 4;
+export const FUZZY_MAX_EDITS = 2;
+
+/**
+ * Minimum similarity for a correction from the search sensitivity (null disables correction)
+ */
+export function getFuzzySimilarityThreshold(sensitivity: number | null | undefined): number | null {
+  if (typeof sensitivity !== 'number' || isNaN(sensitivity) || sensitivity >= 1) {
+    return null;
+  }
+  return Math.max(0, sensitivity);
+}
+
+/**
+ * Optimal string alignment distance, stopping early once maxDistance is exceeded
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+
+    if (rowMinimum > maxDistance) {
+      return maxDistance + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Closest dictionary term for a misspelled term (null when nothing is similar enough)
+ */
+export function findTermCorrection(
+  term: string,
+  dictionary: string[],
+  minSimilarity: number,
+  documentFrequencies?: Record<string, number>
+): TermCorrection | null {
+  if (term.length < FUZZY_MIN_TERM_LENGTH) {
+    return null;
+  }
+
+  const candidates: Array<{ term: string; distance: number; similarity: number }> = [];
+  for (const candidate of dictionary) {
+    const distance = editDistance(term, candidate, FUZZY_MAX_EDITS);
+    if (distance === 0 || distance > FUZZY_MAX_EDITS) {
+      continue;
+    }
+
+    const similarity = 1 - distance / Math.max(term.length, candidate.length);
+    if (similarity >= minSimilarity) {
+      candidates.push({ term: candidate, distance, similarity });
+    }
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const fuzzyScores = new Map(
+    fuzzysort.go(term, candidates.map(candidate => candidate.term)).map(result => [result.target, result.score])
+  );
+  candidates.sort((a, b) =>
+    a.distance - b.distance ||
+    (documentFrequencies?.[b.term] || 0) - (documentFrequencies?.[a.term] || 0) ||
+    (fuzzyScores.get(b.term) || 0) - (fuzzyScores.get(a.term) || 0) ||
+    a.term.localeCompare(b.term)
+  );
+
+  const best = candidates[0];
+  return { term, correctedTo: best.term, similarity: best.similarity };
+}
+
+/**
+ * Replace query terms that match nothing in the dictionary with their closest term
+ *
+ * Terms are kept when they are a dictionary term or part of one (the index's substring
+ * rule), share a normalised form with one ("extended" finds "extension") or have
+ * synonyms, so "extension" never becomes "extensions".
+ */
+export function correctQuery(
+  parsedQuery: ParsedQuery,
+  dictionary: string[],
+  sensitivity: number | null | undefined,
+  documentFrequencies?: Record<string, number>
+): { parsedQuery: ParsedQuery; corrections: TermCorrection[] } {
+  const minSimilarity = getFuzzySimilarityThreshold(sensitivity);
+  if (minSimilarity === null || !parsedQuery.root || dictionary.length === 0) {
+    return { parsedQuery, corrections: [] };
+  }
+
+  const knownTerms = new Set(dictionary);
+  const corrections = new Map<string, TermCorrection | null>();
+
+  const corrected = rewriteQueryTerms(parsedQuery, term => {
+    if (knownTerms.has(term)) {
+      return term;
+    }
+    if (!corrections.has(term)) {
+      const normalised = normaliseTerm(term);
+      const isKnown = hasSynonyms(term) ||
+        dictionary.some(candidate => candidate.includes(term) || normaliseTerm(candidate) === normalised);
+      corrections.set(term, isKnown ? null : findTermCorrection(term, dictionary, minSimilarity, documentFrequencies));
+    }
+    return corrections.get(term)?.correctedTo || term;
+  });
+
+  const applied = Array.from(corrections.values()).filter((correction): correction is TermCorrection => !!correction);
+  return {
+    parsedQuery: applied.length > 0 ? corrected : parsedQuery,
+    corrections: applied
+  };
+}
+
+/**
+ * Corrections whose corrected term contributed to a document match
+ *
+ * @param frequencies - DocumentMatch.frequencies (occurrences per scoring clause key)
+ */
+export function getMatchedCorrections(
+  corrections: TermCorrection[],
+  parsedQuery: ParsedQuery,
+  frequencies: Map<string, number>
+): TermCorrection[] {
+  if (corrections.length === 0) {
+    return [];
+  }
+
+  const matchedTerms = new Set(
+    getScoringClauses(parsedQuery.root)
+      .filter(clause => (frequencies.get(clause.key) || 0) > 0)
+      .flatMap(clause => clause.terms)
+  );
+  return corrections.filter(correction => matchedTerms.has(correction.correctedTo));
+}
@@ -0,0 +1,90 @@
+/**
+ * TypeScript definitions for the cold storage search index
+ */
+
+export interface SearchToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * [documentIndex, position1, position2, ...]
+ */
+export type SearchPosting = number[];
+
+export interface SearchIndex {
+  version: number;
+  documentCount: number;
+  documentIds: string[];
+  documentLengths: number[];
+  postings: Record<string, SearchPosting[]>;
+  // Field name → value per document index ('' when missing)
+  fields: Record<string, string[]>;
+  // Synonym dictionary the normalised term groups were built with
+  dictionarySignature: string;
+  // Normalised form → index terms with that form
+  normalisedTerms: Record<string, string[]>;
+}
+
+export declare const SEARCH_INDEX_VERSION: number;
+export declare const MIN_QUERY_TERM_LENGTH: number;
+export declare const INDEXED_FIELDS: string[];
+
+export declare function getDocumentFieldValue(document: any, field: string): string;
+
+export declare function tokenizeWithOffsets(text: string | null | undefined): SearchToken[];
+export declare function tokenize(text: string | null | undefined): string[];
+export declare function tokenizeQuery(query: string): string[];
+export declare function extractKeywords(documents: ReadonlyArray<{ content?: string | null }> | null | undefined, limit?: number): string[];
+export declare function normaliseKeywords(keywords: string[] | null | undefined): string[];
+export declare function buildSearchIndex(documents: Array<{ id?: string; content?: string; [key: string]: any }>): SearchIndex;
+export declare function isSearchIndexCompatible(searchIndex: any): searchIndex is SearchIndex;
+export declare function findMatchingTerms(searchIndex: SearchIndex, queryTerm: string): string[];
+export declare function lookupTerm(searchIndex: SearchIndex, queryTerm: string): Map<number, number[]>;
+export declare function getNormalisedTerms(searchIndex: SearchIndex): Record<string, string[]>;
+export declare function lookupNormalisedTerm(searchIndex: SearchIndex, term: string): Map<number, number[]>;
+
+export interface CorpusStats {
+  version: number;
+  documentCount: number;
+  totalDocumentLength: number;
+  documentFrequencies: Record<string, number>;
+  // Normalised form → documents containing a term with that form (missing from older statistics)
+  normalisedFrequencies?: Record<string, number>;
+  // Synonym dictionary the normalised forms were counted with
+  dictionarySignature?: string;
+}
+
+export declare const BM25_K1: number;
+export declare const BM25_B: number;
+export declare const CORPUS_STATS_VERSION: number;
+
+export declare function buildCorpusStats(searchIndexes: SearchIndex[]): CorpusStats;
+export declare function mergeCorpusStats(corpusStats: CorpusStats | null | undefined, searchIndex: SearchIndex | null | undefined): CorpusStats;
+export declare function getAverageDocumentLength(corpusStats: CorpusStats | null | undefined): number;
+export declare function getDocumentFrequency(corpusStats: CorpusStats | null | undefined, queryTerm: string): number;
+export declare function inverseDocumentFrequency(documentCount: number, documentFrequency: number): number;
+export declare function scoreBM25(termFrequency: number, documentLength: number, averageDocumentLength: number, idf: number): number;
+
+export interface Facets {
+  version: number;
+  documentCount: number;
+  // Field name → distinct value → document count
+  fields: Record<string, Record<string, number>>;
+  // Document id → latest status (archive facets only; missing from facets published before it)
+  cases?: Record<string, string>;
+  // Document id → batch holding its latest copy (archive facets only, like `cases`)
+  caseBatches?: Record<string, string>;
+}
+
+export declare const FACETS_VERSION: number;
+export declare const FACET_FIELDS: string[];
+
+export declare function buildFacets(searchIndexes: SearchIndex[], batchIds?: string[]): Facets;
+export declare function getIndexedCaseStatuses(searchIndex: SearchIndex | null | undefined): Record<string, string>;
+export declare function getSupersededBatches(facets: Facets | null | undefined, searchIndex: SearchIndex | null | undefined, batchId: string): Map<string, string[]>;
+export declare function isSupersededCopy(facets: Facets | null | undefined, documentId: string, batchId: string): boolean;
+export declare function mergeFacets(facets: Facets | null | undefined, searchIndex: SearchIndex | null | undefined, batchId?: string | null, previousIndexes?: Record<string, SearchIndex>): Facets;
+export declare function combineFacets(facetsList: Array<Facets | null | undefined>): Facets;
+export declare function countDocumentFacets(documents: any[]): Facets;
@@ -0,0 +1,687 @@
+/**
+ * Search Index - Precomputed inverted index for cold storage batches
+ *
+ * Builds a term → posting-list index (document index + term positions)
+ * when a batch is created, so the cold storage worker can look up matches
+ * instead of regex-scanning every document on every query.
+ *
+ * AIDEV-NOTE: Plain JS so both the worker (via searchIndex.d.ts) and the
+ * Node.js batch scripts share one tokenizer - index and query MUST tokenize identically
+ */
+
+import { getSearchDictionarySignature, normaliseTerm } from './searchDictionary.js';
+
+// AIDEV-NOTE: Bump when the index structure, tokenizer or stemmer changes; older indexes are rebuilt in the worker
+export const SEARCH_INDEX_VERSION = 4;
+
+// AIDEV-NOTE: Matches the worker's historic "terms longer than 2 characters" query rule
+export const MIN_QUERY_TERM_LENGTH = 3;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// AIDEV-NOTE: Document fields kept in the index for field-scoped queries (lpa:, outcome:, ...)
+// and for metadata/date filters, so filtered-out hits never need their batch decrypted
+export const INDEXED_FIELDS = [
+  'lpa_name',
+  'case_officer',
+  'case_type',
+  'decision_outcome',
+  'procedure',
+  'status',
+  'inspector',
+  'decision_date'
+];
+
+// Extractor output (ExtractedMetadata) used when the flattened field is missing
+const FIELD_FALLBACKS = {
+  lpa_name: 'lpa',
+  decision_outcome: 'decisionOutcome',
+  inspector: 'inspector',
+  decision_date: 'decisionDate'
+};
+
+/**
+ * Read a filterable field from a cold storage document ('' when missing or NOT_FOUND)
+ */
+export function getDocumentFieldValue(document, field) {
+  let value = document?.[field];
+  if ((value === undefined || value === null || value === '' || value === 'NOT_FOUND') && FIELD_FALLBACKS[field]) {
+    value = document?.metadata?.[FIELD_FALLBACKS[field]];
+  }
+  if (value === undefined || value === null || value === 'NOT_FOUND') {
+    return '';
+  }
+  return String(value);
+}
+
+/**
+ * Split text into lowercase terms with their character offsets
+ */
+export function tokenizeWithOffsets(text) {
+  const tokens = [];
+  if (!text) {
+    return tokens;
+  }
+
+  const lowerText = String(text).toLowerCase();
+  for (const match of lowerText.matchAll(TOKEN_PATTERN)) {
+    tokens.push({
+      term: match[0],
+      start: match.index,
+      end: match.index + match[0].length
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Split text into lowercase terms (token position = array index)
+ */
+export function tokenize(text) {
+  return tokenizeWithOffsets(text).map(token => token.term);
+}
+
+/**
+ * Extract the searchable query terms from a raw query string
+ */
+export function tokenizeQuery(query) {
+  return Array.from(new Set(tokenize(query).filter(term => term.length >= MIN_QUERY_TERM_LENGTH)));
+}
+
+// Words never worth a batch keyword
+const KEYWORD_STOP_WORDS = new Set(['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'up', 'about', 'into', 'through', 'during', 'before', 'after', 'above', 'below', 'between', 'among', 'throughout', 'alongside', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'this', 'that', 'these', 'those']);
+
+/**
+ * Most frequent content words of a batch, one word per normalised form
+ *
+ * AIDEV-NOTE: Counted by normalised form ("extension", "extensions" and "extended" are
+ * one keyword) and represented by the most frequent spelling, so keywords stay readable
+ */
+export function extractKeywords(documents, limit = 20) {
+  const keywords = new Map();
+
+  for (const document of documents || []) {
+    for (const term of tokenize(document?.content || '')) {
+      if (term.length < MIN_QUERY_TERM_LENGTH || KEYWORD_STOP_WORDS.has(term) || !/^[a-z]+$/.test(term)) {
+        continue;
+      }
+
+      const normalised = normaliseTerm(term);
+      let keyword = keywords.get(normalised);
+      if (!keyword) {
+        keyword = { count: 0, spellings: new Map() };
+        keywords.set(normalised, keyword);
+      }
+      keyword.count++;
+      keyword.spellings.set(term, (keyword.spellings.get(term) || 0) + 1);
+    }
+  }
+
+  return Array.from(keywords.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map(keyword => Array.from(keyword.spellings).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0]);
+}
+
+/**
+ * Lowercase keywords and drop those sharing a normalised form with an earlier keyword
+ */
+export function normaliseKeywords(keywords) {
+  const seen = new Set();
+  const normalisedKeywords = [];
+  for (const keyword of keywords || []) {
+    const term = String(keyword || '').trim().toLowerCase();
+    const normalised = term && normaliseTerm(term);
+    if (normalised && !seen.has(normalised)) {
+      seen.add(normalised);
+      normalisedKeywords.push(term);
+    }
+  }
+  return normalisedKeywords;
+}
+
+/**
+ * Build an inverted index over a batch's documents
+ *
+ * Posting format: [documentIndex, position1, position2, ...] where
+ * documentIndex is the document's position in the batch documents array.
+ * Field values are stored per document in the same order.
+ */
+export function buildSearchIndex(documents) {
+  const postings = Object.create(null);
+  const documentIds = [];
+  const documentLengths = [];
+  const fields = Object.fromEntries(INDEXED_FIELDS.map(field => [field, []]));
+
+  (documents || []).forEach((document, documentIndex) => {
+    const terms = tokenize(document?.content || '');
+    const documentPositions = new Map();
+
+    terms.forEach((term, position) => {
+      let positions = documentPositions.get(term);
+      if (!positions) {
+        positions = [];
+        documentPositions.set(term, positions);
+      }
+      positions.push(position);
+    });
+
+    for (const [term, positions] of documentPositions) {
+      if (!postings[term]) {
+        postings[term] = [];
+      }
+      postings[term].push([documentIndex, ...positions]);
+    }
+
+    documentIds.push(document?.id ?? String(documentIndex));
+    documentLengths.push(terms.length);
+    for (const field of INDEXED_FIELDS) {
+      fields[field].push(getDocumentFieldValue(document, field));
+    }
+  });
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    documentCount: documentIds.length,
+    documentIds,
+    documentLengths,
+    postings,
+    fields,
+    dictionarySignature: getSearchDictionarySignature(),
+    normalisedTerms: buildNormalisedTerms(postings)
+  };
+}
+
+// Normalised form → index terms with that form ("extens" → ["extension", "extensions"])
+function buildNormalisedTerms(postings) {
+  const normalisedTerms = Object.create(null);
+  for (const term of Object.keys(postings)) {
+    const normalised = normaliseTerm(term);
+    if (!normalisedTerms[normalised]) {
+      normalisedTerms[normalised] = [];
+    }
+    normalisedTerms[normalised].push(term);
+  }
+  return normalisedTerms;
+}
+
+const rebuiltNormalisedTerms = new WeakMap();
+
+/**
+ * Index terms grouped by normalised form
+ *
+ * AIDEV-NOTE: Indexes built with another synonym dictionary are regrouped from
+ * their postings (once per index object) instead of being rebuilt from documents
+ */
+export function getNormalisedTerms(searchIndex) {
+  if (searchIndex.normalisedTerms && searchIndex.dictionarySignature === getSearchDictionarySignature()) {
+    return searchIndex.normalisedTerms;
+  }
+
+  let normalisedTerms = rebuiltNormalisedTerms.get(searchIndex);
+  if (!normalisedTerms || normalisedTerms.signature !== getSearchDictionarySignature()) {
+    normalisedTerms = { signature: getSearchDictionarySignature(), terms: buildNormalisedTerms(searchIndex.postings) };
+    rebuiltNormalisedTerms.set(searchIndex, normalisedTerms);
+  }
+  return normalisedTerms.terms;
+}
+
+/**
+ * Check that a decrypted index can be used by this version of the worker
+ */
+export function isSearchIndexCompatible(searchIndex) {
+  return !!searchIndex &&
+    searchIndex.version === SEARCH_INDEX_VERSION &&
+    Array.isArray(searchIndex.documentIds) &&
+    !!searchIndex.postings &&
+    !!searchIndex.fields;
+}
+
+/**
+ * Find the index terms matched by a query term
+ *
+ * AIDEV-NOTE: Substring match against the term dictionary preserves the previous
+ * content.match(term) behaviour ("extension" still matches "extensions"); terms with
+ * the same normalised form add stemmed and synonym variants ("extended")
+ */
+export function findMatchingTerms(searchIndex, queryTerm) {
+  if (!searchIndex || !queryTerm) {
+    return [];
+  }
+
+  const matchingTerms = new Set(getNormalisedTerms(searchIndex)[normaliseTerm(queryTerm)] || []);
+  for (const term of getSubstringCandidates(searchIndex, queryTerm)) {
+    if (term.includes(queryTerm)) {
+      matchingTerms.add(term);
+    }
+  }
+  return Array.from(matchingTerms);
+}
+
+const TRIGRAM_LENGTH = 3;
+const termTrigrams = new WeakMap();
+
+function getTrigrams(text) {
+  const trigrams = new Set();
+  for (let start = 0; start + TRIGRAM_LENGTH <= text.length; start++) {
+    trigrams.add(text.slice(start, start + TRIGRAM_LENGTH));
+  }
+  return trigrams;
+}
+
+/**
+ * Index terms that may contain a query term
+ *
+ * AIDEV-NOTE: Each index gets a trigram → terms map once (per index object), so a query term is
+ * only checked against the terms sharing its rarest trigram instead of the whole dictionary.
+ * Terms shorter than a trigram still scan the dictionary.
+ */
+function getSubstringCandidates(searchIndex, queryTerm) {
+  if (queryTerm.length < TRIGRAM_LENGTH) {
+    return Object.keys(searchIndex.postings);
+  }
+
+  let trigrams = termTrigrams.get(searchIndex);
+  if (!trigrams) {
+    trigrams = new Map();
+    for (const term of Object.keys(searchIndex.postings)) {
+      for (const trigram of getTrigrams(term)) {
+        const terms = trigrams.get(trigram);
+        if (terms) {
+          terms.push(term);
+        } else {
+          trigrams.set(trigram, [term]);
+        }
+      }
+    }
+    termTrigrams.set(searchIndex, trigrams);
+  }
+
+  let candidates = null;
+  for (const trigram of getTrigrams(queryTerm)) {
+    const terms = trigrams.get(trigram) || [];
+    if (!candidates || terms.length < candidates.length) {
+      candidates = terms;
+    }
+  }
+  return candidates || [];
+}
+
+/**
+ * Look up a query term and return positions per matching document
+ *
+ * Returns a Map of documentIndex → sorted term positions.
+ */
+export function lookupTerm(searchIndex, queryTerm) {
+  const documentPositions = new Map();
+
+  for (const term of findMatchingTerms(searchIndex, queryTerm)) {
+    for (const posting of searchIndex.postings[term]) {
+      const documentIndex = posting[0];
+      const existing = documentPositions.get(documentIndex);
+      if (existing) {
+        existing.push(...posting.slice(1));
+      } else {
+        documentPositions.set(documentIndex, posting.slice(1));
+      }
+    }
+  }
+
+  for (const positions of documentPositions.values()) {
+    positions.sort((a, b) => a - b);
+  }
+
+  return documentPositions;
+}
+
+/**
+ * Look up the index terms with the same normalised form (no substring expansion) - used for phrase words
+ *
+ * Returns a Map of documentIndex → sorted term positions.
+ */
+export function lookupNormalisedTerm(searchIndex, term) {
+  const documentPositions = new Map();
+  if (!searchIndex || !term) {
+    return documentPositions;
+  }
+
+  for (const indexTerm of getNormalisedTerms(searchIndex)[normaliseTerm(term)] || []) {
+    for (const posting of searchIndex.postings[indexTerm]) {
+      const existing = documentPositions.get(posting[0]);
+      documentPositions.set(posting[0], existing ? [...existing, ...posting.slice(1)] : posting.slice(1));
+    }
+  }
+
+  for (const positions of documentPositions.values()) {
+    positions.sort((a, b) => a - b);
+  }
+  return documentPositions;
+}
+
+// AIDEV-NOTE: Standard Okapi BM25 parameters
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+
+export const CORPUS_STATS_VERSION = 1;
+
+/**
+ * Aggregate archive-wide statistics from batch indexes
+ *
+ * AIDEV-NOTE: Kept in storage-index.json (encrypted - document frequencies reveal
+ * the archive vocabulary) so BM25 scores are comparable across batches
+ */
+export function buildCorpusStats(searchIndexes) {
+  return (searchIndexes || []).reduce(
+    (corpusStats, searchIndex) => mergeCorpusStats(corpusStats, searchIndex),
+    mergeCorpusStats(null, null)
+  );
+}
+
+/**
+ * Add one batch index to existing corpus statistics (returns a new object)
+ *
+ * AIDEV-NOTE: Besides per-term frequencies, documents are counted per normalised form (a
+ * document with "extension" and "extensions" counts once). Only statistics counted that way from
+ * the start, with the current synonym dictionary, keep the count - see getNormalisedFrequencies.
+ */
+export function mergeCorpusStats(corpusStats, searchIndex) {
+  const dictionarySignature = getSearchDictionarySignature();
+  const merged = {
+    version: CORPUS_STATS_VERSION,
+    documentCount: corpusStats?.documentCount || 0,
+    totalDocumentLength: corpusStats?.totalDocumentLength || 0,
+    // Null prototype: archive terms such as "constructor" must not hit Object.prototype
+    documentFrequencies: Object.assign(Object.create(null), corpusStats?.documentFrequencies)
+  };
+  if (!corpusStats || (corpusStats.normalisedFrequencies && corpusStats.dictionarySignature === dictionarySignature)) {
+    merged.dictionarySignature = dictionarySignature;
+    merged.normalisedFrequencies = Object.assign(Object.create(null), corpusStats?.normalisedFrequencies);
+  }
+
+  if (!searchIndex) {
+    return merged;
+  }
+
+  merged.documentCount += searchIndex.documentCount;
+  merged.totalDocumentLength += searchIndex.documentLengths.reduce((sum, length) => sum + length, 0);
+
+  for (const term of Object.keys(searchIndex.postings)) {
+    merged.documentFrequencies[term] = (merged.documentFrequencies[term] || 0) + searchIndex.postings[term].length;
+  }
+
+  if (merged.normalisedFrequencies) {
+    for (const [normalised, terms] of Object.entries(getNormalisedTerms(searchIndex))) {
+      const documentIndexes = new Set();
+      for (const term of terms) {
+        for (const posting of searchIndex.postings[term]) {
+          documentIndexes.add(posting[0]);
+        }
+      }
+      merged.normalisedFrequencies[normalised] = (merged.normalisedFrequencies[normalised] || 0) + documentIndexes.size;
+    }
+  }
+
+  return merged;
+}
+
+export function getAverageDocumentLength(corpusStats) {
+  if (!corpusStats || corpusStats.documentCount === 0) {
+    return 0;
+  }
+  return corpusStats.totalDocumentLength / corpusStats.documentCount;
+}
+
+const rebuiltNormalisedFrequencies = new WeakMap();
+
+/**
+ * Normalised form → number of documents containing a term with that form
+ *
+ * AIDEV-NOTE: Statistics published before the normalised counts existed (or counted with another
+ * synonym dictionary) are grouped from their per-term frequencies once per statistics object,
+ * keeping each group's most frequent term - a lower bound on the documents the group covers
+ */
+function getNormalisedFrequencies(corpusStats) {
+  const dictionarySignature = getSearchDictionarySignature();
+  if (corpusStats.normalisedFrequencies && corpusStats.dictionarySignature === dictionarySignature) {
+    return corpusStats.normalisedFrequencies;
+  }
+
+  let rebuilt = rebuiltNormalisedFrequencies.get(corpusStats);
+  if (!rebuilt || rebuilt.signature !== dictionarySignature) {
+    const frequencies = Object.create(null);
+    for (const [term, frequency] of Object.entries(corpusStats.documentFrequencies || {})) {
+      const normalised = normaliseTerm(term);
+      frequencies[normalised] = Math.max(frequencies[normalised] || 0, frequency);
+    }
+    rebuilt = { signature: dictionarySignature, frequencies };
+    rebuiltNormalisedFrequencies.set(corpusStats, rebuilt);
+  }
+  return rebuilt.frequencies;
+}
+
+/**
+ * Document frequency of a query term across the corpus: the documents containing any term
+ * with its normalised form (stemmed and synonym variants)
+ *
+ * AIDEV-NOTE: Dictionary terms that merely contain the query term ("road" in "railroad")
+ * also match in lookupTerm but are left out here - counting them needs a dictionary scan per term
+ */
+export function getDocumentFrequency(corpusStats, queryTerm) {
+  if (!corpusStats) {
+    return 0;
+  }
+  return getNormalisedFrequencies(corpusStats)[normaliseTerm(queryTerm)] || 0;
+}
+
+export function inverseDocumentFrequency(documentCount, documentFrequency) {
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * BM25 contribution of one query term to one document
+ */
+export function scoreBM25(termFrequency, documentLength, averageDocumentLength, idf) {
+  if (termFrequency <= 0) {
+    return 0;
+  }
+
+  const lengthRatio = averageDocumentLength > 0 ? documentLength / averageDocumentLength : 1;
+  const normalisation = BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio);
+  return idf * (termFrequency * (BM25_K1 + 1)) / (termFrequency + normalisation);
+}
+
+export const FACETS_VERSION = 1;
+
+// AIDEV-NOTE: Fields offered as filter dropdowns (see METADATA_FILTER_FIELDS in searchFilters.ts)
+export const FACET_FIELDS = [
+  'lpa_name',
+  'case_type',
+  'case_officer',
+  'procedure',
+  'status',
+  'decision_outcome'
+];
+
+// AIDEV-NOTE: Archive facets also map each document id (the case id for imported appeals) to its
+// latest status, so imports can skip cases already archived, and to the batch holding its latest
+// copy, so a refreshed case re-imported into a newer batch is counted and found once. Facets
+// published before the maps existed have no `cases` and keep none - readers fall back to the
+// batch indexes, and every copy of a case counts.
+function createFacets(source, trackCases = !source || Boolean(source.cases)) {
+  const facets = {
+    version: FACETS_VERSION,
+    documentCount: source?.documentCount || 0,
+    // Null prototype: field values such as "constructor" must not hit Object.prototype
+    fields: Object.fromEntries(FACET_FIELDS.map(field => [
+      field,
+      Object.assign(Object.create(null), source?.fields?.[field])
+    ]))
+  };
+  if (trackCases) {
+    facets.cases = Object.assign(Object.create(null), source?.cases);
+    facets.caseBatches = Object.assign(Object.create(null), source?.caseBatches);
+  }
+  return facets;
+}
+
+function addFacetValue(facets, field, value) {
+  const trimmed = String(value || '').trim();
+  if (trimmed) {
+    facets.fields[field][trimmed] = (facets.fields[field][trimmed] || 0) + 1;
+  }
+}
+
+function removeFacetValue(facets, field, value) {
+  const trimmed = String(value || '').trim();
+  if (!facets.fields[field][trimmed]) {
+    return;
+  }
+  facets.fields[field][trimmed]--;
+  if (facets.fields[field][trimmed] === 0) {
+    delete facets.fields[field][trimmed];
+  }
+}
+
+// Take documents of an older batch index off the counts (their newer copies are added instead)
+function removeFacetDocuments(facets, searchIndex, documentIds) {
+  for (const documentId of documentIds) {
+    const documentIndex = searchIndex.documentIds.indexOf(documentId);
+    if (documentIndex === -1) {
+      continue;
+    }
+    facets.documentCount--;
+    for (const field of FACET_FIELDS) {
+      removeFacetValue(facets, field, searchIndex.fields?.[field]?.[documentIndex]);
+    }
+  }
+}
+
+/**
+ * Aggregate distinct filter field values with document counts from batch indexes
+ *
+ * AIDEV-NOTE: Kept in storage-index.json (encrypted - officer names and LPAs describe
+ * the archive) so filter dropdowns never need a batch decrypted
+ */
+export function buildFacets(searchIndexes, batchIds = []) {
+  const previousIndexes = Object.create(null);
+  return (searchIndexes || []).reduce((facets, searchIndex, position) => {
+    const batchId = batchIds[position] ?? null;
+    const merged = mergeFacets(facets, searchIndex, batchId, previousIndexes);
+    if (batchId) {
+      previousIndexes[batchId] = searchIndex;
+    }
+    return merged;
+  }, createFacets(null));
+}
+
+/**
+ * Document id → status for the documents of one batch index
+ */
+export function getIndexedCaseStatuses(searchIndex) {
+  const cases = Object.create(null);
+  (searchIndex?.documentIds || []).forEach((documentId, documentIndex) => {
+    cases[documentId] = searchIndex.fields?.status?.[documentIndex] || '';
+  });
+  return cases;
+}
+
+/**
+ * Older batches holding a copy of documents in this batch index → ids of those documents
+ *
+ * AIDEV-NOTE: Refreshing a case re-imports it into a new batch and leaves the old copy in place;
+ * the facets' batch map says which copy is current. Empty for facets without the map.
+ */
+export function getSupersededBatches(facets, searchIndex, batchId) {
+  const superseded = new Map();
+  for (const documentId of searchIndex?.documentIds || []) {
+    const previousBatchId = facets?.caseBatches?.[documentId];
+    if (previousBatchId && previousBatchId !== batchId) {
+      superseded.set(previousBatchId, [...(superseded.get(previousBatchId) || []), documentId]);
+    }
+  }
+  return superseded;
+}
+
+/**
+ * Whether a batch's copy of a document has been replaced by one in a newer batch
+ */
+export function isSupersededCopy(facets, documentId, batchId) {
+  const latestBatchId = facets?.caseBatches?.[documentId];
+  return Boolean(latestBatchId) && latestBatchId !== batchId;
+}
+
+/**
+ * Add one batch index to existing facet counts (returns a new object)
+ *
+ * @param batchId - batch the index belongs to, recorded as the latest copy of its documents
+ * @param previousIndexes - batch id → index of the batches getSupersededBatches lists, so the
+ *   copies this batch replaces stop being counted (a missing index leaves its copies counted)
+ */
+export function mergeFacets(facets, searchIndex, batchId = null, previousIndexes = {}) {
+  const merged = createFacets(facets);
+  if (!searchIndex) {
+    return merged;
+  }
+
+  if (batchId) {
+    for (const [previousBatchId, documentIds] of getSupersededBatches(merged, searchIndex, batchId)) {
+      if (previousIndexes[previousBatchId]) {
+        removeFacetDocuments(merged, previousIndexes[previousBatchId], documentIds);
+      }
+    }
+  }
+
+  merged.documentCount += searchIndex.documentCount;
+  for (const field of FACET_FIELDS) {
+    for (const value of searchIndex.fields?.[field] || []) {
+      addFacetValue(merged, field, value);
+    }
+  }
+  if (merged.cases) {
+    // Later batches win - a re-imported case carries its newer status
+    Object.assign(merged.cases, getIndexedCaseStatuses(searchIndex));
+    for (const documentId of searchIndex.documentIds) {
+      // Without a batch id the latest copy is unknown, so no copy of the case is hidden
+      if (batchId) {
+        merged.caseBatches[documentId] = batchId;
+      } else {
+        delete merged.caseBatches[documentId];
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Sum facet counts from disjoint document sets (e.g. the shards of one search)
+ */
+export function combineFacets(facetsList) {
+  const combined = createFacets(null, false);
+  for (const facets of facetsList || []) {
+    if (!facets) {
+      continue;
+    }
+    combined.documentCount += facets.documentCount || 0;
+    for (const field of FACET_FIELDS) {
+      for (const [value, count] of Object.entries(facets.fields?.[field] || {})) {
+        combined.fields[field][value] = (combined.fields[field][value] || 0) + count;
+      }
+    }
+  }
+  return combined;
+}
+
+/**
+ * Facet counts for a set of documents or search results (e.g. the current result set)
+ */
+export function countDocumentFacets(documents) {
+  const facets = createFacets(null, false);
+  for (const document of documents || []) {
+    facets.documentCount++;
+    for (const field of FACET_FIELDS) {
+      addFacetValue(facets, field, getDocumentFieldValue(document, field));
+    }
+  }
+  return facets;
+}
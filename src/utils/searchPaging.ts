@@ -0,0 +1,129 @@
+/**
+ * Search Paging - Sorting and paging of a cold storage search's scored hits
+ *
+ * The worker keeps every hit of a search (its result set) and serves pages from it,
+ * so moving between pages or changing the sort order never runs the search again.
+ *
+ * AIDEV-NOTE: Hits are plain worker result objects - document fields such as
+ * decision_date are read with getDocumentFieldValue like the facet counts
+ */
+
+import { getDocumentFieldValue } from './searchIndex.js';
+import { DATE_FILTER_FIELD, parseDecisionDate } from './searchFilters.js';
+
+export type ResultSortBy = 'relevance' | 'date';
+export type ResultSortOrder = 'asc' | 'desc';
+
+export interface ResultPageOptions {
+  offset?: number;
+  limit?: number;
+  sortBy?: ResultSortBy;
+  sortOrder?: ResultSortOrder;
+}
+
+export interface ResultPage<T> {
+  results: T[];
+  offset: number;
+  limit: number;
+  total: number;
+  // Offset of the following page (null on the last page)
+  nextOffset: number | null;
+  sortBy: ResultSortBy;
+  sortOrder: ResultSortOrder;
+}
+
+// AIDEV-NOTE: Matches the worker's historic fixed limit, so the first page is unchanged
+export const DEFAULT_RESULT_PAGE_SIZE = 50;
+
+/**
+ * Sort hits by relevance or decision date (returns a new array)
+ *
+ * Both orders default to descending (best match / newest first). Undated hits sort
+ * after dated ones in either date order, and equal keys fall back to relevance.
+ */
+export function sortSearchResults<T extends { relevance?: number }>(
+  results: T[],
+  sortBy: ResultSortBy = 'relevance',
+  sortOrder: ResultSortOrder = 'desc'
+): T[] {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  const byRelevance = (a: T, b: T) => (b.relevance || 0) - (a.relevance || 0);
+
+  if (sortBy !== 'date') {
+    return [...results].sort((a, b) => -direction * byRelevance(a, b));
+  }
+
+  const dates = new Map(results.map(result => [result, parseDecisionDate(getDocumentFieldValue(result, DATE_FILTER_FIELD))]));
+  return [...results].sort((a, b) => {
+    const dateA = dates.get(a) ?? null;
+    const dateB = dates.get(b) ?? null;
+    if (dateA === null || dateB === null) {
+      return dateA === dateB ? byRelevance(a, b) : dateA === null ? 1 : -1;
+    }
+    return direction * (dateA - dateB) || byRelevance(a, b);
+  });
+}
+
+/**
+ * Slice one page from hits already sorted by the requested order
+ */
+export function getResultPage<T>(sortedResults: T[], options: ResultPageOptions = {}): ResultPage<T> {
+  const limit = Math.max(1, Math.floor(options.limit ?? DEFAULT_RESULT_PAGE_SIZE));
+  const offset = Math.min(Math.max(0, Math.floor(options.offset ?? 0)), sortedResults.length);
+  const end = offset + limit;
+
+  return {
+    results: sortedResults.slice(offset, end),
+    offset,
+    limit,
+    total: sortedResults.length,
+    nextOffset: end < sortedResults.length ? end : null,
+    sortBy: options.sortBy === 'date' ? 'date' : 'relevance',
+    sortOrder: options.sortOrder === 'asc' ? 'asc' : 'desc'
+  };
+}
+
+/**
+ * Range each of several shards must return for one page of the combined search
+ *
+ * A single shard serves the page itself; several shards each return every hit up
+ * to the page end, since any of them may hold the page's hits.
+ */
+export function getShardPageRange(shardCount: number, options: ResultPageOptions = {}): { offset: number; limit: number } {
+  const offset = Math.max(0, Math.floor(options.offset || 0));
+  const limit = Math.max(1, Math.floor(options.limit || DEFAULT_RESULT_PAGE_SIZE));
+  return shardCount === 1 ? { offset, limit } : { offset: 0, limit: offset + limit };
+}
+
+/**
+ * The requested page of a combined search from each shard's page (fetched with getShardPageRange)
+ *
+ * AIDEV-NOTE: Each shard returns its best hits up to the end of the page in the requested order,
+ * so the page of the re-sorted union equals that page of one search over every shard.
+ * Used for the worker pool's batch shards and for federated archives alike.
+ */
+export function mergeResultPages<T extends { relevance?: number }>(
+  shardPages: Array<{ results?: T[]; total?: number; sortBy?: ResultSortBy; sortOrder?: ResultSortOrder; query?: string }>,
+  options: ResultPageOptions = {}
+): ResultPage<T> & { query?: string } {
+  const { offset, limit } = getShardPageRange(1, options);
+  const sortBy: ResultSortBy = shardPages[0]?.sortBy || options.sortBy || 'relevance';
+  const sortOrder: ResultSortOrder = shardPages[0]?.sortOrder || options.sortOrder || 'desc';
+  const shardOffset = getShardPageRange(shardPages.length, options).offset;
+  const hits = shardPages.length === 1
+    ? shardPages[0].results || []
+    : sortSearchResults(shardPages.flatMap(shardPage => shardPage.results || []), sortBy, sortOrder);
+  const total = shardPages.reduce((sum, shardPage) => sum + (shardPage.total || 0), 0);
+  const end = offset + limit;
+
+  return {
+    results: hits.slice(offset - shardOffset, end - shardOffset),
+    total,
+    offset,
+    limit,
+    nextOffset: end < total ? end : null,
+    sortBy,
+    sortOrder,
+    query: shardPages[0]?.query
+  };
+}
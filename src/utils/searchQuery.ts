@@ -0,0 +1,799 @@
+/**
+ * Search Query - Parser and evaluator for the cold storage query syntax
+ *
+ * Supports:
+ * - Bare terms (substring match against the index dictionary, 3+ characters, plus
+ *   stemmed variants; shorter words only when the synonym dictionary knows them)
+ * - "Quoted phrases" (consecutive terms, each matching its stemmed variants)
+ * - Synonyms and abbreviations from searchDictionary.js ("HMO" also finds
+ *   "house in multiple occupation", and the other way round)
+ * - Proximity: `"green belt" NEAR/10 openness` (operands within n words, either order;
+ *   an operand is a term, a quoted phrase or an OR group of those)
+ * - Boolean operators AND, OR, NOT (upper case) with (grouping)
+ * - Field clauses: `lpa:"Leeds City Council" outcome:allowed` (see FIELD_ALIASES)
+ *
+ * Precedence, loosest first: OR (also implied between adjacent clauses), AND / NOT,
+ * unary NOT, NEAR/n. `a NOT b` means a AND NOT b. Field clauses that are only
+ * implicitly joined act as filters on the ranked free text rather than alternatives.
+ *
+ * AIDEV-NOTE: Evaluated against inverted index term positions, so it must use
+ * the same tokenizer as searchIndex.js
+ */
+
+import {
+  MIN_QUERY_TERM_LENGTH,
+  lookupNormalisedTerm,
+  lookupTerm,
+  tokenize,
+  tokenizeWithOffsets,
+  type SearchIndex
+} from './searchIndex.js';
+import { getSynonymExpansions, hasSynonyms } from './searchDictionary.js';
+
+export type QueryNode =
+  | { type: 'term'; term: string }
+  | { type: 'phrase'; terms: string[] }
+  | { type: 'near'; left: QueryNode; right: QueryNode; distance: number }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'field'; field: string; terms: string[] };
+
+// AIDEV-NOTE: Query prefix → indexed document field (see INDEXED_FIELDS in searchIndex.js)
+export const FIELD_ALIASES: Record<string, string> = {
+  lpa: 'lpa_name',
+  lpa_name: 'lpa_name',
+  inspector: 'inspector',
+  officer: 'case_officer',
+  case_officer: 'case_officer',
+  outcome: 'decision_outcome',
+  decision_outcome: 'decision_outcome',
+  case_type: 'case_type',
+  procedure: 'procedure',
+  status: 'status'
+};
+
+export interface ParsedQuery {
+  text: string;
+  root: QueryNode | null;
+  // Every positive index term in the query (used for batch keyword prioritisation)
+  terms: string[];
+}
+
+// Inclusive token position range [start, end] of one match
+export type MatchSpan = [number, number];
+
+export interface DocumentMatch {
+  spans: MatchSpan[];
+  // Occurrences per scoring clause key
+  frequencies: Map<string, number>;
+}
+
+// AIDEV-NOTE: A ranked unit of the query - BM25 is computed per clause, not per raw term
+export interface ScoringClause {
+  key: string;
+  terms: string[];
+  node: QueryNode;
+}
+
+/**
+ * Raised for malformed queries; position is the 0-based character offset in the query
+ */
+export class SearchQuerySyntaxError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at character ${position + 1})`);
+    this.name = 'SearchQuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type QueryToken = { position: number } & (
+  | { type: 'word'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'near'; distance: number }
+  | { type: 'field'; field: string; value: string }
+  | { type: 'and' | 'or' | 'not' | 'lparen' | 'rparen' }
+);
+
+const NEAR_PATTERN = /^NEAR\/(\d+)$/;
+const FIELD_PATTERN = /^([A-Za-z_]+):(.*)$/;
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+function lexQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const close = query.indexOf('"', i + 1);
+      if (close === -1) {
+        throw new SearchQuerySyntaxError('Missing closing quote', i);
+      }
+      tokens.push({ type: 'phrase', value: query.slice(i + 1, close), position: i });
+      i = close + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < query.length && !/[\s"()]/.test(query[end])) {
+      end++;
+    }
+    const word = query.slice(i, end);
+    const near = NEAR_PATTERN.exec(word);
+    const field = FIELD_PATTERN.exec(word);
+    const fieldName = field && FIELD_ALIASES[field[1].toLowerCase()];
+
+    if (field && fieldName) {
+      let value = field[2];
+      if (!value && query[end] === '"') {
+        // lpa:"Leeds City Council"
+        const close = query.indexOf('"', end + 1);
+        if (close === -1) {
+          throw new SearchQuerySyntaxError('Missing closing quote', end);
+        }
+        value = query.slice(end + 1, close);
+        end = close + 1;
+      }
+      if (!value.trim()) {
+        throw new SearchQuerySyntaxError(`${field[1]}: must be followed by a value`, i);
+      }
+      tokens.push({ type: 'field', field: fieldName, value, position: i });
+    } else if (near) {
+      tokens.push({ type: 'near', distance: parseInt(near[1], 10), position: i });
+    } else if (OPERATORS[word]) {
+      tokens.push({ type: OPERATORS[word], position: i });
+    } else {
+      tokens.push({ type: 'word', value: word, position: i });
+    }
+    i = end;
+  }
+
+  return tokens;
+}
+
+function toOperand(token: QueryToken): QueryNode | null {
+  if (token.type === 'field') {
+    const terms = tokenize(token.value);
+    return terms.length > 0 ? { type: 'field', field: token.field, terms } : null;
+  }
+  if (token.type !== 'word' && token.type !== 'phrase') {
+    return null;
+  }
+
+  const terms = tokenize(token.value);
+  if (token.type === 'phrase') {
+    return terms.length > 0 ? { type: 'phrase', terms } : null;
+  }
+
+  // Words the tokenizer splits (e.g. "APP/B1234" or "green-belt") behave as phrases
+  if (terms.length > 1) {
+    return { type: 'phrase', terms };
+  }
+  if (terms.length === 1 && (terms[0].length >= MIN_QUERY_TERM_LENGTH || hasSynonyms(terms[0]))) {
+    return { type: 'term', term: terms[0] };
+  }
+  return null;
+}
+
+function operatorLabel(token: QueryToken): string {
+  return token.type === 'near' ? `NEAR/${token.distance}` : token.type.toUpperCase();
+}
+
+// Dropped operands (e.g. short bare words) are skipped rather than treated as errors
+function combine(type: 'and' | 'or', children: Array<QueryNode | null>): QueryNode | null {
+  const kept = children.filter((child): child is QueryNode => child !== null);
+  if (kept.length === 0) {
+    return null;
+  }
+  return kept.length === 1 ? kept[0] : { type, children: kept };
+}
+
+function isFieldFilter(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'field':
+      return true;
+    case 'or':
+    case 'and':
+      return node.children.every(isFieldFilter);
+    case 'not':
+      return isFieldFilter(node.child);
+    default:
+      return false;
+  }
+}
+
+function isProximityOperand(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+    case 'near':
+      return true;
+    case 'or':
+      return node.children.every(isProximityOperand);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Recursive descent parser over the lexed query tokens
+ */
+class QueryParser {
+  private index = 0;
+
+  constructor(private readonly tokens: QueryToken[], private readonly queryLength: number) {}
+
+  parse(): QueryNode | null {
+    const root = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      // Only an unmatched ")" can stop the top-level OR loop early
+      throw new SearchQuerySyntaxError('Unexpected closing parenthesis', token.position);
+    }
+    return root;
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): QueryToken {
+    return this.tokens[this.index++];
+  }
+
+  private expectOperand(operator: QueryToken) {
+    const token = this.peek();
+    if (!token || token.type === 'rparen' || token.type === 'and' || token.type === 'or' || token.type === 'near') {
+      throw new SearchQuerySyntaxError(
+        `${operatorLabel(operator)} must be followed by a term`,
+        token ? token.position : this.queryLength
+      );
+    }
+  }
+
+  private parseOr(): QueryNode | null {
+    // Clauses joined by an explicit OR form one segment; adjacent segments are implicitly OR-ed
+    const segments: Array<Array<QueryNode | null>> = [[this.parseAnd()]];
+
+    let token = this.peek();
+    while (token && token.type !== 'rparen') {
+      if (token.type === 'or') {
+        this.next();
+        this.expectOperand(token);
+        segments[segments.length - 1].push(this.parseAnd());
+      } else {
+        segments.push([this.parseAnd()]);
+      }
+      token = this.peek();
+    }
+
+    // Field-only segments restrict the ranked free text instead of widening it
+    const filters: QueryNode[] = [];
+    const ranked: QueryNode[] = [];
+    for (const segment of segments) {
+      const node = combine('or', segment);
+      if (node) {
+        (isFieldFilter(node) ? filters : ranked).push(node);
+      }
+    }
+
+    const rankedNode = combine('or', ranked);
+    return filters.length === 0 ? rankedNode : combine('and', [...filters, rankedNode]);
+  }
+
+  private parseAnd(): QueryNode | null {
+    const children = [this.parseUnary()];
+
+    let token = this.peek();
+    while (token && (token.type === 'and' || token.type === 'not')) {
+      this.next();
+      this.expectOperand(token);
+      // "a NOT b" is shorthand for "a AND NOT b"; "AND NOT" is handled by parseUnary
+      const operand = this.parseUnary();
+      children.push(token.type === 'not' && operand ? { type: 'not', child: operand } : operand);
+      token = this.peek();
+    }
+
+    return combine('and', children);
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.peek();
+    if (token?.type === 'not') {
+      this.next();
+      this.expectOperand(token);
+      const operand = this.parseUnary();
+      return operand ? { type: 'not', child: operand } : null;
+    }
+    return this.parseNear();
+  }
+
+  private parseNear(): QueryNode | null {
+    let left = this.parsePrimary();
+
+    let token = this.peek();
+    while (token?.type === 'near') {
+      const operator = this.next() as QueryToken & { type: 'near'; distance: number };
+      this.expectOperand(operator);
+      if (this.peek()?.type === 'not') {
+        throw new SearchQuerySyntaxError(`${operatorLabel(operator)} cannot be combined with NOT`, this.peek()!.position);
+      }
+      const right = this.parsePrimary();
+
+      if ((left && !isProximityOperand(left)) || (right && !isProximityOperand(right))) {
+        throw new SearchQuerySyntaxError(
+          `${operatorLabel(operator)} can only join terms, phrases or OR groups`,
+          operator.position
+        );
+      }
+
+      left = left && right ? { type: 'near', left, right, distance: operator.distance } : left || right;
+      token = this.peek();
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): QueryNode | null {
+    const token = this.next();
+    if (!token) {
+      throw new SearchQuerySyntaxError('Query ended unexpectedly', this.queryLength);
+    }
+
+    switch (token.type) {
+      case 'lparen': {
+        if (!this.peek()) {
+          throw new SearchQuerySyntaxError('Missing closing parenthesis', token.position);
+        }
+        if (this.peek()?.type === 'rparen') {
+          throw new SearchQuerySyntaxError('Empty parentheses', token.position);
+        }
+        const node = this.parseOr();
+        if (this.peek()?.type !== 'rparen') {
+          throw new SearchQuerySyntaxError('Missing closing parenthesis', token.position);
+        }
+        this.next();
+        return node;
+      }
+
+      case 'rparen':
+        throw new SearchQuerySyntaxError('Unexpected closing parenthesis', token.position);
+
+      case 'word':
+      case 'phrase':
+      case 'field':
+        return toOperand(token);
+
+      default:
+        throw new SearchQuerySyntaxError(`${operatorLabel(token)} must follow a term`, token.position);
+    }
+  }
+}
+
+/**
+ * Parse a raw query string into a query tree
+ *
+ * @throws SearchQuerySyntaxError for unbalanced quotes/parentheses or misplaced operators
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const text = query || '';
+  const tokens = lexQuery(text);
+  const root = tokens.length > 0 ? new QueryParser(tokens, text.length).parse() : null;
+
+  return {
+    text,
+    root,
+    terms: root ? Array.from(new Set(collectTerms(root))) : []
+  };
+}
+
+/**
+ * Rebuild a parsed query with its positive terms and phrase words rewritten
+ *
+ * AIDEV-NOTE: NOT and field clauses are left untouched - rewriting an exclusion
+ * (e.g. a spelling correction) could silently drop documents the user wanted
+ */
+export function rewriteQueryTerms(parsedQuery: ParsedQuery, rewrite: (term: string) => string): ParsedQuery {
+  const rewriteNode = (node: QueryNode): QueryNode => {
+    switch (node.type) {
+      case 'term':
+        return { type: 'term', term: rewrite(node.term) };
+      case 'phrase':
+        return { type: 'phrase', terms: node.terms.map(rewrite) };
+      case 'near':
+        return { ...node, left: rewriteNode(node.left), right: rewriteNode(node.right) };
+      case 'or':
+      case 'and':
+        return { ...node, children: node.children.map(rewriteNode) };
+      case 'not':
+      case 'field':
+        return node;
+    }
+  };
+
+  const root = parsedQuery.root ? rewriteNode(parsedQuery.root) : null;
+  return {
+    text: parsedQuery.text,
+    root,
+    terms: root ? Array.from(new Set(collectTerms(root))) : []
+  };
+}
+
+function collectTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'term':
+      return [node.term];
+    case 'phrase':
+      return node.terms;
+    case 'near':
+      return [...collectTerms(node.left), ...collectTerms(node.right)];
+    case 'or':
+    case 'and':
+      return node.children.flatMap(collectTerms);
+    case 'not':
+    case 'field':
+      return [];
+  }
+}
+
+function collectHighlightTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'field':
+      return node.terms;
+    case 'near':
+      return [...collectHighlightTerms(node.left), ...collectHighlightTerms(node.right)];
+    case 'or':
+    case 'and':
+      return node.children.flatMap(collectHighlightTerms);
+    case 'not':
+      // Excluded words are not in the matched text
+      return [];
+    default:
+      return collectTerms(node);
+  }
+}
+
+/**
+ * Words of a query worth highlighting in result text: its positive terms, phrase words and
+ * field clause values, without operators, grouping or excluded (NOT) words
+ *
+ * A query that does not parse falls back to its plain words.
+ */
+export function getHighlightTerms(query: string): string[] {
+  try {
+    const { root } = parseSearchQuery(query);
+    return root ? Array.from(new Set(collectHighlightTerms(root))) : [];
+  } catch (error) {
+    if (!(error instanceof SearchQuerySyntaxError)) {
+      throw error;
+    }
+    return Array.from(new Set(tokenize(query).filter(term => term.length >= MIN_QUERY_TERM_LENGTH)));
+  }
+}
+
+function clauseKey(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.term;
+    case 'phrase':
+      return `"${node.terms.join(' ')}"`;
+    case 'near':
+      return `${clauseKey(node.left)} NEAR/${node.distance} ${clauseKey(node.right)}`;
+    case 'or':
+      return `(${node.children.map(clauseKey).join(' OR ')})`;
+    case 'and':
+      return `(${node.children.map(clauseKey).join(' AND ')})`;
+    case 'not':
+      return `NOT ${clauseKey(node.child)}`;
+    case 'field':
+      return `${node.field}:"${node.terms.join(' ')}"`;
+  }
+}
+
+/**
+ * Split a query tree into the positive clauses that are ranked independently
+ */
+export function getScoringClauses(root: QueryNode | null): ScoringClause[] {
+  if (!root) {
+    return [];
+  }
+
+  switch (root.type) {
+    case 'or':
+    case 'and': {
+      const clauses = new Map<string, ScoringClause>();
+      for (const clause of root.children.flatMap(getScoringClauses)) {
+        clauses.set(clause.key, clause);
+      }
+      return Array.from(clauses.values());
+    }
+    case 'not':
+    case 'field':
+      // Excluded terms and field filters never contribute to relevance
+      return [];
+    default:
+      return [{ key: clauseKey(root), terms: collectTerms(root), node: root }];
+  }
+}
+
+function evaluateTermSpans(term: string, searchIndex: SearchIndex): Map<number, MatchSpan[]> {
+  const spans = new Map<number, MatchSpan[]>();
+  for (const [documentIndex, positions] of lookupTerm(searchIndex, term)) {
+    spans.set(documentIndex, positions.map(position => [position, position] as MatchSpan));
+  }
+  return spans;
+}
+
+// Consecutive terms, each matching index terms with the same normalised form
+function evaluatePhraseSpans(terms: string[], searchIndex: SearchIndex): Map<number, MatchSpan[]> {
+  const spans = new Map<number, MatchSpan[]>();
+  const postings = terms.map(term => lookupNormalisedTerm(searchIndex, term));
+
+  for (const [documentIndex, firstPositions] of postings[0]) {
+    const followingPositions = postings.slice(1).map(termPostings => new Set(termPostings.get(documentIndex) || []));
+    const documentSpans: MatchSpan[] = [];
+
+    for (const position of firstPositions) {
+      if (followingPositions.every((positions, offset) => positions.has(position + offset + 1))) {
+        documentSpans.push([position, position + terms.length - 1]);
+      }
+    }
+
+    if (documentSpans.length > 0) {
+      spans.set(documentIndex, documentSpans);
+    }
+  }
+  return spans;
+}
+
+// Union of two span lists without counting a span twice
+function mergeSpans(spans: MatchSpan[], additional: MatchSpan[]): MatchSpan[] {
+  const merged = new Map(spans.map(span => [`${span[0]}:${span[1]}`, span]));
+  for (const span of additional) {
+    merged.set(`${span[0]}:${span[1]}`, span);
+  }
+  return Array.from(merged.values());
+}
+
+function evaluateSpans(node: QueryNode, searchIndex: SearchIndex): Map<number, MatchSpan[]> {
+  switch (node.type) {
+    case 'term':
+    case 'phrase': {
+      const terms = node.type === 'term' ? [node.term] : node.terms;
+      const spans = node.type === 'term' && node.term.length >= MIN_QUERY_TERM_LENGTH
+        ? evaluateTermSpans(node.term, searchIndex)
+        : evaluatePhraseSpans(terms, searchIndex);
+
+      // Synonym alternatives match exactly (no substring expansion - "pd" must not match "update")
+      for (const expansion of getSynonymExpansions(terms)) {
+        for (const [documentIndex, expansionSpans] of evaluatePhraseSpans(expansion, searchIndex)) {
+          spans.set(documentIndex, mergeSpans(spans.get(documentIndex) || [], expansionSpans));
+        }
+      }
+      return spans;
+    }
+
+    case 'near': {
+      const spans = new Map<number, MatchSpan[]>();
+      const leftSpans = evaluateSpans(node.left, searchIndex);
+      const rightSpans = evaluateSpans(node.right, searchIndex);
+
+      for (const [documentIndex, lefts] of leftSpans) {
+        const rights = rightSpans.get(documentIndex);
+        if (!rights) {
+          continue;
+        }
+
+        const documentSpans = new Map<string, MatchSpan>();
+        for (const left of lefts) {
+          for (const right of rights) {
+            // Gap in words between non-overlapping operands (1 = adjacent)
+            const gap = right[0] > left[1] ? right[0] - left[1] : left[0] > right[1] ? left[0] - right[1] : -1;
+            if (gap > 0 && gap <= node.distance) {
+              const span: MatchSpan = [Math.min(left[0], right[0]), Math.max(left[1], right[1])];
+              documentSpans.set(`${span[0]}:${span[1]}`, span);
+            }
+          }
+        }
+
+        if (documentSpans.size > 0) {
+          spans.set(documentIndex, Array.from(documentSpans.values()));
+        }
+      }
+      return spans;
+    }
+
+    case 'or': {
+      const spans = new Map<number, MatchSpan[]>();
+      for (const child of node.children) {
+        for (const [documentIndex, childSpans] of evaluateSpans(child, searchIndex)) {
+          spans.set(documentIndex, [...(spans.get(documentIndex) || []), ...childSpans]);
+        }
+      }
+      return spans;
+    }
+
+    default:
+      // AND / NOT have no positions; the parser keeps them out of NEAR operands
+      return new Map();
+  }
+}
+
+// True when needle appears as consecutive terms in haystack ("leeds" matches "leeds city council")
+function containsTermSequence(haystack: string[], needle: string[]): boolean {
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((term, offset) => haystack[start + offset] === term)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function mergeMatch(target: DocumentMatch, source: DocumentMatch) {
+  target.spans.push(...source.spans);
+  for (const [key, frequency] of source.frequencies) {
+    target.frequencies.set(key, frequency);
+  }
+}
+
+function evaluateNode(node: QueryNode, searchIndex: SearchIndex): Map<number, DocumentMatch> {
+  switch (node.type) {
+    case 'or': {
+      const matches = new Map<number, DocumentMatch>();
+      for (const child of node.children) {
+        for (const [documentIndex, childMatch] of evaluateNode(child, searchIndex)) {
+          const match = matches.get(documentIndex);
+          if (match) {
+            mergeMatch(match, childMatch);
+          } else {
+            matches.set(documentIndex, childMatch);
+          }
+        }
+      }
+      return matches;
+    }
+
+    case 'and': {
+      // Positive clauses first so NOT only filters the remaining candidates
+      const ordered = [...node.children].sort((a, b) => Number(a.type === 'not') - Number(b.type === 'not'));
+      let matches: Map<number, DocumentMatch> | null = null;
+
+      for (const child of ordered) {
+        const childMatches: Map<number, DocumentMatch> = evaluateNode(child, searchIndex);
+        if (!matches) {
+          matches = childMatches;
+          continue;
+        }
+
+        for (const [documentIndex, match] of matches) {
+          const childMatch = childMatches.get(documentIndex);
+          if (childMatch) {
+            mergeMatch(match, childMatch);
+          } else {
+            matches.delete(documentIndex);
+          }
+        }
+        if (matches.size === 0) {
+          break;
+        }
+      }
+      return matches || new Map();
+    }
+
+    case 'field': {
+      // Field values are stored per document in the index, so filtering needs no decryption
+      const matches = new Map<number, DocumentMatch>();
+      const values = searchIndex.fields?.[node.field] || [];
+      for (let documentIndex = 0; documentIndex < values.length; documentIndex++) {
+        if (containsTermSequence(tokenize(values[documentIndex]), node.terms)) {
+          matches.set(documentIndex, { spans: [], frequencies: new Map() });
+        }
+      }
+      return matches;
+    }
+
+    case 'not': {
+      const excluded = evaluateNode(node.child, searchIndex);
+      const matches = new Map<number, DocumentMatch>();
+      for (let documentIndex = 0; documentIndex < searchIndex.documentCount; documentIndex++) {
+        if (!excluded.has(documentIndex)) {
+          matches.set(documentIndex, { spans: [], frequencies: new Map() });
+        }
+      }
+      return matches;
+    }
+
+    default: {
+      const key = clauseKey(node);
+      const matches = new Map<number, DocumentMatch>();
+      for (const [documentIndex, spans] of evaluateSpans(node, searchIndex)) {
+        matches.set(documentIndex, { spans, frequencies: new Map([[key, spans.length]]) });
+      }
+      return matches;
+    }
+  }
+}
+
+/**
+ * Evaluate a query tree against a batch index
+ *
+ * Returns a Map of documentIndex → match spans and per-clause frequencies.
+ */
+export function evaluateQuery(root: QueryNode | null, searchIndex: SearchIndex): Map<number, DocumentMatch> {
+  if (!root) {
+    return new Map();
+  }
+
+  const matches = evaluateNode(root, searchIndex);
+  for (const match of matches.values()) {
+    match.spans.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+  }
+  return matches;
+}
+
+/**
+ * Build a snippet around the first match span, marking every span inside it
+ *
+ * AIDEV-NOTE: Token positions map back to characters via tokenizeWithOffsets, so a
+ * phrase or NEAR match is wrapped in one <mark> rather than term by term
+ */
+export function buildQuerySnippet(content: string, spans: MatchSpan[], contextLength: number = 150): string {
+  const tokens = tokenizeWithOffsets(content);
+  const orderedSpans = [...spans].sort((a, b) => a[0] - b[0]);
+  const first = orderedSpans.find(span => tokens[span[0]] && tokens[span[1]]);
+
+  if (!first) {
+    return content.substring(0, contextLength) + '...';
+  }
+
+  const start = Math.max(0, tokens[first[0]].start - contextLength / 2);
+  const end = Math.min(content.length, tokens[first[1]].end + contextLength / 2);
+
+  // Character ranges of the spans inside the snippet window, overlapping spans merged
+  const ranges: Array<[number, number]> = [];
+  for (const span of orderedSpans) {
+    if (!tokens[span[0]] || !tokens[span[1]]) {
+      continue;
+    }
+    const rangeStart = Math.max(tokens[span[0]].start, start);
+    const rangeEnd = Math.min(tokens[span[1]].end, end);
+    if (rangeStart >= rangeEnd) {
+      continue;
+    }
+
+    const previous = ranges[ranges.length - 1];
+    if (previous && rangeStart <= previous[1]) {
+      previous[1] = Math.max(previous[1], rangeEnd);
+    } else {
+      ranges.push([rangeStart, rangeEnd]);
+    }
+  }
+
+  let snippet = '';
+  let cursor = start;
+  for (const [rangeStart, rangeEnd] of ranges) {
+    snippet += content.substring(cursor, rangeStart) + '<mark>' + content.substring(rangeStart, rangeEnd) + '</mark>';
+    cursor = rangeEnd;
+  }
+  snippet += content.substring(cursor, end);
+
+  if (start > 0) snippet = '...' + snippet;
+  if (end < content.length) snippet = snippet + '...';
+
+  return snippet;
+}
@@ -0,0 +1,71 @@
+/**
+ * Service Worker Registration - Offline app shell and cold storage caching (public/sw.js)
+ *
+ * AIDEV-NOTE: Production builds only - the dev server serves unbundled modules that the
+ * precache manifest does not list, and a stale shell would hide code changes.
+ */
+
+export interface ServiceWorkerCallbacks {
+  // A new build is installed and waits for applyServiceWorkerUpdate()
+  onUpdateReady?: () => void;
+  // An archive's storage-index.json changed on the server; cached batches it replaced were dropped
+  onStorageIndexUpdated?: (lastUpdated: string, storageIndexUrl: string) => void;
+}
+
+let waitingWorker: ServiceWorker | null = null;
+
+export async function registerServiceWorker(callbacks: ServiceWorkerCallbacks = {}): Promise<ServiceWorkerRegistration | null> {
+  if (!import.meta.env.PROD || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return null;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+    console.log('[ServiceWorker] Registered with scope:', registration.scope);
+
+    const notifyWaiting = (worker: ServiceWorker | null) => {
+      // Without a controller this is the first install - there is nothing to update
+      if (worker && navigator.serviceWorker.controller) {
+        waitingWorker = worker;
+        callbacks.onUpdateReady?.();
+      }
+    };
+
+    notifyWaiting(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed') {
+          notifyWaiting(installing);
+        }
+      });
+    });
+
+    navigator.serviceWorker.addEventListener('message', event => {
+      if (event.data?.type === 'storage-index-updated') {
+        callbacks.onStorageIndexUpdated?.(event.data.lastUpdated, event.data.storageIndexUrl);
+      }
+    });
+
+    // Reload once the new build has taken over, so the page runs the code it caches
+    let reloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (waitingWorker && !reloading) {
+        reloading = true;
+        window.location.reload();
+      }
+    });
+
+    return registration;
+  } catch (error) {
+    console.warn('[ServiceWorker] Registration failed - the app will not work offline:', error);
+    return null;
+  }
+}
+
+/**
+ * Activate the waiting build (the page reloads when it takes over)
+ */
+export function applyServiceWorkerUpdate(): void {
+  waitingWorker?.postMessage({ type: 'skip-waiting' });
+}
@@ -0,0 +1,67 @@
+/**
+ * TypeScript definitions for the storage-index.json schema
+ */
+
+// AES-GCM section under its own salt (corpus statistics, facets, worker-built indexes)
+export interface EncryptedPayload {
+  algorithm: string;
+  salt: string;
+  iv: string | number[];
+  data: string | number[];
+}
+
+export interface BatchInfo {
+  batchId: string;
+  url: string;
+  documentCount: number;
+  dateRange: { start: string; end: string };
+  keywords: string[];
+  size: string;
+  encrypted: boolean;
+  // SHA-256 (hex) of the batch ciphertext
+  checksum: string;
+}
+
+export interface StorageIndexManifest {
+  algorithm: 'HMAC-SHA256';
+  // Base64 PBKDF2 salt for the HMAC key
+  salt: string;
+  // Hex HMAC of getManifestPayload
+  signature: string;
+}
+
+export interface StorageIndex {
+  version: string;
+  totalDocuments: number;
+  totalBatches?: number;
+  lastUpdated: string;
+  batches: BatchInfo[];
+  // AIDEV-NOTE: Encrypted archive-wide BM25 statistics and filter facets, only readable inside the worker
+  corpusStats?: EncryptedPayload & { version: number };
+  facets?: EncryptedPayload & { version: number };
+  manifest?: StorageIndexManifest;
+  metadata?: {
+    encryptionPolicy?: string;
+    encryptionAlgorithm?: string;
+    keyDerivation?: string;
+    batchSizeLimit?: number;
+    documentThreshold?: number;
+    [key: string]: any;
+  };
+}
+
+export type StorageIndexErrorReason = 'invalid' | 'unsigned' | 'tampered' | 'stale';
+
+export declare const STORAGE_INDEX_VERSION: string;
+export declare const MANIFEST_ALGORITHM: 'HMAC-SHA256';
+export declare const MANIFEST_KEY_ITERATIONS: number;
+
+export declare class StorageIndexError extends Error {
+  reason: StorageIndexErrorReason;
+  constructor(reason: StorageIndexErrorReason, message: string);
+}
+
+export declare function getStorageIndexProblems(storageIndex: unknown): string[];
+export declare function assertValidStorageIndex(storageIndex: unknown): asserts storageIndex is StorageIndex;
+export declare function getManifestPayload(storageIndex: Pick<StorageIndex, 'version' | 'lastUpdated' | 'totalDocuments' | 'batches'>): string;
+export declare function isOlderStorageIndex(lastUpdated: string, newestVerifiedLastUpdated: string | null | undefined): boolean;
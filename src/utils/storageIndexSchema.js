@@ -0,0 +1,201 @@
+/**
+ * Storage Index Schema - Versioned format and signed manifest of storage-index.json
+ *
+ * Shared by the cold storage worker (which loads and verifies the index), ColdStorageService
+ * and the Node.js batch scripts (which write and sign it).
+ *
+ * The manifest is an HMAC-SHA256 over the index version, update time, document count and
+ * every batch's id, URL, document count, date range, keywords and ciphertext checksum - the
+ * date range and keywords decide which batches a search opens. Its key is derived from
+ * the archive password with PBKDF2 and the manifest's own salt, so an index edited or
+ * assembled without the password is rejected instead of silently returning zero results.
+ *
+ * AIDEV-NOTE: Plain JS so browser and Node.js sign identical bytes - change
+ * getManifestPayload only together with STORAGE_INDEX_VERSION.
+ */
+
+export const STORAGE_INDEX_VERSION = '2.1';
+// Earlier signed formats - their manifests leave batch date ranges and keywords unsigned
+const OUTDATED_STORAGE_INDEX_VERSIONS = ['2.0'];
+export const MANIFEST_ALGORITHM = 'HMAC-SHA256';
+export const MANIFEST_KEY_ITERATIONS = 600000;
+
+const CHECKSUM_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Why an index was rejected:
+ * - 'invalid': not a storage index of STORAGE_INDEX_VERSION
+ * - 'unsigned': no manifest
+ * - 'tampered': the manifest does not match the index under the user's password
+ * - 'stale': older than an index already verified on this device (rolled back), or signed in an
+ *   outdated format that has to be republished
+ */
+export class StorageIndexError extends Error {
+  constructor(reason, message) {
+    super(message);
+    this.name = 'StorageIndexError';
+    this.reason = reason;
+  }
+}
+
+function isObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value) {
+  return Number.isInteger(value) && value >= 0;
+}
+
+function isNonEmptyString(value) {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isDateString(value) {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function isEncryptedPayload(value) {
+  return isObject(value) && isNonEmptyString(value.salt) && value.iv !== undefined && value.data !== undefined;
+}
+
+function getBatchProblems(batch, label) {
+  if (!isObject(batch)) {
+    return [`${label} is not an object`];
+  }
+
+  const problems = [];
+  if (!isNonEmptyString(batch.batchId)) {
+    problems.push(`${label}.batchId is missing`);
+  }
+  if (!isNonEmptyString(batch.url)) {
+    problems.push(`${label}.url is missing`);
+  }
+  if (!isCount(batch.documentCount)) {
+    problems.push(`${label}.documentCount must be a non-negative integer`);
+  }
+  if (!isObject(batch.dateRange) || typeof batch.dateRange.start !== 'string' || typeof batch.dateRange.end !== 'string') {
+    problems.push(`${label}.dateRange must have start and end dates`);
+  }
+  if (!Array.isArray(batch.keywords) || batch.keywords.some(keyword => typeof keyword !== 'string')) {
+    problems.push(`${label}.keywords must be a list of words`);
+  }
+  if (typeof batch.size !== 'string') {
+    problems.push(`${label}.size must be a string`);
+  }
+  // Encrypted-only policy
+  if (batch.encrypted !== true) {
+    problems.push(`${label} is not encrypted`);
+  }
+  if (typeof batch.checksum !== 'string' || !CHECKSUM_PATTERN.test(batch.checksum)) {
+    problems.push(`${label}.checksum must be a SHA-256 hex digest`);
+  }
+  return problems;
+}
+
+/**
+ * Everything wrong with a parsed storage-index.json (empty when it matches the schema)
+ *
+ * The manifest is only checked for shape here - verifying it needs the password.
+ */
+export function getStorageIndexProblems(storageIndex) {
+  if (!isObject(storageIndex)) {
+    return ['storage index is not a JSON object'];
+  }
+
+  const problems = [];
+  if (storageIndex.version !== STORAGE_INDEX_VERSION) {
+    problems.push(`unsupported version ${JSON.stringify(storageIndex.version)} (expected "${STORAGE_INDEX_VERSION}")`);
+  }
+  if (!isCount(storageIndex.totalDocuments)) {
+    problems.push('totalDocuments must be a non-negative integer');
+  }
+  if (!isDateString(storageIndex.lastUpdated)) {
+    problems.push('lastUpdated must be a date');
+  }
+
+  if (!Array.isArray(storageIndex.batches)) {
+    problems.push('batches must be a list');
+  } else {
+    const batchIds = new Set();
+    storageIndex.batches.forEach((batch, position) => {
+      problems.push(...getBatchProblems(batch, `batches[${position}]`));
+      if (batchIds.has(batch?.batchId)) {
+        problems.push(`batches[${position}].batchId ${batch.batchId} is listed twice`);
+      }
+      batchIds.add(batch?.batchId);
+    });
+
+    const documentCount = storageIndex.batches.reduce((sum, batch) => sum + (batch?.documentCount || 0), 0);
+    if (isCount(storageIndex.totalDocuments) && documentCount !== storageIndex.totalDocuments) {
+      problems.push(`totalDocuments is ${storageIndex.totalDocuments} but the batches hold ${documentCount}`);
+    }
+    if (storageIndex.totalBatches !== undefined && storageIndex.totalBatches !== storageIndex.batches.length) {
+      problems.push(`totalBatches is ${storageIndex.totalBatches} but ${storageIndex.batches.length} batches are listed`);
+    }
+  }
+
+  for (const section of ['corpusStats', 'facets']) {
+    if (storageIndex[section] !== undefined && !isEncryptedPayload(storageIndex[section])) {
+      problems.push(`${section} is not an encrypted section`);
+    }
+  }
+
+  const manifest = storageIndex.manifest;
+  if (manifest !== undefined && (
+    !isObject(manifest) ||
+    manifest.algorithm !== MANIFEST_ALGORITHM ||
+    !isNonEmptyString(manifest.salt) ||
+    !isNonEmptyString(manifest.signature)
+  )) {
+    problems.push(`manifest must have a salt and an ${MANIFEST_ALGORITHM} signature`);
+  }
+  return problems;
+}
+
+/**
+ * Throw a StorageIndexError naming the first few schema problems ('invalid'), or 'stale' for an
+ * index in an outdated signed format
+ */
+export function assertValidStorageIndex(storageIndex) {
+  if (isObject(storageIndex) && OUTDATED_STORAGE_INDEX_VERSIONS.includes(storageIndex.version)) {
+    throw new StorageIndexError(
+      'stale',
+      `Storage index version ${storageIndex.version} is outdated (expected "${STORAGE_INDEX_VERSION}") - republish the archive to sign batch dates and keywords`
+    );
+  }
+
+  const problems = getStorageIndexProblems(storageIndex);
+  if (problems.length > 0) {
+    const more = problems.length > 3 ? ` (and ${problems.length - 3} more)` : '';
+    throw new StorageIndexError('invalid', `Invalid storage index: ${problems.slice(0, 3).join('; ')}${more}`);
+  }
+}
+
+/**
+ * The exact text the manifest signs (UTF-8 encoded before signing)
+ */
+export function getManifestPayload(storageIndex) {
+  return JSON.stringify({
+    version: storageIndex.version,
+    lastUpdated: storageIndex.lastUpdated,
+    totalDocuments: storageIndex.totalDocuments,
+    batches: (storageIndex.batches || []).map(batch => ({
+      batchId: batch.batchId,
+      url: batch.url,
+      documentCount: batch.documentCount,
+      dateRange: batch.dateRange ? { start: batch.dateRange.start, end: batch.dateRange.end } : null,
+      keywords: batch.keywords ?? null,
+      checksum: batch.checksum ?? null
+    }))
+  });
+}
+
+/**
+ * Whether an index was published before the newest one verified on this device
+ */
+export function isOlderStorageIndex(lastUpdated, newestVerifiedLastUpdated) {
+  if (!newestVerifiedLastUpdated) {
+    return false;
+  }
+  return Date.parse(lastUpdated) < Date.parse(newestVerifiedLastUpdated);
+}
@@ -0,0 +1,183 @@
+/**
+ * XLSX Reader - Cell text of the first worksheet in an .xlsx workbook
+ *
+ * An .xlsx file is a zip archive of XML parts. Only what a case reference list needs is read:
+ * the first sheet's cells as text (shared strings resolved, numbers as written), row by row.
+ * Formatting, formulas and further sheets are ignored.
+ *
+ * AIDEV-NOTE: Zip entries are inflated with the built-in DecompressionStream and the XML parsed
+ * with DOMParser, so no spreadsheet library ships with the app. Zip64 and encrypted workbooks
+ * are not supported.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+const DEFAULT_SHEET = 'xl/worksheets/sheet1.xml';
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(data: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+  let endOffset = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not an .xlsx workbook (no zip directory found)');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt .xlsx workbook (bad zip directory entry)');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipEntry(data: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const offset = entry.localHeaderOffset;
+  if (view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt .xlsx workbook (bad header for ${entry.name})`);
+  }
+
+  // Local name and extra field lengths can differ from the central directory's
+  const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+  const compressed = data.slice(start, start + entry.compressedSize);
+
+  if (entry.method === STORED) {
+    return new TextDecoder().decode(compressed);
+  }
+  if (entry.method !== DEFLATED) {
+    throw new Error(`Unsupported compression in .xlsx workbook (${entry.name})`);
+  }
+
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string, name: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Corrupt .xlsx workbook (invalid ${name})`);
+  }
+  return document;
+}
+
+// Text of an <si> or <is> element - rich text splits it over several <t> runs
+function getStringItemText(element: Element): string {
+  return Array.from(element.getElementsByTagName('t')).map(text => text.textContent || '').join('');
+}
+
+/**
+ * Zero-based column of a cell reference ("A1" → 0, "AB12" → 27), or -1 without one
+ */
+export function getColumnIndex(cellReference: string | null): number {
+  const letters = /^([A-Z]+)\d*$/i.exec(cellReference || '')?.[1];
+  if (!letters) {
+    return -1;
+  }
+  return letters.toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Path of the workbook's first sheet, from workbook.xml and its relationships
+async function getFirstSheetPath(data: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbookEntry = entries.get('xl/workbook.xml');
+  const relationshipsEntry = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbookEntry || !relationshipsEntry) {
+    return DEFAULT_SHEET;
+  }
+
+  const workbook = parseXml(await readZipEntry(data, workbookEntry), 'workbook.xml');
+  const relationshipId = workbook.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const relationships = parseXml(await readZipEntry(data, relationshipsEntry), 'workbook.xml.rels');
+  const target = Array.from(relationships.getElementsByTagName('Relationship'))
+    .find(relationship => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+
+  if (!target) {
+    return DEFAULT_SHEET;
+  }
+  // Targets are relative to xl/ unless absolute within the package
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Rows of cell text from the first worksheet (missing cells are '', trailing empty rows kept out)
+ */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const data = new Uint8Array(buffer);
+  const entries = readZipEntries(data);
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(parseXml(await readZipEntry(data, sharedStringsEntry), 'sharedStrings.xml').getElementsByTagName('si'))
+      .map(getStringItemText)
+    : [];
+
+  const sheetPath = await getFirstSheetPath(data, entries);
+  const sheetEntry = entries.get(sheetPath);
+  if (!sheetEntry) {
+    throw new Error('The .xlsx workbook has no worksheet');
+  }
+  const sheet = parseXml(await readZipEntry(data, sheetEntry), sheetPath);
+
+  const rows: string[][] = [];
+  for (const rowElement of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowElement.getElementsByTagName('c'))) {
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] || '';
+      } else if (type === 'inlineStr') {
+        const inline = cell.getElementsByTagName('is')[0];
+        text = inline ? getStringItemText(inline) : '';
+      } else {
+        text = value;
+      }
+
+      const column = getColumnIndex(cell.getAttribute('r'));
+      row[column >= 0 ? column : row.length] = text.trim();
+    }
+    // Row numbers skip empty rows - their position does not matter for a list of ids
+    rows.push(Array.from(row, cell => cell ?? ''));
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => cell === '')) {
+    rows.pop();
+  }
+  return rows;
+}
@@ -2,7 +2,7 @@
  * Cold Storage Worker - Encrypted batch processing and search
  * 
  * Handles:
- * - Encrypted batch fetching and decryption
+ * - Encrypted batch fetching and decryption (ciphertext kept in IndexedDB across reloads)
  * - Progressive search across cold storage batches
  * - 100MB batch cache with LRU eviction
  * - Memory management for large document collections
@@ -10,6 +10,75 @@
  * AIDEV-NOTE: Worker handles sensitive decrypted data - memory cleanup is critical
  */
 
+import {
+  CORPUS_STATS_VERSION,
+  FACETS_VERSION,
+  buildCorpusStats,
+  buildSearchIndex,
+  countDocumentFacets,
+  getAverageDocumentLength,
+  getIndexedCaseStatuses,
+  getDocumentFrequency,
+  getSupersededBatches,
+  inverseDocumentFrequency,
+  isSearchIndexCompatible,
+  isSupersededCopy,
+  mergeCorpusStats,
+  mergeFacets,
+  normaliseKeywords,
+  scoreBM25,
+  type CorpusStats,
+  type Facets,
+  type SearchIndex
+} from '../utils/searchIndex.js';
+import {
+  buildQuerySnippet,
+  evaluateQuery,
+  getScoringClauses,
+  parseSearchQuery,
+  SearchQuerySyntaxError,
+  type ParsedQuery
+} from '../utils/searchQuery.js';
+import {
+  batchMayMatchDateRange,
+  createDocumentFilter,
+  getDateFilterRange,
+  type DocumentFilter
+} from '../utils/searchFilters.js';
+import {
+  correctQuery,
+  getMatchedCorrections,
+  type TermCorrection
+} from '../utils/searchFuzzy.js';
+import { getSynonymExpansions, normaliseTerm } from '../utils/searchDictionary.js';
+import {
+  DEFAULT_RESULT_PAGE_SIZE,
+  getResultPage,
+  sortSearchResults,
+  type ResultPage,
+  type ResultPageOptions
+} from '../utils/searchPaging.js';
+import {
+  PersistentBatchStore,
+  getBatchVersion,
+  getPersistentBatchDatabase,
+  splitCreatedBatches,
+  type CreatedBatch
+} from '../utils/persistentBatchStore.js';
+import { DEFAULT_ARCHIVE_ID, STORAGE_INDEX_FILE, resolveBatchUrl } from '../utils/archiveConfig.js';
+import {
+  MANIFEST_ALGORITHM,
+  STORAGE_INDEX_VERSION,
+  StorageIndexError,
+  assertValidStorageIndex,
+  getManifestPayload,
+  isOlderStorageIndex,
+  type BatchInfo,
+  type EncryptedPayload,
+  type StorageIndex,
+  type StorageIndexManifest
+} from '../utils/storageIndexSchema.js';
+
 // AIDEV-NOTE: Global error handlers for worker initialization debugging
 console.log('[ColdStorageWorker] Starting worker script initialization...');
 
@@ -118,6 +187,10 @@ class WorkerEncryptionService {
   public saltLength: number;
   public encryptionKey: CryptoKey | null;
   public userPassword: string | null;
+  // AIDEV-NOTE: Derived batch keys by salt - non-extractable, never in the plaintext batchCache.
+  // Pending derivations are shared so concurrent decrypts of one batch run PBKDF2 once.
+  private batchKeyCache = new Map<string, Promise<CryptoKey>>();
+  private readonly MAX_CACHED_BATCH_KEYS = 2000;
   constructor() {
     console.log('[ColdStorageWorker][EncryptionService] Initializing encryption service...');
     this.algorithm = 'AES-GCM';
@@ -149,15 +222,110 @@ class WorkerEncryptionService {
 
   async initializeWithPassword(password: string) {
     console.log('[ColdStorageWorker][EncryptionService] Initializing with password for batch-specific key derivation');
+    if (this.userPassword !== password) {
+      // Keys derived from another password would fail to decrypt
+      this.clearKeyCache();
+    }
     this.userPassword = password;
     console.log('[ColdStorageWorker][EncryptionService] Password stored for batch key derivation');
   }
 
+  /**
+   * Batch key for a salt, running PBKDF2 only the first time the salt is seen this session
+   */
   async deriveKeyFromBatchSalt(batchSalt: string): Promise<CryptoKey> {
+    return this.getCachedKey(batchSalt, batchSalt, { name: this.algorithm, length: this.keyLength }, ['encrypt', 'decrypt']);
+  }
+
+  /**
+   * Sign the storage index batch list (reusing the current manifest salt keeps its key cached)
+   */
+  async signStorageIndex(storageIndex: StorageIndex): Promise<StorageIndexManifest> {
+    const salt = storageIndex.manifest?.salt || btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(this.saltLength))));
+    const key = await this.getManifestKey(salt);
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(getManifestPayload(storageIndex)));
+
+    return {
+      algorithm: MANIFEST_ALGORITHM,
+      salt,
+      signature: Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('')
+    };
+  }
+
+  /**
+   * Whether the storage index manifest was signed with this password over this batch list
+   */
+  async verifyStorageIndex(storageIndex: StorageIndex): Promise<boolean> {
+    const manifest = storageIndex.manifest;
+    if (!manifest || !/^([0-9a-f]{2})+$/.test(manifest.signature)) {
+      return false;
+    }
+
+    const key = await this.getManifestKey(manifest.salt);
+    const signature = Uint8Array.from(manifest.signature.match(/../g)!, byte => parseInt(byte, 16));
+    return crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(getManifestPayload(storageIndex)));
+  }
+
+  private getManifestKey(salt: string): Promise<CryptoKey> {
+    return this.getCachedKey(`manifest:${salt}`, salt, { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign', 'verify']);
+  }
+
+  // Keys derive once per salt and purpose; pending derivations are shared
+  private getCachedKey(
+    cacheKey: string,
+    salt: string,
+    derivedKeyType: AesKeyGenParams | HmacKeyGenParams,
+    usages: KeyUsage[]
+  ): Promise<CryptoKey> {
     if (!this.userPassword) {
       throw new Error('Password not initialized');
     }
 
+    let key = this.batchKeyCache.get(cacheKey);
+    if (key) {
+      // Re-inserted as the most recently used key
+      this.batchKeyCache.delete(cacheKey);
+    } else {
+      const derivation = this.deriveBatchKey(salt, this.userPassword, derivedKeyType, usages);
+      // A failed derivation is retried on the next request
+      derivation.catch(() => {
+        if (this.batchKeyCache.get(cacheKey) === derivation) {
+          this.batchKeyCache.delete(cacheKey);
+        }
+      });
+      key = derivation;
+    }
+    this.batchKeyCache.set(cacheKey, key);
+
+    while (this.batchKeyCache.size > this.MAX_CACHED_BATCH_KEYS) {
+      this.batchKeyCache.delete(this.batchKeyCache.keys().next().value!);
+    }
+    return key;
+  }
+
+  get cachedKeyCount(): number {
+    return this.batchKeyCache.size;
+  }
+
+  clearKeyCache(): void {
+    this.batchKeyCache.clear();
+  }
+
+  /**
+   * Forget the password, the legacy key and every derived batch key (logout)
+   */
+  clearCredentials(): void {
+    this.clearKeyCache();
+    this.userPassword = null;
+    this.encryptionKey = null;
+  }
+
+  private async deriveBatchKey(
+    batchSalt: string,
+    password: string,
+    derivedKeyType: AesKeyGenParams | HmacKeyGenParams,
+    usages: KeyUsage[]
+  ): Promise<CryptoKey> {
     console.log('[ColdStorageWorker][EncryptionService] Deriving key from batch salt');
     
     // Convert base64 salt to Uint8Array
@@ -165,7 +333,7 @@ class WorkerEncryptionService {
     
     // Import password as key material
     const encoder = new TextEncoder();
-    const passwordBuffer = encoder.encode(this.userPassword);
+    const passwordBuffer = encoder.encode(password);
     
     const keyMaterial = await crypto.subtle.importKey(
       'raw',
@@ -175,7 +343,7 @@ class WorkerEncryptionService {
       ['deriveBits', 'deriveKey']
     );
     
-    // Derive AES-GCM key using batch salt
+    // Derive the AES-GCM (or manifest HMAC) key using the salt
     const key = await crypto.subtle.deriveKey(
       {
         name: 'PBKDF2',
@@ -184,9 +352,9 @@ class WorkerEncryptionService {
         hash: 'SHA-256'
       },
       keyMaterial,
-      { name: this.algorithm, length: this.keyLength },
+      derivedKeyType,
       false,
-      ['encrypt', 'decrypt']
+      usages
     );
     
     console.log('[ColdStorageWorker][EncryptionService] Key derived from batch salt successfully');
@@ -277,7 +445,7 @@ class WorkerEncryptionService {
     }
   }
 
-  async encryptBatch(batchData: any): Promise<EncryptedBatch> {
+  async encryptBatch(batchData: any, searchIndex?: SearchIndex): Promise<EncryptedBatch> {
     console.log('[ColdStorageWorker][EncryptionService] Encrypting batch:', batchData.batchId);
     
     if (!this.userPassword) {
@@ -311,14 +479,34 @@ class WorkerEncryptionService {
       
       const originalSize = new TextEncoder().encode(jsonString).length;
       const encryptedSize = encryptedData.length;
+      // SHA-256 of the ciphertext (hex), as written by scripts/encrypt-test-data.js
+      const checksum = Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', encryptedBuffer)))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+
+      // AIDEV-NOTE: Search index is a separate section with its own IV under the same batch key
+      let encryptedIndex: EncryptedBatch['index'];
+      if (searchIndex) {
+        const indexIv = crypto.getRandomValues(new Uint8Array(this.ivLength));
+        const encryptedIndexBuffer = await crypto.subtle.encrypt(
+          { name: this.algorithm, iv: indexIv },
+          batchKey,
+          new TextEncoder().encode(JSON.stringify(searchIndex))
+        );
+        encryptedIndex = {
+          iv: Array.from(indexIv),
+          data: Array.from(new Uint8Array(encryptedIndexBuffer))
+        };
+      }
       
       const encryptedBatch: EncryptedBatch = {
         version: '1.0',
         algorithm: this.algorithm,
         data: encryptedData,
         iv: ivArray,
-        checksum: [], // TODO: Implement checksum if needed
+        checksum,
         salt: saltString,
+        ...(encryptedIndex ? { index: encryptedIndex } : {}),
         metadata: {
           batchId: batchData.batchId,
           documentCount: batchData.documents?.length || 0,
@@ -342,42 +530,94 @@ class WorkerEncryptionService {
     }
   }
 
-  async decryptBatch(encryptedBatch: EncryptedBatch): Promise<any> {
-    console.log('[ColdStorageWorker][EncryptionService] Decrypting batch:', encryptedBatch.metadata?.batchId);
-    
-    if (!this.userPassword) {
-      throw new Error('Encryption service not initialized with password');
-    }
+  /**
+   * Decrypt a batch's documents (the search index section is left encrypted)
+   */
+  async decryptBatchDocuments(encryptedBatch: EncryptedBatch): Promise<any> {
+    console.log('[ColdStorageWorker][EncryptionService] Decrypting batch documents:', encryptedBatch.metadata?.batchId);
 
     try {
-      // Check if batch includes salt (new format)
-      if (encryptedBatch.salt) {
-        console.log('[ColdStorageWorker][EncryptionService] Using batch-embedded salt for key derivation');
-        
-        // Derive key using batch salt + user password
-        const batchKey = await this.deriveKeyFromBatchSalt(encryptedBatch.salt);
-        
-        // Decrypt with batch-specific key
-        const decryptedContent = await this.decryptWithKey(batchKey, encryptedBatch.data, encryptedBatch.iv);
-        
-        // Parse the decrypted JSON
-        const batchData = JSON.parse(decryptedContent);
-        console.log('[ColdStorageWorker][EncryptionService] Batch decrypted successfully with batch salt:', {
-          batchId: encryptedBatch.metadata?.batchId,
-          documentCount: batchData.documents?.length || 0
-        });
-        
-        return batchData;
-      } else {
-        // Fallback to legacy method (should not be needed in new format)
-        throw new Error('Batch missing salt field - incompatible format');
-      }
+      const batchKey = await this.getBatchKey(encryptedBatch);
+      const batchData = JSON.parse(await this.decryptWithKey(batchKey, encryptedBatch.data, encryptedBatch.iv));
+
+      console.log('[ColdStorageWorker][EncryptionService] Batch documents decrypted successfully:', {
+        batchId: encryptedBatch.metadata?.batchId,
+        documentCount: batchData.documents?.length || 0
+      });
+      return batchData;
     } catch (error) {
       console.error('[ColdStorageWorker][EncryptionService] Batch decryption failed:', error);
       throw new Error(`Batch decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Decrypt only a batch's search index section (null for batches built before indexing)
+   * AIDEV-NOTE: Searching needs just the index - documents are decrypted for batches with hits
+   */
+  async decryptBatchIndex(encryptedBatch: EncryptedBatch): Promise<any | null> {
+    if (!encryptedBatch.index) {
+      return null;
+    }
+
+    try {
+      const batchKey = await this.getBatchKey(encryptedBatch);
+      return JSON.parse(await this.decryptWithKey(batchKey, encryptedBatch.index.data, encryptedBatch.index.iv));
+    } catch (error) {
+      console.error('[ColdStorageWorker][EncryptionService] Search index decryption failed:', error);
+      throw new Error(`Search index decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Batch key from the batch-embedded salt + user password (documents and index share it)
+  private getBatchKey(encryptedBatch: EncryptedBatch): Promise<CryptoKey> {
+    if (!this.userPassword) {
+      throw new Error('Encryption service not initialized with password');
+    }
+    if (!encryptedBatch.salt) {
+      throw new Error('Batch missing salt field - incompatible format');
+    }
+    return this.deriveKeyFromBatchSalt(encryptedBatch.salt);
+  }
+
+  /**
+   * Encrypt a standalone JSON payload under its own salt, or under an existing batch salt
+   * AIDEV-NOTE: Used for sensitive sections of storage-index.json (e.g. corpus statistics).
+   * Reusing a batch salt reuses its cached key; every payload still gets a fresh IV.
+   */
+  async encryptPayload(payload: any, batchSalt?: string): Promise<EncryptedPayload> {
+    if (!this.userPassword) {
+      throw new Error('Encryption service not initialized with password');
+    }
+
+    const saltString = batchSalt || btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(this.saltLength))));
+    const key = await this.deriveKeyFromBatchSalt(saltString);
+    const iv = crypto.getRandomValues(new Uint8Array(this.ivLength));
+
+    const encryptedBuffer = await crypto.subtle.encrypt(
+      { name: this.algorithm, iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(payload))
+    );
+
+    return {
+      algorithm: this.algorithm,
+      salt: saltString,
+      iv: Array.from(iv),
+      data: Array.from(new Uint8Array(encryptedBuffer))
+    };
+  }
+
+  async decryptPayload(encryptedPayload: EncryptedPayload): Promise<any> {
+    if (!this.userPassword) {
+      throw new Error('Encryption service not initialized with password');
+    }
+
+    const key = await this.deriveKeyFromBatchSalt(encryptedPayload.salt);
+    const decryptedContent = await this.decryptWithKey(key, encryptedPayload.data, encryptedPayload.iv);
+    return JSON.parse(decryptedContent);
+  }
+
   isInitialized(): boolean {
     return !!this.encryptionKey || !!this.userPassword;
   }
@@ -399,6 +639,10 @@ interface EncryptedBatch {
   data: string | number[];
   checksum: string | number[];
   salt?: string; // AIDEV-NOTE: Added salt field for batch-specific encryption
+  index?: {
+    iv: string | number[];
+    data: string | number[];
+  };
   metadata: {
     batchId: string;
     documentCount: number;
@@ -408,30 +652,48 @@ interface EncryptedBatch {
   };
 }
 
-interface BatchInfo {
-  batchId: string;
-  url: string;
-  documentCount: number;
-  dateRange: { start: string; end: string };
-  keywords: string[];
-  size: string;
-  encrypted?: boolean;
+// AIDEV-NOTE: Per-search BM25 inputs; idf is keyed by scoring clause (term, phrase or NEAR)
+interface SearchScoring {
+  idf: Map<string, number>;
+  averageDocumentLength: number;
 }
 
-interface StorageIndex {
-  version?: string;
-  totalDocuments: number;
-  totalBatches?: number;
-  lastUpdated?: string;
-  batches: BatchInfo[];
-  metadata?: {
-    encryptionPolicy?: string;
-    encryptionAlgorithm?: string;
-    keyDerivation?: string;
-    batchSizeLimit?: number;
-    documentThreshold?: number;
-    [key: string]: any;
-  };
+// Everything a batch needs to evaluate one search
+interface SearchContext {
+  parsedQuery: ParsedQuery;
+  scoring: SearchScoring | null;
+  documentFilter: DocumentFilter | null;
+  corrections: TermCorrection[];
+  // Without an archive dictionary each batch corrects typos against its own terms
+  batchCorrectionSensitivity: number | null;
+  // Archive facets - their batch map marks older copies of refreshed cases, which are skipped
+  facets: Facets | null;
+}
+
+// Where one phase's batches sit in the whole search, for progress counts and streamed hits
+interface SearchProgressScope {
+  completedBefore: number;
+  totalBatches: number;
+  pageOptions: ResultPageOptions;
+}
+
+// Thrown between batch chunks once the main thread cancels a search
+class SearchCancelledError extends Error {
+  constructor(searchId: string) {
+    super(`Search ${searchId} was cancelled`);
+    this.name = 'SearchCancelledError';
+  }
+}
+
+// AIDEV-NOTE: A search's complete scored hit list, kept so later pages and other sort
+// orders are served without searching again. Holds decrypted snippets - cleared with the cache.
+interface SearchResultSet {
+  query: string;
+  // Relevance order
+  results: any[];
+  // "sortBy:sortOrder" → sorted copy
+  sorted: Map<string, any[]>;
+  lastAccessed: number;
 }
 
 console.log('[ColdStorageWorker] Defining ColdStorageWorker class...');
@@ -440,10 +702,36 @@ class ColdStorageWorker {
   private encryptionService: WorkerEncryptionService;
   private isAuthenticated = false;
   private batchCache = new Map<string, any>();
-  private readonly MAX_CACHE_SIZE = 100 * 1024 * 1024; // 100MB
+  // 100MB - the service lowers it when a worker pool shares the cache budget (configure)
+  private maxCacheSize = 100 * 1024 * 1024;
   private readonly MAX_CONCURRENT_BATCHES = 3;
+  private readonly INDEX_CACHE_SUFFIX = ':index';
   private currentCacheSize = 0;
   private storageIndex: StorageIndex | null = null;
+  // Whether storageIndex's manifest verified under the current password
+  private storageIndexVerified = false;
+  private corpusStats: CorpusStats | null = null;
+  private facets: Facets | null = null;
+  // Facets of the most recent search's full (unpaged) result set
+  private resultFacets: { query: string; facets: Facets } | null = null;
+  private resultSets = new Map<string, SearchResultSet>();
+  private resultSetCounter = 0;
+  private readonly MAX_RESULT_SETS = 5;
+  // Running searches by message id → cancelled (set by cancel-search, checked between chunks)
+  private activeSearches = new Map<string, boolean>();
+  // Batches created by this worker that could not be kept in IndexedDB - only its own index lists them
+  private createdBatchIds = new Set<string>();
+  private unsavedBatches = new Map<string, CreatedBatch>();
+  // Batches created on this device (kept in IndexedDB) that the loaded index lists but the published one does not
+  private localBatchIds = new Set<string>();
+  private workerIndex = 0;
+  // Archive whose storage index is loaded; batch URLs resolve against storageIndexUrl
+  private archiveId = DEFAULT_ARCHIVE_ID;
+  private storageIndexUrl = '';
+  // Ciphertext kept across reloads, one database per archive (shared by every worker in the pool)
+  private persistentStore = new PersistentBatchStore(getPersistentBatchDatabase(DEFAULT_ARCHIVE_ID));
+  // Whether this worker keeps the verified index and prunes the database - only one worker in a pool does
+  private persistsStorageIndex = true;
 
   constructor() {
     console.log('[ColdStorageWorker] Starting ColdStorageWorker constructor...');
@@ -455,7 +743,7 @@ class ColdStorageWorker {
       
       console.log('[ColdStorageWorker] Cold storage worker initialized with enhanced encryption service');
       console.log('[ColdStorageWorker] Worker configuration:', {
-        maxCacheSize: `${this.MAX_CACHE_SIZE / 1024 / 1024}MB`,
+        maxCacheSize: `${this.maxCacheSize / 1024 / 1024}MB`,
         maxConcurrentBatches: this.MAX_CONCURRENT_BATCHES
       });
       
@@ -472,6 +760,11 @@ class ColdStorageWorker {
 
     try {
       switch (type) {
+        case 'configure':
+          console.log(`[ColdStorageWorker] Processing configure for ${id}:`, payload);
+          this.handleConfigure(payload, id);
+          break;
+
         case 'auth-init':
           console.log(`[ColdStorageWorker] Processing auth-init for ${id}`);
           await this.handleAuthInit(payload, id);
@@ -479,7 +772,7 @@ class ColdStorageWorker {
 
         case 'load-storage-index':
           console.log(`[ColdStorageWorker] Processing load-storage-index for ${id}`);
-          await this.handleLoadStorageIndex(id);
+          await this.handleLoadStorageIndex(payload, id);
           break;
 
         case 'search-cold-storage':
@@ -487,6 +780,11 @@ class ColdStorageWorker {
           await this.handleSearchColdStorage(payload, id);
           break;
 
+        case 'cancel-search':
+          console.log(`[ColdStorageWorker] Processing cancel-search for ${id}:`, { searchId: payload.searchId });
+          this.handleCancelSearch(payload);
+          break;
+
         case 'get-batch':
           console.log(`[ColdStorageWorker] Processing get-batch for ${id}:`, { batchId: payload.batchId });
           await this.handleGetBatch(payload, id);
@@ -502,11 +800,41 @@ class ColdStorageWorker {
           await this.handleClearCache(id);
           break;
 
+        case 'logout':
+          console.log(`[ColdStorageWorker] Processing logout for ${id}`);
+          this.handleLogout(id);
+          break;
+
         case 'get-cache-stats':
           console.log(`[ColdStorageWorker] Processing get-cache-stats for ${id}`);
           await this.handleGetCacheStats(id);
           break;
 
+        case 'get-facets':
+          console.log(`[ColdStorageWorker] Processing get-facets for ${id}`);
+          await this.handleGetFacets(id);
+          break;
+
+        case 'apply-local-batches':
+          console.log(`[ColdStorageWorker] Processing apply-local-batches for ${id}`);
+          await this.handleApplyLocalBatches(id);
+          break;
+
+        case 'export-archive':
+          console.log(`[ColdStorageWorker] Processing export-archive for ${id}`);
+          await this.handleExportArchive(id);
+          break;
+
+        case 'get-known-cases':
+          console.log(`[ColdStorageWorker] Processing get-known-cases for ${id}`);
+          await this.handleGetKnownCases(id);
+          break;
+
+        case 'get-search-page':
+          console.log(`[ColdStorageWorker] Processing get-search-page for ${id}:`, { resultSetId: payload.resultSetId, offset: payload.offset });
+          this.handleGetSearchPage(payload, id);
+          break;
+
         default:
           console.error(`[ColdStorageWorker] Unknown message type: ${type}`);
           this.postMessage({
@@ -580,18 +908,26 @@ class ColdStorageWorker {
         throw new Error('No password or key material provided');
       }
 
+      // AIDEV-NOTE: The index loads before sign-in, so its manifest is first checkable here
+      if (this.storageIndex && this.encryptionService.userPassword) {
+        await this.verifyLoadedStorageIndex();
+      }
+
       // Set worker authentication state
       const wasAuthenticated = this.isAuthenticated;
       this.isAuthenticated = true;
       console.log(`[ColdStorageWorker] ✓ Worker authentication state updated: ${wasAuthenticated} → ${this.isAuthenticated}`);
       console.log('[ColdStorageWorker] ✓ Authentication successful, encryption service ready for encrypted batch access');
 
+      // Imports from earlier visits are only readable now that their batches can be decrypted
+      await this.applyLocalBatches();
+
       // Send successful response for the specific message ID
       console.log(`[ColdStorageWorker] Sending auth-init-response for message ID: ${id}`);
       this.postMessage({
         type: 'auth-init-response',
         id,
-        payload: { success: true }
+        payload: { success: true, storageIndex: this.storageIndex, localBatchCount: this.getLocalBatchCount() }
       });
 
       // Also send the general auth-complete notification
@@ -614,70 +950,98 @@ class ColdStorageWorker {
       // Ensure authentication state is false on failure
       this.isAuthenticated = false;
       console.error(`[ColdStorageWorker] Worker authentication state reset to: ${this.isAuthenticated}`);
+
+      // An untrusted index must not be searched with the password that rejected it
+      if (error instanceof StorageIndexError) {
+        this.encryptionService.clearCredentials();
+      }
       
       console.error(`[ColdStorageWorker] Sending auth-init-error for message ID: ${id}`);
       this.postMessage({
         type: 'auth-init-error',
         id,
-        payload: { message: error instanceof Error ? error.message : 'Unknown error' }
+        payload: {
+          message: error instanceof Error ? error.message : 'Unknown error',
+          storageIndexError: error instanceof StorageIndexError ? error.reason : undefined
+        }
       });
       
       console.error(`[ColdStorageWorker] ===== AUTHENTICATION INITIALIZATION END =====`);
     }
   }
 
-  private async handleLoadStorageIndex(id?: string) {
-    console.log('[ColdStorageWorker] Loading storage index from /cold-storage/storage-index.json...');
+  /**
+   * Load an archive's storage-index.json (the network copy, or the verified copy kept offline)
+   * AIDEV-NOTE: The service sends the archive's URL from EnvironmentConfig - switching archive
+   * drops everything decrypted from the previous one, as batch ids are only unique per archive.
+   * Secondary pool workers are sent persist: false, so they only load and verify while the primary
+   * worker alone writes the verified index, prunes kept batches and drops published local ones.
+   */
+  private async handleLoadStorageIndex(
+    payload: { archiveId?: string; storageIndexUrl?: string; persist?: boolean } = {},
+    id?: string
+  ) {
+    this.persistsStorageIndex = payload.persist !== false;
+    const archiveId = payload.archiveId || DEFAULT_ARCHIVE_ID;
+    const storageIndexUrl = payload.storageIndexUrl
+      || new URL(`${import.meta.env.BASE_URL}cold-storage/${STORAGE_INDEX_FILE}`, self.location.href).href;
+    console.log(`[ColdStorageWorker] Loading storage index for archive ${archiveId} from ${storageIndexUrl}...`);
     
     try {
-      // AIDEV-NOTE: Try multiple paths to handle both dev and production
-      const storageIndexUrls = [
-        '/decision-parser/cold-storage/storage-index.json', // Development with base path
-        '/cold-storage/storage-index.json' // Production or direct path
-      ];
-      
+      if (archiveId !== this.archiveId) {
+        this.clearSessionCaches();
+        this.archiveId = archiveId;
+        this.persistentStore = new PersistentBatchStore(getPersistentBatchDatabase(archiveId));
+      }
+      this.storageIndexUrl = storageIndexUrl;
+
       let response: Response | null = null;
-      let lastError: Error | null = null;
-      let storageIndexUrl = '';
-      
-      // Try each URL until one works
-      for (const url of storageIndexUrls) {
-        try {
-          console.log(`[ColdStorageWorker] Trying storage index URL: ${url}`);
-          const fetchResponse = await fetch(url);
-          if (fetchResponse.ok) {
-            response = fetchResponse;
-            storageIndexUrl = url;
-            break;
-          } else {
-            console.log(`[ColdStorageWorker] URL ${url} returned ${fetchResponse.status}`);
-          }
-        } catch (error) {
-          console.log(`[ColdStorageWorker] URL ${url} failed:`, error instanceof Error ? error.message : error);
-          lastError = error instanceof Error ? error : new Error(String(error));
+      let fetchError: unknown = null;
+      try {
+        response = await fetch(storageIndexUrl);
+        if (!response.ok) {
+          console.log(`[ColdStorageWorker] Storage index URL returned ${response.status}`);
         }
+      } catch (error) {
+        console.log(`[ColdStorageWorker] Storage index URL failed:`, error instanceof Error ? error.message : error);
+        fetchError = error;
       }
       
-      if (!response || !response.ok) {
-        throw lastError || new Error('All storage index URLs failed');
-      }
-      
-      console.log(`[ColdStorageWorker] Successfully found storage index at: ${storageIndexUrl}`);
-      console.log(`[ColdStorageWorker] Storage index fetch response:`, { 
-        url: storageIndexUrl,
-        status: response.status, 
-        statusText: response.statusText,
-        ok: response.ok
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to load storage index: ${response.status} ${response.statusText}`);
+      let loadedIndex: StorageIndex | null = null;
+      let loadedFrom = storageIndexUrl;
+      if (response && response.ok) {
+        console.log(`[ColdStorageWorker] Storage index fetch response:`, { 
+          url: storageIndexUrl,
+          status: response.status, 
+          statusText: response.statusText,
+          ok: response.ok
+        });
+        loadedIndex = await response.json();
+      } else {
+        // AIDEV-NOTE: Offline (or the site is unreachable) - search the batches kept in IndexedDB
+        loadedIndex = await this.persistentStore.getStorageIndex();
+        if (!loadedIndex) {
+          throw fetchError || new Error(`Storage index not found at ${storageIndexUrl} (${response?.status})`);
+        }
+        loadedFrom = 'IndexedDB (offline copy)';
+        console.warn('[ColdStorageWorker] Storage index unreachable - using the copy kept from the last visit');
       }
 
-      this.storageIndex = await response.json();
+      // AIDEV-NOTE: Schema violations are rejected rather than patched - a malformed index used to load as zero batches
+      assertValidStorageIndex(loadedIndex);
+      this.storageIndex = loadedIndex;
+      this.storageIndexVerified = false;
+      this.corpusStats = null;
+      this.facets = null;
+      // Hits from a previous index may reference batches that no longer exist
+      this.resultSets.clear();
+      // Batches created on this device are not in the fetched index - applied again once verified
+      this.createdBatchIds.clear();
+      this.unsavedBatches.clear();
+      this.localBatchIds.clear();
       
       console.log('[ColdStorageWorker] ===== STORAGE INDEX DIAGNOSTICS START =====');
-      console.log('[ColdStorageWorker] Raw storage index loaded from:', storageIndexUrl);
+      console.log('[ColdStorageWorker] Raw storage index loaded from:', loadedFrom);
       console.log('[ColdStorageWorker] Storage index structure analysis:', {
         hasVersion: !!this.storageIndex?.version,
         version: this.storageIndex?.version,
@@ -698,16 +1062,6 @@ class ColdStorageWorker {
         });
       }
       
-      if (!this.storageIndex) {
-        console.error('[ColdStorageWorker] ❌ CRITICAL: Storage index is null or undefined');
-        throw new Error('Invalid storage index format - null response');
-      }
-      
-      if (!this.storageIndex.batches) {
-        console.warn('[ColdStorageWorker] ⚠️  Storage index missing batches array - creating empty array');
-        this.storageIndex.batches = [];
-      }
-      
       console.log('[ColdStorageWorker] Batch array analysis:', {
         batchesCount: this.storageIndex.batches.length,
         isEmpty: this.storageIndex.batches.length === 0,
@@ -741,19 +1095,23 @@ class ColdStorageWorker {
           });
         }
       }
-      
-      // AIDEV-NOTE: Validate encrypted-only policy
-      console.log('[ColdStorageWorker] Validating encryption policy compliance...');
-      this.validateStorageIndexEncryption();
-      console.log('[ColdStorageWorker] ✓ Encryption policy validation passed');
       console.log('[ColdStorageWorker] ===== STORAGE INDEX DIAGNOSTICS END =====');
 
+      // Before authentication there is no key yet - handleAuthInit verifies the manifest then
+      if (this.encryptionService.userPassword) {
+        await this.verifyLoadedStorageIndex();
+        if (this.isAuthenticated) {
+          await this.applyLocalBatches();
+        }
+      }
+
       this.postMessage({
         type: 'storage-index-loaded',
         id,
         payload: { 
           storageIndex: this.storageIndex,
-          totalBatches: this.storageIndex.batches.length
+          totalBatches: this.storageIndex.batches.length,
+          localBatchCount: this.getLocalBatchCount()
         }
       });
 
@@ -763,13 +1121,241 @@ class ColdStorageWorker {
         errorType: error instanceof Error ? error.name : 'UnknownError',
         stack: error instanceof Error ? error.stack : undefined
       });
+      if (error instanceof StorageIndexError) {
+        this.storageIndex = null;
+      }
       this.postMessage({
         type: 'storage-index-error',
         id,
         payload: { 
           message: error instanceof Error ? error.message : 'Unknown error',
-          errorType: error instanceof Error ? error.name : 'UnknownError'
+          errorType: error instanceof Error ? error.name : 'UnknownError',
+          storageIndexError: error instanceof StorageIndexError ? error.reason : undefined
+        }
+      });
+    }
+  }
+
+  /**
+   * Check the loaded index's manifest under the user's password, then keep it for offline visits
+   *
+   * @throws StorageIndexError when the index is unsigned, tampered with or rolled back
+   */
+  private async verifyLoadedStorageIndex() {
+    const storageIndex = this.storageIndex!;
+    if (!storageIndex.manifest) {
+      throw new StorageIndexError('unsigned', 'Storage index has no signed manifest');
+    }
+    if (!(await this.encryptionService.verifyStorageIndex(storageIndex))) {
+      throw new StorageIndexError('tampered', 'Storage index manifest does not match its contents');
+    }
+
+    const newestVerified = await this.persistentStore.getVerifiedLastUpdated();
+    if (isOlderStorageIndex(storageIndex.lastUpdated, newestVerified)) {
+      throw new StorageIndexError(
+        'stale',
+        `Storage index from ${storageIndex.lastUpdated} is older than the one already verified (${newestVerified})`
+      );
+    }
+
+    this.storageIndexVerified = true;
+    console.log(`[ColdStorageWorker] ✓ Storage index manifest verified (${storageIndex.lastUpdated})`);
+
+    // AIDEV-NOTE: Only a published index is kept - one with local batches applied (re-verified after
+    // logout) would make the next fetched copy look like a rollback
+    if (!this.persistsStorageIndex || this.localBatchIds.size > 0 || this.createdBatchIds.size > 0) {
+      return;
+    }
+
+    // Kept for offline visits only once trusted; kept batches the index no longer lists are dropped
+    await this.persistentStore.putVerifiedLastUpdated(storageIndex.lastUpdated);
+    await this.persistentStore.putStorageIndex(storageIndex);
+    await this.persistentStore.prune(storageIndex.batches, storageIndex.lastUpdated);
+  }
+
+  private getLocalBatchCount(): number {
+    return this.localBatchIds.size + this.createdBatchIds.size;
+  }
+
+  /**
+   * Add batches created on this device but not yet published to the verified storage index
+   *
+   * Batches the published index now lists are dropped from IndexedDB. The rest are appended in
+   * creation order with their corpus statistics and facets, and the index is signed again so
+   * the result is exactly what export-archive writes out.
+   *
+   * @returns number of batches added
+   */
+  private async applyLocalBatches(): Promise<number> {
+    const storageIndex = this.storageIndex;
+    if (!storageIndex || !this.storageIndexVerified || !this.isAuthenticated) {
+      return 0;
+    }
+
+    const { published, pending } = splitCreatedBatches(
+      await this.persistentStore.getCreatedBatches(),
+      storageIndex.batches,
+      this.localBatchIds
+    );
+    if (published.length > 0 && this.persistsStorageIndex) {
+      console.log(`[ColdStorageWorker] ${published.length} locally created batches are now published - removing local copies`);
+      await this.persistentStore.deleteCreatedBatches(published.map(batch => batch.batchId));
+    }
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const hadBatches = storageIndex.batches.length > 0;
+    const corpusStats = await this.getCorpusStats();
+    const facets = await this.getArchiveFacets();
+    let mergedStats = corpusStats;
+    let mergedFacets = facets;
+    let lastUpdated = storageIndex.lastUpdated;
+    let applied = 0;
+    // Salt of an added batch - its key is already derived for decrypting the batch index
+    let batchSalt: string | undefined;
+
+    for (const created of pending) {
+      let supersededCount = 0;
+      // Listed before decrypting so loadEncryptedBatch reads it from the created batch store
+      this.localBatchIds.add(created.batchId);
+      try {
+        const searchIndex = await this.getBatchIndex(created.entry);
+        if (corpusStats || !hadBatches) {
+          mergedStats = mergeCorpusStats(mergedStats, searchIndex);
+        }
+        if (facets || !hadBatches) {
+          ({ facets: mergedFacets, supersededCount } = await this.mergeArchiveFacets(mergedFacets, searchIndex, created.batchId));
+        }
+      } catch (error) {
+        console.warn(`[ColdStorageWorker] Skipping locally created batch ${created.batchId}:`, error);
+        this.localBatchIds.delete(created.batchId);
+        continue;
+      }
+
+      storageIndex.batches.push(created.entry);
+      batchSalt = created.encryptedBatch.salt;
+      // Refreshed cases replace their copy in an older batch rather than adding to the total
+      storageIndex.totalDocuments += created.entry.documentCount - supersededCount;
+      if (isOlderStorageIndex(lastUpdated, created.createdAt)) {
+        lastUpdated = created.createdAt;
+      }
+      applied++;
+    }
+
+    if (applied === 0) {
+      return 0;
+    }
+
+    storageIndex.version = STORAGE_INDEX_VERSION;
+    storageIndex.totalBatches = storageIndex.batches.length;
+    storageIndex.lastUpdated = lastUpdated;
+    if (mergedStats && mergedStats !== corpusStats) {
+      this.corpusStats = mergedStats;
+      storageIndex.corpusStats = {
+        version: CORPUS_STATS_VERSION,
+        // Re-encrypted under a salt whose key is cached, not a new one needing another PBKDF2 run
+        ...(await this.encryptionService.encryptPayload(mergedStats, storageIndex.corpusStats?.salt ?? batchSalt))
+      };
+    }
+    if (mergedFacets && mergedFacets !== facets) {
+      this.facets = mergedFacets;
+      storageIndex.facets = {
+        version: FACETS_VERSION,
+        ...(await this.encryptionService.encryptPayload(mergedFacets, storageIndex.facets?.salt ?? batchSalt))
+      };
+    }
+    storageIndex.manifest = await this.encryptionService.signStorageIndex(storageIndex);
+    // Hits from before may be missing the added batches
+    this.resultSets.clear();
+
+    console.log(`[ColdStorageWorker] Added ${applied} locally created batches - total documents: ${storageIndex.totalDocuments}`);
+    return applied;
+  }
+
+  private async handleApplyLocalBatches(id?: string) {
+    try {
+      const applied = await this.applyLocalBatches();
+      this.postMessage({
+        type: 'local-batches-applied',
+        id,
+        payload: { applied, storageIndex: this.storageIndex, localBatchCount: this.getLocalBatchCount() }
+      });
+    } catch (error) {
+      console.error('[ColdStorageWorker] Failed to apply local batches:', error);
+      this.postMessage({
+        type: 'apply-local-batches-error',
+        id,
+        payload: { message: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    }
+  }
+
+  /**
+   * Ciphertext of the batches created on this device, with the signed storage index listing them
+   * AIDEV-NOTE: Everything leaves the worker encrypted - the export is what gets published as-is
+   */
+  private async handleExportArchive(id?: string) {
+    try {
+      if (!this.isAuthenticated || !this.storageIndex || !this.storageIndexVerified) {
+        throw new Error('Authentication required to export the archive');
+      }
+
+      const kept = await this.persistentStore.getCreatedBatches();
+      const createdBatches = [
+        ...kept.filter(batch => this.localBatchIds.has(batch.batchId)),
+        ...this.unsavedBatches.values()
+      ];
+
+      this.postMessage({
+        type: 'archive-exported',
+        id,
+        payload: { storageIndex: this.storageIndex, createdBatches }
+      });
+    } catch (error) {
+      console.error('[ColdStorageWorker] Failed to export archive:', error);
+      this.postMessage({
+        type: 'export-archive-error',
+        id,
+        payload: { message: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    }
+  }
+
+  /**
+   * Case id → archived status for every document in the archive, so imports can skip what it holds
+   * AIDEV-NOTE: Read from the facets' case map; archives whose facets predate it are scanned
+   * batch by batch (every batch index is decrypted once)
+   */
+  private async handleGetKnownCases(id?: string) {
+    try {
+      if (!this.isAuthenticated || !this.storageIndex) {
+        throw new Error('Authentication required for cold storage access');
+      }
+
+      const facets = await this.getArchiveFacets();
+      let cases: Record<string, string>;
+      if (facets?.cases) {
+        cases = { ...facets.cases };
+      } else {
+        console.log(`[ColdStorageWorker] No case map in facets - scanning ${this.storageIndex.batches.length} batch indexes`);
+        cases = {};
+        for (const batch of this.storageIndex.batches) {
+          Object.assign(cases, getIndexedCaseStatuses(await this.getBatchIndex(batch)));
         }
+      }
+
+      this.postMessage({
+        type: 'known-cases',
+        id,
+        payload: { cases }
+      });
+    } catch (error) {
+      console.error('[ColdStorageWorker] Failed to list known cases:', error);
+      this.postMessage({
+        type: 'get-known-cases-error',
+        id,
+        payload: { message: error instanceof Error ? error.message : 'Unknown error' }
       });
     }
   }
@@ -786,7 +1372,12 @@ class ColdStorageWorker {
 
     try {
       console.log(`[ColdStorageWorker] Fetching batch data for ${batchId}...`);
-      const batchData = await this.getBatchData({ batchId } as BatchInfo);
+      // The index entry carries the URL and the checksum the batch is checked against
+      const batch = this.storageIndex?.batches.find(entry => entry.batchId === batchId);
+      if (!batch) {
+        throw new Error(`Batch ${batchId} is not in the storage index`);
+      }
+      const batchData = await this.getBatchData(batch);
       console.log(`[ColdStorageWorker] Successfully retrieved batch ${batchId}`);
 
       this.postMessage({
@@ -845,34 +1436,67 @@ class ColdStorageWorker {
       console.error(`[ColdStorageWorker] Encrypted cold storage requires authentication before search`);
       throw new Error('Authentication required for cold storage access');
     }
+
+    // Authentication verifies the manifest, so this only trips if the index changed since
+    if (!this.storageIndexVerified) {
+      throw new StorageIndexError('unsigned', 'Storage index has not been verified - sign in again');
+    }
     
     console.log(`[ColdStorageWorker] ✓ Pre-search verification passed - authentication and storage index ready`);
     console.log(`[ColdStorageWorker] ===== PRE-SEARCH STATE VERIFICATION COMPLETE =====`);
 
     const { query, options = {} } = payload;
-    const { limit = 50 } = options;
+    if (id) {
+      this.activeSearches.set(id, false);
+    }
 
     try {
+      // Parse phrases, proximity and Boolean operators once for every batch (throws on syntax errors)
+      const typedQuery = parseSearchQuery(query);
+      // Metadata and decision date filters are checked per document against the index fields
+      const documentFilter = createDocumentFilter(options);
+
+      // Correct misspelled terms against the archive dictionary (sensitivity slider = minimum similarity)
+      const corpusStats = await this.getCorpusStats();
+      const { parsedQuery, corrections } = corpusStats
+        ? correctQuery(typedQuery, Object.keys(corpusStats.documentFrequencies), options.threshold, corpusStats.documentFrequencies)
+        : { parsedQuery: typedQuery, corrections: [] };
+      if (corrections.length > 0) {
+        console.log('[ColdStorageWorker] Corrected query terms:', corrections.map(c => `${c.term} → ${c.correctedTo}`));
+      }
+
       console.log(`[ColdStorageWorker] Finding relevant batches for query: ${query}`);
       // Find relevant batches based on query and filters
-      const relevantBatches = await this.findRelevantBatches(query, options);
-      console.log(`[ColdStorageWorker] Found ${relevantBatches.length} relevant batches`);
+      const relevantBatches = this.selectShard(await this.findRelevantBatches(parsedQuery, options), options.shard);
+      console.log(`[ColdStorageWorker] Found ${relevantBatches.length} relevant batches${options.shard ? ` in shard ${options.shard.index + 1} of ${options.shard.count}` : ''}`);
 
       if (relevantBatches.length === 0) {
         console.log('[ColdStorageWorker] No relevant batches found, returning empty results');
+        this.resultFacets = { query, facets: countDocumentFacets([]) };
         this.postMessage({
           type: 'cold-search-complete',
           id,
           payload: { 
-            results: [],
+            ...getResultPage([], options),
             query,
-            total: 0,
-            batchesSearched: 0
+            batchesSearched: 0,
+            resultSetId: null
           }
         });
         return;
       }
 
+      // Archive-wide statistics keep BM25 scores comparable between batches
+      const scoring = await this.getSearchScoring(parsedQuery);
+      const context: SearchContext = {
+        parsedQuery,
+        scoring,
+        documentFilter,
+        corrections,
+        batchCorrectionSensitivity: corpusStats ? null : options.threshold ?? null,
+        facets: await this.getArchiveFacets()
+      };
+
       // ALWAYS search ALL batches for complete coverage - no limiting for performance
       const batchesToSearch = relevantBatches; // Search all batches, no slicing
       console.log(`[ColdStorageWorker] Will search ALL ${batchesToSearch.length} batches for complete coverage`);
@@ -916,7 +1540,11 @@ class ColdStorageWorker {
           }
         });
 
-        const highPriorityResults = await this.searchBatchesWithProgress(highPriorityBatches.map(b => b.batch), query, id, 'high-priority');
+        const highPriorityResults = await this.searchBatchesWithProgress(highPriorityBatches.map(b => b.batch), context, id, 'high-priority', {
+          completedBefore: 0,
+          totalBatches: batchesToSearch.length,
+          pageOptions: options
+        });
         allResults.push(...highPriorityResults);
         completedBatches += highPriorityBatches.length;
         
@@ -938,7 +1566,11 @@ class ColdStorageWorker {
           }
         });
 
-        const lowPriorityResults = await this.searchBatchesWithProgress(lowPriorityBatches.map(b => b.batch), query, id, 'comprehensive');
+        const lowPriorityResults = await this.searchBatchesWithProgress(lowPriorityBatches.map(b => b.batch), context, id, 'comprehensive', {
+          completedBefore: completedBatches,
+          totalBatches: batchesToSearch.length,
+          pageOptions: options
+        });
         allResults.push(...lowPriorityResults);
         completedBatches += lowPriorityBatches.length;
         
@@ -949,17 +1581,17 @@ class ColdStorageWorker {
       console.log(`[ColdStorageWorker] Total batches searched: ${completedBatches}/${batchesToSearch.length}`);
       console.log(`[ColdStorageWorker] Total results found: ${allResults.length}`);
 
-      // Sort results by relevance and apply limit
-      console.log(`[ColdStorageWorker] Sorting and limiting results:`, {
-        totalResults: allResults.length,
-        limit,
-        willBeLimited: allResults.length > limit
-      });
-      allResults.sort((a, b) => (b.relevance || 0) - (a.relevance || 0));
-      const limitedResults = allResults.slice(0, limit);
+      // Keep every hit for paging; only the requested page is sent back
+      const resultSetId = this.storeResultSet(query, sortSearchResults(allResults));
+      const page = this.getResultSetPage(resultSetId, options)!;
+      // Counted before paging so facet counts describe every match, not just the first page
+      this.resultFacets = { query, facets: countDocumentFacets(allResults) };
       console.log(`[ColdStorageWorker] Final results:`, {
-        returned: limitedResults.length,
-        total: allResults.length,
+        resultSetId,
+        returned: page.results.length,
+        total: page.total,
+        sortBy: page.sortBy,
+        sortOrder: page.sortOrder,
         batchesSearched: completedBatches
       });
 
@@ -967,27 +1599,159 @@ class ColdStorageWorker {
         type: 'cold-search-complete',
         id,
         payload: { 
-          results: limitedResults,
+          ...page,
           query,
-          total: allResults.length,
+          resultSetId,
           batchesSearched: completedBatches,
-          limited: allResults.length > limit
+          limited: page.nextOffset !== null,
+          corrections: this.collectCorrections(allResults)
         }
       });
 
     } catch (error) {
-      console.error('[ColdStorageWorker] Cold storage search failed:', error);
-      this.postMessage({
-        type: 'cold-search-error',
-        id,
-        payload: { message: error instanceof Error ? error.message : 'Unknown error' }
+      if (error instanceof SearchCancelledError) {
+        console.log(`[ColdStorageWorker] Search ${id} cancelled: "${query}"`);
+        this.postMessage({
+          type: 'cold-search-error',
+          id,
+          payload: { message: error.message, cancelled: true }
+        });
+        return;
+      }
+
+      console.error('[ColdStorageWorker] Cold storage search failed:', error);
+      this.postMessage({
+        type: 'cold-search-error',
+        id,
+        payload: {
+          message: error instanceof Error ? error.message : 'Unknown error',
+          // AIDEV-NOTE: Lets the search box show the problem inline instead of a generic failure
+          ...(error instanceof SearchQuerySyntaxError
+            ? { syntaxError: { message: error.message, position: error.position, query } }
+            : {})
+        }
       });
+    } finally {
+      if (id) {
+        this.activeSearches.delete(id);
+      }
+    }
+  }
+
+  /**
+   * This worker's share of the relevant batches when the service searches with a worker pool
+   * AIDEV-NOTE: Pooled workers load the same storage index and rank batches identically, so
+   * taking every count-th shared batch splits them without overlap. Batches this worker created
+   * without IndexedDB are listed only in its own index and always stay in its share.
+   */
+  private selectShard<T extends { batch: BatchInfo }>(relevantBatches: T[], shard?: { index: number; count: number }): T[] {
+    if (!shard || shard.count <= 1) {
+      return relevantBatches;
+    }
+
+    let sharedPosition = 0;
+    return relevantBatches.filter(({ batch }) =>
+      this.createdBatchIds.has(batch.batchId) || sharedPosition++ % shard.count === shard.index
+    );
+  }
+
+  /**
+   * Mark a running search as cancelled - it stops before its next chunk of batches
+   * AIDEV-NOTE: Handled while the search awaits between chunks; unknown or finished ids are ignored
+   */
+  private handleCancelSearch(payload: any) {
+    const searchId = payload?.searchId;
+    if (searchId && this.activeSearches.has(searchId)) {
+      this.activeSearches.set(searchId, true);
+    }
+  }
+
+  private throwIfSearchCancelled(searchId?: string) {
+    if (searchId && this.activeSearches.get(searchId)) {
+      throw new SearchCancelledError(searchId);
+    }
+  }
+
+  /**
+   * Keep a search's hits (relevance order) for paging, evicting the least recently used set
+   */
+  private storeResultSet(query: string, results: any[]): string {
+    const resultSetId = `results_${++this.resultSetCounter}`;
+    this.resultSets.set(resultSetId, { query, results, sorted: new Map(), lastAccessed: Date.now() });
+
+    while (this.resultSets.size > this.MAX_RESULT_SETS) {
+      let oldestId: string | null = null;
+      let oldestAccess = Infinity;
+      for (const [candidateId, resultSet] of this.resultSets) {
+        if (resultSet.lastAccessed < oldestAccess) {
+          oldestAccess = resultSet.lastAccessed;
+          oldestId = candidateId;
+        }
+      }
+      console.log(`[ColdStorageWorker] Discarding result set ${oldestId} (limit ${this.MAX_RESULT_SETS})`);
+      this.resultSets.delete(oldestId!);
+    }
+    return resultSetId;
+  }
+
+  /**
+   * One page of a stored result set in the requested order (null when the set was discarded)
+   */
+  private getResultSetPage(resultSetId: string, options: ResultPageOptions): ResultPage<any> | null {
+    const resultSet = this.resultSets.get(resultSetId);
+    if (!resultSet) {
+      return null;
+    }
+    resultSet.lastAccessed = Date.now();
+
+    const sortBy = options.sortBy || 'relevance';
+    const sortOrder = options.sortOrder || 'desc';
+    const sortKey = `${sortBy}:${sortOrder}`;
+    let sorted = sortKey === 'relevance:desc' ? resultSet.results : resultSet.sorted.get(sortKey);
+    if (!sorted) {
+      sorted = sortSearchResults(resultSet.results, sortBy, sortOrder);
+      resultSet.sorted.set(sortKey, sorted);
     }
+    return getResultPage(sorted, { ...options, sortBy, sortOrder });
   }
 
-  private async findRelevantBatches(query: string, options: any): Promise<Array<{ batch: BatchInfo; score: number; hasKeywordMatch: boolean }>> {
+  private handleGetSearchPage(payload: any, id?: string) {
+    const { resultSetId, ...options } = payload || {};
+    const page = this.isAuthenticated && resultSetId ? this.getResultSetPage(resultSetId, options) : null;
+
+    if (!page) {
+      console.warn(`[ColdStorageWorker] Result set ${resultSetId} is no longer available`);
+      this.postMessage({
+        type: 'get-search-page-error',
+        id,
+        payload: { message: 'These search results are no longer available - please search again', resultSetId }
+      });
+      return;
+    }
+
+    this.postMessage({
+      type: 'search-page',
+      id,
+      payload: { ...page, resultSetId, query: this.resultSets.get(resultSetId)!.query }
+    });
+  }
+
+  /**
+   * Distinct spelling corrections that matched at least one result
+   */
+  private collectCorrections(results: any[]): TermCorrection[] {
+    const corrections = new Map<string, TermCorrection>();
+    for (const result of results) {
+      for (const correction of result.correctedTerms || []) {
+        corrections.set(`${correction.term}→${correction.correctedTo}`, correction);
+      }
+    }
+    return Array.from(corrections.values());
+  }
+
+  private async findRelevantBatches(parsedQuery: ParsedQuery, options: any): Promise<Array<{ batch: BatchInfo; score: number; hasKeywordMatch: boolean }>> {
     console.log(`[ColdStorageWorker] ===== SEARCH DIAGNOSTICS START =====`);
-    console.log(`[ColdStorageWorker] Finding relevant batches for query: "${query}"`);
+    console.log(`[ColdStorageWorker] Finding relevant batches for query: "${parsedQuery.text}"`);
     console.log(`[ColdStorageWorker] Search options:`, JSON.stringify(options, null, 2));
     
     if (!this.storageIndex) {
@@ -1011,11 +1775,21 @@ class ColdStorageWorker {
       return [];
     }
 
-    const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
-    console.log(`[ColdStorageWorker] Processed query terms (min 3 chars):`, queryTerms);
+    // Phrase words may be short ("harm to the character"), only prioritise on meaningful terms
+    // AIDEV-NOTE: Compared by normalised form, including synonym words ("hmo" → "occupation")
+    const queryTerms = Array.from(new Set(
+      [...parsedQuery.terms, ...parsedQuery.terms.flatMap(term => getSynonymExpansions([term]).flat())]
+        .filter(term => term.length > 2)
+        .map(normaliseTerm)
+    ));
+    console.log(`[ColdStorageWorker] Processed query terms (normalised, min 3 chars):`, queryTerms);
     console.log(`[ColdStorageWorker] Processing ${this.storageIndex.batches.length} batches for relevance...`);
     
     const relevantBatches: Array<{ batch: BatchInfo; score: number; hasKeywordMatch: boolean }> = [];
+    const dateRange = getDateFilterRange(options.dateFilter);
+    if (dateRange) {
+      console.log(`[ColdStorageWorker] Applying date filter:`, options.dateFilter);
+    }
 
     for (let i = 0; i < this.storageIndex.batches.length; i++) {
       const batch = this.storageIndex.batches[i];
@@ -1028,12 +1802,18 @@ class ColdStorageWorker {
         encrypted: batch.encrypted
       });
 
+      // AIDEV-NOTE: A batch whose decision dates all fall outside the filter cannot contribute results
+      if (dateRange && !batchMayMatchDateRange(batch.dateRange, dateRange)) {
+        console.log(`[ColdStorageWorker] Batch ${batch.batchId} skipped: date range ${batch.dateRange?.start} to ${batch.dateRange?.end} is outside the date filter`);
+        continue;
+      }
+
       let score = 0;
       const scoreBreakdown: string[] = [];
 
       // Check keyword relevance with higher scoring for matches
-      const batchKeywords = batch.keywords?.map(k => k.toLowerCase()) || [];
-      console.log(`[ColdStorageWorker] Batch keywords (lowercase):`, batchKeywords);
+      const batchKeywords = normaliseKeywords(batch.keywords).map(normaliseTerm);
+      console.log(`[ColdStorageWorker] Batch keywords (normalised):`, batchKeywords);
       
       for (const term of queryTerms) {
         for (const keyword of batchKeywords) {
@@ -1044,29 +1824,6 @@ class ColdStorageWorker {
         }
       }
 
-      // Apply date filter
-      if (options.dateFilter) {
-        console.log(`[ColdStorageWorker] Applying date filter:`, options.dateFilter);
-        const { start, end } = options.dateFilter;
-        const batchStart = new Date(batch.dateRange?.start);
-        const batchEnd = new Date(batch.dateRange?.end);
-        const filterStart = new Date(start);
-        const filterEnd = new Date(end);
-
-        console.log(`[ColdStorageWorker] Date ranges - Batch: ${batchStart.toISOString()} to ${batchEnd.toISOString()}, Filter: ${filterStart.toISOString()} to ${filterEnd.toISOString()}`);
-
-        // Check if batch date range overlaps with filter range
-        const overlaps = batchStart <= filterEnd && batchEnd >= filterStart;
-        console.log(`[ColdStorageWorker] Date overlap result:`, overlaps);
-        
-        if (overlaps) {
-          score += 5; // Higher bonus for date relevance
-          scoreBreakdown.push(`date overlap (+5)`);
-        } else {
-          console.log(`[ColdStorageWorker] Batch ${batch.batchId} has no date overlap but will still be searched`);
-        }
-      }
-
       // Ensure ALL batches are included with minimum base score for completeness
       const finalScore = Math.max(score, 1); // Minimum score of 1 ensures all batches are searched
       const hasKeywordMatch = score >= 10; // Track if batch had keyword matches for prioritization
@@ -1090,7 +1847,7 @@ class ColdStorageWorker {
     
     console.log(`[ColdStorageWorker] ===== COMPREHENSIVE SEARCH SUMMARY =====`);
     console.log(`[ColdStorageWorker] Total batches available: ${this.storageIndex.batches.length}`);
-    console.log(`[ColdStorageWorker] ALL batches will be searched: ${relevantBatches.length}`);
+    console.log(`[ColdStorageWorker] Batches to search: ${relevantBatches.length}${dateRange ? ' (after date filter)' : ''}`);
     console.log(`[ColdStorageWorker] High-priority batches (keyword matches): ${highPriorityBatches.length}`);
     console.log(`[ColdStorageWorker] Low-priority batches (no keyword matches): ${lowPriorityBatches.length}`);
     console.log(`[ColdStorageWorker] Batch processing order:`, relevantBatches.map(rb => ({
@@ -1103,9 +1860,9 @@ class ColdStorageWorker {
     return relevantBatches;
   }
 
-  private async searchBatchChunk(batches: BatchInfo[], query: string): Promise<any[]> {
+  private async searchBatchChunk(batches: BatchInfo[], context: SearchContext): Promise<any[]> {
     console.log(`[ColdStorageWorker] ===== BATCH CHUNK PROCESSING START =====`);
-    console.log(`[ColdStorageWorker] Processing chunk of ${batches.length} batches for query: "${query}"`);
+    console.log(`[ColdStorageWorker] Processing chunk of ${batches.length} batches for query: "${context.parsedQuery.text}"`);
     
     const chunkResults: any[] = [];
 
@@ -1117,17 +1874,17 @@ class ColdStorageWorker {
         // Check memory usage before processing
         await this.checkMemoryUsage();
 
-        console.log(`[ColdStorageWorker] Fetching batch data for: ${batch.batchId}`);
-        // Get batch data (from cache or fetch/decrypt)
-        const batchData = await this.getBatchData(batch);
-        console.log(`[ColdStorageWorker] ✓ Batch data retrieved for: ${batch.batchId}`, {
-          hasDocuments: !!batchData?.documents,
-          documentCount: batchData?.documents?.length || 0
+        console.log(`[ColdStorageWorker] Fetching search index for: ${batch.batchId}`);
+        // Get batch index (from cache or fetch/decrypt)
+        const searchIndex = await this.getBatchIndex(batch);
+        console.log(`[ColdStorageWorker] ✓ Search index retrieved for: ${batch.batchId}`, {
+          documentCount: searchIndex.documentCount,
+          termCount: Object.keys(searchIndex.postings).length
         });
         
-        console.log(`[ColdStorageWorker] Searching content in batch: ${batch.batchId}`);
+        console.log(`[ColdStorageWorker] Looking up postings in batch: ${batch.batchId}`);
         // Search within batch
-        const batchResults = await this.searchBatchContent(batchData, query, batch.batchId);
+        const batchResults = await this.searchBatchContent(batch, searchIndex, context);
         console.log(`[ColdStorageWorker] ✓ Batch search completed for: ${batch.batchId}, found ${batchResults.length} results`);
         
         chunkResults.push(...batchResults);
@@ -1201,11 +1958,102 @@ class ColdStorageWorker {
       return cached.data;
     }
 
-    console.log(`[ColdStorageWorker] Cache miss - fetching from URL: ${batch.url}`);
+    const { encryptedBatch: rawData } = await this.loadEncryptedBatch(batch);
+    
+    // Check if batch is encrypted or unencrypted
+    // AIDEV-NOTE: Only support encrypted batches (encrypted-only policy)
+    if (!this.isAuthenticated) {
+      console.error(`[ColdStorageWorker] ❌ Authentication required for batch access: ${batch.batchId}`);
+      throw new Error(`Authentication required for batch access: ${batch.batchId}`);
+    }
+
+    console.log(`[ColdStorageWorker] ✓ Detected encrypted batch format: ${batch.batchId}`);
+    console.log(`[ColdStorageWorker] Encryption details:`, {
+      algorithm: rawData.algorithm,
+      version: rawData.version,
+      hasChecksum: !!rawData.checksum
+    });
+    console.log(`[ColdStorageWorker] Starting decryption process...`);
+
+    // Documents only - the search index section is decrypted separately by getBatchIndex
+    const decryptStartTime = performance.now();
+    const batchData = await this.decryptBatchDocuments(rawData);
+    const decryptEndTime = performance.now();
+    
+    console.log(`[ColdStorageWorker] ✓ Decryption completed in ${(decryptEndTime - decryptStartTime).toFixed(2)}ms`);
+    console.log(`[ColdStorageWorker] Decrypted data structure:`, {
+      hasDocuments: !!batchData?.documents,
+      documentCount: batchData?.documents?.length || 0,
+      hasMetadata: !!batchData?.metadata
+    });
+
+    // Add to cache
+    console.log(`[ColdStorageWorker] Adding ${batch.batchId} to cache...`);
+    this.addToCache(batch.batchId, batchData);
+    console.log(`[ColdStorageWorker] ✓ Batch ${batch.batchId} cached successfully`);
+    console.log(`[ColdStorageWorker] ===== BATCH DATA RETRIEVAL END =====`);
+
+    return batchData;
+  }
+
+  // Encrypted-only policy: unencrypted or unrecognised batch files are refused
+  private assertEncryptedBatch(batch: BatchInfo, rawData: any) {
+    if (rawData.data && rawData.iv && rawData.algorithm) {
+      return;
+    }
+
+    if (rawData.documents) {
+      // Unencrypted batch - not supported in encrypted-only mode
+      console.error(`[ColdStorageWorker] ❌ Unencrypted batch detected: ${batch.batchId} - violates encrypted-only policy`);
+      console.log(`[ColdStorageWorker] Raw data indicates unencrypted format:`, {
+        hasDocuments: !!rawData.documents,
+        documentCount: rawData.documents?.length || 0,
+        encryptedField: rawData.metadata?.encrypted
+      });
+      throw new Error(`Invalid batch format for ${batch.batchId}: only encrypted batches are supported`);
+    }
+
+    console.error(`[ColdStorageWorker] ❌ Unknown batch format for: ${batch.batchId}`);
+    console.log(`[ColdStorageWorker] Expected either encrypted format (data+iv+algorithm) or documents array`);
+    throw new Error(`Invalid batch format for ${batch.batchId}: unrecognized data structure`);
+  }
+
+
+  /**
+   * Encrypted batch from IndexedDB when a copy for this version is kept, otherwise from the network
+   * AIDEV-NOTE: Fetched ciphertext is kept as-is - it is only ever decrypted in memory. Every copy
+   * is checked against the checksum the signed manifest lists before it is kept or decrypted.
+   *
+   * @throws StorageIndexError ('tampered') when the ciphertext does not match its checksum
+   */
+  private async loadEncryptedBatch(batch: BatchInfo): Promise<{ encryptedBatch: any; builtIndex: any | null }> {
+    // Batches created on this device have no copy on the network yet
+    if (this.localBatchIds.has(batch.batchId) || this.createdBatchIds.has(batch.batchId)) {
+      const created = this.unsavedBatches.get(batch.batchId) || await this.persistentStore.getCreatedBatch(batch.batchId);
+      if (!created) {
+        throw new Error(`Locally created batch ${batch.batchId} is no longer stored on this device`);
+      }
+      await this.assertBatchChecksum(batch, created.encryptedBatch);
+      return { encryptedBatch: created.encryptedBatch, builtIndex: null };
+    }
+
+    const version = getBatchVersion(batch, this.storageIndex?.lastUpdated);
+    const persisted = await this.persistentStore.getBatch(batch.batchId, version);
+    if (persisted) {
+      // The version only compares checksum strings - a kept copy that no longer hashes to it is refetched
+      if (await this.matchesBatchChecksum(batch, persisted.encryptedBatch)) {
+        console.log(`[ColdStorageWorker] ✓ Using kept copy of ${batch.batchId} from IndexedDB`);
+        return { encryptedBatch: persisted.encryptedBatch, builtIndex: persisted.builtIndex || null };
+      }
+      console.warn(`[ColdStorageWorker] Kept copy of ${batch.batchId} does not match its checksum - fetching it again`);
+    }
+
+    const batchUrl = resolveBatchUrl(batch.url, this.storageIndexUrl);
+    console.log(`[ColdStorageWorker] Cache miss - fetching from URL: ${batchUrl}`);
     
     // Fetch batch data
     const fetchStartTime = performance.now();
-    const response = await fetch(batch.url);
+    const response = await fetch(batchUrl);
     const fetchEndTime = performance.now();
     
     console.log(`[ColdStorageWorker] Fetch completed in ${(fetchEndTime - fetchStartTime).toFixed(2)}ms`, {
@@ -1220,7 +2068,7 @@ class ColdStorageWorker {
       console.error(`[ColdStorageWorker] ❌ Fetch failed for ${batch.batchId}:`, {
         status: response.status,
         statusText: response.statusText,
-        url: batch.url
+        url: batchUrl
       });
       throw new Error(`Failed to fetch batch: ${response.status} ${response.statusText}`);
     }
@@ -1236,116 +2084,309 @@ class ColdStorageWorker {
       hasDocuments: !!rawData.documents,
       keys: Object.keys(rawData)
     });
-    
-    let batchData;
-    
-    // Check if batch is encrypted or unencrypted
-    // AIDEV-NOTE: Only support encrypted batches (encrypted-only policy)
-    if (!this.isAuthenticated) {
-      console.error(`[ColdStorageWorker] ❌ Authentication required for batch access: ${batch.batchId}`);
-      throw new Error(`Authentication required for batch access: ${batch.batchId}`);
+
+    // Only ciphertext listed by the signed index is kept
+    await this.assertBatchChecksum(batch, rawData);
+    await this.persistentStore.putBatch(batch.batchId, version, rawData);
+    return { encryptedBatch: rawData, builtIndex: null };
+  }
+
+  /**
+   * Refuse a batch that is not encrypted or whose ciphertext does not hash to its listed checksum
+   */
+  private async assertBatchChecksum(batch: BatchInfo, encryptedBatch: any): Promise<void> {
+    this.assertEncryptedBatch(batch, encryptedBatch);
+    if (!(await this.matchesBatchChecksum(batch, encryptedBatch))) {
+      throw new StorageIndexError('tampered', `Batch ${batch.batchId} does not match the checksum in the storage index`);
     }
-    
-    if (rawData.data && rawData.iv && rawData.algorithm) {
-      // Encrypted batch - decrypt it
-      console.log(`[ColdStorageWorker] ✓ Detected encrypted batch format: ${batch.batchId}`);
-      console.log(`[ColdStorageWorker] Encryption details:`, {
-        algorithm: rawData.algorithm,
-        version: rawData.version,
-        hasChecksum: !!rawData.checksum
-      });
-      console.log(`[ColdStorageWorker] Starting decryption process...`);
-      
-      const decryptStartTime = performance.now();
-      batchData = await this.decryptBatch(rawData);
-      const decryptEndTime = performance.now();
-      
-      console.log(`[ColdStorageWorker] ✓ Decryption completed in ${(decryptEndTime - decryptStartTime).toFixed(2)}ms`);
-      console.log(`[ColdStorageWorker] Decrypted data structure:`, {
-        hasDocuments: !!batchData?.documents,
-        documentCount: batchData?.documents?.length || 0,
-        hasMetadata: !!batchData?.metadata
-      });
-      
-    } else if (rawData.documents) {
-      // Unencrypted batch - not supported in encrypted-only mode
-      console.error(`[ColdStorageWorker] ❌ Unencrypted batch detected: ${batch.batchId} - violates encrypted-only policy`);
-      console.log(`[ColdStorageWorker] Raw data indicates unencrypted format:`, {
-        hasDocuments: !!rawData.documents,
-        documentCount: rawData.documents?.length || 0,
-        encryptedField: rawData.metadata?.encrypted
-      });
-      throw new Error(`Invalid batch format for ${batch.batchId}: only encrypted batches are supported`);
-    } else {
-      console.error(`[ColdStorageWorker] ❌ Unknown batch format for: ${batch.batchId}`);
-      console.log(`[ColdStorageWorker] Expected either encrypted format (data+iv+algorithm) or documents array`);
-      throw new Error(`Invalid batch format for ${batch.batchId}: unrecognized data structure`);
+  }
+
+  // SHA-256 (hex) of the document ciphertext, as written by encryptBatch and scripts/encrypt-test-data.js
+  private async matchesBatchChecksum(batch: BatchInfo, encryptedBatch: any): Promise<boolean> {
+    const data = encryptedBatch?.data;
+    if (!batch.checksum || !data) {
+      return false;
     }
 
-    // Add to cache
-    console.log(`[ColdStorageWorker] Adding ${batch.batchId} to cache...`);
-    this.addToCache(batch.batchId, batchData);
-    console.log(`[ColdStorageWorker] ✓ Batch ${batch.batchId} cached successfully`);
-    console.log(`[ColdStorageWorker] ===== BATCH DATA RETRIEVAL END =====`);
+    const ciphertext = Array.isArray(data) ? new Uint8Array(data) : Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    const checksum = Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', ciphertext)))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+    return checksum === batch.checksum;
+  }
 
-    return batchData;
+  // A kept worker-built index that fails to decrypt or is outdated is rebuilt
+  private async decryptBuiltIndex(batch: BatchInfo, builtIndex: any): Promise<SearchIndex | null> {
+    try {
+      const searchIndex = await this.encryptionService.decryptPayload(builtIndex);
+      return isSearchIndexCompatible(searchIndex) ? searchIndex : null;
+    } catch (error) {
+      console.warn(`[ColdStorageWorker] Failed to decrypt kept search index for ${batch.batchId}:`, error);
+      return null;
+    }
   }
 
+  /**
+   * Keep a worker-built index with the batch's ciphertext, encrypted under the batch's own key
+   */
+  private async persistBuiltIndex(batch: BatchInfo, searchIndex: SearchIndex): Promise<void> {
+    const version = getBatchVersion(batch, this.storageIndex?.lastUpdated);
+    const persisted = await this.persistentStore.getBatch(batch.batchId, version);
+    if (!persisted?.encryptedBatch?.salt) {
+      return;
+    }
+
+    try {
+      const builtIndex = await this.encryptionService.encryptPayload(searchIndex, persisted.encryptedBatch.salt);
+      await this.persistentStore.putBuiltIndex(batch.batchId, version, builtIndex);
+    } catch (error) {
+      console.warn(`[ColdStorageWorker] Failed to keep search index for ${batch.batchId}:`, error);
+    }
+  }
 
-  private async decryptBatch(encryptedBatch: EncryptedBatch): Promise<any> {
+  private async decryptBatchDocuments(encryptedBatch: EncryptedBatch): Promise<any> {
     if (!this.encryptionService.isInitialized()) {
       throw new Error('Encryption service not initialized');
     }
 
     try {
-      // Use EncryptionService to decrypt the batch
-      const batchData = await this.encryptionService.decryptBatch(encryptedBatch);
-      return batchData;
-
+      return await this.encryptionService.decryptBatchDocuments(encryptedBatch);
     } catch (error) {
       throw new Error(`Failed to decrypt batch: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private async searchBatchContent(batchData: any, query: string, batchId: string): Promise<any[]> {
+  /**
+   * Get the inverted index for a batch
+   * AIDEV-NOTE: Indexes share the LRU batch cache under an ":index" key so they outlive evicted documents.
+   * A cache miss decrypts only the batch's index section (or the kept worker-built index) - the
+   * documents stay encrypted unless the batch has no usable index and has to be indexed here.
+   */
+  private async getBatchIndex(batch: BatchInfo): Promise<SearchIndex> {
+    const cacheKey = this.getIndexCacheKey(batch.batchId);
+
+    const cached = this.batchCache.get(cacheKey);
+    if (cached) {
+      cached.lastAccessed = Date.now();
+      return cached.data;
+    }
+
+    if (!this.isAuthenticated || !this.encryptionService.isInitialized()) {
+      throw new Error(`Authentication required for batch access: ${batch.batchId}`);
+    }
+
+    const { encryptedBatch, builtIndex } = await this.loadEncryptedBatch(batch);
+
+    let searchIndex: SearchIndex | null = null;
+    try {
+      searchIndex = await this.encryptionService.decryptBatchIndex(encryptedBatch);
+    } catch (error) {
+      console.warn(`[ColdStorageWorker] Search index of ${batch.batchId} failed to decrypt - indexing its documents:`, error);
+    }
+    if (!(searchIndex && isSearchIndexCompatible(searchIndex)) && builtIndex) {
+      searchIndex = await this.decryptBuiltIndex(batch, builtIndex);
+    }
+    if (searchIndex && isSearchIndexCompatible(searchIndex)) {
+      this.addToCache(cacheKey, searchIndex);
+      return searchIndex;
+    }
+
+    // Batches built before indexing (or with an outdated index) are indexed on first use
+    console.log(`[ColdStorageWorker] Building search index in worker for: ${batch.batchId}`);
+    const batchData = await this.getBatchData(batch);
+    searchIndex = buildSearchIndex(batchData?.documents || []);
+    this.addToCache(cacheKey, searchIndex);
+    // Kept so the next visit skips the rebuild (batches created on this device are not fetched)
+    if (!this.localBatchIds.has(batch.batchId) && !this.createdBatchIds.has(batch.batchId)) {
+      await this.persistBuiltIndex(batch, searchIndex);
+    }
+    return searchIndex;
+  }
+
+  private getIndexCacheKey(batchId: string): string {
+    return `${batchId}${this.INDEX_CACHE_SUFFIX}`;
+  }
+
+  /**
+   * Decrypt the archive-wide corpus statistics from the storage index
+   * AIDEV-NOTE: Encrypted like batches because document frequencies reveal the archive vocabulary
+   */
+  private async getCorpusStats(): Promise<CorpusStats | null> {
+    if (this.corpusStats) {
+      return this.corpusStats;
+    }
+
+    const encryptedStats = this.storageIndex?.corpusStats;
+    if (!encryptedStats) {
+      return null;
+    }
+
+    if (encryptedStats.version !== CORPUS_STATS_VERSION) {
+      console.warn(`[ColdStorageWorker] Ignoring corpus statistics version ${encryptedStats.version} (expected ${CORPUS_STATS_VERSION})`);
+      return null;
+    }
+
+    try {
+      this.corpusStats = mergeCorpusStats(await this.encryptionService.decryptPayload(encryptedStats), null);
+      console.log('[ColdStorageWorker] Corpus statistics decrypted:', {
+        documentCount: this.corpusStats.documentCount,
+        termCount: Object.keys(this.corpusStats.documentFrequencies).length
+      });
+      return this.corpusStats;
+    } catch (error) {
+      console.warn('[ColdStorageWorker] Failed to decrypt corpus statistics, using per-batch statistics:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Decrypt the archive-wide filter facets from the storage index
+   */
+  private async getArchiveFacets(): Promise<Facets | null> {
+    if (this.facets) {
+      return this.facets;
+    }
+
+    const encryptedFacets = this.storageIndex?.facets;
+    if (!encryptedFacets) {
+      return null;
+    }
+
+    if (encryptedFacets.version !== FACETS_VERSION) {
+      console.warn(`[ColdStorageWorker] Ignoring facets version ${encryptedFacets.version} (expected ${FACETS_VERSION})`);
+      return null;
+    }
+
+    try {
+      this.facets = mergeFacets(await this.encryptionService.decryptPayload(encryptedFacets), null);
+      return this.facets;
+    } catch (error) {
+      console.warn('[ColdStorageWorker] Failed to decrypt facets:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add one batch index to the archive facets, replacing older copies of the cases it refreshes
+   * @returns the merged facets and how many of the batch's documents were already archived
+   */
+  private async mergeArchiveFacets(
+    facets: Facets | null,
+    searchIndex: SearchIndex,
+    batchId: string
+  ): Promise<{ facets: Facets; supersededCount: number }> {
+    const previousIndexes: Record<string, SearchIndex> = {};
+    let supersededCount = 0;
+    for (const [previousBatchId, documentIds] of getSupersededBatches(facets, searchIndex, batchId)) {
+      const previousBatch = this.storageIndex?.batches.find(batch => batch.batchId === previousBatchId);
+      if (!previousBatch) {
+        continue;
+      }
+      supersededCount += documentIds.length;
+      try {
+        previousIndexes[previousBatchId] = await this.getBatchIndex(previousBatch);
+      } catch (error) {
+        console.warn(`[ColdStorageWorker] Could not load superseded batch ${previousBatchId} - its copies stay in the filter counts:`, error);
+      }
+    }
+    if (supersededCount > 0) {
+      console.log(`[ColdStorageWorker] Batch ${batchId} replaces ${supersededCount} older case copies`);
+    }
+    return { facets: mergeFacets(facets, searchIndex, batchId, previousIndexes), supersededCount };
+  }
+
+  private async getSearchScoring(parsedQuery: ParsedQuery): Promise<SearchScoring | null> {
+    const corpusStats = await this.getCorpusStats();
+    if (!corpusStats) {
+      console.warn('[ColdStorageWorker] No corpus statistics in storage index - BM25 scores are not comparable across batches');
+      return null;
+    }
+    return this.createSearchScoring(parsedQuery, corpusStats);
+  }
+
+  private createSearchScoring(parsedQuery: ParsedQuery, corpusStats: CorpusStats): SearchScoring {
+    const idf = new Map<string, number>();
+    for (const clause of getScoringClauses(parsedQuery.root)) {
+      // Phrase and NEAR clauses weigh the sum of their terms' idf (rarer combinations rank higher)
+      idf.set(clause.key, clause.terms.reduce(
+        (sum, term) => sum + inverseDocumentFrequency(corpusStats.documentCount, getDocumentFrequency(corpusStats, term)),
+        0
+      ));
+    }
+    return {
+      idf,
+      averageDocumentLength: getAverageDocumentLength(corpusStats)
+    };
+  }
+
+  private async searchBatchContent(batch: BatchInfo, searchIndex: SearchIndex, context: SearchContext): Promise<any[]> {
     const results: any[] = [];
-    const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+    const { scoring, documentFilter, batchCorrectionSensitivity } = context;
+
+    // Without archive statistics, correct typos and score with this batch's own terms
+    const { parsedQuery, corrections } = batchCorrectionSensitivity !== null
+      ? correctQuery(context.parsedQuery, Object.keys(searchIndex.postings), batchCorrectionSensitivity)
+      : context;
+    const batchScoring = scoring || this.createSearchScoring(parsedQuery, buildCorpusStats([searchIndex]));
+
+    // Evaluate terms, phrases and NEAR clauses against the postings positions
+    const hits = new Map<number, { relevance: number; spans: Array<[number, number]>; correctedTerms: TermCorrection[] }>();
+    for (const [documentIndex, match] of evaluateQuery(parsedQuery.root, searchIndex)) {
+      // A refreshed case is only found in the batch holding its latest copy
+      if (isSupersededCopy(context.facets, searchIndex.documentIds[documentIndex], batch.batchId)) {
+        continue;
+      }
+      if (documentFilter && !documentFilter(field => searchIndex.fields[field]?.[documentIndex] || '')) {
+        continue;
+      }
 
-    if (!batchData.documents || !Array.isArray(batchData.documents)) {
+      let relevance = 0;
+      for (const [clauseKey, frequency] of match.frequencies) {
+        relevance += scoreBM25(
+          frequency,
+          searchIndex.documentLengths[documentIndex] || 0,
+          batchScoring.averageDocumentLength,
+          batchScoring.idf.get(clauseKey) || 0
+        );
+      }
+      hits.set(documentIndex, {
+        relevance,
+        spans: match.spans,
+        correctedTerms: getMatchedCorrections(corrections, parsedQuery, match.frequencies)
+      });
+    }
+
+    if (hits.size === 0) {
       return results;
     }
 
-    for (const document of batchData.documents) {
-      const content = document.content || '';
-      const contentLower = content.toLowerCase();
-      
-      let relevance = 0;
-      const matches: string[] = [];
+    // Only batches with hits need their documents for metadata and snippets
+    const batchData = await this.getBatchData(batch);
+    if (!batchData.documents || !Array.isArray(batchData.documents)) {
+      return results;
+    }
 
-      // Simple relevance scoring
-      for (const term of queryTerms) {
-        const termMatches = (contentLower.match(new RegExp(term, 'g')) || []).length;
-        relevance += termMatches;
-        if (termMatches > 0) {
-          matches.push(term);
-        }
+    for (const [documentIndex, hit] of hits) {
+      const document = batchData.documents[documentIndex];
+      if (!document) {
+        continue;
       }
 
-      if (relevance > 0) {
-        // AIDEV-NOTE: Include all document fields except content for comprehensive metadata  
-        const { content: _, ...documentFields } = document;
-        
-        // Extract snippet around first match
-        const snippet = this.extractSnippet(content, matches[0]);
-        results.push({
-          ...documentFields, // Includes id, filename, case_type, case_id, lpa_name, decision_outcome, etc.
-          snippet,
-          relevance,
-          tier: 'cold',
-          isArchived: true,
-          batchId
-        });
-      }
+      // AIDEV-NOTE: Include all document fields except content for comprehensive metadata  
+      const { content = '', ...documentFields } = document;
+      
+      // Snippet around the first match, with whole phrase / NEAR spans highlighted
+      const snippet = buildQuerySnippet(content, hit.spans);
+      results.push({
+        ...documentFields, // Includes id, filename, case_type, case_id, lpa_name, decision_outcome, etc.
+        snippet,
+        relevance: hit.relevance,
+        // Spelling corrections that produced this match ("conservaton" → "conservation")
+        ...(hit.correctedTerms.length > 0 ? { correctedTerms: hit.correctedTerms } : {}),
+        tier: 'cold',
+        isArchived: true,
+        batchId: batch.batchId
+      });
     }
 
     return results;
@@ -1353,9 +2394,18 @@ class ColdStorageWorker {
 
   /**
    * Search batches with progress reporting and phase tracking
-   * AIDEV-NOTE: Supports comprehensive search with real-time progress updates
+   * AIDEV-NOTE: Supports comprehensive search with real-time progress updates. Each chunk streams
+   * its best hits in the requested order as partialResults - the union of every chunk's first page
+   * holds the overall first page, so the UI can rank partial results without receiving every hit.
    */
-  private async searchBatchesWithProgress(batches: BatchInfo[], query: string, messageId?: string, phase: string = 'search'): Promise<any[]> {
+  private async searchBatchesWithProgress(
+    batches: BatchInfo[],
+    context: SearchContext,
+    messageId?: string,
+    phase: string = 'search',
+    progress: SearchProgressScope = { completedBefore: 0, totalBatches: batches.length, pageOptions: {} }
+  ): Promise<any[]> {
+    const { sortBy, sortOrder, offset = 0, limit = DEFAULT_RESULT_PAGE_SIZE } = progress.pageOptions;
     const allResults: any[] = [];
     let completedBatches = 0;
     
@@ -1363,6 +2413,7 @@ class ColdStorageWorker {
 
     // Process batches in chunks to manage memory
     for (let i = 0; i < batches.length; i += this.MAX_CONCURRENT_BATCHES) {
+      this.throwIfSearchCancelled(messageId);
       const batchChunk = batches.slice(i, i + this.MAX_CONCURRENT_BATCHES);
       console.log(`[ColdStorageWorker] ${phase} - Processing chunk ${Math.floor(i / this.MAX_CONCURRENT_BATCHES) + 1}:`, {
         phase,
@@ -1371,23 +2422,23 @@ class ColdStorageWorker {
       });
       
       // Search chunk of batches
-      const chunkResults = await this.searchBatchChunk(batchChunk, query);
+      const chunkResults = await this.searchBatchChunk(batchChunk, context);
       console.log(`[ColdStorageWorker] ${phase} - Chunk returned ${chunkResults.length} results`);
       allResults.push(...chunkResults);
 
       completedBatches += batchChunk.length;
 
-      // Report progress with phase information
+      // Report progress with phase information (batch counts cover the whole search)
       if (messageId) {
         this.postMessage({
           type: 'cold-search-progress',
           id: messageId,
           payload: { 
             message: `${phase === 'high-priority' ? 'Phase 1' : 'Phase 2'}: Searched ${completedBatches}/${batches.length} batches...`,
-            totalBatches: batches.length,
-            completedBatches,
+            totalBatches: progress.totalBatches,
+            completedBatches: progress.completedBefore + completedBatches,
             currentPhase: phase,
-            partialResults: chunkResults
+            partialResults: sortSearchResults(chunkResults, sortBy, sortOrder).slice(0, offset + limit)
           }
         });
       }
@@ -1400,63 +2451,11 @@ class ColdStorageWorker {
     return allResults;
   }
 
-  private extractSnippet(content: string, searchTerm: string, contextLength: number = 150): string {
-    const index = content.toLowerCase().indexOf(searchTerm.toLowerCase());
-    if (index === -1) {
-      return content.substring(0, contextLength) + '...';
-    }
-
-    const start = Math.max(0, index - contextLength / 2);
-    const end = Math.min(content.length, index + searchTerm.length + contextLength / 2);
-    
-    let snippet = content.substring(start, end);
-    
-    if (start > 0) snippet = '...' + snippet;
-    if (end < content.length) snippet = snippet + '...';
-
-    // Highlight search term
-    const regex = new RegExp(`(${searchTerm})`, 'gi');
-    snippet = snippet.replace(regex, '<mark>$1</mark>');
-
-    return snippet;
-  }
-
-  /**
-   * Validate that all batches in storage index are encrypted (encrypted-only policy)
-   * AIDEV-NOTE: Enforces security policy that all cold storage must be encrypted
-   */
-  private validateStorageIndexEncryption() {
-    if (!this.storageIndex || !this.storageIndex.batches) {
-      return; // No batches to validate
-    }
-    
-    // Check encryption policy in metadata
-    const encryptionPolicy = this.storageIndex.metadata?.encryptionPolicy;
-    if (encryptionPolicy !== 'required') {
-      console.warn('[ColdStorageWorker] Storage index does not enforce encryption policy');
-    }
-    
-    // Validate each batch
-    const unencryptedBatches = this.storageIndex.batches.filter(batch => 
-      batch.hasOwnProperty('encrypted') && batch.encrypted === false
-    );
-    
-    if (unencryptedBatches.length > 0) {
-      const batchIds = unencryptedBatches.map(b => b.batchId).join(', ');
-      throw new Error(`Encrypted-only policy violation: Found unencrypted batches: ${batchIds}`);
-    }
-    
-    console.log('[ColdStorageWorker] Storage index encryption validation passed:', {
-      totalBatches: this.storageIndex.batches.length,
-      encryptionPolicy: encryptionPolicy
-    });
-  }
-
   private addToCache(batchId: string, data: any) {
     const dataSize = JSON.stringify(data).length * 2; // Rough UTF-16 size estimate
 
     // Evict entries if cache would exceed limit
-    while (this.currentCacheSize + dataSize > this.MAX_CACHE_SIZE && this.batchCache.size > 0) {
+    while (this.currentCacheSize + dataSize > this.maxCacheSize && this.batchCache.size > 0) {
       this.evictOldestCacheEntry();
     }
 
@@ -1511,9 +2510,33 @@ class ColdStorageWorker {
 
   // AIDEV-NOTE: Utility methods delegated to EncryptionService for consistency
 
+  private handleConfigure(payload: any, id?: string) {
+    if (Number.isInteger(payload?.workerIndex)) {
+      this.workerIndex = payload.workerIndex;
+    }
+    if (payload?.maxCacheSize > 0) {
+      this.maxCacheSize = payload.maxCacheSize;
+      while (this.currentCacheSize > this.maxCacheSize && this.batchCache.size > 0) {
+        const sizeBefore = this.currentCacheSize;
+        this.evictOldestCacheEntry();
+        if (this.currentCacheSize === sizeBefore) {
+          break;
+        }
+      }
+    }
+    console.log(`[ColdStorageWorker] Worker ${this.workerIndex} configured:`, {
+      maxCacheSize: `${Math.round(this.maxCacheSize / 1024 / 1024)}MB`
+    });
+
+    this.postMessage({
+      type: 'configured',
+      id,
+      payload: { workerIndex: this.workerIndex, maxCacheSize: this.maxCacheSize }
+    });
+  }
+
   private async handleClearCache(id?: string) {
-    this.batchCache.clear();
-    this.currentCacheSize = 0;
+    this.clearSessionCaches();
 
     this.postMessage({
       type: 'cache-cleared',
@@ -1522,18 +2545,82 @@ class ColdStorageWorker {
     });
   }
 
+  /**
+   * Drop the credentials and everything decrypted with them; running searches stop at their next chunk
+   */
+  private handleLogout(id?: string) {
+    for (const searchId of this.activeSearches.keys()) {
+      this.activeSearches.set(searchId, true);
+    }
+    this.clearSessionCaches();
+    this.encryptionService.clearCredentials();
+    this.isAuthenticated = false;
+    this.storageIndexVerified = false;
+
+    this.postMessage({
+      type: 'logged-out',
+      id,
+      payload: { success: true }
+    });
+  }
+
+  // Plaintext batches, derived batch keys and decrypted index sections
+  private clearSessionCaches() {
+    this.batchCache.clear();
+    this.encryptionService.clearKeyCache();
+    this.currentCacheSize = 0;
+    this.corpusStats = null;
+    this.facets = null;
+    this.resultFacets = null;
+    this.resultSets.clear();
+  }
+
   private async handleGetCacheStats(id?: string) {
     this.postMessage({
       type: 'cache-stats',
       id,
       payload: {
         cacheSize: this.currentCacheSize,
-        cachedBatches: this.batchCache.size,
-        maxCacheSize: this.MAX_CACHE_SIZE
+        cachedBatches: Array.from(this.batchCache.keys()).filter(key => !key.endsWith(this.INDEX_CACHE_SUFFIX)).length,
+        cachedIndexes: Array.from(this.batchCache.keys()).filter(key => key.endsWith(this.INDEX_CACHE_SUFFIX)).length,
+        cachedKeys: this.encryptionService.cachedKeyCount,
+        maxCacheSize: this.maxCacheSize
       }
     });
   }
 
+  private async handleGetFacets(id?: string) {
+    try {
+      if (!this.isAuthenticated) {
+        throw new Error('Authentication required for cold storage access');
+      }
+
+      const facets = await this.getArchiveFacets();
+      if (!facets) {
+        console.warn('[ColdStorageWorker] No facets in storage index - filter options will be empty');
+      }
+      // The case and batch maps are for imports and search, not filter options
+      const archive = facets?.cases ? { ...facets, cases: undefined, caseBatches: undefined } : facets;
+
+      this.postMessage({
+        type: 'facets',
+        id,
+        payload: {
+          archive,
+          results: this.resultFacets?.facets || null,
+          query: this.resultFacets?.query || null
+        }
+      });
+    } catch (error) {
+      console.error('[ColdStorageWorker] Failed to get facets:', error);
+      this.postMessage({
+        type: 'get-facets-error',
+        id,
+        payload: { message: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    }
+  }
+
   private async handleCreateBatch(payload: any, id?: string) {
     try {
       if (!this.encryptionService.isInitialized()) {
@@ -1561,35 +2648,81 @@ class ColdStorageWorker {
         }
       };
 
+      // Build the inverted index at creation time so searches never scan document content
+      const searchIndex = buildSearchIndex(documents);
+
       // Encrypt the batch using the encryption service
-      const encryptedBatch = await this.encryptionService.encryptBatch(batchData);
+      const encryptedBatch = await this.encryptionService.encryptBatch(batchData, searchIndex);
       
       console.log(`[ColdStorageWorker] Batch ${batchId} encrypted successfully`);
 
-      // In a real implementation, this would save to file system or send to server
-      // For now, we'll simulate successful creation and update the storage index
-      
+      const createdAt = new Date().toISOString();
+
       // Create batch metadata for storage index
       const batchMetadata = {
         batchId: `${batchId}-encrypted`,
-        url: `/decision-parser/cold-storage/${batchId}-encrypted.json`,
+        // Relative to the storage index, like every batch in a published archive
+        url: `${batchId}-encrypted.json`,
         documentCount: documents.length,
         dateRange: metadata.dateRange || {
-          start: new Date().toISOString(),
-          end: new Date().toISOString()
+          start: createdAt,
+          end: createdAt
         },
-        keywords: metadata.keywords || [],
+        keywords: normaliseKeywords(metadata.keywords),
         size: `${Math.round(JSON.stringify(encryptedBatch).length / 1024)}KB`,
-        encrypted: true
+        encrypted: true,
+        checksum: encryptedBatch.checksum as string
       };
 
-      // Update storage index (in memory for now)
+      // AIDEV-NOTE: Kept in IndexedDB so the batch survives reloads; applyLocalBatches adds it to each
+      // freshly loaded index until a published one lists it. Without IndexedDB it lasts this session only.
+      const createdBatch: CreatedBatch = { batchId: batchMetadata.batchId, entry: batchMetadata, encryptedBatch, createdAt };
+      const persisted = await this.persistentStore.putCreatedBatch(createdBatch);
+      if (persisted) {
+        this.localBatchIds.add(batchMetadata.batchId);
+      } else {
+        console.warn(`[ColdStorageWorker] Batch ${batchMetadata.batchId} could not be kept in IndexedDB - it will be lost on reload unless exported`);
+        this.createdBatchIds.add(batchMetadata.batchId);
+        this.unsavedBatches.set(batchMetadata.batchId, createdBatch);
+      }
+
       const storageIndex = this.storageIndex;
       if (storageIndex && Array.isArray(storageIndex.batches)) {
-        storageIndex.totalDocuments = (storageIndex.totalDocuments || 0) + documents.length;
-        storageIndex.totalBatches = (storageIndex.totalBatches || 0) + 1;
-        storageIndex.lastUpdated = new Date().toISOString();
+        storageIndex.version = STORAGE_INDEX_VERSION;
+        storageIndex.lastUpdated = createdAt;
         storageIndex.batches.push(batchMetadata);
+        storageIndex.totalBatches = storageIndex.batches.length;
+
+        // Keep corpus statistics in step so BM25 scores stay comparable with existing batches
+        const corpusStats = await this.getCorpusStats();
+        if (corpusStats || storageIndex.batches.length === 1) {
+          this.corpusStats = mergeCorpusStats(corpusStats, searchIndex);
+          storageIndex.corpusStats = {
+            version: CORPUS_STATS_VERSION,
+            // The previous salt or the new batch's - both keys are already derived this session
+            ...(await this.encryptionService.encryptPayload(this.corpusStats, storageIndex.corpusStats?.salt ?? encryptedBatch.salt))
+          };
+        }
+
+        // Same for the filter facets, so new LPAs, officers and outcomes appear in the dropdowns
+        const facets = await this.getArchiveFacets();
+        let supersededCount = 0;
+        if (facets || storageIndex.batches.length === 1) {
+          ({ facets: this.facets, supersededCount } = await this.mergeArchiveFacets(facets, searchIndex, batchMetadata.batchId));
+          storageIndex.facets = {
+            version: FACETS_VERSION,
+            ...(await this.encryptionService.encryptPayload(this.facets, storageIndex.facets?.salt ?? encryptedBatch.salt))
+          };
+        }
+        // Counted after the facets so cases this batch refreshes are not counted twice
+        storageIndex.totalDocuments = (storageIndex.totalDocuments || 0) + documents.length - supersededCount;
+        if (supersededCount > 0) {
+          // Hits from before may include the replaced copies
+          this.resultSets.clear();
+        }
+
+        // The manifest covers the new batch, so the rewritten index verifies like a published one
+        storageIndex.manifest = await this.encryptionService.signStorageIndex(storageIndex);
         
         console.log(`[ColdStorageWorker] Storage index updated - total documents: ${storageIndex.totalDocuments}, total batches: ${storageIndex.totalBatches}`);
       } else {
@@ -1598,6 +2731,7 @@ class ColdStorageWorker {
 
       // Add to cache for immediate availability
       this.addToCache(`${batchId}-encrypted`, batchData);
+      this.addToCache(this.getIndexCacheKey(`${batchId}-encrypted`), searchIndex);
 
       this.postMessage({
         type: 'create-batch-response',
@@ -1606,7 +2740,10 @@ class ColdStorageWorker {
           success: true,
           batchId: `${batchId}-encrypted`,
           documentCount: documents.length,
-          metadata: batchMetadata
+          metadata: batchMetadata,
+          persisted,
+          storageIndex: this.storageIndex,
+          localBatchCount: this.getLocalBatchCount()
         }
       });
 
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for recording and replaying scraping fixtures
+ *
+ * AIDEV-NOTE: Records through a fake live client into a temporary directory, then replays the
+ * fixtures through the real WebScraper parsing path
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+  FIXTURE_INDEX_FILE,
+  FileSystemFixtureStore,
+  FixtureHttpClient,
+  UrlFixtureStore,
+  getFixtureName
+} from '../../../src/services/scraping/FixtureHttpClient';
+import { HttpRequestError, isRetryableRequestError } from '../../../src/services/scraping/HttpClient';
+import { EnvironmentDetector } from '../../../src/services/scraping/EnvironmentDetector';
+import { WebScraper } from '../../../src/services/scraping/WebScraper';
+import type { IHttpClient } from '../../../src/services/scraping/interfaces';
+
+const CASE_URL = 'https://acp.planninginspectorate.gov.uk/ViewCase.aspx?CaseID=3300001';
+const PDF_URL = 'https://acp.planninginspectorate.gov.uk/ViewDocument.ashx?fileid=42';
+
+const CASE_PAGE = `<html><body>
+  <span id="cphMainContent_labCaseTypeName">Planning Appeal (W)</span>
+  <span id="cphMainContent_labLPAName">Leeds</span>
+  <span id="cphMainContent_labStatus">Decided</span>
+  <span id="cphMainContent_labOutcome">Dismissed</span>
+  <span id="cphMainContent_labLinkedCaseCount">2</span>
+  <span id="cphMainContent_labDecisionLink"><a href="ViewDocument.ashx?fileid=42">Decision</a></span>
+</body></html>`;
+
+const PDF_BYTES = new TextEncoder().encode('%PDF-1.4 recorded decision');
+
+function createLiveClient(): IHttpClient {
+  return {
+    get: vi.fn(async () => CASE_PAGE),
+    download: vi.fn(async () => PDF_BYTES.slice().buffer),
+    setHeaders: vi.fn()
+  };
+}
+
+describe('FixtureHttpClient', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'scraping-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+    delete window.__DECISION_PARSER_CONFIG__;
+  });
+
+  describe('getFixtureName', () => {
+    it('should flatten the path and query into a file name', () => {
+      expect(getFixtureName(CASE_URL, 'html')).toBe('ViewCase.aspx_CaseID_3300001.html');
+      expect(getFixtureName(PDF_URL, 'pdf')).toBe('ViewDocument.ashx_fileid_42.pdf');
+    });
+  });
+
+  describe('record and replay', () => {
+    it('should save live pages and PDFs with an index', async () => {
+      const recorder = new FixtureHttpClient(new FileSystemFixtureStore(directory), 'record', createLiveClient());
+
+      await expect(recorder.get(CASE_URL)).resolves.toBe(CASE_PAGE);
+      await recorder.download(PDF_URL);
+
+      expect(await readFile(join(directory, 'ViewCase.aspx_CaseID_3300001.html'), 'utf8')).toBe(CASE_PAGE);
+      expect(JSON.parse(await readFile(join(directory, FIXTURE_INDEX_FILE), 'utf8')))
+        .toEqual(['ViewCase.aspx_CaseID_3300001.html', 'ViewDocument.ashx_fileid_42.pdf']);
+    });
+
+    it('should run replayed pages through the real scraper without touching the network', async () => {
+      const liveClient = createLiveClient();
+      await new FixtureHttpClient(new FileSystemFixtureStore(directory), 'record', liveClient).get(CASE_URL);
+      await new FixtureHttpClient(new FileSystemFixtureStore(directory), 'record', liveClient).download(PDF_URL);
+
+      const player = new FixtureHttpClient(new FileSystemFixtureStore(directory), 'replay');
+      const caseData = await new WebScraper(player, new EnvironmentDetector()).scrapeAppealCase('3300001');
+
+      expect(caseData).toMatchObject({
+        case_id: '3300001',
+        lpa_name: 'Leeds',
+        status: 'Decided',
+        decision_outcome: 'Dismissed',
+        linked_case_count: 2,
+        pdfUrl: PDF_URL
+      });
+      // Compared as Buffers - the fixture store reads Node.js bytes, which are not the test DOM's Uint8Array
+      const recorded = await readFile(join(directory, 'ViewDocument.ashx_fileid_42.pdf'));
+      expect(recorded.equals(Buffer.from(PDF_BYTES))).toBe(true);
+      expect(Buffer.from(await player.download(PDF_URL)).equals(recorded)).toBe(true);
+      expect(liveClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat a missing fixture as a case the site does not have', async () => {
+      const player = new FixtureHttpClient(new FileSystemFixtureStore(directory), 'replay');
+
+      const error = await player.get(CASE_URL).catch(caught => caught);
+      expect(error).toBeInstanceOf(HttpRequestError);
+      expect(error.status).toBe(404);
+      expect(isRetryableRequestError(error)).toBe(false);
+    });
+
+    it('should need a live client to record', () => {
+      expect(() => new FixtureHttpClient(new FileSystemFixtureStore(directory), 'record')).toThrow('live HTTP client');
+    });
+  });
+
+  describe('UrlFixtureStore', () => {
+    it('should only fetch fixtures listed in the index', async () => {
+      const fetchMock = vi.fn(async (url: string) => url.endsWith(FIXTURE_INDEX_FILE)
+        ? new Response(JSON.stringify(['ViewCase.aspx_CaseID_3300001.html']))
+        : new Response(CASE_PAGE));
+      vi.stubGlobal('fetch', fetchMock);
+
+      try {
+        const store = new UrlFixtureStore('/fixtures/scraping');
+        expect(new TextDecoder().decode((await store.read('ViewCase.aspx_CaseID_3300001.html'))!)).toBe(CASE_PAGE);
+        expect(await store.read('ViewCase.aspx_CaseID_3300002.html')).toBeNull();
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+          '/fixtures/scraping/index.json',
+          '/fixtures/scraping/ViewCase.aspx_CaseID_3300001.html'
+        ]);
+        await expect(store.write('ViewCase.aspx_CaseID_3300002.html')).rejects.toThrow('recorded from Node.js');
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('EnvironmentDetector.getScrapingMode', () => {
+    it('should follow the configured mode and fall back to the environment', () => {
+      const detector = new EnvironmentDetector();
+      const fallback = detector.isLocalDevelopment() ? 'simulate' : 'live';
+
+      expect(detector.getScrapingMode()).toBe(fallback);
+
+      window.__DECISION_PARSER_CONFIG__ = { scrapingMode: 'Replay' };
+      expect(detector.getScrapingMode()).toBe('replay');
+
+      window.__DECISION_PARSER_CONFIG__ = { scrapingMode: 'offline' };
+      expect(detector.getScrapingMode()).toBe(fallback);
+    });
+  });
+});
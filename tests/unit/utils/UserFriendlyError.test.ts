@@ -225,6 +225,20 @@ describe('UserFriendlyError', () => {
         expect(error.recoveryActions[0].label).toBe('Retry');
         expect(error.recoveryActions[1].label).toBe('Report Issue');
       });
+
+      it('should create storage index errors for each rejection reason', () => {
+        const tampered = UserFriendlyErrorFactory.storageIndex('tampered', 'Storage index manifest does not match its contents');
+        const stale = UserFriendlyErrorFactory.storageIndex('stale', 'Storage index is older than the one already verified');
+
+        expect(tampered.title).toBe('Archive Index Not Trusted');
+        expect(tampered.severity).toBe('critical');
+        expect(tampered.context.operation).toBe('storage-index');
+        expect(tampered.context.technicalDetails).toBe('Storage index manifest does not match its contents');
+        expect(stale.title).toBe('Archive Index Out of Date');
+        expect(stale.severity).toBe('error');
+        expect(UserFriendlyErrorFactory.storageIndex('invalid', 'bad').title).toBe('Archive Index Invalid');
+        expect(UserFriendlyErrorFactory.storageIndex('unsigned', 'no manifest').title).toBe('Archive Index Not Trusted');
+      });
     });
 
     describe('Validation Errors', () => {
@@ -365,6 +379,16 @@ describe('UserFriendlyError', () => {
         expect(ErrorHelpers.isUserFriendlyError('string')).toBe(false);
         expect(ErrorHelpers.isUserFriendlyError(null)).toBe(false);
       });
+
+      it('should identify cancelled operations', () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        expect(ErrorHelpers.isAbortError(new DOMException('Search cancelled', 'AbortError'))).toBe(true);
+        expect(ErrorHelpers.isAbortError(controller.signal.reason)).toBe(true);
+        expect(ErrorHelpers.isAbortError(new Error('Search failed'))).toBe(false);
+        expect(ErrorHelpers.isAbortError(null)).toBe(false);
+      });
     });
 
     describe('Message Extraction', () => {
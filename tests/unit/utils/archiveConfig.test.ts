@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for cold storage archive configuration
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_ARCHIVE_ID,
+  getRuntimeConfig,
+  getStorageIndexUrl,
+  resolveArchives,
+  resolveBatchUrl
+} from '../../../src/utils/archiveConfig';
+
+describe('archiveConfig', () => {
+  afterEach(() => {
+    delete window.__DECISION_PARSER_CONFIG__;
+    vi.restoreAllMocks();
+  });
+
+  describe('getRuntimeConfig', () => {
+    it('should read the configuration set by runtime-config.js', () => {
+      window.__DECISION_PARSER_CONFIG__ = { caseReferencesUrl: '/refs.csv' };
+
+      expect(getRuntimeConfig()).toEqual({ caseReferencesUrl: '/refs.csv' });
+    });
+
+    it('should be empty when runtime-config.js sets nothing', () => {
+      expect(getRuntimeConfig()).toEqual({});
+    });
+  });
+
+  describe('resolveArchives', () => {
+    it('should default to the cold-storage folder under the app base path', () => {
+      expect(resolveArchives(undefined, '/decision-parser/')).toEqual([
+        { id: DEFAULT_ARCHIVE_ID, name: 'Appeal decisions', baseUrl: '/decision-parser/cold-storage/' }
+      ]);
+      expect(resolveArchives([], '/fork')[0].baseUrl).toBe('/fork/cold-storage/');
+    });
+
+    it('should normalise configured archives', () => {
+      const archives = resolveArchives([
+        { id: 'north', name: ' North region ', baseUrl: 'cold-storage/north' },
+        { id: 'south', baseUrl: 'https://static.example.internal/archives/south/' }
+      ], '/decision-parser/');
+
+      expect(archives).toEqual([
+        { id: 'north', name: 'North region', baseUrl: 'cold-storage/north/' },
+        { id: 'south', name: 'south', baseUrl: 'https://static.example.internal/archives/south/' }
+      ]);
+    });
+
+    it('should skip invalid and repeated archives', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const archives = resolveArchives([
+        { id: 'north', baseUrl: '/north/' },
+        { id: 'north', baseUrl: '/other/' },
+        { id: 'no spaces', baseUrl: '/spaces/' },
+        { id: 'missing-url' }
+      ], '/decision-parser/');
+
+      expect(archives.map(archive => archive.baseUrl)).toEqual(['/north/']);
+      expect(console.warn).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('URL resolution', () => {
+    const pageUrl = 'https://example.github.io/decision-parser/search?q=appeal';
+
+    it('should resolve the storage index against the page', () => {
+      expect(getStorageIndexUrl({ baseUrl: '/decision-parser/cold-storage/' }, pageUrl))
+        .toBe('https://example.github.io/decision-parser/cold-storage/storage-index.json');
+      expect(getStorageIndexUrl({ baseUrl: 'https://static.example.internal/south/' }, pageUrl))
+        .toBe('https://static.example.internal/south/storage-index.json');
+    });
+
+    it('should resolve relative batch URLs against their storage index', () => {
+      const storageIndexUrl = 'https://static.example.internal/south/storage-index.json';
+
+      expect(resolveBatchUrl('batch-001-encrypted.json', storageIndexUrl))
+        .toBe('https://static.example.internal/south/batch-001-encrypted.json');
+      expect(resolveBatchUrl('/decision-parser/cold-storage/batch-001-encrypted.json', storageIndexUrl))
+        .toBe('https://static.example.internal/decision-parser/cold-storage/batch-001-encrypted.json');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for exporting locally created cold storage batches
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createArchiveExportFiles, getBatchFileName } from '../../../src/utils/archiveExport';
+
+describe('archiveExport', () => {
+  const entry = (batchId: string, url: string) => ({
+    batchId,
+    url,
+    documentCount: 2,
+    dateRange: { start: '2026-01-01T00:00:00.000Z', end: '2026-01-31T00:00:00.000Z' },
+    keywords: ['appeal'],
+    size: '4KB',
+    encrypted: true,
+    checksum: 'abc'
+  });
+
+  const storageIndex = {
+    version: '1.0',
+    totalDocuments: 4,
+    totalBatches: 2,
+    lastUpdated: '2026-03-01T00:00:00.000Z',
+    batches: [
+      entry('batch-001-encrypted', 'batch-001-encrypted.json'),
+      entry('import-batch-a-encrypted', 'import-batch-a-encrypted.json')
+    ]
+  };
+
+  describe('getBatchFileName', () => {
+    it('should keep relative batch file names', () => {
+      expect(getBatchFileName('import-batch-a-encrypted.json')).toBe('import-batch-a-encrypted.json');
+    });
+
+    it('should drop folders and query strings', () => {
+      expect(getBatchFileName('/decision-parser/cold-storage/batch-001-encrypted.json?v=2'))
+        .toBe('batch-001-encrypted.json');
+    });
+  });
+
+  describe('createArchiveExportFiles', () => {
+    it('should write created batches and the storage index listing them', () => {
+      const encryptedBatch = { algorithm: 'AES-GCM', salt: 's', iv: 'i', data: 'd', checksum: 'abc' };
+      const files = createArchiveExportFiles({
+        storageIndex,
+        createdBatches: [{
+          batchId: 'import-batch-a-encrypted',
+          entry: storageIndex.batches[1],
+          encryptedBatch,
+          createdAt: '2026-03-01T00:00:00.000Z'
+        }]
+      });
+
+      expect(files.map(file => file.name)).toEqual(['import-batch-a-encrypted.json', 'storage-index.json']);
+      expect(JSON.parse(files[0].content)).toEqual(encryptedBatch);
+      expect(JSON.parse(files[1].content)).toEqual(storageIndex);
+    });
+
+    it('should only write the storage index when nothing was created', () => {
+      expect(createArchiveExportFiles({ storageIndex, createdBatches: [] }).map(file => file.name))
+        .toEqual(['storage-index.json']);
+    });
+
+    it('should refuse batches the storage index does not list', () => {
+      expect(() => createArchiveExportFiles({
+        storageIndex,
+        createdBatches: [{
+          batchId: 'import-batch-b-encrypted',
+          entry: entry('import-batch-b-encrypted', 'import-batch-b-encrypted.json'),
+          encryptedBatch: {},
+          createdAt: '2026-03-02T00:00:00.000Z'
+        }]
+      })).toThrow('import-batch-b-encrypted');
+    });
+  });
+});
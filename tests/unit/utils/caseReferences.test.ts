@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for parsing case reference lists, ranges and tables
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_CASE_ID_RANGE,
+  createCaseIdRange,
+  getCaseIdRangeSize,
+  getColumnCaseIds,
+  getColumnLabels,
+  guessColumnMapping,
+  parseCaseIdList,
+  parseDelimitedText
+} from '../../../src/utils/caseReferences';
+
+describe('caseReferences', () => {
+  describe('parseCaseIdList', () => {
+    it('should split on new lines, commas and spaces', () => {
+      expect(parseCaseIdList('\uFEFF3300001\r\n3300002, 3300003;3300004 3300005').caseIds)
+        .toEqual(['3300001', '3300002', '3300003', '3300004', '3300005']);
+    });
+
+    it('should count invalid and repeated values instead of importing them', () => {
+      expect(parseCaseIdList('case_id\n3300001\nAPP/123\n3300001\n\n')).toEqual({
+        caseIds: ['3300001'],
+        invalidCount: 2,
+        duplicateCount: 1
+      });
+    });
+
+    it('should keep every id without a cap', () => {
+      const text = Array.from({ length: 2500 }, (_, index) => String(3300000 + index)).join('\n');
+      expect(parseCaseIdList(text).caseIds).toHaveLength(2500);
+    });
+  });
+
+  describe('createCaseIdRange', () => {
+    it('should include both ends', () => {
+      expect(createCaseIdRange(3300000, 3300003)).toEqual(['3300000', '3300001', '3300002', '3300003']);
+    });
+
+    it('should reject reversed, fractional and oversized ranges', () => {
+      expect(() => getCaseIdRangeSize(10, 9)).toThrow('before it starts');
+      expect(() => getCaseIdRangeSize(1.5, 9)).toThrow('whole numbers');
+      expect(() => getCaseIdRangeSize(0, MAX_CASE_ID_RANGE)).toThrow('limit');
+      expect(getCaseIdRangeSize(1, MAX_CASE_ID_RANGE)).toBe(MAX_CASE_ID_RANGE);
+    });
+  });
+
+  describe('parseDelimitedText', () => {
+    it('should unescape quoted fields and skip blank lines', () => {
+      expect(parseDelimitedText('Case ID,Name\r\n3300001,"Smith, J"\n\n3300002,"The ""Mill"""\n')).toEqual([
+        ['Case ID', 'Name'],
+        ['3300001', 'Smith, J'],
+        ['3300002', 'The "Mill"']
+      ]);
+    });
+
+    it('should detect semicolon and tab separated files', () => {
+      expect(parseDelimitedText('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+      expect(parseDelimitedText('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+  });
+
+  describe('column mapping', () => {
+    const rows = [
+      ['LPA', 'Case Ref'],
+      ['Leeds', '3300001'],
+      ['York', '3300002'],
+      ['Hull', 'pending']
+    ];
+
+    it('should guess the header row and the column of case ids', () => {
+      expect(guessColumnMapping(rows)).toEqual({ column: 1, hasHeader: true });
+      expect(guessColumnMapping([['3300001'], ['3300002']])).toEqual({ column: 0, hasHeader: false });
+    });
+
+    it('should label columns by header or by letter', () => {
+      expect(getColumnLabels(rows, true)).toEqual(['LPA', 'Case Ref']);
+      expect(getColumnLabels([['', '', '']], false)).toEqual(['Column A', 'Column B', 'Column C']);
+    });
+
+    it('should read ids from the mapped column only', () => {
+      expect(getColumnCaseIds(rows, { column: 1, hasHeader: true })).toEqual({
+        caseIds: ['3300001', '3300002'],
+        invalidCount: 1,
+        duplicateCount: 0
+      });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for appeal import checkpoints
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createImportRun,
+  getPendingCaseIds,
+  isResumableImportRun,
+  recordImportBatch,
+  summariseImportRun
+} from '../../../src/utils/importJournal';
+
+describe('importJournal', () => {
+  const now = new Date('2026-04-01T09:00:00.000Z');
+  const failure = (caseId: string, error = 'Timeout') => ({ caseId, error, timestamp: now.toISOString() });
+
+  describe('createImportRun', () => {
+    it('should start with every case pending', () => {
+      const run = createImportRun(['101', '102', '103'], 2, now);
+
+      expect(run.status).toBe('running');
+      expect(run.startedAt).toBe('2026-04-01T09:00:00.000Z');
+      expect(run.lastSavedBatch).toBe(0);
+      expect(getPendingCaseIds(run)).toEqual(['101', '102', '103']);
+    });
+  });
+
+  describe('recordImportBatch', () => {
+    it('should settle saved and failed cases and remember the batch', () => {
+      const run = recordImportBatch(createImportRun(['101', '102', '103'], 2, now), 1, ['101'], [failure('102')]);
+
+      expect(run.completedCaseIds).toEqual(['101']);
+      expect(run.failedCases.map(entry => entry.caseId)).toEqual(['102']);
+      expect(run.lastSavedBatch).toBe(1);
+      expect(getPendingCaseIds(run)).toEqual(['103']);
+    });
+
+    it('should keep the last saved batch when nothing from a batch was saved', () => {
+      let run = recordImportBatch(createImportRun(['101', '102'], 1, now), 1, ['101'], []);
+      run = recordImportBatch(run, null, [], [failure('102')]);
+
+      expect(run.lastSavedBatch).toBe(1);
+    });
+
+    it('should clear an earlier failure once the case is saved', () => {
+      let run = recordImportBatch(createImportRun(['101'], 1, now), null, [], [failure('101')]);
+      run = recordImportBatch(run, 2, ['101'], []);
+
+      expect(run.failedCases).toEqual([]);
+      expect(run.completedCaseIds).toEqual(['101']);
+    });
+
+    it('should keep only the latest error for a case that fails again', () => {
+      let run = recordImportBatch(createImportRun(['101'], 1, now), null, [], [failure('101', 'Timeout')]);
+      run = recordImportBatch(run, null, [], [failure('101', 'HTTP 503')]);
+
+      expect(run.failedCases).toEqual([failure('101', 'HTTP 503')]);
+    });
+  });
+
+  describe('transient failures', () => {
+    it('should retry cases that failed on a lost connection when the run is resumed', () => {
+      const transient = { ...failure('102', 'Network Error'), retryable: true };
+      let run = recordImportBatch(createImportRun(['101', '102', '103'], 3, now), 1, ['101'], [transient, failure('103', 'HTTP 404')]);
+      run = { ...run, status: 'complete' };
+
+      expect(getPendingCaseIds(run)).toEqual(['102']);
+      expect(isResumableImportRun(run)).toBe(true);
+      expect(summariseImportRun(run)).toMatchObject({ completedCases: 1, failedCases: 1, pendingCases: 1 });
+
+      // The resumed run imports only the pending case, and it is saved this time
+      run = recordImportBatch({ ...run, status: 'running' }, 2, getPendingCaseIds(run), []);
+
+      expect(getPendingCaseIds(run)).toEqual([]);
+      expect(run.failedCases.map(entry => entry.caseId)).toEqual(['103']);
+      expect(isResumableImportRun({ ...run, status: 'complete' })).toBe(false);
+    });
+  });
+
+  describe('isResumableImportRun', () => {
+    it('should resume interrupted runs with pending cases', () => {
+      const run = createImportRun(['101', '102'], 1, now);
+
+      expect(isResumableImportRun(run)).toBe(true);
+      expect(isResumableImportRun({ ...run, status: 'cancelled' })).toBe(true);
+      expect(isResumableImportRun({ ...run, status: 'failed' })).toBe(true);
+    });
+
+    it('should not resume finished, superseded or fully settled runs', () => {
+      const run = createImportRun(['101'], 1, now);
+
+      expect(isResumableImportRun({ ...run, status: 'complete' })).toBe(false);
+      expect(isResumableImportRun({ ...run, status: 'superseded' })).toBe(false);
+      expect(isResumableImportRun(recordImportBatch(run, 1, ['101'], []))).toBe(false);
+    });
+  });
+
+  describe('summariseImportRun', () => {
+    it('should count completed, failed and pending cases', () => {
+      const run = recordImportBatch(createImportRun(['101', '102', '103', '104'], 2, now), 1, ['101'], [failure('102')]);
+
+      expect(summariseImportRun(run)).toMatchObject({
+        totalCases: 4,
+        completedCases: 1,
+        failedCases: 1,
+        pendingCases: 2,
+        lastSavedBatch: 1
+      });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for choosing the cases an incremental import fetches
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isFinalCaseStatus, selectCasesToImport } from '../../../src/utils/incrementalImport';
+import {
+  buildFacets,
+  buildSearchIndex,
+  getSupersededBatches,
+  isSupersededCopy,
+  mergeFacets
+} from '../../../src/utils/searchIndex.js';
+
+describe('incrementalImport', () => {
+  describe('isFinalCaseStatus', () => {
+    it('should treat decided and closed cases as final', () => {
+      expect(isFinalCaseStatus('Decided')).toBe(true);
+      expect(isFinalCaseStatus(' closed ')).toBe(true);
+      expect(isFinalCaseStatus('Turned  Away')).toBe(true);
+    });
+
+    it('should treat open, unknown and missing statuses as changing', () => {
+      expect(isFinalCaseStatus('In Progress')).toBe(false);
+      expect(isFinalCaseStatus('Awaiting decision')).toBe(false);
+      expect(isFinalCaseStatus('')).toBe(false);
+      expect(isFinalCaseStatus(undefined)).toBe(false);
+    });
+  });
+
+  describe('selectCasesToImport', () => {
+    const knownCases = {
+      '101': 'Decided',
+      '102': 'In Progress',
+      '103': 'Closed',
+      '104': ''
+    };
+
+    it('should fetch new and changing cases and skip final ones', () => {
+      const selection = selectCasesToImport(['100', '101', '102', '103', '104', '105'], knownCases);
+
+      expect(selection.caseIds).toEqual(['100', '102', '104', '105']);
+      expect(selection.newCaseIds).toEqual(['100', '105']);
+      expect(selection.refreshedCaseIds).toEqual(['102', '104']);
+      expect(selection.skippedCaseIds).toEqual(['101', '103']);
+    });
+
+    it('should keep repeated candidates once', () => {
+      expect(selectCasesToImport(['100', '102', '100'], knownCases).caseIds).toEqual(['100', '102']);
+    });
+
+    it('should not mistake Object.prototype names for archived cases', () => {
+      expect(selectCasesToImport(['constructor'], {}).newCaseIds).toEqual(['constructor']);
+    });
+  });
+
+  describe('importing a refreshed case', () => {
+    it('should keep only the newest copy in the archive counts and search', () => {
+      const archived = buildSearchIndex([
+        { id: '101', content: 'decided appeal', status: 'Decided' },
+        { id: '102', content: 'pending appeal', status: 'In Progress' }
+      ]);
+      const archiveFacets = buildFacets([archived], ['batch-1']);
+
+      const selection = selectCasesToImport(['101', '102'], archiveFacets.cases!);
+      expect(selection.refreshedCaseIds).toEqual(['102']);
+
+      const imported = buildSearchIndex([{ id: '102', content: 'pending appeal', status: 'Decided', decision_outcome: 'Allowed' }]);
+      expect([...getSupersededBatches(archiveFacets, imported, 'batch-2').keys()]).toEqual(['batch-1']);
+      const facets = mergeFacets(archiveFacets, imported, 'batch-2', { 'batch-1': archived });
+
+      expect(facets.documentCount).toBe(2);
+      expect({ ...facets.fields.status }).toEqual({ Decided: 2 });
+      expect(facets.cases!['102']).toBe('Decided');
+      const copies = [['batch-1', archived], ['batch-2', imported]] as const;
+      const found = copies.filter(([batchId, searchIndex]) =>
+        searchIndex.documentIds.includes('102') && !isSupersededCopy(facets, '102', batchId));
+      expect(found.map(([batchId]) => batchId)).toEqual(['batch-2']);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for cold storage batches kept in IndexedDB
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBatchVersion, getStaleBatchIds, splitCreatedBatches } from '../../../src/utils/persistentBatchStore';
+
+describe('persistentBatchStore', () => {
+  describe('getBatchVersion', () => {
+    it('should prefer the batch checksum over the index update time', () => {
+      expect(getBatchVersion({ checksum: 'abc123' }, '2025-06-29T08:00:00.000Z')).toBe('checksum:abc123');
+      expect(getBatchVersion({}, '2025-06-29T08:00:00.000Z')).toBe('updated:2025-06-29T08:00:00.000Z');
+      expect(getBatchVersion({})).toBe('updated:');
+    });
+  });
+
+  describe('getStaleBatchIds', () => {
+    const lastUpdated = '2025-06-29T08:00:00.000Z';
+    const batches = [
+      { batchId: 'batch-001', checksum: 'aaa' },
+      { batchId: 'batch-002' }
+    ];
+
+    it('should keep batches stored for their current version', () => {
+      const persisted = [
+        { batchId: 'batch-001', version: 'checksum:aaa' },
+        { batchId: 'batch-002', version: `updated:${lastUpdated}` }
+      ];
+
+      expect(getStaleBatchIds(persisted, batches, lastUpdated)).toEqual([]);
+    });
+
+    it('should report changed checksums, newer indexes and removed batches', () => {
+      const persisted = [
+        { batchId: 'batch-001', version: 'checksum:old' },
+        { batchId: 'batch-002', version: 'updated:2025-01-01T00:00:00.000Z' },
+        { batchId: 'batch-003', version: 'checksum:ccc' }
+      ];
+
+      expect(getStaleBatchIds(persisted, batches, lastUpdated)).toEqual(['batch-001', 'batch-002', 'batch-003']);
+    });
+
+    it('should keep a checksummed batch when only the index update time changes', () => {
+      const persisted = [{ batchId: 'batch-001', version: 'checksum:aaa' }];
+
+      expect(getStaleBatchIds(persisted, batches, '2026-01-01T00:00:00.000Z')).toEqual([]);
+    });
+  });
+
+  describe('splitCreatedBatches', () => {
+    const created = [
+      { batchId: 'import-b-encrypted', createdAt: '2026-03-02T00:00:00.000Z' },
+      { batchId: 'import-a-encrypted', createdAt: '2026-03-01T00:00:00.000Z' },
+      { batchId: 'import-c-encrypted', createdAt: '2026-03-03T00:00:00.000Z' }
+    ];
+
+    it('should return unlisted batches oldest first', () => {
+      const { published, pending } = splitCreatedBatches(created, [{ batchId: 'batch-001' }]);
+
+      expect(published).toEqual([]);
+      expect(pending.map(batch => batch.batchId)).toEqual(['import-a-encrypted', 'import-b-encrypted', 'import-c-encrypted']);
+    });
+
+    it('should report batches the published index now lists', () => {
+      const { published, pending } = splitCreatedBatches(created, [{ batchId: 'import-b-encrypted' }]);
+
+      expect(published.map(batch => batch.batchId)).toEqual(['import-b-encrypted']);
+      expect(pending.map(batch => batch.batchId)).toEqual(['import-a-encrypted', 'import-c-encrypted']);
+    });
+
+    it('should not treat batches added from this device as published', () => {
+      const { published, pending } = splitCreatedBatches(
+        created,
+        [{ batchId: 'import-a-encrypted' }],
+        new Set(['import-a-encrypted'])
+      );
+
+      expect(published).toEqual([]);
+      expect(pending).toHaveLength(2);
+    });
+  });
+});
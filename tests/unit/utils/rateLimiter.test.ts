@@ -0,0 +1,248 @@
+/**
+ * Unit Tests for pacing scraping requests
+ *
+ * AIDEV-NOTE: HttpClient requests use axios's Node adapter so they reach the local mock server
+ * instead of the test DOM's XMLHttpRequest
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, it, expect } from 'vitest';
+import { RateLimiter, parseRetryAfter } from '../../../src/utils/rateLimiter';
+import { HttpClient, HttpRequestError, isRetryableRequestError } from '../../../src/services/scraping/HttpClient';
+
+// Clock that only moves when the limiter sleeps
+function createClock() {
+  let time = 0;
+  return {
+    now: () => time,
+    sleep: async (ms: number) => {
+      time += ms;
+    },
+    advance: (ms: number) => {
+      time += ms;
+    }
+  };
+}
+
+describe('rateLimiter', () => {
+  describe('parseRetryAfter', () => {
+    it('should read delays in seconds and HTTP dates', () => {
+      const now = Date.parse('2026-04-01T09:00:00.000Z');
+
+      expect(parseRetryAfter('120', now)).toBe(120000);
+      expect(parseRetryAfter('Wed, 01 Apr 2026 09:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Wed, 01 Apr 2026 08:00:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore missing and malformed values', () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter('')).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('RateLimiter', () => {
+    it('should allow a burst and then pace requests at the steady rate', async () => {
+      const clock = createClock();
+      const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2, minConcurrency: 1, maxConcurrency: 1, ...clock });
+      const startTimes: number[] = [];
+
+      for (let request = 0; request < 5; request++) {
+        await limiter.schedule(async () => startTimes.push(clock.now()));
+      }
+
+      expect(startTimes).toEqual([0, 0, 500, 1000, 1500]);
+    });
+
+    it('should pause for Retry-After and halve the concurrency limit when throttled', async () => {
+      const clock = createClock();
+      const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 10, initialConcurrency: 8, ...clock });
+
+      expect(limiter.throttle(30000)).toBe(30000);
+      expect(limiter.getState()).toMatchObject({ concurrency: 4, pausedUntil: 30000 });
+
+      let startedAt = -1;
+      await limiter.schedule(async () => {
+        startedAt = clock.now();
+      });
+      expect(startedAt).toBeGreaterThanOrEqual(30000);
+    });
+
+    it('should back off exponentially when the server gives no Retry-After', () => {
+      const clock = createClock();
+      const limiter = new RateLimiter({ baseBackoffMs: 1000, maxBackoffMs: 3000, ...clock });
+      const throttleAfterPause = () => {
+        const pausedMs = limiter.throttle(null);
+        clock.advance(pausedMs);
+        return pausedMs;
+      };
+
+      expect([throttleAfterPause(), throttleAfterPause(), throttleAfterPause()]).toEqual([1000, 2000, 3000]);
+    });
+
+    it('should escalate once for every throttled response of one pause', () => {
+      const clock = createClock();
+      const limiter = new RateLimiter({ baseBackoffMs: 1000, initialConcurrency: 8, ...clock });
+
+      expect(limiter.throttle(null)).toBe(1000);
+      clock.advance(100);
+      expect([limiter.throttle(null), limiter.throttle(null)]).toEqual([900, 900]);
+      expect(limiter.throttle(5000)).toBe(5000);
+      expect(limiter.getState()).toMatchObject({ concurrency: 4, pausedUntil: 5100 });
+
+      clock.advance(5000);
+      expect(limiter.throttle(null)).toBe(2000);
+      expect(limiter.getState().concurrency).toBe(2);
+    });
+
+    it('should shrink the concurrency limit when requests time out or fail with server errors', async () => {
+      const clock = createClock();
+      const limiter = new RateLimiter({
+        requestsPerSecond: 1000,
+        burst: 1000,
+        initialConcurrency: 4,
+        maxConcurrency: 4,
+        targetLatencyMs: 100,
+        ...clock
+      });
+      const fail = (latencyMs: number, isOverloadError: (error: unknown) => boolean) => limiter.schedule(async () => {
+        clock.advance(latencyMs);
+        throw new Error('failed');
+      }, isOverloadError).catch(() => undefined);
+
+      for (let request = 0; request < 20; request++) {
+        await fail(10, () => false);
+      }
+      expect(limiter.getState().concurrency).toBe(4);
+
+      for (let request = 0; request < 20; request++) {
+        await fail(10, () => true);
+      }
+      expect(limiter.getState().concurrency).toBe(1);
+    });
+
+    it('should grow concurrency while responses are fast and shrink it when they slow down', async () => {
+      const clock = createClock();
+      const limiter = new RateLimiter({
+        requestsPerSecond: 1000,
+        burst: 1000,
+        initialConcurrency: 2,
+        maxConcurrency: 4,
+        targetLatencyMs: 100,
+        ...clock
+      });
+      const respond = (latencyMs: number) => limiter.schedule(async () => clock.advance(latencyMs));
+
+      for (let request = 0; request < 20; request++) {
+        await respond(10);
+      }
+      expect(limiter.getState().concurrency).toBe(4);
+
+      for (let request = 0; request < 20; request++) {
+        await respond(1000);
+      }
+      expect(limiter.getState().concurrency).toBe(1);
+    });
+
+    it('should never run more requests at once than the concurrency limit', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 1000, burst: 1000, initialConcurrency: 2, maxConcurrency: 2 });
+      let running = 0;
+      let mostRunning = 0;
+
+      await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(async () => {
+        running++;
+        mostRunning = Math.max(mostRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+      })));
+
+      expect(mostRunning).toBe(2);
+    });
+  });
+
+  describe('HttpClient against a local server', () => {
+    let server: Server | null = null;
+
+    afterEach(async () => {
+      await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+      server = null;
+    });
+
+    async function startServer(handler: (request: IncomingMessage, count: number) => { status: number; headers?: Record<string, string>; body?: string }) {
+      let count = 0;
+      server = createServer((request, response) => {
+        const reply = handler(request, ++count);
+        response.writeHead(reply.status, reply.headers);
+        response.end(reply.body ?? '');
+      });
+      await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+      return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+    }
+
+    const nodeAdapter = { adapter: 'http' as const };
+    const createClient = () => new HttpClient({
+      timeoutMs: 5000,
+      userAgent: 'DecisionParser/test (+tests)',
+      rateLimiter: new RateLimiter({ requestsPerSecond: 100, burst: 100 })
+    });
+
+    it('should wait out Retry-After on 429 and send the configured User-Agent', async () => {
+      const seen: Array<{ at: number; userAgent?: string }> = [];
+      const baseUrl = await startServer((request, count) => {
+        seen.push({ at: Date.now(), userAgent: request.headers['user-agent'] });
+        return count === 1
+          ? { status: 429, headers: { 'Retry-After': '1' } }
+          : { status: 200, body: '<html>case</html>' };
+      });
+
+      await expect(createClient().get(`${baseUrl}/ViewCase.aspx?CaseID=1`, nodeAdapter)).resolves.toBe('<html>case</html>');
+      expect(seen).toHaveLength(2);
+      expect(seen[1].at - seen[0].at).toBeGreaterThanOrEqual(950);
+      expect(seen.every(request => request.userAgent === 'DecisionParser/test (+tests)')).toBe(true);
+    });
+
+    it('should pause once for a burst of concurrent 429s', async () => {
+      const seen: number[] = [];
+      const baseUrl = await startServer((_request, count) => {
+        seen.push(Date.now());
+        return count <= 6
+          ? { status: 429, headers: { 'Retry-After': '1' } }
+          : { status: 200, body: '<html>case</html>' };
+      });
+      const rateLimiter = new RateLimiter({ requestsPerSecond: 100, burst: 100, initialConcurrency: 8, maxConcurrency: 8 });
+      const client = new HttpClient({ timeoutMs: 5000, userAgent: 'DecisionParser/test (+tests)', rateLimiter });
+
+      const pages = await Promise.all(Array.from({ length: 6 }, (_, caseId) =>
+        client.get(`${baseUrl}/ViewCase.aspx?CaseID=${caseId}`, nodeAdapter)));
+
+      expect(pages.every(page => page === '<html>case</html>')).toBe(true);
+      expect(seen).toHaveLength(12);
+      // One Retry-After wait, not one per throttled response
+      expect(seen[11] - seen[0]).toBeLessThan(1900);
+      expect(rateLimiter.getState().concurrency).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should fail a 404 at once as not worth retrying', async () => {
+      let requests = 0;
+      const baseUrl = await startServer(() => {
+        requests++;
+        return { status: 404 };
+      });
+
+      const error = await createClient().get(`${baseUrl}/ViewCase.aspx?CaseID=2`, nodeAdapter).catch(caught => caught);
+      expect(error).toBeInstanceOf(HttpRequestError);
+      expect(error.status).toBe(404);
+      expect(isRetryableRequestError(error)).toBe(false);
+      expect(requests).toBe(1);
+    });
+
+    it('should leave server errors to the caller to retry', async () => {
+      const baseUrl = await startServer(() => ({ status: 500 }));
+
+      const error = await createClient().get(`${baseUrl}/ViewCase.aspx?CaseID=3`, nodeAdapter).catch(caught => caught);
+      expect(error.status).toBe(500);
+      expect(isRetryableRequestError(error)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for cold storage stemming and the planning synonym dictionary
+ *
+ * AIDEV-NOTE: Batch indexes store terms grouped by these normalised forms, so a
+ * stemmer change must bump SEARCH_INDEX_VERSION
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_SEARCH_DICTIONARY,
+  getSearchDictionarySignature,
+  getSynonymExpansions,
+  hasSynonyms,
+  normaliseTerm,
+  setSearchDictionary,
+  stemTerm
+} from '../../../src/utils/searchDictionary.js';
+import { buildSearchIndex, extractKeywords, normaliseKeywords, getNormalisedTerms } from '../../../src/utils/searchIndex.js';
+import { evaluateQuery, parseSearchQuery } from '../../../src/utils/searchQuery';
+
+describe('searchDictionary', () => {
+  afterEach(() => {
+    setSearchDictionary(null);
+  });
+
+  describe('stemTerm', () => {
+    it.each([
+      ['caresses', 'caress'],
+      ['ponies', 'poni'],
+      ['hopping', 'hop'],
+      ['filing', 'file'],
+      ['relational', 'relat'],
+      ['generalizations', 'gener'],
+      ['conservation', 'conserv'],
+      ['extensions', 'extens'],
+      ['extended', 'extend'],
+      ['dwellings', 'dwell']
+    ])('should stem %s to %s', (term, expected) => {
+      expect(stemTerm(term)).toBe(expected);
+    });
+
+    it('should keep short terms and terms with digits', () => {
+      expect(stemTerm('pd')).toBe('pd');
+      expect(stemTerm('s106')).toBe('s106');
+    });
+  });
+
+  describe('normaliseTerm', () => {
+    it('should give inflected and synonymous single words one form', () => {
+      expect(normaliseTerm('extensions')).toBe(normaliseTerm('extension'));
+      expect(normaliseTerm('extended')).toBe(normaliseTerm('extension'));
+      expect(normaliseTerm('demolished')).toBe(normaliseTerm('demolition'));
+      expect(normaliseTerm('harm')).not.toBe(normaliseTerm('extension'));
+    });
+  });
+
+  describe('getSynonymExpansions', () => {
+    it('should expand abbreviations to their phrases and back', () => {
+      expect(getSynonymExpansions(['hmo'])).toEqual([['house', 'in', 'multiple', 'occupation']]);
+      expect(getSynonymExpansions(['houses', 'in', 'multiple', 'occupation'])).toEqual([['hmo']]);
+      expect(getSynonymExpansions(['harm'])).toEqual([]);
+      expect(hasSynonyms('pd')).toBe(true);
+    });
+
+    it('should use a configured dictionary instead of the default', () => {
+      const defaultSignature = getSearchDictionarySignature();
+      setSearchDictionary({ version: 1, synonyms: [['ldp', 'local development plan']] });
+
+      expect(getSearchDictionarySignature()).not.toBe(defaultSignature);
+      expect(getSynonymExpansions(['ldp'])).toEqual([['local', 'development', 'plan']]);
+      expect(hasSynonyms('hmo')).toBe(false);
+
+      setSearchDictionary(null);
+      expect(getSearchDictionarySignature()).toBe(defaultSignature);
+      expect(DEFAULT_SEARCH_DICTIONARY.synonyms.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('query evaluation', () => {
+    const documents = [
+      { id: 'doc-1', content: 'The extended dwelling would harm the street scene.' },
+      { id: 'doc-2', content: 'Conversion to a house in multiple occupation was refused.' },
+      { id: 'doc-3', content: 'The HMO licence was updated.' },
+      { id: 'doc-4', content: 'Prior approval under PD rights for a rear extension.' }
+    ];
+    const index = buildSearchIndex(documents);
+    const matchedIds = (query: string) =>
+      Array.from(evaluateQuery(parseSearchQuery(query).root, index).keys()).map(documentIndex => index.documentIds[documentIndex]).sort();
+
+    it('should match stemmed variants of terms and phrase words', () => {
+      expect(matchedIds('extension')).toEqual(['doc-1', 'doc-4']);
+      expect(matchedIds('"houses in multiple occupation"')).toEqual(['doc-2', 'doc-3']);
+    });
+
+    it('should match abbreviations and their expansions both ways', () => {
+      expect(matchedIds('HMO')).toEqual(['doc-2', 'doc-3']);
+      expect(matchedIds('"permitted development rights"')).toEqual(['doc-4']);
+    });
+
+    it('should match short dictionary words exactly, not as substrings', () => {
+      // "pd" must not match "updated"
+      expect(matchedIds('pd')).toEqual(['doc-4']);
+    });
+
+    it('should regroup index terms built with another dictionary', () => {
+      setSearchDictionary({ version: 2, synonyms: [] });
+      expect(getNormalisedTerms(index)[normaliseTerm('extended')]).toEqual(['extended']);
+      expect(matchedIds('"extended"')).toEqual(['doc-1']);
+    });
+  });
+
+  describe('batch keywords', () => {
+    it('should count spellings of a term as one keyword', () => {
+      const keywords = extractKeywords([
+        { content: 'extension extensions extended harm harm' },
+        { content: 'the extension' }
+      ]);
+
+      expect(keywords).toEqual(['extension', 'harm']);
+    });
+
+    it('should lowercase and deduplicate stored keywords by normalised form', () => {
+      expect(normaliseKeywords(['Extensions', 'extension', 'HMO', ''])).toEqual(['extensions', 'hmo']);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Unit Tests for cold storage search filters
+ *
+ * AIDEV-NOTE: The worker filters from index fields and skips batches by dateRange
+ * with these helpers, so a wrong boundary silently drops matching decisions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  batchMayMatchDateRange,
+  combineFilterFacets,
+  createDocumentFilter,
+  describeSearchFilters,
+  getActiveSearchFilters,
+  getDateFilterRange,
+  parseDecisionDate,
+  toFilterFacets,
+  toFilterOptions
+} from '../../../src/utils/searchFilters';
+import type { MetadataFilters } from '../../../src/types';
+
+const noMetadataFilters: MetadataFilters = {
+  lpaNames: [],
+  caseTypes: [],
+  caseOfficers: [],
+  procedures: [],
+  statuses: [],
+  decisionOutcomes: []
+};
+
+const document = (fields: Record<string, string>) => (field: string) => fields[field] || '';
+
+describe('searchFilters', () => {
+  describe('parseDecisionDate', () => {
+    it.each([
+      ['2021-04-15', Date.UTC(2021, 3, 15)],
+      ['2021-04-15T10:30:00.000Z', Date.UTC(2021, 3, 15)],
+      ['15/04/2021', Date.UTC(2021, 3, 15)],
+      ['15 April 2021', Date.UTC(2021, 3, 15)],
+      ['15th April 2021', Date.UTC(2021, 3, 15)]
+    ])('should read %s as a UTC day', (value, expected) => {
+      expect(parseDecisionDate(value)).toBe(expected);
+    });
+
+    it.each(['', 'NOT_FOUND', 'soon', '31/02/2021'])('should reject %j', value => {
+      expect(parseDecisionDate(value)).toBeNull();
+    });
+  });
+
+  describe('getDateFilterRange', () => {
+    it('should not constrain "all" or incomplete filters', () => {
+      expect(getDateFilterRange({ type: 'all' })).toBeNull();
+      expect(getDateFilterRange({ type: 'laterThan', laterThan: '' })).toBeNull();
+      expect(getDateFilterRange({ type: 'range', from: '', to: '' })).toBeNull();
+    });
+
+    it('should exclude the chosen day for later/earlier than and include range ends', () => {
+      const later = getDateFilterRange({ type: 'laterThan', laterThan: '2022-01-01' })!;
+      expect(later.start).toBe(Date.UTC(2022, 0, 2));
+      expect(later.end).toBeNull();
+
+      const earlier = getDateFilterRange({ type: 'earlierThan', earlierThan: '2022-01-01' })!;
+      expect(earlier.end).toBe(Date.UTC(2022, 0, 1) - 1);
+
+      const range = getDateFilterRange({ type: 'range', from: '2022-01-01', to: '2022-12-31' })!;
+      expect(range.start).toBe(Date.UTC(2022, 0, 1));
+      expect(range.end).toBe(Date.UTC(2023, 0, 1) - 1);
+    });
+  });
+
+  describe('batchMayMatchDateRange', () => {
+    const batchDateRange = { start: '2021-01-01T00:00:00.000Z', end: '2021-12-31T23:59:59.999Z' };
+
+    it('should skip batches entirely outside the filter range', () => {
+      expect(batchMayMatchDateRange(batchDateRange, getDateFilterRange({ type: 'laterThan', laterThan: '2021-12-31' })!)).toBe(false);
+      expect(batchMayMatchDateRange(batchDateRange, getDateFilterRange({ type: 'earlierThan', earlierThan: '2021-01-01' })!)).toBe(false);
+    });
+
+    it('should keep overlapping batches, including a shared boundary day', () => {
+      expect(batchMayMatchDateRange(batchDateRange, getDateFilterRange({ type: 'laterThan', laterThan: '2021-12-30' })!)).toBe(true);
+      expect(batchMayMatchDateRange(batchDateRange, getDateFilterRange({ type: 'range', from: '2020-06-01', to: '2021-01-01' })!)).toBe(true);
+    });
+
+    it('should keep batches without a readable date range', () => {
+      const range = getDateFilterRange({ type: 'laterThan', laterThan: '2030-01-01' })!;
+      expect(batchMayMatchDateRange(undefined, range)).toBe(true);
+      expect(batchMayMatchDateRange({ start: 'unknown', end: '' }, range)).toBe(true);
+    });
+  });
+
+  describe('createDocumentFilter', () => {
+    it('should return null when no filter is active', () => {
+      expect(createDocumentFilter({ dateFilter: { type: 'all' }, metadataFilters: noMetadataFilters })).toBeNull();
+    });
+
+    it('should OR values within a category and AND across categories, ignoring case', () => {
+      const filter = createDocumentFilter({
+        metadataFilters: { ...noMetadataFilters, lpaNames: ['Leeds City Council', 'York'], decisionOutcomes: ['Allowed'] }
+      })!;
+
+      expect(filter(document({ lpa_name: 'leeds city council', decision_outcome: 'ALLOWED' }))).toBe(true);
+      expect(filter(document({ lpa_name: 'York', decision_outcome: 'Allowed' }))).toBe(true);
+      expect(filter(document({ lpa_name: 'York', decision_outcome: 'Dismissed' }))).toBe(false);
+      expect(filter(document({ lpa_name: 'Leeds', decision_outcome: 'Allowed' }))).toBe(false);
+    });
+
+    it('should reject undated documents when a date filter is active', () => {
+      const filter = createDocumentFilter({ dateFilter: { type: 'range', from: '2021-01-01', to: '2021-12-31' } })!;
+
+      expect(filter(document({ decision_date: '15/04/2021' }))).toBe(true);
+      expect(filter(document({ decision_date: '2022-06-10' }))).toBe(false);
+      expect(filter(document({}))).toBe(false);
+    });
+  });
+
+  describe('getActiveSearchFilters', () => {
+    it('should drop unconstrained filters and copy the active ones', () => {
+      const metadataFilters = { ...noMetadataFilters, statuses: ['Decided'] };
+      const active = getActiveSearchFilters({ dateFilter: { type: 'all' }, metadataFilters })!;
+
+      expect(active.dateFilter).toBeUndefined();
+      expect(active.metadataFilters?.statuses).toEqual(['Decided']);
+      expect(active.metadataFilters?.statuses).not.toBe(metadataFilters.statuses);
+      expect(getActiveSearchFilters({ metadataFilters: noMetadataFilters })).toBeUndefined();
+    });
+  });
+
+  describe('describeSearchFilters', () => {
+    it('should describe each active filter', () => {
+      expect(describeSearchFilters({
+        dateFilter: { type: 'laterThan', laterThan: '2022-01-01' },
+        metadataFilters: { ...noMetadataFilters, lpaNames: ['Leeds', 'York'] }
+      })).toEqual(['Decided after 2022-01-01', 'LPA: Leeds, York']);
+    });
+  });
+
+  describe('toFilterFacets / toFilterOptions', () => {
+    const facets = {
+      version: 1,
+      documentCount: 3,
+      fields: {
+        lpa_name: { York: 1, 'Leeds City Council': 2 },
+        decision_outcome: { Allowed: 1, Dismissed: 1 }
+      }
+    };
+
+    it('should key facets by filter and sort by count then value', () => {
+      const filterFacets = toFilterFacets(facets);
+
+      expect(filterFacets.lpaNames).toEqual([
+        { value: 'Leeds City Council', count: 2 },
+        { value: 'York', count: 1 }
+      ]);
+      expect(filterFacets.decisionOutcomes.map(facet => facet.value)).toEqual(['Allowed', 'Dismissed']);
+      expect(filterFacets.caseOfficers).toEqual([]);
+    });
+
+    it('should keep selected values that are missing from the facets', () => {
+      const options = toFilterOptions(toFilterFacets(facets), { ...noMetadataFilters, lpaNames: ['Bristol'] });
+
+      expect(options.lpaNames).toEqual(['Leeds City Council', 'York', 'Bristol']);
+      expect(options.statuses).toEqual([]);
+    });
+
+    it('should add up the counts of separate archives', () => {
+      const combined = combineFilterFacets([
+        toFilterFacets(facets),
+        toFilterFacets({ version: 1, documentCount: 2, fields: { lpa_name: { York: 2 } } })
+      ]);
+
+      expect(combined.lpaNames).toEqual([
+        { value: 'York', count: 3 },
+        { value: 'Leeds City Council', count: 2 }
+      ]);
+      expect(combined.decisionOutcomes).toHaveLength(2);
+      expect(combined.statuses).toEqual([]);
+    });
+  });
+});
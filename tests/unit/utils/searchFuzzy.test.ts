@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for typo-tolerant cold storage query correction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSearchIndex } from '../../../src/utils/searchIndex.js';
+import { evaluateQuery, parseSearchQuery } from '../../../src/utils/searchQuery';
+import {
+  correctQuery,
+  editDistance,
+  findTermCorrection,
+  getFuzzySimilarityThreshold,
+  getMatchedCorrections
+} from '../../../src/utils/searchFuzzy';
+
+const dictionary = ['conservation', 'conversation', 'wokingham', 'woking', 'extensions', 'harm', 'farm', 'area'];
+
+describe('searchFuzzy', () => {
+  describe('editDistance', () => {
+    it('should count insertions, deletions, substitutions and transpositions as one edit', () => {
+      expect(editDistance('conservaton', 'conservation')).toBe(1);
+      expect(editDistance('conservationn', 'conservation')).toBe(1);
+      expect(editDistance('consarvation', 'conservation')).toBe(1);
+      expect(editDistance('consevration', 'conservation')).toBe(1);
+      expect(editDistance('harm', 'harm')).toBe(0);
+    });
+
+    it('should stop once the maximum distance is exceeded', () => {
+      expect(editDistance('appeal', 'conservation', 2)).toBe(3);
+    });
+  });
+
+  describe('getFuzzySimilarityThreshold', () => {
+    it('should disable correction at full sensitivity or without a sensitivity', () => {
+      expect(getFuzzySimilarityThreshold(1)).toBeNull();
+      expect(getFuzzySimilarityThreshold(undefined)).toBeNull();
+      expect(getFuzzySimilarityThreshold(0.6)).toBe(0.6);
+    });
+  });
+
+  describe('findTermCorrection', () => {
+    it('should correct common planning typos', () => {
+      expect(findTermCorrection('conservaton', dictionary, 0.6)?.correctedTo).toBe('conservation');
+      expect(findTermCorrection('wokingam', dictionary, 0.6)?.correctedTo).toBe('wokingham');
+    });
+
+    it('should prefer the more common term when edits are equal', () => {
+      const correction = findTermCorrection('convervation', dictionary, 0.6, { conservation: 12, conversation: 3 });
+
+      expect(correction?.correctedTo).toBe('conservation');
+    });
+
+    it('should not correct short terms or terms below the similarity threshold', () => {
+      expect(findTermCorrection('hrm', dictionary, 0)).toBeNull();
+      expect(findTermCorrection('conservaton', dictionary, 0.95)).toBeNull();
+    });
+  });
+
+  describe('correctQuery', () => {
+    it('should rewrite misspelled terms and report the corrections', () => {
+      const { parsedQuery, corrections } = correctQuery(parseSearchQuery('conservaton area'), dictionary, 0.6);
+
+      expect(parsedQuery.terms).toEqual(['conservation', 'area']);
+      expect(corrections).toEqual([{ term: 'conservaton', correctedTo: 'conservation', similarity: 1 - 1 / 12 }]);
+    });
+
+    it('should keep terms that match part of a dictionary term', () => {
+      const { parsedQuery, corrections } = correctQuery(parseSearchQuery('extension'), dictionary, 0.6);
+
+      expect(parsedQuery.terms).toEqual(['extension']);
+      expect(corrections).toEqual([]);
+    });
+
+    it('should leave excluded terms and exact searches alone', () => {
+      const excluded = correctQuery(parseSearchQuery('harm NOT conservaton'), dictionary, 0.6);
+      expect(excluded.corrections).toEqual([]);
+
+      const exact = correctQuery(parseSearchQuery('conservaton'), dictionary, 1);
+      expect(exact.parsedQuery.terms).toEqual(['conservaton']);
+      expect(exact.corrections).toEqual([]);
+    });
+  });
+
+  describe('getMatchedCorrections', () => {
+    it('should keep only corrections whose term matched the document', () => {
+      const index = buildSearchIndex([
+        { id: 'doc-1', content: 'Harm to the conservation area.' },
+        { id: 'doc-2', content: 'Land at Wokingham.' }
+      ]);
+      const { parsedQuery, corrections } = correctQuery(parseSearchQuery('conservaton wokingam'), Object.keys(index.postings), 0.6);
+      const matches = evaluateQuery(parsedQuery.root, index);
+
+      expect(getMatchedCorrections(corrections, parsedQuery, matches.get(0)!.frequencies).map(correction => correction.correctedTo))
+        .toEqual(['conservation']);
+      expect(getMatchedCorrections(corrections, parsedQuery, matches.get(1)!.frequencies).map(correction => correction.correctedTo))
+        .toEqual(['wokingham']);
+    });
+  });
+});
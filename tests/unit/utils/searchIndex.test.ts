@@ -0,0 +1,258 @@
+/**
+ * Unit Tests for the cold storage search index
+ *
+ * AIDEV-NOTE: The worker and the batch scripts share this module, so tokenizer
+ * and posting format changes must keep these expectations in step
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SEARCH_INDEX_VERSION,
+  buildCorpusStats,
+  buildFacets,
+  buildSearchIndex,
+  combineFacets,
+  countDocumentFacets,
+  getAverageDocumentLength,
+  getDocumentFieldValue,
+  getDocumentFrequency,
+  getSupersededBatches,
+  inverseDocumentFrequency,
+  isSupersededCopy,
+  mergeCorpusStats,
+  mergeFacets,
+  scoreBM25,
+  isSearchIndexCompatible,
+  lookupTerm,
+  tokenize,
+  tokenizeQuery,
+  tokenizeWithOffsets
+} from '../../../src/utils/searchIndex.js';
+
+const documents = [
+  { id: 'doc-1', content: 'The rear extension would harm the Conservation Area.' },
+  { id: 'doc-2', content: 'Two extensions were proposed; the extension to the side was allowed.' },
+  { id: 'doc-3', content: 'Parking provision on the site is adequate.' }
+];
+
+describe('searchIndex', () => {
+  describe('tokenize', () => {
+    it('should lowercase and split on non-alphanumeric characters', () => {
+      expect(tokenize('Appeal Ref: APP/B1234/A/21')).toEqual(['appeal', 'ref', 'app', 'b1234', 'a', '21']);
+    });
+
+    it('should report character offsets for each token', () => {
+      expect(tokenizeWithOffsets('Green belt')).toEqual([
+        { term: 'green', start: 0, end: 5 },
+        { term: 'belt', start: 6, end: 10 }
+      ]);
+    });
+
+    it('should drop short and duplicate query terms', () => {
+      expect(tokenizeQuery('an extension to the extension')).toEqual(['extension', 'the']);
+    });
+  });
+
+  describe('buildSearchIndex', () => {
+    it('should record document ids, lengths and term positions', () => {
+      const index = buildSearchIndex(documents);
+
+      expect(index.version).toBe(SEARCH_INDEX_VERSION);
+      expect(index.documentCount).toBe(3);
+      expect(index.documentIds).toEqual(['doc-1', 'doc-2', 'doc-3']);
+      expect(index.documentLengths).toEqual([8, 11, 7]);
+      expect(index.postings.extension).toEqual([[0, 2], [1, 5]]);
+      expect(index.postings.the).toEqual([[0, 0, 5], [1, 4, 7], [2, 3]]);
+    });
+
+    it('should store filterable field values per document', () => {
+      const index = buildSearchIndex([
+        { id: 'doc-a', content: 'x', lpa_name: 'Leeds City Council', decision_outcome: 'NOT_FOUND', metadata: { decisionOutcome: 'Allowed', inspector: 'J Smith', decisionDate: '15 April 2021' } },
+        { id: 'doc-b', content: 'y' }
+      ]);
+
+      expect(index.fields.lpa_name).toEqual(['Leeds City Council', '']);
+      expect(index.fields.decision_outcome).toEqual(['Allowed', '']);
+      expect(index.fields.inspector).toEqual(['J Smith', '']);
+      expect(index.fields.decision_date).toEqual(['15 April 2021', '']);
+      expect(getDocumentFieldValue({ procedure: 'NOT_FOUND' }, 'procedure')).toBe('');
+    });
+
+    it('should survive a JSON round trip for encrypted storage', () => {
+      const index = JSON.parse(JSON.stringify(buildSearchIndex(documents)));
+      expect(isSearchIndexCompatible(index)).toBe(true);
+    });
+
+    it('should reject indexes from another index version', () => {
+      const index = { ...buildSearchIndex(documents), version: SEARCH_INDEX_VERSION + 1 };
+      expect(isSearchIndexCompatible(index)).toBe(false);
+      expect(isSearchIndexCompatible(null)).toBe(false);
+    });
+  });
+
+  describe('lookupTerm', () => {
+    it('should merge positions from every dictionary term containing the query term', () => {
+      const index = buildSearchIndex(documents);
+      const matches = lookupTerm(index, 'extension');
+
+      expect(Array.from(matches.keys()).sort()).toEqual([0, 1]);
+      expect(matches.get(1)).toEqual([1, 5]);
+    });
+
+    it('should match every term containing the query term, however short', () => {
+      const index = buildSearchIndex([{ id: 'doc-x', content: 'railroad crossing near the road' }]);
+
+      expect(Array.from(lookupTerm(index, 'road').keys())).toEqual([0]);
+      expect(lookupTerm(index, 'road').get(0)).toEqual([0, 4]);
+      expect(lookupTerm(index, 'ro').get(0)).toEqual([0, 1, 4]);
+    });
+
+    it('should return no matches for unknown terms', () => {
+      const index = buildSearchIndex(documents);
+      expect(lookupTerm(index, 'basement').size).toBe(0);
+    });
+  });
+
+  describe('corpus statistics', () => {
+    it('should aggregate document counts, lengths and frequencies across batches', () => {
+      const stats = buildCorpusStats([
+        buildSearchIndex(documents.slice(0, 2)),
+        buildSearchIndex(documents.slice(2))
+      ]);
+
+      expect(stats.documentCount).toBe(3);
+      expect(stats.totalDocumentLength).toBe(26);
+      expect(stats.documentFrequencies.the).toBe(3);
+      expect(getAverageDocumentLength(stats)).toBeCloseTo(26 / 3);
+    });
+
+    it('should not be confused by terms named like Object.prototype members', () => {
+      const stats = mergeCorpusStats(null, buildSearchIndex([{ id: 'doc-x', content: 'constructor toString' }]));
+      expect(stats.documentFrequencies.constructor).toBe(1);
+      expect(stats.documentFrequencies.tostring).toBe(1);
+    });
+
+    it('should count each document with any variant of the query term once', () => {
+      const stats = buildCorpusStats([buildSearchIndex(documents.slice(0, 1)), buildSearchIndex(documents.slice(1))]);
+      expect(getDocumentFrequency(stats, 'extension')).toBe(2);
+      expect(getDocumentFrequency(stats, 'extensions')).toBe(2);
+      expect(getDocumentFrequency(stats, 'basement')).toBe(0);
+      expect(getDocumentFrequency(null, 'extension')).toBe(0);
+    });
+
+    it('should fall back to the most frequent variant for statistics without normalised counts', () => {
+      const { normalisedFrequencies, dictionarySignature, ...published } = buildCorpusStats([buildSearchIndex(documents)]);
+
+      expect(getDocumentFrequency(published, 'extensions')).toBe(2);
+      expect(mergeCorpusStats(published, buildSearchIndex(documents)).normalisedFrequencies).toBeUndefined();
+    });
+  });
+
+  describe('BM25 scoring', () => {
+    it('should weight rare terms above common terms', () => {
+      expect(inverseDocumentFrequency(100, 1)).toBeGreaterThan(inverseDocumentFrequency(100, 90));
+      expect(inverseDocumentFrequency(100, 100)).toBeGreaterThan(0);
+    });
+
+    it('should saturate term frequency and penalise long documents', () => {
+      const idf = inverseDocumentFrequency(10, 2);
+
+      expect(scoreBM25(0, 10, 10, idf)).toBe(0);
+      expect(scoreBM25(2, 10, 10, idf)).toBeGreaterThan(scoreBM25(1, 10, 10, idf));
+      expect(scoreBM25(20, 10, 10, idf) / scoreBM25(10, 10, 10, idf)).toBeLessThan(1.1);
+      expect(scoreBM25(1, 5, 10, idf)).toBeGreaterThan(scoreBM25(1, 40, 10, idf));
+    });
+  });
+
+  describe('facets', () => {
+    const facetDocuments = [
+      { id: 'doc-a', content: 'a', lpa_name: 'Leeds City Council', status: 'Decided', decision_outcome: 'Allowed' },
+      { id: 'doc-b', content: 'b', lpa_name: 'Leeds City Council', status: 'Decided', decision_outcome: 'Dismissed' },
+      { id: 'doc-c', content: 'c', lpa_name: 'York', status: 'NOT_FOUND' }
+    ];
+
+    it('should count distinct field values across batch indexes', () => {
+      const facets = buildFacets([
+        buildSearchIndex(facetDocuments.slice(0, 2)),
+        buildSearchIndex(facetDocuments.slice(2))
+      ]);
+
+      expect(facets.documentCount).toBe(3);
+      expect({ ...facets.fields.lpa_name }).toEqual({ 'Leeds City Council': 2, York: 1 });
+      expect({ ...facets.fields.status }).toEqual({ Decided: 2 });
+      expect({ ...facets.fields.decision_outcome }).toEqual({ Allowed: 1, Dismissed: 1 });
+    });
+
+    it('should merge from index fields and from documents identically', () => {
+      const { cases, caseBatches, ...fromIndex } = mergeFacets(null, buildSearchIndex(facetDocuments));
+      const fromDocuments = countDocumentFacets(facetDocuments);
+
+      expect(JSON.parse(JSON.stringify(fromIndex))).toEqual(JSON.parse(JSON.stringify(fromDocuments)));
+      expect(fromDocuments.cases).toBeUndefined();
+    });
+
+    it('should map each archived document to its latest status', () => {
+      const facets = mergeFacets(
+        buildFacets([buildSearchIndex(facetDocuments)]),
+        buildSearchIndex([{ id: 'doc-c', content: 'c', status: 'Decided' }])
+      );
+
+      expect({ ...facets.cases }).toEqual({ 'doc-a': 'Decided', 'doc-b': 'Decided', 'doc-c': 'Decided' });
+    });
+
+    it('should count a refreshed case once, from its newest batch', () => {
+      const facets = buildFacets([
+        buildSearchIndex(facetDocuments),
+        buildSearchIndex([{ id: 'doc-c', content: 'c', lpa_name: 'York', status: 'Decided', decision_outcome: 'Allowed' }])
+      ], ['batch-1', 'batch-2']);
+
+      expect(facets.documentCount).toBe(3);
+      expect({ ...facets.fields.status }).toEqual({ Decided: 3 });
+      expect({ ...facets.fields.decision_outcome }).toEqual({ Allowed: 2, Dismissed: 1 });
+      expect({ ...facets.fields.lpa_name }).toEqual({ 'Leeds City Council': 2, York: 1 });
+      expect(isSupersededCopy(facets, 'doc-c', 'batch-1')).toBe(true);
+      expect(isSupersededCopy(facets, 'doc-c', 'batch-2')).toBe(false);
+      expect(isSupersededCopy(facets, 'doc-a', 'batch-1')).toBe(false);
+    });
+
+    it('should list the older batches a batch supersedes', () => {
+      const facets = buildFacets([buildSearchIndex(facetDocuments)], ['batch-1']);
+      const refreshed = buildSearchIndex([{ id: 'doc-b', content: 'b' }, { id: 'doc-d', content: 'd' }]);
+
+      expect(getSupersededBatches(facets, refreshed, 'batch-2')).toEqual(new Map([['batch-1', ['doc-b']]]));
+      expect(getSupersededBatches(facets, refreshed, 'batch-1').size).toBe(0);
+      expect(getSupersededBatches(countDocumentFacets(facetDocuments), refreshed, 'batch-2').size).toBe(0);
+    });
+
+    it('should not hide any copy of a case merged without a batch id', () => {
+      const facets = mergeFacets(
+        buildFacets([buildSearchIndex(facetDocuments)], ['batch-1']),
+        buildSearchIndex([{ id: 'doc-c', content: 'c', status: 'Decided' }])
+      );
+
+      expect(isSupersededCopy(facets, 'doc-c', 'batch-1')).toBe(false);
+      expect(facets.documentCount).toBe(4);
+    });
+
+    it('should not start a case map for facets published without one', () => {
+      const { cases, ...published } = buildFacets([buildSearchIndex(facetDocuments)]);
+
+      expect(mergeFacets(published, buildSearchIndex(facetDocuments)).cases).toBeUndefined();
+    });
+
+    it('should sum facet counts of disjoint result shards', () => {
+      const combined = combineFacets([
+        countDocumentFacets(facetDocuments.slice(0, 1)),
+        null,
+        countDocumentFacets(facetDocuments.slice(1))
+      ]);
+
+      expect(JSON.parse(JSON.stringify(combined))).toEqual(JSON.parse(JSON.stringify(countDocumentFacets(facetDocuments))));
+    });
+
+    it('should not collide with Object.prototype names', () => {
+      const facets = countDocumentFacets([{ case_officer: 'constructor' }]);
+      expect(facets.fields.case_officer.constructor).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for sorting and paging cold storage search hits
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RESULT_PAGE_SIZE,
+  getResultPage,
+  getShardPageRange,
+  mergeResultPages,
+  sortSearchResults
+} from '../../../src/utils/searchPaging';
+
+const hits = [
+  { id: 'a', relevance: 2, decision_date: '2021-04-15' },
+  { id: 'b', relevance: 5, decision_date: '' },
+  { id: 'c', relevance: 3, metadata: { decisionDate: '01/02/2023' } },
+  { id: 'd', relevance: 1, decision_date: '2019-11-30' },
+  { id: 'e', relevance: 4, decision_date: 'NOT_FOUND' }
+];
+
+const ids = (results: Array<{ id: string }>) => results.map(result => result.id);
+
+describe('searchPaging', () => {
+  describe('sortSearchResults', () => {
+    it('should sort by relevance, best first by default', () => {
+      expect(ids(sortSearchResults(hits))).toEqual(['b', 'e', 'c', 'a', 'd']);
+      expect(ids(sortSearchResults(hits, 'relevance', 'asc'))).toEqual(['d', 'a', 'c', 'e', 'b']);
+    });
+
+    it('should sort by decision date with undated hits last in either order', () => {
+      expect(ids(sortSearchResults(hits, 'date', 'desc'))).toEqual(['c', 'a', 'd', 'b', 'e']);
+      expect(ids(sortSearchResults(hits, 'date', 'asc'))).toEqual(['d', 'a', 'c', 'b', 'e']);
+    });
+
+    it('should not modify the input', () => {
+      sortSearchResults(hits, 'date');
+      expect(ids(hits)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+  });
+
+  describe('getResultPage', () => {
+    const sorted = Array.from({ length: 120 }, (_, index) => ({ id: `hit-${index}` }));
+
+    it('should default to the first page of the historic page size', () => {
+      const page = getResultPage(sorted);
+
+      expect(page.results).toHaveLength(DEFAULT_RESULT_PAGE_SIZE);
+      expect(page.offset).toBe(0);
+      expect(page.total).toBe(120);
+      expect(page.nextOffset).toBe(DEFAULT_RESULT_PAGE_SIZE);
+      expect(page.sortBy).toBe('relevance');
+      expect(page.sortOrder).toBe('desc');
+    });
+
+    it('should end with a null next offset on the last page', () => {
+      const page = getResultPage(sorted, { offset: 100, limit: 50, sortBy: 'date', sortOrder: 'asc' });
+
+      expect(ids(page.results)).toEqual(ids(sorted.slice(100)));
+      expect(page.nextOffset).toBeNull();
+      expect(page.sortBy).toBe('date');
+      expect(page.sortOrder).toBe('asc');
+    });
+
+    it('should clamp out-of-range offsets and limits', () => {
+      expect(getResultPage(sorted, { offset: 500 }).results).toEqual([]);
+      expect(getResultPage(sorted, { offset: -5, limit: 0 }).results).toEqual([sorted[0]]);
+    });
+  });
+
+  describe('getShardPageRange / mergeResultPages', () => {
+    // Hits 0-19 by descending relevance, dealt out to three shards
+    const allHits = Array.from({ length: 20 }, (_, index) => ({ id: `hit-${index}`, relevance: 20 - index }));
+    const shards = [0, 1, 2].map(shard => allHits.filter((_, index) => index % 3 === shard));
+
+    const shardPage = (hits: typeof allHits, offset: number, limit: number) => ({
+      ...getResultPage(hits, { offset, limit }),
+      query: 'appeal'
+    });
+
+    it('should let a single shard serve the page itself', () => {
+      expect(getShardPageRange(1, { offset: 10, limit: 5 })).toEqual({ offset: 10, limit: 5 });
+      expect(getShardPageRange(3, { offset: 10, limit: 5 })).toEqual({ offset: 0, limit: 15 });
+      expect(getShardPageRange(2)).toEqual({ offset: 0, limit: DEFAULT_RESULT_PAGE_SIZE });
+    });
+
+    it('should merge shard pages into the page of one search over every shard', () => {
+      const options = { offset: 5, limit: 5 };
+      const { offset, limit } = getShardPageRange(shards.length, options);
+      const page = mergeResultPages(shards.map(hits => shardPage(hits, offset, limit)), options);
+
+      expect(ids(page.results)).toEqual(ids(allHits.slice(5, 10)));
+      expect(page.total).toBe(20);
+      expect(page.nextOffset).toBe(10);
+      expect(page.query).toBe('appeal');
+    });
+
+    it('should end with a null next offset on the last merged page', () => {
+      const options = { offset: 15, limit: 10 };
+      const { offset, limit } = getShardPageRange(shards.length, options);
+      const page = mergeResultPages(shards.map(hits => shardPage(hits, offset, limit)), options);
+
+      expect(ids(page.results)).toEqual(ids(allHits.slice(15)));
+      expect(page.nextOffset).toBeNull();
+    });
+
+    it('should pass a single shard page through unchanged', () => {
+      const page = mergeResultPages([shardPage(allHits, 10, 5)], { offset: 10, limit: 5 });
+
+      expect(ids(page.results)).toEqual(ids(allHits.slice(10, 15)));
+      expect(page.offset).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Unit Tests for the cold storage query parser and evaluator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSearchIndex } from '../../../src/utils/searchIndex.js';
+import {
+  buildQuerySnippet,
+  evaluateQuery,
+  getHighlightTerms,
+  getScoringClauses,
+  parseSearchQuery,
+  SearchQuerySyntaxError
+} from '../../../src/utils/searchQuery';
+
+const documents = [
+  { id: 'doc-1', content: 'The development would cause harm to the character and appearance of the area.', lpa_name: 'Leeds City Council', decision_outcome: 'Allowed' },
+  { id: 'doc-2', content: 'The character of the area and its appearance would cause no harm.', lpa_name: 'Bradford Council', decision_outcome: 'Allowed' },
+  { id: 'doc-3', content: 'The council cannot demonstrate a five year housing land supply.' },
+  { id: 'doc-4', content: 'Green belt openness would be reduced; very special circumstances do not exist in this green belt case.' },
+  { id: 'doc-5', content: 'The HMO would provide adequate parking. Appeal dismissed.' },
+  { id: 'doc-6', content: 'A house in multiple occupation with no parking was allowed.' }
+];
+
+const index = buildSearchIndex(documents);
+
+describe('searchQuery', () => {
+  describe('parseSearchQuery', () => {
+    it('should keep short words inside quoted phrases', () => {
+      const parsed = parseSearchQuery('"harm to the character and appearance"');
+
+      expect(parsed.root).toEqual({
+        type: 'phrase',
+        terms: ['harm', 'to', 'the', 'character', 'and', 'appearance']
+      });
+    });
+
+    it('should OR separate clauses and drop short bare terms', () => {
+      const parsed = parseSearchQuery('an appeal "land supply"');
+
+      expect(parsed.root).toEqual({
+        type: 'or',
+        children: [
+          { type: 'term', term: 'appeal' },
+          { type: 'phrase', terms: ['land', 'supply'] }
+        ]
+      });
+      expect(parsed.terms).toEqual(['appeal', 'land', 'supply']);
+    });
+
+    it('should bind NEAR/n to the adjacent operands', () => {
+      const parsed = parseSearchQuery('"green belt" NEAR/10 openness');
+
+      expect(parsed.root).toEqual({
+        type: 'near',
+        left: { type: 'phrase', terms: ['green', 'belt'] },
+        right: { type: 'term', term: 'openness' },
+        distance: 10
+      });
+    });
+
+    it('should parse Boolean operators with grouping and precedence', () => {
+      const parsed = parseSearchQuery('(HMO OR "house in multiple occupation") AND parking NOT dismissed');
+
+      expect(parsed.root).toEqual({
+        type: 'and',
+        children: [
+          {
+            type: 'or',
+            children: [
+              { type: 'term', term: 'hmo' },
+              { type: 'phrase', terms: ['house', 'in', 'multiple', 'occupation'] }
+            ]
+          },
+          { type: 'term', term: 'parking' },
+          { type: 'not', child: { type: 'term', term: 'dismissed' } }
+        ]
+      });
+      expect(parsed.terms).toEqual(['hmo', 'house', 'in', 'multiple', 'occupation', 'parking']);
+    });
+
+    it('should turn implicitly joined field clauses into filters on the free text', () => {
+      const parsed = parseSearchQuery('lpa:"Leeds City Council" outcome:allowed basement');
+
+      expect(parsed.root).toEqual({
+        type: 'and',
+        children: [
+          { type: 'field', field: 'lpa_name', terms: ['leeds', 'city', 'council'] },
+          { type: 'field', field: 'decision_outcome', terms: ['allowed'] },
+          { type: 'term', term: 'basement' }
+        ]
+      });
+      expect(parsed.terms).toEqual(['basement']);
+    });
+
+    it('should keep explicit OR between field clauses and ignore unknown prefixes', () => {
+      expect(parseSearchQuery('lpa:leeds OR lpa:bradford').root).toEqual({
+        type: 'or',
+        children: [
+          { type: 'field', field: 'lpa_name', terms: ['leeds'] },
+          { type: 'field', field: 'lpa_name', terms: ['bradford'] }
+        ]
+      });
+      expect(parseSearchQuery('Ref:APP').root).toEqual({ type: 'phrase', terms: ['ref', 'app'] });
+    });
+
+    it('should treat lower case operators as search terms', () => {
+      expect(parseSearchQuery('parking and access').root).toEqual({
+        type: 'or',
+        children: [
+          { type: 'term', term: 'parking' },
+          { type: 'term', term: 'and' },
+          { type: 'term', term: 'access' }
+        ]
+      });
+      expect(parseSearchQuery('   ').root).toBeNull();
+    });
+
+    it.each([
+      ['"housing land', 'Missing closing quote', 0],
+      ['(parking OR access', 'Missing closing parenthesis', 0],
+      ['parking)', 'Unexpected closing parenthesis', 7],
+      ['AND parking', 'AND must follow a term', 0],
+      ['parking OR', 'OR must be followed by a term', 10],
+      ['()', 'Empty parentheses', 0],
+      ['lpa: leeds', 'lpa: must be followed by a value', 0],
+      ['openness NEAR/5 (belt AND green)', 'NEAR/5 can only join terms, phrases or OR groups', 9]
+    ])('should report a syntax error for %s', (query, message, position) => {
+      try {
+        parseSearchQuery(query);
+        expect.unreachable('expected a syntax error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(SearchQuerySyntaxError);
+        expect((error as SearchQuerySyntaxError).message).toContain(message);
+        expect((error as SearchQuerySyntaxError).position).toBe(position);
+      }
+    });
+  });
+
+  describe('getHighlightTerms', () => {
+    it('should keep positive terms and drop Boolean syntax', () => {
+      expect(getHighlightTerms('HMO OR parking')).toEqual(['hmo', 'parking']);
+      expect(getHighlightTerms('(HMO AND parking) NOT garage')).toEqual(['hmo', 'parking']);
+      expect(getHighlightTerms('"green belt" NEAR/5 openness')).toEqual(['green', 'belt', 'openness']);
+    });
+
+    it('should highlight field clause values', () => {
+      expect(getHighlightTerms('lpa:Bristol outcome:"allowed"')).toEqual(['bristol', 'allowed']);
+    });
+
+    it('should fall back to plain words for a query that does not parse', () => {
+      expect(getHighlightTerms('"green belt')).toEqual(['green', 'belt']);
+    });
+  });
+
+  describe('evaluateQuery', () => {
+    it('should match phrases only when the terms are consecutive', () => {
+      const matches = evaluateQuery(parseSearchQuery('"harm to the character and appearance"').root, index);
+
+      expect(Array.from(matches.keys())).toEqual([0]);
+      expect(matches.get(0)!.spans).toEqual([[4, 9]]);
+    });
+
+    it('should match NEAR in either order within the distance', () => {
+      const near = evaluateQuery(parseSearchQuery('openness NEAR/2 "green belt"').root, index);
+      const tooFar = evaluateQuery(parseSearchQuery('housing NEAR/1 council').root, index);
+
+      expect(near.get(3)!.spans).toEqual([[0, 2]]);
+      expect(tooFar.size).toBe(0);
+    });
+
+    it('should intersect AND clauses and exclude NOT clauses', () => {
+      const matches = evaluateQuery(
+        parseSearchQuery('(HMO OR "house in multiple occupation") AND parking NOT dismissed').root,
+        index
+      );
+
+      expect(Array.from(matches.keys())).toEqual([5]);
+      expect(matches.get(5)!.frequencies.has('dismissed')).toBe(false);
+    });
+
+    it('should filter by field values before ranking the free text', () => {
+      const filtered = evaluateQuery(parseSearchQuery('lpa:leeds outcome:allowed character').root, index);
+      const fieldOnly = evaluateQuery(parseSearchQuery('outcome:allowed').root, index);
+
+      expect(Array.from(filtered.keys())).toEqual([0]);
+      expect(Array.from(filtered.get(0)!.frequencies.keys())).toEqual(['character']);
+      expect(Array.from(fieldOnly.keys()).sort()).toEqual([0, 1]);
+    });
+
+    it('should match every other document for a purely negative query', () => {
+      const matches = evaluateQuery(parseSearchQuery('NOT parking').root, index);
+      expect(Array.from(matches.keys()).sort()).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should count frequencies per scoring clause', () => {
+      const parsed = parseSearchQuery('"green belt" harm');
+      const matches = evaluateQuery(parsed.root, index);
+
+      expect(getScoringClauses(parsed.root).map(clause => clause.key)).toEqual(['"green belt"', 'harm']);
+      expect(matches.get(3)!.frequencies.get('"green belt"')).toBe(2);
+      expect(matches.get(0)!.frequencies.get('harm')).toBe(1);
+    });
+  });
+
+  describe('buildQuerySnippet', () => {
+    it('should mark the whole phrase span', () => {
+      const matches = evaluateQuery(parseSearchQuery('"five year housing land supply"').root, index);
+      const snippet = buildQuerySnippet(documents[2].content, matches.get(2)!.spans);
+
+      expect(snippet).toBe('The council cannot demonstrate a <mark>five year housing land supply</mark>.');
+    });
+
+    it('should fall back to the start of the content without spans', () => {
+      expect(buildQuerySnippet('Short content', [])).toBe('Short content...');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for the storage-index.json schema and manifest payload
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  STORAGE_INDEX_VERSION,
+  StorageIndexError,
+  assertValidStorageIndex,
+  getManifestPayload,
+  getStorageIndexProblems,
+  isOlderStorageIndex
+} from '../../../src/utils/storageIndexSchema';
+
+const createBatch = (overrides: Record<string, any> = {}) => ({
+  batchId: 'batch-001-encrypted',
+  url: '/decision-parser/cold-storage/batch-001-encrypted.json',
+  documentCount: 3,
+  dateRange: { start: '2021-01-01T00:00:00.000Z', end: '2023-08-15T23:59:59.999Z' },
+  keywords: ['planning', 'appeal'],
+  size: '8KB',
+  encrypted: true,
+  checksum: 'c7e0e945ad480b328673d874404a784211352b4ae9ceb42b15dbabb1839a166f',
+  ...overrides
+});
+
+const createIndex = (overrides: Record<string, any> = {}) => ({
+  version: STORAGE_INDEX_VERSION,
+  totalDocuments: 3,
+  totalBatches: 1,
+  lastUpdated: '2025-06-29T08:00:00.000Z',
+  batches: [createBatch()],
+  manifest: { algorithm: 'HMAC-SHA256', salt: 'c2FsdA==', signature: 'ab'.repeat(32) },
+  ...overrides
+});
+
+describe('storageIndexSchema', () => {
+  describe('getStorageIndexProblems', () => {
+    it('should accept a valid index', () => {
+      expect(getStorageIndexProblems(createIndex())).toEqual([]);
+    });
+
+    it('should reject anything that is not an object', () => {
+      expect(getStorageIndexProblems(null)).toEqual(['storage index is not a JSON object']);
+      expect(getStorageIndexProblems([])).toEqual(['storage index is not a JSON object']);
+    });
+
+    it('should reject unsupported versions and a missing batch list', () => {
+      const problems = getStorageIndexProblems(createIndex({ version: '1.1', batches: undefined }));
+
+      expect(problems).toContain(`unsupported version "1.1" (expected "${STORAGE_INDEX_VERSION}")`);
+      expect(problems).toContain('batches must be a list');
+    });
+
+    it('should reject unencrypted batches and batches without a checksum', () => {
+      const problems = getStorageIndexProblems(createIndex({
+        batches: [createBatch({ encrypted: false, checksum: undefined })]
+      }));
+
+      expect(problems).toEqual([
+        'batches[0] is not encrypted',
+        'batches[0].checksum must be a SHA-256 hex digest'
+      ]);
+    });
+
+    it('should reject counts that do not match the batch list', () => {
+      const problems = getStorageIndexProblems(createIndex({ totalDocuments: 5, totalBatches: 2 }));
+
+      expect(problems).toEqual([
+        'totalDocuments is 5 but the batches hold 3',
+        'totalBatches is 2 but 1 batches are listed'
+      ]);
+    });
+
+    it('should reject duplicate batch ids', () => {
+      const problems = getStorageIndexProblems(createIndex({
+        totalDocuments: 6,
+        totalBatches: 2,
+        batches: [createBatch(), createBatch()]
+      }));
+
+      expect(problems).toEqual(['batches[1].batchId batch-001-encrypted is listed twice']);
+    });
+
+    it('should reject unencrypted sections and malformed manifests', () => {
+      const problems = getStorageIndexProblems(createIndex({
+        corpusStats: { documentCount: 3 },
+        manifest: { algorithm: 'SHA-1', salt: 'c2FsdA==', signature: 'ab' }
+      }));
+
+      expect(problems).toEqual([
+        'corpusStats is not an encrypted section',
+        'manifest must have a salt and an HMAC-SHA256 signature'
+      ]);
+    });
+  });
+
+  describe('assertValidStorageIndex', () => {
+    it('should throw an invalid StorageIndexError naming the first problems', () => {
+      let thrown: unknown;
+      try {
+        assertValidStorageIndex(createIndex({ version: '1.0', totalDocuments: -1, lastUpdated: 'soon', batches: 'none' }));
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(StorageIndexError);
+      expect((thrown as StorageIndexError).reason).toBe('invalid');
+      expect((thrown as Error).message).toContain('unsupported version "1.0"');
+      expect((thrown as Error).message).toContain('(and 1 more)');
+    });
+
+    it('should flag an index in the previous signed format as stale', () => {
+      let thrown: unknown;
+      try {
+        assertValidStorageIndex(createIndex({ version: '2.0' }));
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(StorageIndexError);
+      expect((thrown as StorageIndexError).reason).toBe('stale');
+      expect((thrown as Error).message).toContain('republish');
+    });
+
+    it('should not throw for a valid index', () => {
+      expect(() => assertValidStorageIndex(createIndex())).not.toThrow();
+    });
+  });
+
+  describe('getManifestPayload', () => {
+    it('should cover the batch list but not the manifest or encrypted sections', () => {
+      const index = createIndex();
+      const payload = getManifestPayload(index);
+
+      expect(getManifestPayload({ ...index, manifest: undefined, corpusStats: { salt: 'x', iv: 'y', data: 'z' } } as any)).toBe(payload);
+      expect(JSON.parse(payload)).toEqual({
+        version: STORAGE_INDEX_VERSION,
+        lastUpdated: '2025-06-29T08:00:00.000Z',
+        totalDocuments: 3,
+        batches: [{
+          batchId: 'batch-001-encrypted',
+          url: '/decision-parser/cold-storage/batch-001-encrypted.json',
+          documentCount: 3,
+          dateRange: { start: '2021-01-01T00:00:00.000Z', end: '2023-08-15T23:59:59.999Z' },
+          keywords: ['planning', 'appeal'],
+          checksum: 'c7e0e945ad480b328673d874404a784211352b4ae9ceb42b15dbabb1839a166f'
+        }]
+      });
+    });
+
+    it('should change when a batch checksum, URL, count, date range or keywords change', () => {
+      const payload = getManifestPayload(createIndex());
+
+      expect(getManifestPayload(createIndex({ batches: [createBatch({ checksum: 'f'.repeat(64) })] }))).not.toBe(payload);
+      expect(getManifestPayload(createIndex({ batches: [createBatch({ url: '/elsewhere.json' })] }))).not.toBe(payload);
+      expect(getManifestPayload(createIndex({ batches: [createBatch({ documentCount: 4 })] }))).not.toBe(payload);
+      // Date-filtered searches skip batches by dateRange, keyword pre-filtering by keywords
+      expect(getManifestPayload(createIndex({
+        batches: [createBatch({ dateRange: { start: '1990-01-01T00:00:00.000Z', end: '1990-12-31T23:59:59.999Z' } })]
+      }))).not.toBe(payload);
+      expect(getManifestPayload(createIndex({ batches: [createBatch({ keywords: ['planning'] })] }))).not.toBe(payload);
+    });
+  });
+
+  describe('isOlderStorageIndex', () => {
+    it('should only flag indexes published before the newest verified one', () => {
+      expect(isOlderStorageIndex('2025-06-01T00:00:00.000Z', '2025-06-29T08:00:00.000Z')).toBe(true);
+      expect(isOlderStorageIndex('2025-06-29T08:00:00.000Z', '2025-06-29T08:00:00.000Z')).toBe(false);
+      expect(isOlderStorageIndex('2025-07-01T00:00:00.000Z', '2025-06-29T08:00:00.000Z')).toBe(false);
+      expect(isOlderStorageIndex('2025-06-01T00:00:00.000Z', null)).toBe(false);
+    });
+  });
+});
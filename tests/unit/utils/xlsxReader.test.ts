@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for reading case reference workbooks
+ *
+ * AIDEV-NOTE: Workbooks are built as uncompressed zips here; deflated parts go through the
+ * browser's DecompressionStream in the same code path once stored
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getColumnIndex, readXlsxRows } from '../../../src/utils/xlsxReader';
+
+function createZip(files: Record<string, string>): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local);
+    centralParts.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centralParts.length, true);
+  endView.setUint16(10, centralParts.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip.buffer;
+}
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+
+describe('xlsxReader', () => {
+  describe('getColumnIndex', () => {
+    it('should convert cell references to zero-based columns', () => {
+      expect(getColumnIndex('A1')).toBe(0);
+      expect(getColumnIndex('Z9')).toBe(25);
+      expect(getColumnIndex('AB12')).toBe(27);
+      expect(getColumnIndex(null)).toBe(-1);
+    });
+  });
+
+  describe('readXlsxRows', () => {
+    it('should read the first sheet with shared, inline and numeric cells', async () => {
+      const workbook = createZip({
+        'xl/workbook.xml': `<workbook ${NS} xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Cases" sheetId="1" r:id="rId2"/></sheets></workbook>`,
+        'xl/_rels/workbook.xml.rels': '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId2" Target="worksheets/cases.xml"/></Relationships>',
+        'xl/sharedStrings.xml': `<sst ${NS}><si><t>Case Ref</t></si><si><r><t>Lee</t></r><r><t>ds</t></r></si></sst>`,
+        'xl/worksheets/cases.xml': `<worksheet ${NS}><sheetData>` +
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>LPA</t></is></c></row>' +
+          '<row r="3"><c r="A3"><v>3300001</v></c><c r="C3" t="s"><v>1</v></c></row>' +
+          '<row r="4"/>' +
+          '</sheetData></worksheet>'
+      });
+
+      expect(await readXlsxRows(workbook)).toEqual([
+        ['Case Ref', '', 'LPA'],
+        ['3300001', '', 'Leeds']
+      ]);
+    });
+
+    it('should reject files that are not zip archives', async () => {
+      await expect(readXlsxRows(new TextEncoder().encode('case_id\n3300001\n'.repeat(4)).buffer))
+        .rejects.toThrow('Not an .xlsx workbook');
+    });
+  });
+});
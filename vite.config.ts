@@ -1,10 +1,41 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import { resolve } from 'path'
+import { createHash } from 'crypto'
+
+/**
+ * Emit precache-manifest.json listing the built app shell for public/sw.js
+ * AIDEV-NOTE: The version changes with every build that changes a file name, which is
+ * how the service worker knows to replace its shell cache. Cold storage batches are
+ * cached on demand instead and source maps are never precached.
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter(fileName => !fileName.endsWith('.map') && !fileName.startsWith('cold-storage/'))
+        .sort()
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 16)
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify({ version, files }, null, 2)
+      })
+    }
+  }
+}
+
+// AIDEV-NOTE: Forks hosted under another path build with BASE_PATH=/their-path/ - the app
+// reads it back as import.meta.env.BASE_URL, and public/runtime-config.js can move archives
+const base = process.env.BASE_PATH || '/decision-parser/'
 
 export default defineConfig({
-  base: '/decision-parser/',
-  plugins: [vue()],
+  base,
+  plugins: [vue(), precacheManifest()],
   resolve: {
     alias: {
       '@': resolve(__dirname, 'src')
@@ -153,8 +184,8 @@ export default defineConfig({
     'import.meta.env.PDFJS_WORKER_SRC': JSON.stringify('https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.10.38/pdf.worker.min.mjs'),
     
     // AIDEV-NOTE: Future SQLite WASM configuration (when migration is complete)
-    'import.meta.env.SQLJS_WASM_URL': JSON.stringify('/decision-parser/sql-wasm/sql-wasm.wasm'),
-    'import.meta.env.COLD_STORAGE_BASE': JSON.stringify('/decision-parser/cold-storage/'),
+    'import.meta.env.SQLJS_WASM_URL': JSON.stringify(`${base}sql-wasm/sql-wasm.wasm`),
+    'import.meta.env.COLD_STORAGE_BASE': JSON.stringify(`${base}cold-storage/`),
     
     // AIDEV-NOTE: Performance configuration for new architecture
     'import.meta.env.MEMORY_WARNING_THRESHOLD': JSON.stringify(200 * 1024 * 1024), // 200MB